@@ -0,0 +1,18 @@
+-- Migration 010: API key scope enforcement
+-- Attributes SDK traffic to the API key that made each call
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  id TEXT PRIMARY KEY,
+  key_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_key ON api_key_usage(key_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_user ON api_key_usage(user_id, created_at);
+
+-- Sessions created through an API key
+ALTER TABLE sessions ADD COLUMN api_key_id TEXT;
@@ -0,0 +1,21 @@
+-- Migration 011: Tool approvals
+-- Persists pending human-in-the-loop approvals for tools flagged requires_approval
+
+CREATE TABLE IF NOT EXISTS tool_approvals (
+  id TEXT PRIMARY KEY,
+  tool_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  user_id TEXT,
+  tool_call_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  input_params TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  result TEXT,
+  expires_at TEXT NOT NULL,
+  decided_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_approvals_session ON tool_approvals(session_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_approvals_call ON tool_approvals(session_id, tool_call_id);
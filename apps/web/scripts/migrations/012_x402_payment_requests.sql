@@ -0,0 +1,19 @@
+-- Migration 012: x402 payment requests
+-- Stores each issued 402 so submitted transactions are verified against it
+
+CREATE TABLE IF NOT EXISTS payment_requests (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  session_id TEXT,
+  amount INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USDC',
+  recipient TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  description TEXT,
+  expires_at TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_requests_session ON payment_requests(session_id, created_at);
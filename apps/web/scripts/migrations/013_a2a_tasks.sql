@@ -0,0 +1,19 @@
+-- Migration 013: A2A tasks
+-- Persists A2A tasks so tasks/get and tasks/cancel reflect real, asynchronous state
+
+CREATE TABLE IF NOT EXISTS a2a_tasks (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  caller_user_id TEXT,
+  state TEXT NOT NULL DEFAULT 'submitted',
+  status_message TEXT,
+  history TEXT NOT NULL DEFAULT '[]',
+  artifacts TEXT NOT NULL DEFAULT '[]',
+  metadata TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_a2a_tasks_agent ON a2a_tasks(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_a2a_tasks_session ON a2a_tasks(session_id);
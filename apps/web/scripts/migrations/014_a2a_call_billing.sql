@@ -0,0 +1,9 @@
+-- Migration 014: A2A call billing
+-- Records who made each A2A call (API key, session or x402 payer) alongside the transaction
+
+ALTER TABLE transactions ADD COLUMN caller_type TEXT; -- 'api_key' | 'session' | 'x402'
+ALTER TABLE transactions ADD COLUMN caller_id TEXT;   -- user ID, or payer wallet for x402
+ALTER TABLE transactions ADD COLUMN api_key_id TEXT;
+ALTER TABLE transactions ADD COLUMN a2a_task_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_caller ON transactions(caller_type, caller_id, created_at);
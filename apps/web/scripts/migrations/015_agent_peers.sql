@@ -0,0 +1,21 @@
+-- Migration 015: Remote A2A peers
+-- External A2A agents an owner allows call_agent to reach, with a per-call price cap
+
+CREATE TABLE IF NOT EXISTS agent_peers (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  card_url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  endpoint_url TEXT NOT NULL,
+  auth_headers TEXT, -- encrypted JSON, e.g. an API key for the peer's platform
+  max_price_cents INTEGER NOT NULL DEFAULT 0, -- 0 = free peers only
+  is_active INTEGER NOT NULL DEFAULT 1,
+  last_verified_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_peers_card ON agent_peers(agent_id, card_url);
+
+-- Remote hops are logged against the endpoint they reached
+ALTER TABLE tool_executions ADD COLUMN remote_endpoint TEXT;
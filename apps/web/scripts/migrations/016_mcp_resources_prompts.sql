@@ -0,0 +1,12 @@
+-- Migration 016: MCP resources and prompts
+-- Discovery caches a server's resources and prompts next to its tools.
+-- Attached resources are knowledge-base documents (metadata.mcpServerId, source_url = resource URI);
+-- attached prompts are skills linked back to their server.
+
+ALTER TABLE mcp_servers ADD COLUMN cached_resources TEXT;
+ALTER TABLE mcp_servers ADD COLUMN cached_prompts TEXT;
+
+ALTER TABLE agent_skills ADD COLUMN mcp_server_id TEXT;
+ALTER TABLE agent_skills ADD COLUMN mcp_prompt_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_agent_skills_mcp ON agent_skills(mcp_server_id);
@@ -0,0 +1,8 @@
+-- Migration 017: OAuth 2.1 for MCP servers
+-- Servers with auth_type 'oauth' send a bearer token obtained through the MCP
+-- authorization flow. oauth_config holds the encrypted client registration,
+-- endpoints and tokens; needs_reauth is set when a refresh fails.
+
+ALTER TABLE mcp_servers ADD COLUMN auth_type TEXT NOT NULL DEFAULT 'headers';
+ALTER TABLE mcp_servers ADD COLUMN oauth_config TEXT;
+ALTER TABLE mcp_servers ADD COLUMN needs_reauth INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,26 @@
+-- Migration 018: Scheduled MCP re-discovery
+-- A cron job re-discovers every active MCP server. Differences from the tools
+-- in agent_tools are recorded in mcp_tool_changes: removals are applied at once,
+-- while new tools and changed definitions wait for the owner's review.
+-- mcp_servers gains health fields for the edit page.
+
+ALTER TABLE mcp_servers ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE mcp_servers ADD COLUMN last_latency_ms INTEGER;
+ALTER TABLE mcp_servers ADD COLUMN last_checked_at TEXT;
+
+CREATE TABLE IF NOT EXISTS mcp_tool_changes (
+  id TEXT PRIMARY KEY,
+  server_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  change_type TEXT NOT NULL, -- 'added' | 'removed' | 'changed'
+  previous_definition TEXT,
+  new_definition TEXT,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending' | 'approved' | 'rejected' | 'applied' | 'superseded'
+  reviewed_by TEXT,
+  reviewed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_changes_server ON mcp_tool_changes(server_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_changes_pending ON mcp_tool_changes(server_id, tool_name, status);
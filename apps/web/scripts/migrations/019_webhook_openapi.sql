@@ -0,0 +1,6 @@
+-- Migration 019: OpenAPI-imported webhook tools
+-- webhook_config (JSON) records where each tool parameter goes (path, query,
+-- header or body) and which webhook_headers entries are sent as query
+-- parameters. It is written when tools are imported from an OpenAPI document.
+
+ALTER TABLE agent_tools ADD COLUMN webhook_config TEXT;
@@ -0,0 +1,7 @@
+-- Migration 020: Signed webhook requests
+-- Each webhook tool gets an encrypted HMAC-SHA256 signing secret. Requests
+-- carry X-Straits-Signature over the timestamp, nonce and body so receivers can
+-- verify the call came from Straits. Tools created before this migration are
+-- unsigned until the owner rotates the secret.
+
+ALTER TABLE agent_tools ADD COLUMN signing_secret TEXT;
@@ -0,0 +1,8 @@
+-- Migration 021: Tool response mapping and output schemas
+-- Webhook and MCP tools can shape their results before the model sees them:
+-- response_mapping holds { extract, fields, template } and output_schema a
+-- JSON Schema the mapped result must match. Results that fail the schema are
+-- logged in tool_executions with status 'invalid_output'.
+
+ALTER TABLE agent_tools ADD COLUMN response_mapping TEXT;
+ALTER TABLE agent_tools ADD COLUMN output_schema TEXT;
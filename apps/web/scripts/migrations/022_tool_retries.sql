@@ -0,0 +1,8 @@
+-- Migration 022: Tool retries and circuit breaking
+-- retry_policy (JSON) overrides the default retry policy for webhook and MCP
+-- tools: { maxAttempts, baseDelayMs, maxDelayMs, retryUnsafeMethods }.
+-- tool_executions.attempts records how many attempts a call took. Circuit
+-- breaker state lives in KV (tool-breaker:<toolId>, tool-breakers:<agentId>).
+
+ALTER TABLE agent_tools ADD COLUMN retry_policy TEXT;
+ALTER TABLE tool_executions ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;
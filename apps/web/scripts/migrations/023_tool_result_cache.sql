@@ -0,0 +1,13 @@
+-- Migration 023: Tool result caching
+-- Webhook and MCP tools can cache successful results in KV for
+-- cache_ttl_seconds (60-86400; NULL disables). cache_vary_by_user keys
+-- entries by user (or session for anonymous callers). Purging bumps
+-- cache_generation. tool_executions.cache_hit marks calls served from the
+-- cache; they do not count towards the tool's rate limit.
+
+ALTER TABLE agent_tools ADD COLUMN cache_ttl_seconds INTEGER;
+ALTER TABLE agent_tools ADD COLUMN cache_vary_by_user INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE agent_tools ADD COLUMN cache_generation INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tool_executions ADD COLUMN cache_hit INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_tool_executions_cache ON tool_executions(tool_id, cache_hit, created_at);
@@ -0,0 +1,7 @@
+-- Migration 024: Agent tool budgets
+-- Tool rate limits moved from COUNT(*) queries on tool_executions to KV
+-- counters, keyed by user, or by session and client IP for anonymous callers.
+-- tool_budget_per_min caps tool calls per minute across all of an agent's
+-- tools and callers (NULL uses the default of 300; 0 disables the budget).
+
+ALTER TABLE agents ADD COLUMN tool_budget_per_min INTEGER;
@@ -0,0 +1,9 @@
+-- Migration 025: Rolling session summaries
+-- Older turns of long sessions are folded into sessions.summary by a fast
+-- model. summary_through is the created_at of the newest folded message;
+-- later messages are sent verbatim until the next fold.
+
+ALTER TABLE sessions ADD COLUMN summary TEXT;
+ALTER TABLE sessions ADD COLUMN summary_through TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_session_created ON messages(session_id, created_at);
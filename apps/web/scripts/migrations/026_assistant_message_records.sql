@@ -0,0 +1,15 @@
+-- Migration 026: Server-side assistant message records
+-- /api/chat saves the assistant reply when the stream finishes, with the
+-- tool calls it made (JSON, shaped like ToolCall in @straits/core), the model,
+-- token usage and latency. tool_executions.message_id links each tool
+-- execution to the reply it belongs to.
+
+ALTER TABLE messages ADD COLUMN tool_calls TEXT;
+ALTER TABLE messages ADD COLUMN model_id TEXT;
+ALTER TABLE messages ADD COLUMN prompt_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN completion_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN latency_ms INTEGER;
+ALTER TABLE messages ADD COLUMN finish_reason TEXT;
+ALTER TABLE tool_executions ADD COLUMN message_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tool_executions_message ON tool_executions(message_id);
@@ -0,0 +1,28 @@
+-- Migration 027: Inference ledger
+-- Platform-key inference is billed by token usage instead of a flat fee per
+-- query. Each request reserves an estimate from the creator's balance and is
+-- settled against the provider-reported usage when it finishes. Costs are in
+-- micro-USD; users.embedded_balance (cents) may now hold fractional values.
+-- BYOK requests are recorded with zero cost.
+
+CREATE TABLE IF NOT EXISTS inference_ledger (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  owner_id TEXT,
+  session_id TEXT,
+  message_id TEXT,
+  model_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  is_byok INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER,
+  cached_prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  reserved_micros INTEGER NOT NULL DEFAULT 0,
+  cost_micros INTEGER,
+  status TEXT NOT NULL DEFAULT 'reserved', -- reserved | settled | refunded
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  settled_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_inference_ledger_owner ON inference_ledger(owner_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_inference_ledger_agent ON inference_ledger(agent_id, created_at);
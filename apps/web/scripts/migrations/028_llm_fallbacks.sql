@@ -0,0 +1,6 @@
+-- Migration 028: Model fallback chains
+-- Ordered fallbacks tried after the agent's primary model when it fails with
+-- a retryable error before producing output. JSON array of
+-- {"source": "byok" | "platform", "model"?: string}, at most 3 entries.
+
+ALTER TABLE agents ADD COLUMN llm_fallbacks TEXT;
@@ -0,0 +1,5 @@
+-- Migration 029: A2A task payers
+-- Tasks started by an x402 caller (no API key) are owned by the payer wallet
+-- (lowercase), so only that wallet can get, cancel or resubscribe to them.
+
+ALTER TABLE a2a_tasks ADD COLUMN caller_address TEXT;
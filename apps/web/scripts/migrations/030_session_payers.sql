@@ -0,0 +1,5 @@
+-- Migration 030: Session payers
+-- A2A sessions opened by an x402 caller (no API key) are owned by the payer
+-- wallet (lowercase), so only that wallet can continue them or read their history.
+
+ALTER TABLE sessions ADD COLUMN caller_address TEXT;
@@ -7,8 +7,9 @@
 import { getDB } from "@/lib/db";
 import { getAgentSkillsSummary } from "@/lib/skills";
 import { NextResponse } from "next/server";
-import { getChainConfig, isSupportedChain, type SupportedChainId } from "@/lib/smart-account/config";
+import { isSupportedChain, type SupportedChainId } from "@/lib/smart-account/config";
 import { getContractAddresses } from "@/lib/contracts";
+import { buildX402Requirements } from "@/lib/a2a-payments";
 
 const BASE_URL = "https://straits-agents-web.mystraits-ai.workers.dev";
 
@@ -47,12 +48,14 @@ export async function GET(
 
     const agentPath = agent.slug || agent.id;
     const agentChainId = (agent.chain_id || 421614) as SupportedChainId;
-    const chainConfig = isSupportedChain(agentChainId) ? getChainConfig(agentChainId) : getChainConfig(421614);
     const contracts = isSupportedChain(agentChainId) ? getContractAddresses(agentChainId as import("@/lib/contracts").ChainId) : getContractAddresses(421614);
 
     // Load skills summary
     const skills = await getAgentSkillsSummary(agent.id);
 
+    // Same requirements the A2A endpoint checks X-Payment headers against
+    const x402 = buildX402Requirements(agent);
+
     // Build A2A Agent Card
     const card = {
       name: agent.name,
@@ -69,20 +72,11 @@ export async function GET(
         description: s.description,
         tags: s.tags,
       })),
+      // Callers authenticate with an API key (a2a:invoke) or pay per call via x402
       authentication: {
-        schemes: agent.pricing_type === "per-query" ? ["x402"] : [],
+        schemes: x402 ? ["bearer", "x402"] : ["bearer"],
       },
-      // x402 payment info (if paid agent)
-      ...(agent.pricing_type === "per-query" && {
-        x402: {
-          network: chainConfig.name.toLowerCase().replace(/\s+/g, "-"),
-          chainId: agentChainId,
-          asset: "USDC",
-          assetAddress: chainConfig.usdcAddress,
-          pricePerQuery: agent.price_per_query,
-          payee: agent.agent_wallet,
-        },
-      }),
+      ...(x402 && { x402 }),
       // ERC-8004 on-chain identity
       erc8004: {
         chainId: agentChainId,
@@ -0,0 +1,57 @@
+/**
+ * A2A Task File Download
+ * Serves files that callers attached to A2A tasks (stored in R2).
+ * Files follow their task's visibility: only the caller that started the
+ * task can download them (x402 callers send a signed X-Payment header).
+ */
+
+import { getDB } from "@/lib/db";
+import { authenticateRequest } from "@/lib/apiAuth";
+import { getTask, canAccessTask } from "@/lib/a2a-tasks";
+import { paymentSigner } from "@/lib/a2a-payments";
+import { getTaskFile } from "@/lib/a2a-files";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; fileId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request, "a2a:invoke");
+    if (authError) return authError;
+
+    const { agentId, fileId } = await params;
+    const db = await getDB();
+
+    const agent = await db
+      .prepare("SELECT id FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1")
+      .bind(agentId, agentId)
+      .first<{ id: string }>();
+
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const file = await getTaskFile(agent.id, fileId);
+    const task = file ? await getTask(file.taskId, agent.id, 0) : null;
+
+    const caller = {
+      userId: auth?.userId ?? null,
+      address: auth ? null : await paymentSigner(request.headers.get("X-Payment")),
+    };
+    if (!file || !task || !canAccessTask(task, caller)) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return new Response(file.body as unknown as ReadableStream, {
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Disposition": `attachment; filename="${file.name.replace(/["\\\r\n]/g, "_")}"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch A2A file:", error);
+    return NextResponse.json({ error: "Failed to fetch file" }, { status: 500 });
+  }
+}
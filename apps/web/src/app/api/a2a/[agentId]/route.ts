@@ -1,13 +1,49 @@
 /**
  * A2A JSON-RPC Endpoint
  * Implements the Google A2A protocol's JSON-RPC 2.0 methods:
- * - tasks/send: Send a message to the agent (creates a session, runs chat pipeline)
- * - tasks/get: Check task status
- * - tasks/cancel: Cancel a running task
+ * - tasks/send: Send a message to the agent (persists a task, runs the chat pipeline in the background).
+ *   Reusing a sessionId continues the conversation; reusing the taskId of a task
+ *   in input-required answers the agent's question.
+ * - tasks/get: Poll task status, history and artifacts
+ * - tasks/cancel: Cancel a running task (aborts the LLM call)
+ * - tasks/sendSubscribe: Like tasks/send, streaming task events over SSE
+ * - tasks/resubscribe: Re-attach to a task's event stream after a disconnect
+ *
+ * Methods that run the agent require an API key or a signed x402 payment
+ * (X-Payment header) matching the Agent Card; see lib/a2a-payments.ts.
  */
 
 import { getDB } from "@/lib/db";
-import { executeChatPipeline } from "@/lib/chat-engine";
+import { authenticateRequest, type RequestAuth } from "@/lib/apiAuth";
+import {
+  createTask,
+  resumeTask,
+  getTask,
+  canOpenSession,
+  openSession,
+  loadSessionMessages,
+  appendSessionMessage,
+  startTask,
+  cancelTask,
+  watchTask,
+  canAccessTask,
+  type A2ATask,
+  type TaskCaller,
+  type A2APart,
+  type TaskEvent,
+  type TaskEventSink,
+} from "@/lib/a2a-tasks";
+import {
+  authorizeA2ACall,
+  recordA2ACall,
+  releaseA2ACall,
+  paymentSigner,
+  A2AAuthError,
+  type A2ABillingAgent,
+  type A2ACaller,
+} from "@/lib/a2a-payments";
+import { prepareInboundParts, storeInboundFiles, A2APartError, type PreparedParts } from "@/lib/a2a-files";
+import { getClientIp } from "@/lib/rate-limit";
 import { NextResponse } from "next/server";
 import type { Message } from "ai";
 
@@ -22,7 +58,7 @@ interface JsonRpcRequest {
 
 interface A2AMessage {
   role: "user" | "assistant";
-  parts: Array<{ type: "text"; text: string }>;
+  parts: A2APart[];
 }
 
 interface TaskSendParams {
@@ -34,6 +70,7 @@ interface TaskSendParams {
 
 interface TaskGetParams {
   taskId: string;
+  historyLength?: number;
 }
 
 // ─── Main Handler ───────────────────────────────────────────────────────────
@@ -45,6 +82,10 @@ export async function POST(
   try {
     const { agentId } = await params;
 
+    // Callers may authenticate with an API key scoped for A2A
+    const { auth, error: authError } = await authenticateRequest(request, "a2a:invoke");
+    if (authError) return authError;
+
     // Parse JSON-RPC request
     let rpcRequest: JsonRpcRequest;
     try {
@@ -60,22 +101,35 @@ export async function POST(
     // Resolve agent
     const db = await getDB();
     const agent = await db
-      .prepare("SELECT id, name FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1")
+      .prepare(
+        `SELECT id, name, pricing_type, price_per_query, agent_wallet, chain_id
+         FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1`
+      )
       .bind(agentId, agentId)
-      .first<{ id: string; name: string }>();
+      .first<A2ABillingAgent & { name: string }>();
 
     if (!agent) {
       return jsonRpcError(rpcRequest.id, -32001, "Agent not found");
     }
 
+    // x402 callers are identified by the wallet that signs their X-Payment header
+    const caller: TaskCaller = {
+      userId: auth?.userId ?? null,
+      address: auth ? null : await paymentSigner(request.headers.get("X-Payment")),
+    };
+
     // Route to handler
     switch (rpcRequest.method) {
       case "tasks/send":
-        return handleTasksSend(rpcRequest, agent.id);
+        return handleTasksSend(rpcRequest, agent, auth, caller, request);
       case "tasks/get":
-        return handleTasksGet(rpcRequest, agent.id);
+        return handleTasksGet(rpcRequest, agent.id, caller);
       case "tasks/cancel":
-        return handleTasksCancel(rpcRequest, agent.id);
+        return handleTasksCancel(rpcRequest, agent.id, caller);
+      case "tasks/sendSubscribe":
+        return handleTasksSendSubscribe(rpcRequest, agent, auth, caller, request);
+      case "tasks/resubscribe":
+        return handleTasksResubscribe(rpcRequest, agent.id, caller);
       default:
         return jsonRpcError(rpcRequest.id, -32601, `Method not found: ${rpcRequest.method}`);
     }
@@ -87,132 +141,331 @@ export async function POST(
 
 // ─── tasks/send ─────────────────────────────────────────────────────────────
 
-async function handleTasksSend(rpc: JsonRpcRequest, resolvedAgentId: string) {
+async function handleTasksSend(
+  rpc: JsonRpcRequest,
+  agent: A2ABillingAgent,
+  auth: RequestAuth | null,
+  caller: TaskCaller,
+  request: Request
+) {
+  const prepared = await prepareTask(rpc, agent, auth, caller, request);
+  if (prepared instanceof NextResponse) return prepared;
+
+  // Returns immediately in the working state; callers poll tasks/get
+  const { task: running } = await startTask(prepared.task, prepared.input);
+
+  return jsonRpcResult(rpc.id, running);
+}
+
+// ─── tasks/sendSubscribe ────────────────────────────────────────────────────
+
+async function handleTasksSendSubscribe(
+  rpc: JsonRpcRequest,
+  agent: A2ABillingAgent,
+  auth: RequestAuth | null,
+  caller: TaskCaller,
+  request: Request
+) {
+  const prepared = await prepareTask(rpc, agent, auth, caller, request);
+  if (prepared instanceof NextResponse) return prepared;
+
+  return streamTaskEvents(rpc.id, async (emit) => {
+    const { done } = await startTask(prepared.task, prepared.input, emit);
+    await done;
+  });
+}
+
+// ─── tasks/resubscribe ──────────────────────────────────────────────────────
+
+async function handleTasksResubscribe(rpc: JsonRpcRequest, resolvedAgentId: string, caller: TaskCaller) {
+  const params = rpc.params as unknown as TaskGetParams;
+
+  if (!params.taskId) {
+    return jsonRpcError(rpc.id, -32602, "Missing taskId");
+  }
+
+  const task = await getTask(params.taskId, resolvedAgentId, 0);
+  if (!task || !canAccessTask(task, caller)) {
+    return jsonRpcError(rpc.id, -32001, `Task not found: ${params.taskId}`);
+  }
+
+  return streamTaskEvents(rpc.id, (emit) => watchTask(params.taskId, resolvedAgentId, emit));
+}
+
+/**
+ * Validate a tasks/send or tasks/sendSubscribe call, authorize and record
+ * the caller, and persist the task. The model sees the session's earlier
+ * turns followed by the new message.
+ */
+async function prepareTask(
+  rpc: JsonRpcRequest,
+  agent: A2ABillingAgent,
+  auth: RequestAuth | null,
+  taskCaller: TaskCaller,
+  request: Request
+): Promise<NextResponse | { task: A2ATask; input: Parameters<typeof startTask>[1] }> {
   const params = rpc.params as unknown as TaskSendParams;
+  const resolvedAgentId = agent.id;
 
-  if (!params.message || !params.message.parts) {
+  if (!params.message || !Array.isArray(params.message.parts)) {
     return jsonRpcError(rpc.id, -32602, "Missing message with parts");
   }
 
-  // Extract text from parts
-  const textParts = params.message.parts.filter((p) => p.type === "text");
-  const messageContent = textParts.map((p) => p.text).join("\n");
-
-  if (!messageContent) {
-    return jsonRpcError(rpc.id, -32602, "No text content in message");
+  const hasContent = params.message.parts.some(
+    (p) => (p.type === "text" && p.text) || p.type === "file" || p.type === "data"
+  );
+  if (!hasContent) {
+    return jsonRpcError(rpc.id, -32602, "No text, file or data content in message");
   }
 
   const taskId = params.taskId || crypto.randomUUID();
-  const sessionId = params.sessionId || crypto.randomUUID();
 
-  // Build messages for pipeline
+  const existing = await getTask(taskId, resolvedAgentId, 0);
+  if (existing) {
+    if (!canAccessTask(existing, taskCaller) || existing.status.state !== "input-required") {
+      return jsonRpcError(rpc.id, -32602, `Task already exists: ${taskId}`);
+    }
+    if (params.sessionId && params.sessionId !== existing.sessionId) {
+      return jsonRpcError(rpc.id, -32602, `Task ${taskId} belongs to another session`);
+    }
+  }
+
+  // The session row is only created once the caller is authorized
+  const sessionId = existing?.sessionId || params.sessionId || crypto.randomUUID();
+  if (!existing && !(await canOpenSession(sessionId, resolvedAgentId, taskCaller))) {
+    return jsonRpcError(rpc.id, -32602, `Session not found: ${sessionId}`);
+  }
+
+  // Files are read and checked before the caller is authorized, so a bad part
+  // cannot use up a payment. They are written to R2 once the task row exists.
+  let prepared: PreparedParts;
+  try {
+    prepared = await prepareInboundParts(params.message.parts, {
+      agentId: resolvedAgentId,
+      taskId,
+      baseUrl: new URL(request.url).origin,
+    });
+  } catch (error) {
+    if (error instanceof A2APartError) {
+      return jsonRpcError(rpc.id, -32602, error.message);
+    }
+    throw error;
+  }
+
+  // Every call that runs the agent is paid for or attributed to a caller
+  let caller: A2ACaller;
+  try {
+    caller = await authorizeA2ACall(
+      agent,
+      auth,
+      request.headers.get("X-Payment"),
+      request.url,
+      getClientIp(request),
+      sessionId
+    );
+  } catch (error) {
+    if (error instanceof A2AAuthError) {
+      return jsonRpcError(rpc.id, error.code, error.message, error.data);
+    }
+    throw error;
+  }
+  const callerAddress = caller.type === "x402" ? caller.payerAddress.toLowerCase() : null;
+
+  if (!existing) {
+    const opened = await openSession(sessionId, resolvedAgentId, {
+      userId: auth?.userId ?? null,
+      keyId: auth?.keyId ?? null,
+      address: callerAddress,
+    });
+    if (!opened) {
+      // Taken by another caller since the check above
+      await releaseA2ACall(caller, null);
+      return jsonRpcError(rpc.id, -32602, `Session not found: ${sessionId}`);
+    }
+  }
+
+  let transactionId: string;
+  try {
+    transactionId = await recordA2ACall(caller, agent, taskId, sessionId);
+  } catch (error) {
+    if (error instanceof A2AAuthError) {
+      return jsonRpcError(rpc.id, error.code, error.message, error.data);
+    }
+    throw error;
+  }
+
+  const message = { role: "user" as const, parts: prepared.parts };
+
+  let task: A2ATask;
+  if (existing) {
+    // Only a task waiting on the caller can take another message
+    const resumed = await resumeTask(taskId, resolvedAgentId, message);
+    if (!resumed) {
+      // Another message answered it first; the payment can be presented again
+      await releaseA2ACall(caller, transactionId);
+      return jsonRpcError(rpc.id, -32602, `Task already exists: ${taskId}`);
+    }
+    task = resumed;
+  } else {
+    task = await createTask({
+      taskId,
+      agentId: resolvedAgentId,
+      sessionId,
+      callerUserId: auth?.userId ?? null,
+      callerAddress,
+      message,
+      metadata: params.metadata,
+    });
+  }
+  await storeInboundFiles(prepared);
+
+  // Build messages for pipeline from the session so far
+  const history = await loadSessionMessages(task.sessionId);
   const messages: Message[] = [
-    { id: `a2a-${taskId}`, role: "user", content: messageContent },
+    ...history,
+    {
+      id: `a2a-${taskId}-${history.length}`,
+      role: "user",
+      content: prepared.content,
+      ...(prepared.attachments.length > 0 && { experimental_attachments: prepared.attachments }),
+    },
   ];
+  await appendSessionMessage(task.sessionId, "user", prepared.content);
 
   // Extract caller metadata
   const callDepth = typeof params.metadata?.callDepth === "number" ? params.metadata.callDepth : 0;
   const callChain = Array.isArray(params.metadata?.callChain) ? params.metadata.callChain as string[] : [];
 
-  try {
-    // Execute chat pipeline (non-streaming for A2A)
-    const result = await executeChatPipeline({
+  return {
+    task,
+    input: {
       agentId: resolvedAgentId,
+      userId: auth?.userId ?? null,
       messages,
-      sessionId,
-      userId: null, // A2A calls are agent-to-agent, no human user
       callDepth: callDepth + 1,
       callChain,
-      useRag: true,
-      stream: false,
-    });
+    },
+  };
+}
 
-    const responseText = result.text || "";
+// ─── tasks/get ──────────────────────────────────────────────────────────────
 
-    // Build A2A response
-    return NextResponse.json({
-      jsonrpc: "2.0",
-      id: rpc.id,
-      result: {
-        taskId,
-        sessionId,
-        status: { state: "completed" },
-        artifacts: [
-          {
-            parts: [{ type: "text", text: responseText }],
-          },
-        ],
-        ...(result.citations.length > 0 && {
-          metadata: {
-            citations: result.citations.map((c) => ({
-              title: c.title,
-              excerpt: c.content.slice(0, 200),
-              score: c.score,
-            })),
-          },
-        }),
-      },
-    });
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : "Pipeline error";
-    console.error("A2A tasks/send error:", msg);
+async function handleTasksGet(rpc: JsonRpcRequest, resolvedAgentId: string, caller: TaskCaller) {
+  const params = rpc.params as unknown as TaskGetParams;
 
-    return NextResponse.json({
-      jsonrpc: "2.0",
-      id: rpc.id,
-      result: {
-        taskId,
-        sessionId,
-        status: {
-          state: "failed",
-          message: { role: "agent", parts: [{ type: "text", text: msg }] },
-        },
-      },
-    });
+  if (!params.taskId) {
+    return jsonRpcError(rpc.id, -32602, "Missing taskId");
   }
+
+  const historyLength = typeof params.historyLength === "number" ? params.historyLength : undefined;
+  const task = await getTask(params.taskId, resolvedAgentId, historyLength);
+
+  if (!task || !canAccessTask(task, caller)) {
+    return jsonRpcError(rpc.id, -32001, `Task not found: ${params.taskId}`);
+  }
+
+  const { callerUserId: _callerUserId, callerAddress: _callerAddress, ...result } = task;
+  return jsonRpcResult(rpc.id, result);
 }
 
-// ─── tasks/get ──────────────────────────────────────────────────────────────
+// ─── tasks/cancel ───────────────────────────────────────────────────────────
 
-async function handleTasksGet(rpc: JsonRpcRequest, resolvedAgentId: string) {
+async function handleTasksCancel(rpc: JsonRpcRequest, resolvedAgentId: string, caller: TaskCaller) {
   const params = rpc.params as unknown as TaskGetParams;
 
   if (!params.taskId) {
     return jsonRpcError(rpc.id, -32602, "Missing taskId");
   }
 
-  // For now, tasks are synchronous — they complete immediately.
-  // In the future, this could query a task store for async operations.
-  return NextResponse.json({
-    jsonrpc: "2.0",
-    id: rpc.id,
-    result: {
-      taskId: params.taskId,
-      status: { state: "completed" },
-    },
-  });
+  const task = await getTask(params.taskId, resolvedAgentId);
+  if (!task || !canAccessTask(task, caller)) {
+    return jsonRpcError(rpc.id, -32001, `Task not found: ${params.taskId}`);
+  }
+
+  const canceled = await cancelTask(params.taskId);
+  if (!canceled) {
+    return jsonRpcError(rpc.id, -32002, `Task cannot be canceled in state: ${task.status.state}`);
+  }
+
+  const updated = await getTask(params.taskId, resolvedAgentId);
+  const { callerUserId: _callerUserId, callerAddress: _callerAddress, ...result } = updated!;
+  return jsonRpcResult(rpc.id, result);
 }
 
-// ─── tasks/cancel ───────────────────────────────────────────────────────────
+// ─── JSON-RPC Helpers ───────────────────────────────────────────────────────
+
+function jsonRpcResult(id: string | number, result: A2ATask) {
+  return NextResponse.json({ jsonrpc: "2.0", id, result });
+}
+
+/**
+ * Stream task events as Server-Sent Events, one JSON-RPC response per frame.
+ * The stream closes after the final status event.
+ */
+function streamTaskEvents(
+  id: string | number,
+  produce: (emit: TaskEventSink) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      const emit = (event: TaskEvent): boolean => {
+        if (closed) return false;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result: event })}\n\n`));
+        } catch {
+          closed = true;
+          return false;
+        }
+        if ("final" in event && event.final) close();
+        return true;
+      };
+
+      produce(emit)
+        .catch((error) => {
+          console.error("A2A stream error:", error);
+          if (!closed) {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32603, message: "Internal error" } })}\n\n`)
+            );
+          }
+        })
+        .finally(close);
+    },
+    cancel() {
+      // Subscriber went away; the task itself keeps running
+      closed = true;
+    },
+  });
 
-async function handleTasksCancel(rpc: JsonRpcRequest, resolvedAgentId: string) {
-  return NextResponse.json({
-    jsonrpc: "2.0",
-    id: rpc.id,
-    result: {
-      status: { state: "canceled" },
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
     },
   });
 }
 
-// ─── JSON-RPC Error Helper ──────────────────────────────────────────────────
-
-function jsonRpcError(id: string | number | null, code: number, message: string) {
+function jsonRpcError(
+  id: string | number | null,
+  code: number,
+  message: string,
+  data?: Record<string, unknown>
+) {
   return NextResponse.json(
     {
       jsonrpc: "2.0",
       id: id ?? null,
-      error: { code, message },
+      error: { code, message, ...(data && { data }) },
     },
     { status: code === -32700 || code === -32600 ? 400 : 200 }
   );
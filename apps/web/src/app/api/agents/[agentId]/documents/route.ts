@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { storeDocument, getAgentDocuments, deleteDocument } from "@/lib/rag";
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { getDB } from "@/lib/db";
 
 // Get all documents for an agent (owner only)
@@ -10,11 +10,8 @@ export async function GET(
 ) {
   try {
     const { agentId } = await params;
-    const session = await getSession();
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
 
     // Verify ownership
     const db = await getDB();
@@ -27,7 +24,7 @@ export async function GET(
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
 
-    if (agent.owner_id !== "system" && agent.owner_id !== session.userId) {
+    if (agent.owner_id !== "system" && agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -49,12 +46,8 @@ export async function POST(
 ) {
   try {
     const { agentId } = await params;
-    const session = await getSession();
-
-    // Require authentication
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     // Check if agent exists
     const db = await getDB();
@@ -68,7 +61,7 @@ export async function POST(
     }
 
     // Check ownership (only owner can upload documents)
-    if (agent.owner_id !== "system" && agent.owner_id !== session.userId) {
+    if (agent.owner_id !== "system" && agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -118,12 +111,8 @@ export async function DELETE(
       );
     }
 
-    const session = await getSession();
-
-    // Require authentication
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     // Check ownership
     const db = await getDB();
@@ -136,7 +125,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
 
-    if (agent.owner_id !== "system" && agent.owner_id !== session.userId) {
+    if (agent.owner_id !== "system" && agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getDB } from "@/lib/db";
 import { hashComment } from "@/lib/contracts";
 import { getSession } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 interface FeedbackRow {
   id: string;
@@ -19,6 +20,9 @@ export async function GET(
   context: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await context.params;
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
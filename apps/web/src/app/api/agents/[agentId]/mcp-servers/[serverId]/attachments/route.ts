@@ -0,0 +1,92 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import type { McpServerRow } from "@/lib/mcp-client";
+import { getAttachments, setAttachments } from "@/lib/mcp-resources";
+
+/**
+ * Load an owned MCP server, or the error response to return.
+ */
+async function loadOwnedServer(
+  request: Request,
+  agentId: string,
+  serverId: string,
+  scope: "agents:read" | "agents:manage"
+): Promise<{ server: McpServerRow; error: null } | { server: null; error: NextResponse }> {
+  const { auth, error: authError } = await requireAuth(request, scope);
+  if (authError) return { server: null, error: authError };
+
+  const db = await getDB();
+  const agent = await db
+    .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+    .bind(agentId)
+    .first<{ id: string; owner_id: string }>();
+
+  if (!agent || agent.owner_id !== auth.userId) {
+    return { server: null, error: NextResponse.json({ error: "Unauthorized" }, { status: 403 }) };
+  }
+
+  const server = await db
+    .prepare("SELECT * FROM mcp_servers WHERE id = ? AND agent_id = ? AND is_active = 1")
+    .bind(serverId, agentId)
+    .first<McpServerRow>();
+
+  if (!server) {
+    return { server: null, error: NextResponse.json({ error: "MCP server not found" }, { status: 404 }) };
+  }
+  return { server, error: null };
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string }> }
+) {
+  try {
+    const { agentId, serverId } = await params;
+    const { server, error } = await loadOwnedServer(request, agentId, serverId, "agents:read");
+    if (error) return error;
+
+    const attached = await getAttachments(server);
+
+    return NextResponse.json({
+      resources: server.cached_resources ? JSON.parse(server.cached_resources) : [],
+      prompts: server.cached_prompts ? JSON.parse(server.cached_prompts) : [],
+      attached,
+    });
+  } catch (error) {
+    console.error("Failed to fetch MCP attachments:", error);
+    return NextResponse.json({ error: "Failed to fetch MCP attachments" }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string }> }
+) {
+  try {
+    const { agentId, serverId } = await params;
+    const { server, error } = await loadOwnedServer(request, agentId, serverId, "agents:manage");
+    if (error) return error;
+
+    const body = await request.json();
+    const { resources, prompts } = body;
+
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((v) => typeof v === "string");
+    if (!isStringList(resources) || !isStringList(prompts)) {
+      return NextResponse.json({ error: "resources and prompts must be arrays of strings" }, { status: 400 });
+    }
+
+    try {
+      const result = await setAttachments(server, { resources, prompts });
+      return NextResponse.json({ changes: result, attached: await getAttachments(server) });
+    } catch (err) {
+      // Reading from the MCP server failed or the selection was not discovered
+      const message = err instanceof Error ? err.message : "Failed to attach";
+      return NextResponse.json({ error: message }, { status: 502 });
+    }
+  } catch (error) {
+    console.error("Failed to update MCP attachments:", error);
+    return NextResponse.json({ error: "Failed to update MCP attachments" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import type { McpServerRow } from "@/lib/mcp-client";
+import { reviewToolChange, ToolChangeError } from "@/lib/mcp-discovery";
+
+/**
+ * POST /api/agents/:id/mcp-servers/:serverId/changes/:changeId — Approve or reject a queued tool change
+ * Body: { decision: "approve" | "reject" }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string; changeId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const { agentId, serverId, changeId } = await params;
+    const { decision } = await request.json();
+
+    if (decision !== "approve" && decision !== "reject") {
+      return NextResponse.json(
+        { error: "decision must be \"approve\" or \"reject\"" },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent || agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const server = await db
+      .prepare("SELECT * FROM mcp_servers WHERE id = ? AND agent_id = ? AND is_active = 1")
+      .bind(serverId, agentId)
+      .first<McpServerRow>();
+
+    if (!server) {
+      return NextResponse.json({ error: "MCP server not found" }, { status: 404 });
+    }
+
+    const change = await reviewToolChange(server, changeId, decision, auth.userId);
+    return NextResponse.json({ change });
+  } catch (error) {
+    if (error instanceof ToolChangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to review MCP tool change:", error);
+    return NextResponse.json({ error: "Failed to review MCP tool change" }, { status: 500 });
+  }
+}
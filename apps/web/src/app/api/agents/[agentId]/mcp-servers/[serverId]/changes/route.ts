@@ -0,0 +1,53 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import type { McpServerRow } from "@/lib/mcp-client";
+import { listToolChanges } from "@/lib/mcp-discovery";
+
+/**
+ * GET /api/agents/:id/mcp-servers/:serverId/changes — Tool change log and health
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
+
+    const { agentId, serverId } = await params;
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent || agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const server = await db
+      .prepare("SELECT * FROM mcp_servers WHERE id = ? AND agent_id = ? AND is_active = 1")
+      .bind(serverId, agentId)
+      .first<McpServerRow>();
+
+    if (!server) {
+      return NextResponse.json({ error: "MCP server not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      health: {
+        consecutiveFailures: server.consecutive_failures,
+        lastLatencyMs: server.last_latency_ms,
+        lastCheckedAt: server.last_checked_at,
+        discoveryError: server.discovery_error,
+      },
+      changes: await listToolChanges(serverId),
+    });
+  } catch (error) {
+    console.error("Failed to fetch MCP tool changes:", error);
+    return NextResponse.json({ error: "Failed to fetch MCP tool changes" }, { status: 500 });
+  }
+}
@@ -1,17 +1,17 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
-import { discoverMcpTools, syncDiscoveredTools, McpServerRow } from "@/lib/mcp-client";
+import { discoverMcpTools, syncDiscoveredTools, resetMcpSession, McpServerRow } from "@/lib/mcp-client";
+import { discoverResourcesAndPrompts, refreshAttachments } from "@/lib/mcp-resources";
+import { recordHealth, recordManualDiscovery } from "@/lib/mcp-discovery";
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ agentId: string; serverId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, serverId } = await params;
     const db = await getDB();
@@ -22,7 +22,7 @@ export async function POST(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -35,30 +35,44 @@ export async function POST(
       return NextResponse.json({ error: "MCP server not found" }, { status: 404 });
     }
 
+    const started = Date.now();
     try {
+      // Start from a fresh handshake so negotiation errors surface here
+      await resetMcpSession(serverId);
+
       // Discover tools from the MCP server
       const tools = await discoverMcpTools(server);
+      await recordHealth(serverId, Date.now() - started, null);
+
+      // The owner asked for this discovery, so changes apply without review
+      await recordManualDiscovery(server, tools, auth.userId);
 
       // Sync discovered tools to agent_tools table
       const result = await syncDiscoveredTools(serverId, agentId, tools);
 
+      // Cache resources and prompts, then re-read the ones the owner attached
+      const { resources, prompts } = await discoverResourcesAndPrompts(server);
+      const attachments = await refreshAttachments({
+        ...server,
+        cached_resources: JSON.stringify(resources),
+        cached_prompts: JSON.stringify(prompts),
+      });
+
       return NextResponse.json({
         tools: tools.map((t) => ({
           name: t.name,
           description: t.description,
           inputSchema: t.inputSchema,
         })),
+        resources,
+        prompts,
         sync: result,
+        attachments,
       });
     } catch (err) {
       // Store discovery error on the server record
       const errorMessage = err instanceof Error ? err.message : "Discovery failed";
-      await db
-        .prepare(
-          "UPDATE mcp_servers SET discovery_error = ?, updated_at = datetime('now') WHERE id = ?"
-        )
-        .bind(errorMessage, serverId)
-        .run();
+      await recordHealth(serverId, Date.now() - started, errorMessage);
 
       return NextResponse.json(
         { error: `Discovery failed: ${errorMessage}` },
@@ -0,0 +1,43 @@
+import { authenticateRequest } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import { completeAuthorization, McpAuthorizationError } from "@/lib/mcp-oauth";
+
+/**
+ * OAuth redirect target. Exchanges the code, then sends the owner back to
+ * the agent editor with `mcpAuth=connected` or `mcpAuth=error&reason=...`.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string }> }
+) {
+  const { agentId, serverId } = await params;
+  const url = new URL(request.url);
+  const back = new URL(`/developers/my-agents/${agentId}/edit`, url.origin);
+
+  try {
+    const { auth } = await authenticateRequest(request, "agents:manage");
+    const code = url.searchParams.get("code");
+    const state = url.searchParams.get("state");
+
+    if (url.searchParams.get("error")) {
+      throw new McpAuthorizationError(
+        url.searchParams.get("error_description") || url.searchParams.get("error") || "Authorization denied"
+      );
+    }
+    if (!code || !state) {
+      throw new McpAuthorizationError("Missing code or state");
+    }
+
+    await completeAuthorization(serverId, state, code, auth?.userId ?? null);
+    back.searchParams.set("mcpAuth", "connected");
+  } catch (error) {
+    console.error("MCP authorization callback failed:", error);
+    back.searchParams.set("mcpAuth", "error");
+    back.searchParams.set(
+      "reason",
+      error instanceof McpAuthorizationError ? error.message : "Authorization failed"
+    );
+  }
+
+  return NextResponse.redirect(back);
+}
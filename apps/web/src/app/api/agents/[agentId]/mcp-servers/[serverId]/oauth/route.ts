@@ -0,0 +1,56 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import type { McpServerRow } from "@/lib/mcp-client";
+import { startAuthorization, McpAuthorizationError } from "@/lib/mcp-oauth";
+
+/**
+ * Start the OAuth flow for an MCP server. Returns the authorization URL the
+ * owner's browser should open; the server redirects back to ./callback.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; serverId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const { agentId, serverId } = await params;
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent || agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const server = await db
+      .prepare("SELECT * FROM mcp_servers WHERE id = ? AND agent_id = ? AND is_active = 1")
+      .bind(serverId, agentId)
+      .first<McpServerRow>();
+
+    if (!server) {
+      return NextResponse.json({ error: "MCP server not found" }, { status: 404 });
+    }
+
+    const redirectUri = `${new URL(request.url).origin}/api/agents/${agentId}/mcp-servers/${serverId}/oauth/callback`;
+
+    try {
+      const authorizationUrl = await startAuthorization(server, auth.userId, redirectUri);
+      return NextResponse.json({ authorizationUrl });
+    } catch (err) {
+      if (err instanceof McpAuthorizationError) {
+        return NextResponse.json({ error: err.message }, { status: 502 });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("Failed to start MCP authorization:", error);
+    return NextResponse.json({ error: "Failed to start MCP authorization" }, { status: 500 });
+  }
+}
@@ -1,13 +1,16 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
-import { encryptAuthHeaders, McpServerRow } from "@/lib/mcp-client";
+import { encryptAuthHeaders, resetMcpSession, McpServerRow } from "@/lib/mcp-client";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ agentId: string; serverId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId, serverId } = await params;
     const db = await getDB();
 
@@ -43,8 +46,12 @@ export async function GET(
       serverUrl: server.server_url,
       transportType: server.transport_type,
       isActive: server.is_active === 1,
+      authType: server.auth_type,
+      needsReauth: server.needs_reauth === 1,
       lastDiscoveredAt: server.last_discovered_at,
       cachedTools: server.cached_tools ? JSON.parse(server.cached_tools) : [],
+      cachedResources: server.cached_resources ? JSON.parse(server.cached_resources) : [],
+      cachedPrompts: server.cached_prompts ? JSON.parse(server.cached_prompts) : [],
       discoveryError: server.discovery_error,
       toolCount: toolCount?.cnt || 0,
       sortOrder: server.sort_order,
@@ -62,10 +69,8 @@ export async function PUT(
   { params }: { params: Promise<{ agentId: string; serverId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, serverId } = await params;
     const db = await getDB();
@@ -76,7 +81,7 @@ export async function PUT(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -90,7 +95,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { displayName, serverUrl, transportType, authHeaders, toolFilter } = body;
+    const { displayName, serverUrl, transportType, authHeaders, toolFilter, authType } = body;
 
     const updates: string[] = [];
     const values: unknown[] = [];
@@ -124,6 +129,13 @@ export async function PUT(
         updates.push("auth_headers = NULL");
       }
     }
+    if (authType !== undefined) {
+      // OAuth is enabled by completing the authorization flow; this only switches back
+      if (authType !== "headers") {
+        return NextResponse.json({ error: "authType can only be set to headers; use /oauth to authorize" }, { status: 400 });
+      }
+      updates.push("auth_type = 'headers'", "oauth_config = NULL", "needs_reauth = 0");
+    }
     if (toolFilter !== undefined) {
       updates.push("tool_filter = ?");
       values.push(toolFilter && toolFilter.length > 0 ? JSON.stringify(toolFilter) : null);
@@ -141,6 +153,11 @@ export async function PUT(
       .bind(...values)
       .run();
 
+    // A new endpoint or credentials need a fresh MCP session
+    if (serverUrl !== undefined || transportType !== undefined || authHeaders !== undefined || authType !== undefined) {
+      await resetMcpSession(serverId);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to update MCP server:", error);
@@ -153,10 +170,8 @@ export async function DELETE(
   { params }: { params: Promise<{ agentId: string; serverId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, serverId } = await params;
     const db = await getDB();
@@ -167,7 +182,7 @@ export async function DELETE(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -177,12 +192,20 @@ export async function DELETE(
       .bind(serverId, agentId)
       .run();
 
+    await resetMcpSession(serverId);
+
     // Soft-delete associated MCP tools
     await db
       .prepare("UPDATE agent_tools SET is_active = 0, updated_at = datetime('now') WHERE mcp_server_id = ? AND agent_id = ?")
       .bind(serverId, agentId)
       .run();
 
+    // Skills imported from the server's prompts go with it; ingested documents stay in the knowledge base
+    await db
+      .prepare("UPDATE agent_skills SET is_active = 0, updated_at = datetime('now') WHERE mcp_server_id = ? AND agent_id = ?")
+      .bind(serverId, agentId)
+      .run();
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to delete MCP server:", error);
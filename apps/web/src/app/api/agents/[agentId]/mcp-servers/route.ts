@@ -1,5 +1,5 @@
 import { getDB, getEnv } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 import { encryptAuthHeaders } from "@/lib/mcp-client";
 
@@ -8,6 +8,9 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await params;
     const db = await getDB();
 
@@ -23,9 +26,11 @@ export async function GET(
 
     const result = await db
       .prepare(
-        `SELECT id, name, display_name, server_url, transport_type, is_active,
-                last_discovered_at, discovery_error, sort_order, created_at, updated_at,
-                (SELECT COUNT(*) FROM agent_tools WHERE mcp_server_id = mcp_servers.id AND is_active = 1) as tool_count
+        `SELECT id, name, display_name, server_url, transport_type, is_active, auth_type, needs_reauth,
+                last_discovered_at, discovery_error, consecutive_failures, last_latency_ms, last_checked_at,
+                sort_order, created_at, updated_at,
+                (SELECT COUNT(*) FROM agent_tools WHERE mcp_server_id = mcp_servers.id AND is_active = 1) as tool_count,
+                (SELECT COUNT(*) FROM mcp_tool_changes WHERE server_id = mcp_servers.id AND status = 'pending') as pending_changes
          FROM mcp_servers WHERE agent_id = ? AND is_active = 1
          ORDER BY sort_order ASC`
       )
@@ -39,9 +44,15 @@ export async function GET(
       serverUrl: row.server_url,
       transportType: row.transport_type,
       isActive: row.is_active === 1,
+      authType: row.auth_type,
+      needsReauth: row.needs_reauth === 1,
       lastDiscoveredAt: row.last_discovered_at,
       discoveryError: row.discovery_error,
+      consecutiveFailures: row.consecutive_failures,
+      lastLatencyMs: row.last_latency_ms,
+      lastCheckedAt: row.last_checked_at,
       toolCount: row.tool_count,
+      pendingChanges: row.pending_changes,
       sortOrder: row.sort_order,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -59,10 +70,8 @@ export async function POST(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
     const db = await getDB();
@@ -76,7 +85,7 @@ export async function POST(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
-    if (agent.owner_id !== session.userId) {
+    if (agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
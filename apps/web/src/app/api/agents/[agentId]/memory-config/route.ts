@@ -1,4 +1,4 @@
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { getDB } from "@/lib/db";
 import { getMemoryConfig, updateMemoryConfig } from "@/lib/memory";
 import { NextResponse } from "next/server";
@@ -11,10 +11,8 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
 
     const { agentId } = await params;
 
@@ -25,7 +23,7 @@ export async function GET(
       .bind(agentId, agentId)
       .first<{ id: string; owner_id: string | null }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Agent not found or not owned" }, { status: 404 });
     }
 
@@ -45,10 +43,8 @@ export async function PUT(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
 
@@ -59,7 +55,7 @@ export async function PUT(
       .bind(agentId, agentId)
       .first<{ id: string; owner_id: string | null }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Agent not found or not owned" }, { status: 404 });
     }
 
@@ -0,0 +1,36 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; peerId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const { agentId, peerId } = await params;
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent || agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    await db
+      .prepare("UPDATE agent_peers SET is_active = 0, updated_at = datetime('now') WHERE id = ? AND agent_id = ?")
+      .bind(peerId, agentId)
+      .run();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete peer:", error);
+    return NextResponse.json({ error: "Failed to delete peer" }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import { encryptPeerHeaders, isCardUrl, verifyPeerCard } from "@/lib/a2a-federation";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
+
+    const { agentId } = await params;
+    const db = await getDB();
+
+    // Peers are the owner's configuration, like the agent's tools
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+    if (agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const result = await db
+      .prepare(
+        `SELECT id, card_url, name, endpoint_url, auth_headers, max_price_cents, last_verified_at, created_at, updated_at
+         FROM agent_peers WHERE agent_id = ? AND is_active = 1
+         ORDER BY created_at ASC`
+      )
+      .bind(agent.id)
+      .all();
+
+    const peers = result.results.map((row: Record<string, unknown>) => ({
+      id: row.id,
+      cardUrl: row.card_url,
+      name: row.name,
+      endpointUrl: row.endpoint_url,
+      hasAuthHeaders: !!row.auth_headers,
+      maxPriceCents: row.max_price_cents,
+      lastVerifiedAt: row.last_verified_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+
+    return NextResponse.json({ peers });
+  } catch (error) {
+    console.error("Failed to fetch peers:", error);
+    return NextResponse.json({ error: "Failed to fetch peers" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const { agentId } = await params;
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+    if (agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { cardUrl, maxPriceCents, authHeaders } = body;
+
+    if (!cardUrl || typeof cardUrl !== "string" || !isCardUrl(cardUrl)) {
+      return NextResponse.json({ error: "cardUrl must be an http(s) URL" }, { status: 400 });
+    }
+    if (maxPriceCents !== undefined && (!Number.isInteger(maxPriceCents) || maxPriceCents < 0)) {
+      return NextResponse.json({ error: "maxPriceCents must be a non-negative integer" }, { status: 400 });
+    }
+
+    // The card must resolve now; call_agent re-checks it on every call
+    let card;
+    try {
+      card = await verifyPeerCard(cardUrl.trim());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to fetch Agent Card";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    // Encrypt auth headers if present
+    let encryptedHeaders: string | null = null;
+    if (authHeaders && typeof authHeaders === "object" && Object.keys(authHeaders).length > 0) {
+      encryptedHeaders = await encryptPeerHeaders(authHeaders);
+    }
+
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    // Re-registering a removed peer reactivates it with the fresh card
+    await db
+      .prepare(
+        `INSERT INTO agent_peers (id, agent_id, card_url, name, endpoint_url, auth_headers, max_price_cents, last_verified_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(agent_id, card_url) DO UPDATE SET
+           name = excluded.name,
+           endpoint_url = excluded.endpoint_url,
+           auth_headers = excluded.auth_headers,
+           max_price_cents = excluded.max_price_cents,
+           last_verified_at = excluded.last_verified_at,
+           is_active = 1,
+           updated_at = datetime('now')`
+      )
+      .bind(id, agentId, cardUrl.trim(), card.name, card.url, encryptedHeaders, maxPriceCents ?? 0, now)
+      .run();
+
+    const peer = await db
+      .prepare("SELECT id FROM agent_peers WHERE agent_id = ? AND card_url = ?")
+      .bind(agentId, cardUrl.trim())
+      .first<{ id: string }>();
+
+    return NextResponse.json(
+      { id: peer?.id ?? id, name: card.name, endpointUrl: card.url, x402: card.x402 ?? null },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to register peer:", error);
+    return NextResponse.json({ error: "Failed to register peer" }, { status: 500 });
+  }
+}
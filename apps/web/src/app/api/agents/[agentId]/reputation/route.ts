@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getDB } from "@/lib/db";
 import { getReputationOnChain, type ChainId } from "@/lib/contracts";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 interface AgentRow {
   id: string;
@@ -24,6 +25,9 @@ export async function GET(
   context: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await context.params;
 
     const db = await getDB();
@@ -1,9 +1,9 @@
 import { getDB, getEnv } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { RESERVED_SLUGS } from "@/lib/agentTemplates";
 import { NextResponse } from "next/server";
 import { encrypt } from "@/lib/encryption";
-import { isValidProvider } from "@/lib/llm-providers";
+import { validateLlmConfig, parseFallbackChain, MAX_FALLBACKS } from "@/lib/llm-providers";
 import { isSupportedChain } from "@/lib/smart-account/config";
 
 interface AgentRow {
@@ -28,7 +28,9 @@ interface AgentRow {
   encrypted_llm_api_key: string | null;
   llm_model: string | null;
   llm_base_url: string | null;
+  llm_fallbacks: string | null;
   chain_id: number | null;
+  tool_budget_per_min: number | null;
 }
 
 const SLUG_REGEX = /^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/;
@@ -38,13 +40,16 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await params;
     const db = await getDB();
 
     // Resolve by id or slug
     const result = await db
       .prepare(
-        `SELECT id, name, description, category, type, icon, system_prompt, welcome_message, pricing_type, price_per_query, free_queries, agent_wallet, slug, template, brand_color, business_info, owner_id, llm_provider, encrypted_llm_api_key, llm_model, llm_base_url, chain_id
+        `SELECT id, name, description, category, type, icon, system_prompt, welcome_message, pricing_type, price_per_query, free_queries, agent_wallet, slug, template, brand_color, business_info, owner_id, llm_provider, encrypted_llm_api_key, llm_model, llm_base_url, llm_fallbacks, chain_id, tool_budget_per_min
          FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1`
       )
       .bind(agentId, agentId)
@@ -78,7 +83,9 @@ export async function GET(
       llmModel: result.llm_model,
       llmBaseUrl: result.llm_base_url,
       hasLlmApiKey: !!result.encrypted_llm_api_key,
+      llmFallbacks: (result.llm_fallbacks && parseFallbackChain(result.llm_fallbacks)) || [],
       chainId: result.chain_id || 421614,
+      toolBudgetPerMin: result.tool_budget_per_min,
     };
 
     return NextResponse.json(agent);
@@ -96,10 +103,8 @@ export async function PUT(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
     const db = await getDB();
@@ -113,7 +118,7 @@ export async function PUT(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
-    if (agent.owner_id !== session.userId) {
+    if (agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -209,17 +214,34 @@ export async function PUT(
         updates.push("llm_model = ?");
         values.push(null);
       } else {
-        if (!isValidProvider(body.llmProvider)) {
-          return NextResponse.json({ error: "llmProvider must be one of: openai, anthropic, openrouter" }, { status: 400 });
+        // Fields not in the request keep their stored values
+        const stored = await db
+          .prepare("SELECT encrypted_llm_api_key, llm_model, llm_base_url FROM agents WHERE id = ?")
+          .bind(agentId)
+          .first<{ encrypted_llm_api_key: string | null; llm_model: string | null; llm_base_url: string | null }>();
+        const llmError = validateLlmConfig({
+          provider: body.llmProvider,
+          apiKey: body.llmApiKey,
+          model: body.llmModel !== undefined ? body.llmModel : stored?.llm_model,
+          baseUrl: body.llmBaseUrl !== undefined ? body.llmBaseUrl : stored?.llm_base_url,
+          hasStoredKey: body.llmApiKey === undefined && !!stored?.encrypted_llm_api_key,
+        });
+        if (llmError) {
+          return NextResponse.json({ error: llmError }, { status: 400 });
         }
         updates.push("llm_provider = ?");
         values.push(body.llmProvider);
 
         // If provider changed, require a new key (handled by client sending llmApiKey)
+        if (body.llmProvider === "workers-ai") {
+          // Runs on the platform's AI binding; no key or endpoint of its own
+          updates.push("encrypted_llm_api_key = ?", "llm_base_url = ?");
+          values.push(null, null);
+        }
       }
     }
 
-    if (body.llmApiKey !== undefined) {
+    if (body.llmApiKey !== undefined && body.llmProvider !== "workers-ai") {
       if (body.llmApiKey === "" || body.llmApiKey === null) {
         // Clear the API key
         updates.push("encrypted_llm_api_key = ?");
@@ -237,11 +259,23 @@ export async function PUT(
       values.push(body.llmModel?.trim() || null);
     }
 
-    if (body.llmBaseUrl !== undefined) {
+    if (body.llmBaseUrl !== undefined && body.llmProvider !== "workers-ai") {
       updates.push("llm_base_url = ?");
       values.push(body.llmBaseUrl?.trim() || null);
     }
 
+    if (body.llmFallbacks !== undefined) {
+      const fallbacks = body.llmFallbacks === null ? [] : parseFallbackChain(body.llmFallbacks);
+      if (!fallbacks) {
+        return NextResponse.json(
+          { error: `llmFallbacks must be an array of up to ${MAX_FALLBACKS} { source: "byok" | "platform", provider?: "openrouter" | "workers-ai", model?: string } entries` },
+          { status: 400 }
+        );
+      }
+      updates.push("llm_fallbacks = ?");
+      values.push(fallbacks.length > 0 ? JSON.stringify(fallbacks) : null);
+    }
+
     if (body.chainId !== undefined) {
       if (!isSupportedChain(body.chainId)) {
         return NextResponse.json({ error: "Unsupported chain ID" }, { status: 400 });
@@ -250,6 +284,15 @@ export async function PUT(
       values.push(body.chainId);
     }
 
+    if (body.toolBudgetPerMin !== undefined) {
+      const budget = body.toolBudgetPerMin;
+      if (budget !== null && (!Number.isInteger(budget) || budget < 0)) {
+        return NextResponse.json({ error: "toolBudgetPerMin must be a non-negative integer or null" }, { status: 400 });
+      }
+      updates.push("tool_budget_per_min = ?");
+      values.push(budget);
+    }
+
     if (updates.length === 0) {
       return NextResponse.json({ error: "No fields to update" }, { status: 400 });
     }
@@ -275,10 +318,8 @@ export async function DELETE(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
     const db = await getDB();
@@ -291,7 +332,7 @@ export async function DELETE(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
-    if (agent.owner_id !== session.userId) {
+    if (agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
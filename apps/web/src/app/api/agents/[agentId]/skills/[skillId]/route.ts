@@ -1,5 +1,5 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 
 export async function GET(
@@ -7,6 +7,9 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string; skillId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId, skillId } = await params;
     const db = await getDB();
 
@@ -49,10 +52,8 @@ export async function PUT(
   { params }: { params: Promise<{ agentId: string; skillId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, skillId } = await params;
     const db = await getDB();
@@ -62,7 +63,7 @@ export async function PUT(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -136,10 +137,8 @@ export async function DELETE(
   { params }: { params: Promise<{ agentId: string; skillId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, skillId } = await params;
     const db = await getDB();
@@ -149,7 +148,7 @@ export async function DELETE(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -1,5 +1,5 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 
 const SLUG_REGEX = /^[a-z][a-z0-9-]{1,48}[a-z0-9]$/;
@@ -9,6 +9,9 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await params;
     const db = await getDB();
 
@@ -57,10 +60,8 @@ export async function POST(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
     const db = await getDB();
@@ -73,7 +74,7 @@ export async function POST(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
-    if (agent.owner_id !== session.userId) {
+    if (agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -0,0 +1,89 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import { purgeToolCache } from "@/lib/tool-cache";
+
+type ToolParams = { params: Promise<{ agentId: string; toolId: string }> };
+
+/**
+ * Verify the caller owns the agent and return the tool's cache settings.
+ */
+async function getOwnedTool(request: Request, agentId: string, toolId: string) {
+  const { auth, error: authError } = await requireAuth(request, "agents:manage");
+  if (authError) return { error: authError };
+
+  const db = await getDB();
+  const agent = await db
+    .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+    .bind(agentId)
+    .first<{ id: string; owner_id: string }>();
+
+  if (!agent || agent.owner_id !== auth.userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 403 }) };
+  }
+
+  const tool = await db
+    .prepare(
+      `SELECT id, cache_ttl_seconds, cache_vary_by_user FROM agent_tools
+       WHERE id = ? AND agent_id = ? AND is_active = 1`
+    )
+    .bind(toolId, agentId)
+    .first<{ id: string; cache_ttl_seconds: number | null; cache_vary_by_user: number }>();
+
+  if (!tool) {
+    return { error: NextResponse.json({ error: "Tool not found" }, { status: 404 }) };
+  }
+  return { db, tool };
+}
+
+/**
+ * Cache settings and hit counts for the last 7 days.
+ */
+export async function GET(request: Request, { params }: ToolParams) {
+  try {
+    const { agentId, toolId } = await params;
+    const owned = await getOwnedTool(request, agentId, toolId);
+    if (owned.error) return owned.error;
+    const { db, tool } = owned;
+
+    const stats = await db
+      .prepare(
+        `SELECT COUNT(*) as calls, COALESCE(SUM(cache_hit), 0) as hits, COALESCE(AVG(CASE WHEN cache_hit = 0 THEN duration_ms END), 0) as avg_ms
+         FROM tool_executions
+         WHERE tool_id = ? AND status = 'success' AND created_at > datetime('now', '-7 days')`
+      )
+      .bind(tool.id)
+      .first<{ calls: number; hits: number; avg_ms: number }>();
+
+    return NextResponse.json({
+      ttlSeconds: tool.cache_ttl_seconds,
+      varyByUser: tool.cache_vary_by_user === 1,
+      last7Days: {
+        successfulCalls: stats?.calls ?? 0,
+        cacheHits: stats?.hits ?? 0,
+        /** Rough time saved: hits times the average uncached call duration */
+        savedMs: Math.round((stats?.hits ?? 0) * (stats?.avg_ms ?? 0)),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch tool cache stats:", error);
+    return NextResponse.json({ error: "Failed to fetch tool cache stats" }, { status: 500 });
+  }
+}
+
+/**
+ * Purge every cached result for the tool.
+ */
+export async function DELETE(request: Request, { params }: ToolParams) {
+  try {
+    const { agentId, toolId } = await params;
+    const owned = await getOwnedTool(request, agentId, toolId);
+    if (owned.error) return owned.error;
+
+    await purgeToolCache(owned.tool.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to purge tool cache:", error);
+    return NextResponse.json({ error: "Failed to purge tool cache" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { NextResponse } from "next/server";
+import { rotateSigningSecret } from "@/lib/webhook-signing";
+
+/**
+ * Replace a webhook tool's signing secret. The new secret is returned once;
+ * requests are signed with it immediately, so update the receiver right away.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; toolId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const { agentId, toolId } = await params;
+    const db = await getDB();
+
+    // Verify ownership
+    const agent = await db
+      .prepare("SELECT id, owner_id FROM agents WHERE id = ? AND is_active = 1")
+      .bind(agentId)
+      .first<{ id: string; owner_id: string }>();
+
+    if (!agent || agent.owner_id !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const tool = await db
+      .prepare("SELECT id, tool_type FROM agent_tools WHERE id = ? AND agent_id = ? AND is_active = 1")
+      .bind(toolId, agentId)
+      .first<{ id: string; tool_type: string }>();
+
+    if (!tool) {
+      return NextResponse.json({ error: "Tool not found" }, { status: 404 });
+    }
+    if (tool.tool_type !== "webhook") {
+      return NextResponse.json({ error: "Only webhook tools have signing secrets" }, { status: 400 });
+    }
+
+    const signingSecret = await rotateSigningSecret(tool.id);
+    return NextResponse.json({ signingSecret });
+  } catch (error) {
+    console.error("Failed to rotate signing secret:", error);
+    return NextResponse.json({ error: "Failed to rotate signing secret" }, { status: 500 });
+  }
+}
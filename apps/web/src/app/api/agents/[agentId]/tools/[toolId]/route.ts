@@ -1,19 +1,26 @@
 import { getDB, getEnv } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 import { encrypt } from "@/lib/encryption";
+import { parseWebhookConfig } from "@/lib/openapi";
+import { parseResponseMapping, parseOutputSchema } from "@/lib/response-mapping";
+import { parseRetryPolicy } from "@/lib/tool-resilience";
+import { clampCacheTtl } from "@/lib/tool-cache";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ agentId: string; toolId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId, toolId } = await params;
     const db = await getDB();
 
     const tool = await db
       .prepare(
-        `SELECT t.id, t.name, t.display_name, t.description, t.tool_type, t.webhook_url, t.webhook_method, t.parameters_schema, t.builtin_ref, t.builtin_config, t.timeout_ms, t.rate_limit_per_min, t.requires_approval, t.sort_order, t.is_active, t.created_at, t.updated_at
+        `SELECT t.id, t.name, t.display_name, t.description, t.tool_type, t.webhook_url, t.webhook_method, t.webhook_config, t.signing_secret IS NOT NULL AS signed, t.response_mapping, t.output_schema, t.retry_policy, t.cache_ttl_seconds, t.cache_vary_by_user, t.mcp_server_id, t.parameters_schema, t.builtin_ref, t.builtin_config, t.timeout_ms, t.rate_limit_per_min, t.requires_approval, t.sort_order, t.is_active, t.created_at, t.updated_at
          FROM agent_tools t
          JOIN agents a ON t.agent_id = a.id
          WHERE t.id = ? AND (a.id = ? OR a.slug = ?) AND t.is_active = 1`
@@ -33,6 +40,14 @@ export async function GET(
       toolType: tool.tool_type,
       webhookUrl: tool.webhook_url,
       webhookMethod: tool.webhook_method,
+      webhookConfig: tool.webhook_config ? JSON.parse(tool.webhook_config as string) : null,
+      signed: tool.signed === 1,
+      responseMapping: tool.response_mapping ? JSON.parse(tool.response_mapping as string) : null,
+      outputSchema: tool.output_schema ? JSON.parse(tool.output_schema as string) : null,
+      retryPolicy: tool.retry_policy ? JSON.parse(tool.retry_policy as string) : null,
+      cacheTtlSeconds: tool.cache_ttl_seconds,
+      cacheVaryByUser: (tool.cache_vary_by_user as number) === 1,
+      mcpServerId: tool.mcp_server_id,
       parametersSchema: tool.parameters_schema ? JSON.parse(tool.parameters_schema as string) : {},
       builtinRef: tool.builtin_ref,
       builtinConfig: tool.builtin_config ? JSON.parse(tool.builtin_config as string) : null,
@@ -55,10 +70,8 @@ export async function PUT(
   { params }: { params: Promise<{ agentId: string; toolId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, toolId } = await params;
     const db = await getDB();
@@ -69,15 +82,15 @@ export async function PUT(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
     // Check tool exists for this agent
     const existing = await db
-      .prepare("SELECT id FROM agent_tools WHERE id = ? AND agent_id = ? AND is_active = 1")
+      .prepare("SELECT id, tool_type FROM agent_tools WHERE id = ? AND agent_id = ? AND is_active = 1")
       .bind(toolId, agentId)
-      .first();
+      .first<{ id: string; tool_type: string }>();
 
     if (!existing) {
       return NextResponse.json({ error: "Tool not found" }, { status: 404 });
@@ -114,6 +127,54 @@ export async function PUT(
         values.push(null);
       }
     }
+    if (body.webhookConfig !== undefined) {
+      const config = body.webhookConfig === null ? null : parseWebhookConfig(body.webhookConfig);
+      if (body.webhookConfig !== null && !config) {
+        return NextResponse.json({ error: "Invalid webhookConfig" }, { status: 400 });
+      }
+      updates.push("webhook_config = ?");
+      values.push(config ? JSON.stringify(config) : null);
+    }
+    if (body.responseMapping !== undefined || body.outputSchema !== undefined) {
+      if (existing.tool_type === "builtin") {
+        return NextResponse.json({ error: "Response mapping is only supported for webhook and MCP tools" }, { status: 400 });
+      }
+    }
+    if (body.responseMapping !== undefined) {
+      const mapping = body.responseMapping === null ? null : parseResponseMapping(body.responseMapping);
+      if (body.responseMapping !== null && !mapping) {
+        return NextResponse.json({ error: "Invalid responseMapping" }, { status: 400 });
+      }
+      updates.push("response_mapping = ?");
+      values.push(mapping && Object.keys(mapping).length > 0 ? JSON.stringify(mapping) : null);
+    }
+    if (body.outputSchema !== undefined) {
+      const schema = body.outputSchema === null ? null : parseOutputSchema(body.outputSchema);
+      if (body.outputSchema !== null && !schema) {
+        return NextResponse.json({ error: "outputSchema must be a JSON Schema object" }, { status: 400 });
+      }
+      updates.push("output_schema = ?");
+      values.push(schema ? JSON.stringify(schema) : null);
+    }
+    if (body.retryPolicy !== undefined) {
+      const policy = body.retryPolicy === null ? null : parseRetryPolicy(body.retryPolicy);
+      if (body.retryPolicy !== null && (!policy || existing.tool_type === "builtin")) {
+        return NextResponse.json({ error: "Invalid retryPolicy" }, { status: 400 });
+      }
+      updates.push("retry_policy = ?");
+      values.push(policy ? JSON.stringify(policy) : null);
+    }
+    if (body.cacheTtlSeconds !== undefined) {
+      if (body.cacheTtlSeconds && (typeof body.cacheTtlSeconds !== "number" || existing.tool_type === "builtin")) {
+        return NextResponse.json({ error: "cacheTtlSeconds must be a number of seconds for webhook or MCP tools" }, { status: 400 });
+      }
+      updates.push("cache_ttl_seconds = ?");
+      values.push(body.cacheTtlSeconds ? clampCacheTtl(body.cacheTtlSeconds) : null);
+    }
+    if (body.cacheVaryByUser !== undefined) {
+      updates.push("cache_vary_by_user = ?");
+      values.push(body.cacheVaryByUser ? 1 : 0);
+    }
     if (body.parametersSchema !== undefined) {
       updates.push("parameters_schema = ?");
       values.push(JSON.stringify(body.parametersSchema));
@@ -159,10 +220,8 @@ export async function DELETE(
   { params }: { params: Promise<{ agentId: string; toolId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId, toolId } = await params;
     const db = await getDB();
@@ -172,7 +231,7 @@ export async function DELETE(
       .bind(agentId)
       .first<{ id: string; owner_id: string }>();
 
-    if (!agent || agent.owner_id !== session.userId) {
+    if (!agent || agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -1,7 +1,12 @@
 import { getDB, getEnv } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 import { encrypt } from "@/lib/encryption";
+import { parseWebhookConfig } from "@/lib/openapi";
+import { parseResponseMapping, parseOutputSchema } from "@/lib/response-mapping";
+import { parseRetryPolicy, getOpenBreakers } from "@/lib/tool-resilience";
+import { clampCacheTtl } from "@/lib/tool-cache";
+import { generateSigningSecret, encryptSigningSecret } from "@/lib/webhook-signing";
 
 const VALID_TOOL_TYPES = ["webhook", "builtin", "mcp"];
 const VALID_BUILTIN_REFS = ["search_documents", "get_user_memory", "think", "call_agent", "discover_agents"];
@@ -11,6 +16,9 @@ export async function GET(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { agentId } = await params;
     const db = await getDB();
 
@@ -26,12 +34,14 @@ export async function GET(
 
     const result = await db
       .prepare(
-        `SELECT id, name, display_name, description, tool_type, webhook_url, webhook_method, parameters_schema, builtin_ref, builtin_config, timeout_ms, rate_limit_per_min, requires_approval, sort_order, is_active, created_at, updated_at
+        `SELECT id, name, display_name, description, tool_type, webhook_url, webhook_method, webhook_config, signing_secret IS NOT NULL AS signed, response_mapping, output_schema, retry_policy, cache_ttl_seconds, cache_vary_by_user, mcp_server_id, parameters_schema, builtin_ref, builtin_config, timeout_ms, rate_limit_per_min, requires_approval, sort_order, is_active, created_at, updated_at
          FROM agent_tools WHERE agent_id = ? AND is_active = 1 ORDER BY sort_order ASC`
       )
       .bind(agent.id)
       .all();
 
+    const openBreakers = await getOpenBreakers(agent.id);
+
     const tools = result.results.map((row: Record<string, unknown>) => ({
       id: row.id,
       name: row.name,
@@ -40,6 +50,17 @@ export async function GET(
       toolType: row.tool_type,
       webhookUrl: row.webhook_url,
       webhookMethod: row.webhook_method,
+      webhookConfig: row.webhook_config ? JSON.parse(row.webhook_config as string) : null,
+      signed: row.signed === 1,
+      responseMapping: row.response_mapping ? JSON.parse(row.response_mapping as string) : null,
+      outputSchema: row.output_schema ? JSON.parse(row.output_schema as string) : null,
+      retryPolicy: row.retry_policy ? JSON.parse(row.retry_policy as string) : null,
+      cacheTtlSeconds: row.cache_ttl_seconds,
+      cacheVaryByUser: row.cache_vary_by_user === 1,
+      unavailableUntil: openBreakers.has(row.id as string)
+        ? new Date(openBreakers.get(row.id as string)!).toISOString()
+        : null,
+      mcpServerId: row.mcp_server_id,
       parametersSchema: row.parameters_schema ? JSON.parse(row.parameters_schema as string) : {},
       builtinRef: row.builtin_ref,
       builtinConfig: row.builtin_config ? JSON.parse(row.builtin_config as string) : null,
@@ -64,10 +85,8 @@ export async function POST(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const { agentId } = await params;
     const db = await getDB();
@@ -81,12 +100,12 @@ export async function POST(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found" }, { status: 404 });
     }
-    if (agent.owner_id !== session.userId) {
+    if (agent.owner_id !== auth.userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
     const body = await request.json();
-    const { name, displayName, description, toolType, webhookUrl, webhookMethod, webhookHeaders, parametersSchema, builtinRef, builtinConfig, timeoutMs, rateLimitPerMin, requiresApproval, sortOrder } = body;
+    const { name, displayName, description, toolType, webhookUrl, webhookMethod, webhookHeaders, webhookConfig, responseMapping, outputSchema, retryPolicy, cacheTtlSeconds, cacheVaryByUser, parametersSchema, builtinRef, builtinConfig, timeoutMs, rateLimitPerMin, requiresApproval, sortOrder } = body;
 
     // Validate required fields
     if (!name || typeof name !== "string" || !/^[a-z_][a-z0-9_]{1,48}$/.test(name)) {
@@ -115,6 +134,29 @@ export async function POST(
       } catch {
         return NextResponse.json({ error: "Invalid webhookUrl" }, { status: 400 });
       }
+      if (webhookConfig !== undefined && webhookConfig !== null && !parseWebhookConfig(webhookConfig)) {
+        return NextResponse.json({ error: "Invalid webhookConfig" }, { status: 400 });
+      }
+    }
+
+    // Response shaping applies to webhook and MCP results
+    const mapping = responseMapping ? parseResponseMapping(responseMapping) : null;
+    if (responseMapping && !mapping) {
+      return NextResponse.json({ error: "Invalid responseMapping" }, { status: 400 });
+    }
+    const schema = outputSchema ? parseOutputSchema(outputSchema) : null;
+    if (outputSchema && !schema) {
+      return NextResponse.json({ error: "outputSchema must be a JSON Schema object" }, { status: 400 });
+    }
+    if ((mapping || schema) && toolType === "builtin") {
+      return NextResponse.json({ error: "Response mapping is only supported for webhook and MCP tools" }, { status: 400 });
+    }
+    const policy = retryPolicy ? parseRetryPolicy(retryPolicy) : null;
+    if (retryPolicy && (!policy || toolType === "builtin")) {
+      return NextResponse.json({ error: "Invalid retryPolicy" }, { status: 400 });
+    }
+    if (cacheTtlSeconds && (typeof cacheTtlSeconds !== "number" || toolType === "builtin")) {
+      return NextResponse.json({ error: "cacheTtlSeconds must be a number of seconds for webhook or MCP tools" }, { status: 400 });
     }
 
     if (toolType === "builtin") {
@@ -136,13 +178,16 @@ export async function POST(
       encryptedHeaders = await encrypt(JSON.stringify(webhookHeaders), env.EMBEDDED_WALLET_SECRET, "webhook");
     }
 
+    // Webhook requests are signed; the secret is only returned in this response
+    const signingSecret = toolType === "webhook" ? generateSigningSecret() : null;
+
     const schemaStr = parametersSchema ? JSON.stringify(parametersSchema) : '{"type":"object","properties":{}}';
     const id = crypto.randomUUID();
 
     await db
       .prepare(
-        `INSERT INTO agent_tools (id, agent_id, name, display_name, description, tool_type, webhook_url, webhook_method, webhook_headers, parameters_schema, builtin_ref, builtin_config, timeout_ms, rate_limit_per_min, requires_approval, sort_order, mcp_server_id)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `INSERT INTO agent_tools (id, agent_id, name, display_name, description, tool_type, webhook_url, webhook_method, webhook_headers, webhook_config, signing_secret, response_mapping, output_schema, retry_policy, cache_ttl_seconds, cache_vary_by_user, parameters_schema, builtin_ref, builtin_config, timeout_ms, rate_limit_per_min, requires_approval, sort_order, mcp_server_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .bind(
         id,
@@ -154,6 +199,13 @@ export async function POST(
         webhookUrl || null,
         webhookMethod || "POST",
         encryptedHeaders,
+        toolType === "webhook" && webhookConfig ? JSON.stringify(webhookConfig) : null,
+        signingSecret ? await encryptSigningSecret(signingSecret) : null,
+        mapping ? JSON.stringify(mapping) : null,
+        schema ? JSON.stringify(schema) : null,
+        policy ? JSON.stringify(policy) : null,
+        cacheTtlSeconds ? clampCacheTtl(cacheTtlSeconds) : null,
+        cacheVaryByUser ? 1 : 0,
         schemaStr,
         builtinRef || null,
         builtinConfig ? JSON.stringify(builtinConfig) : null,
@@ -165,7 +217,7 @@ export async function POST(
       )
       .run();
 
-    return NextResponse.json({ id, name }, { status: 201 });
+    return NextResponse.json(signingSecret ? { id, name, signingSecret } : { id, name }, { status: 201 });
   } catch (error) {
     console.error("Failed to create tool:", error);
     if (error instanceof Error && error.message.includes("UNIQUE constraint")) {
@@ -1,11 +1,15 @@
 import { getDB } from "@/lib/db";
 import { RESERVED_SLUGS } from "@/lib/agentTemplates";
 import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 const SLUG_REGEX = /^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/;
 
 export async function GET(request: Request) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { searchParams } = new URL(request.url);
     const slug = searchParams.get("slug");
 
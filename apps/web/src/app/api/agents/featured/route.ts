@@ -1,5 +1,6 @@
 import { getDB } from "@/lib/db";
 import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 interface FeaturedAgentRow {
   id: string;
@@ -19,8 +20,11 @@ interface FeaturedAgentRow {
 }
 
 // GET featured agents
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const db = await getDB();
 
     // Fetch featured agents (manually marked OR high-rated with many reviews)
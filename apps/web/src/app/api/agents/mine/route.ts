@@ -1,5 +1,5 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 
 interface MyAgentRow {
@@ -19,12 +19,10 @@ interface MyAgentRow {
   unique_users: number;
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
 
     const db = await getDB();
 
@@ -48,7 +46,7 @@ export async function GET() {
          WHERE a.owner_id = ? AND a.is_active = 1
          ORDER BY a.created_at DESC`
       )
-      .bind(session.userId)
+      .bind(auth.userId)
       .all<MyAgentRow>();
 
     const agents = result.results.map((row) => ({
@@ -1,9 +1,9 @@
 import { getDB, getEnv } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { RESERVED_SLUGS } from "@/lib/agentTemplates";
 import { NextResponse } from "next/server";
 import { encrypt } from "@/lib/encryption";
-import { isValidProvider } from "@/lib/llm-providers";
+import { validateLlmConfig } from "@/lib/llm-providers";
 import { isSupportedChain, DEFAULT_CHAIN_ID } from "@/lib/smart-account/config";
 
 const SLUG_REGEX = /^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/;
@@ -30,6 +30,9 @@ interface AgentRow {
 
 export async function GET(request: Request) {
   try {
+    const { error: authError } = await authenticateRequest(request, "agents:read");
+    if (authError) return authError;
+
     const { searchParams } = new URL(request.url);
 
     // Parse query parameters
@@ -175,10 +178,8 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
 
     const body = await request.json();
     const { name, slug, description, category, template, systemPrompt, welcomeMessage, icon, pricingType, pricePerQuery, freeQueries, agentWallet, capabilities, brandColor, businessInfo, llmProvider, llmApiKey, llmModel, llmBaseUrl, chainId: requestChainId } = body;
@@ -231,15 +232,21 @@ export async function POST(request: Request) {
     let validLlmBaseUrl: string | null = llmBaseUrl?.trim() || null;
 
     if (llmProvider) {
-      if (!isValidProvider(llmProvider)) {
-        return NextResponse.json({ error: "llmProvider must be one of: openai, anthropic, openrouter" }, { status: 400 });
+      if (llmApiKey !== undefined && llmApiKey !== null && typeof llmApiKey !== "string") {
+        return NextResponse.json({ error: "llmApiKey must be a string" }, { status: 400 });
       }
-      if (!llmApiKey || typeof llmApiKey !== "string" || !llmApiKey.trim()) {
-        return NextResponse.json({ error: "llmApiKey is required when llmProvider is set" }, { status: 400 });
+      const llmError = validateLlmConfig({ provider: llmProvider, apiKey: llmApiKey, model: llmModel, baseUrl: llmBaseUrl });
+      if (llmError) {
+        return NextResponse.json({ error: llmError }, { status: 400 });
       }
       validLlmProvider = llmProvider;
-      const env = await getEnv();
-      encryptedLlmApiKey = await encrypt(llmApiKey.trim(), env.EMBEDDED_WALLET_SECRET, "llm-api-key");
+      if (llmProvider === "workers-ai") {
+        // Runs on the platform's AI binding; no key or endpoint of its own
+        validLlmBaseUrl = null;
+      } else if (llmApiKey?.trim()) {
+        const env = await getEnv();
+        encryptedLlmApiKey = await encrypt(llmApiKey.trim(), env.EMBEDDED_WALLET_SECRET, "llm-api-key");
+      }
     }
 
     await db
@@ -261,7 +268,7 @@ export async function POST(request: Request) {
         freeQueries || 0,
         validWallet,
         capabilities ? JSON.stringify(capabilities) : null,
-        session.userId,
+        auth.userId,
         slug,
         template || null,
         brandColor || null,
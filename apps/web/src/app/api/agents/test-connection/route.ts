@@ -0,0 +1,93 @@
+import { getDB, getEnv } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { decrypt } from "@/lib/encryption";
+import { checkRateLimit, LLM_TEST_RATE_LIMIT } from "@/lib/rate-limit";
+import {
+  createProviderModel,
+  getDefaultModel,
+  testModelConnection,
+  validateLlmConfig,
+  type LlmProvider,
+} from "@/lib/llm-providers";
+import { NextResponse } from "next/server";
+
+/**
+ * Test LLM settings before saving them: makes a minimal completion and
+ * reports whether the model streams, calls tools and accepts images.
+ * Pass agentId without apiKey to test with the agent's stored key.
+ */
+export async function POST(request: Request) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:manage");
+    if (authError) return authError;
+
+    const rl = await checkRateLimit(LLM_TEST_RATE_LIMIT, auth.userId);
+    if (!rl.allowed) {
+      return NextResponse.json(
+        { error: "Too many connection tests. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(rl.retryAfterSeconds) } }
+      );
+    }
+
+    const body = await request.json();
+    const { provider, agentId } = body as { provider?: unknown; agentId?: unknown };
+    const apiKey = typeof body.apiKey === "string" && body.apiKey.trim() ? body.apiKey.trim() : undefined;
+    const model = typeof body.model === "string" && body.model.trim() ? body.model.trim() : undefined;
+    let baseUrl = typeof body.baseUrl === "string" && body.baseUrl.trim() ? body.baseUrl.trim() : undefined;
+
+    if (typeof provider !== "string") {
+      return NextResponse.json({ error: "provider is required" }, { status: 400 });
+    }
+
+    const env = await getEnv();
+    let storedKey: string | undefined;
+    if (typeof agentId === "string" && !apiKey && provider !== "workers-ai") {
+      const db = await getDB();
+      const agent = await db
+        .prepare("SELECT id, owner_id, llm_provider, encrypted_llm_api_key, llm_base_url FROM agents WHERE id = ? AND is_active = 1")
+        .bind(agentId)
+        .first<{
+          id: string;
+          owner_id: string;
+          llm_provider: string | null;
+          encrypted_llm_api_key: string | null;
+          llm_base_url: string | null;
+        }>();
+
+      if (!agent) {
+        return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+      }
+      if (agent.owner_id !== auth.userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+      // A stored key is only sent to the provider it was saved for
+      if (agent.llm_provider === provider && agent.encrypted_llm_api_key) {
+        storedKey = await decrypt(agent.encrypted_llm_api_key, env.EMBEDDED_WALLET_SECRET, "llm-api-key");
+        baseUrl ??= agent.llm_base_url || undefined;
+      }
+    }
+
+    const configError = validateLlmConfig({ provider, apiKey: apiKey ?? storedKey, model, baseUrl });
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 400 });
+    }
+
+    const modelId = model ?? getDefaultModel(provider as LlmProvider)!;
+    const result = await testModelConnection(
+      createProviderModel(provider as LlmProvider, {
+        apiKey: apiKey ?? storedKey,
+        modelId,
+        baseURL: provider === "workers-ai" ? undefined : baseUrl,
+        ai: env.AI,
+      })
+    );
+
+    return NextResponse.json({ provider, modelId, ...result });
+  } catch (error) {
+    console.error("Failed to test LLM connection:", error);
+    return NextResponse.json(
+      { error: "Failed to test LLM connection" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { getArtifact, artifactTemplates } from "@/lib/artifacts";
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 // GET export artifact in various formats
 export async function GET(
@@ -9,6 +9,9 @@ export async function GET(
   context: { params: Promise<{ artifactId: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "artifacts:read");
+    if (authError) return authError;
+
     const { artifactId } = await context.params;
     const { searchParams } = new URL(request.url);
     const format = searchParams.get("format") || "markdown";
@@ -27,8 +30,7 @@ export async function GET(
       .first<{ user_id: string | null }>();
 
     if (sessionRow?.user_id) {
-      const authSession = await getSession();
-      if (!authSession || authSession.userId !== sessionRow.user_id) {
+      if (!auth || auth.userId !== sessionRow.user_id) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
     }
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { getDB, getEnv } from "@/lib/db";
 import { hashPassword, createToken, setSessionCookie } from "@/lib/auth";
 import { generateEmbeddedWallet, getSmartAccountAddress, decryptPrivateKey } from "@/lib/embedded-wallet";
-import { checkRateLimit, REGISTER_RATE_LIMIT } from "@/lib/rate-limit";
+import { checkRateLimit, getClientIp, REGISTER_RATE_LIMIT } from "@/lib/rate-limit";
 import { z } from "zod";
 
 const registerSchema = z.object({
@@ -17,7 +17,7 @@ export async function POST(req: Request) {
     const { email, password, name } = registerSchema.parse(body);
 
     // Rate limit: 3 registrations per hour per IP
-    const clientIp = req.headers.get("cf-connecting-ip") || req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const clientIp = getClientIp(req) || "unknown";
     const rl = await checkRateLimit(REGISTER_RATE_LIMIT, clientIp);
     if (!rl.allowed) {
       return NextResponse.json(
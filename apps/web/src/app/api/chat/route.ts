@@ -1,13 +1,19 @@
-import { streamText, Message } from "ai";
+import { streamText, createDataStreamResponse, Message, type JSONValue } from "ai";
 import { getDB, getCtx } from "@/lib/db";
 import { NextResponse } from "next/server";
 import { searchDocuments, SearchResult } from "@/lib/rag";
 import { checkPaymentRequired } from "@/lib/x402";
-import { resolveModel, deductPlatformCost, refundPlatformCost, InsufficientBalanceError } from "@/lib/llm-providers";
-import { getSession } from "@/lib/auth";
+import { resolveModelChain, InsufficientBalanceError } from "@/lib/llm-providers";
+import { inferenceUsage } from "@/lib/inference-billing";
+import { startModelRun } from "@/lib/model-fallback";
+import { authenticateRequest } from "@/lib/apiAuth";
+import { getClientIp } from "@/lib/rate-limit";
 import { loadMemoryContext, getMemoryConfig, isRememberCommand, storeExplicitMemory } from "@/lib/memory";
-import { resolveAgentTools, getToolRows, buildToolInstructions } from "@/lib/tools";
+import { resolveAgentTools, getToolRows, buildToolInstructions, type ToolContext, type ToolRow } from "@/lib/tools";
+import { recordPendingApprovals, applyApprovalResults } from "@/lib/tool-approvals";
 import { getActiveSkillInstructions, formatSkillsForPrompt } from "@/lib/skills";
+import { buildChatContext, narrowestModelId, CONTEXT_PRIORITY, type ContextSection } from "@/lib/context-window";
+import { saveAssistantMessage, collectToolCalls } from "@/lib/chat-transcript";
 
 interface AgentRow {
   system_prompt: string;
@@ -16,6 +22,10 @@ interface AgentRow {
 
 export async function POST(req: Request) {
   try {
+    // Session cookie or API key with chat:write (anonymous users still work)
+    const { auth, error: authError } = await authenticateRequest(req, "chat:write");
+    if (authError) return authError;
+
     const { messages, sessionId, agentId, useRag = true } = await req.json();
 
     // Validate messages
@@ -47,13 +57,18 @@ export async function POST(req: Request) {
       }
     }
 
-    // Get authenticated user (optional — anonymous users still work)
-    let userId: string | null = null;
-    try {
-      const userSession = await getSession();
-      userId = userSession?.userId ?? null;
-    } catch {
-      // Auth not available — continue as anonymous
+    const userId = auth?.userId ?? null;
+
+    // Replies are only saved to a session of this agent that the caller may write to
+    let canSaveReply = false;
+    if (sessionId && resolvedAgentId) {
+      const db = await getDB();
+      const session = await db
+        .prepare("SELECT agent_id, user_id FROM sessions WHERE id = ?")
+        .bind(sessionId)
+        .first<{ agent_id: string; user_id: string | null }>();
+      canSaveReply =
+        !!session && session.agent_id === resolvedAgentId && (!session.user_id || session.user_id === userId);
     }
 
     // Load memory context for authenticated users
@@ -69,49 +84,17 @@ export async function POST(req: Request) {
       }
     }
 
-    // Normalize messages to ensure they have IDs
-    const normalizedMessages: Message[] = messages.map((m: { id?: string; role: string; content: string }, idx: number) => ({
+    // Normalize messages to ensure they have IDs. Tool invocations are kept so a
+    // conversation paused for tool approval can resume with the tool result.
+    const normalizedMessages: Message[] = messages.map((m: Message, idx: number) => ({
       id: m.id || `msg-${idx}-${Date.now()}`,
       role: m.role as "user" | "assistant" | "system",
       content: m.content,
+      ...(m.role === "assistant" && Array.isArray(m.toolInvocations) && m.toolInvocations.length > 0
+        ? { toolInvocations: m.toolInvocations }
+        : {}),
     }));
 
-    // Build context from session history if available
-    let contextMessages: Message[] = normalizedMessages;
-
-    if (sessionId) {
-      try {
-        const db = await getDB();
-        const result = await db
-          .prepare(
-            `SELECT role, content FROM messages
-             WHERE session_id = ?
-             ORDER BY created_at ASC
-             LIMIT 20`
-          )
-          .bind(sessionId)
-          .all<{ role: string; content: string }>();
-
-        // Prepend historical messages for context
-        if (result.results.length > 0) {
-          const historyMessages: Message[] = result.results.map((row, idx) => ({
-            id: `history-${idx}`,
-            role: row.role as "user" | "assistant",
-            content: row.content,
-          }));
-          // Only use history if current messages don't already include it
-          if (normalizedMessages.length <= 1) {
-            contextMessages = [
-              ...historyMessages,
-              ...normalizedMessages.filter((m) => !m.id.startsWith("history-")),
-            ];
-          }
-        }
-      } catch (error) {
-        console.error("Failed to fetch session history:", error);
-      }
-    }
-
     // Check if payment is required (x402)
     if (sessionId && resolvedAgentId) {
       try {
@@ -166,10 +149,10 @@ export async function POST(req: Request) {
       }
     }
 
-    // Resolve LLM model (BYOK or platform default)
-    let resolved;
+    // Resolve LLM models (BYOK or platform default, then configured fallbacks)
+    let chain;
     try {
-      resolved = await resolveModel(resolvedAgentId);
+      chain = await resolveModelChain(resolvedAgentId);
     } catch (error) {
       if (error instanceof InsufficientBalanceError) {
         return NextResponse.json(
@@ -191,82 +174,182 @@ export async function POST(req: Request) {
       }
     }
 
-    // Build system prompt with RAG context and memory
-    let fullSystemPrompt = `${systemPrompt}\n\nYou are ${agentName}. Be helpful, accurate, and concise.`;
+    // System prompt sections, fitted into the model's window by priority
+    const basePrompt = `${systemPrompt}\n\nYou are ${agentName}. Be helpful, accurate, and concise.`;
+    const sections: ContextSection[] = [];
 
     if (memoryContext) {
-      fullSystemPrompt += `\n\n${memoryContext}`;
+      sections.push({ name: "memory", text: `\n\n${memoryContext}`, priority: CONTEXT_PRIORITY.memory, truncatable: true });
     }
 
     if (ragContext) {
-      fullSystemPrompt += `\n\nUse the following information to help answer the user's question. Cite sources using [1], [2], etc. when referencing information.${ragContext}`;
+      sections.push({
+        name: "rag",
+        text: `\n\nUse the following information to help answer the user's question. Cite sources using [1], [2], etc. when referencing information.${ragContext}`,
+        priority: CONTEXT_PRIORITY.rag,
+        truncatable: true,
+      });
     }
 
     // Load skills for system prompt
     try {
       const skills = await getActiveSkillInstructions(resolvedAgentId);
       if (skills.length > 0) {
-        fullSystemPrompt += "\n\n" + formatSkillsForPrompt(skills);
+        sections.push({ name: "skills", text: "\n\n" + formatSkillsForPrompt(skills), priority: CONTEXT_PRIORITY.skills });
       }
     } catch (error) {
       console.error("Failed to load skills:", error);
     }
 
-    // Resolve tools for this agent
+    // Resolve tools for this agent. Tools that require approval pause the
+    // stream; without a session there is nowhere to persist the approval.
     let tools: Record<string, import("ai").CoreTool> | undefined;
     let maxSteps: number | undefined;
+    let toolRows: ToolRow[] = [];
+    // The reply is saved under this ID, and its tool executions point at it
+    const assistantMessageId = crypto.randomUUID();
+    const toolContext: ToolContext = {
+      sessionId: sessionId || "anon",
+      userId,
+      agentId: resolvedAgentId,
+      messageId: sessionId ? assistantMessageId : undefined,
+      clientIp: getClientIp(req),
+      approvalMode: sessionId ? "pause" : "deny",
+    };
     try {
-      const toolContext = { sessionId: sessionId || "anon", userId, agentId: resolvedAgentId };
       const resolvedTools = await resolveAgentTools(resolvedAgentId, toolContext);
       if (Object.keys(resolvedTools).length > 0) {
         tools = resolvedTools;
         maxSteps = 5;
         // Add tool descriptions to system prompt
-        const toolRows = await getToolRows(resolvedAgentId);
-        fullSystemPrompt += buildToolInstructions(toolRows);
+        toolRows = await getToolRows(resolvedAgentId);
+        // Only describe tools the model was given (open breakers are left out)
+        sections.push({
+          name: "tools",
+          text: buildToolInstructions(toolRows.filter((r) => r.name in resolvedTools)),
+          priority: CONTEXT_PRIORITY.tools,
+        });
       }
     } catch (error) {
       console.error("Failed to resolve tools:", error);
     }
 
-    // Deduct platform cost BEFORE the LLM call (atomic, prevents race conditions)
-    if (!resolved.isByok && resolvedAgentId) {
-      const deducted = await deductPlatformCost(resolvedAgentId);
-      if (!deducted) {
-        return NextResponse.json(
-          { error: "Agent creator has insufficient platform balance" },
-          { status: 402 }
-        );
-      }
+    // Newest turns verbatim, older ones folded into the session summary
+    const context = await buildChatContext({
+      sessionId: sessionId || null,
+      agentId: resolvedAgentId,
+      userId,
+      modelId: narrowestModelId(chain.map((c) => c.modelId)),
+      system: basePrompt,
+      sections,
+      messages: normalizedMessages,
+    });
+    let contextMessages = context.messages;
+
+    // Use server-recorded outcomes for approval-gated tool calls
+    const gatedToolNames = new Set(toolRows.filter((r) => r.requires_approval === 1).map((r) => r.name));
+    if (sessionId && gatedToolNames.size > 0) {
+      contextMessages = await applyApprovalResults(contextMessages, sessionId, gatedToolNames);
     }
 
-    const result = streamText({
-      model: resolved.model,
-      system: fullSystemPrompt,
-      messages: contextMessages,
-      tools,
+    // Reserve the estimated cost BEFORE the LLM call (atomic, prevents race conditions)
+    const run = await startModelRun(resolvedAgentId, chain, {
+      promptTokens: context.promptTokens,
       maxSteps,
-      onError: (error) => {
-        console.error("AI streaming error:", error);
-        // Refund on LLM failure (best-effort)
-        if (!resolved.isByok && resolvedAgentId) {
-          refundPlatformCost(resolvedAgentId);
-        }
-      },
+      sessionId: sessionId || null,
+      messageId: sessionId ? assistantMessageId : null,
     });
+    if (!run) {
+      return NextResponse.json(
+        { error: "Agent creator has insufficient platform balance" },
+        { status: 402 }
+      );
+    }
 
-    // Add citations to the response headers
-    const response = result.toDataStreamResponse();
+    // Citations are sent as a header so the client can render sources
+    const headers: Record<string, string> = {};
+    if (sessionId) {
+      headers["X-Message-Id"] = assistantMessageId;
+    }
     if (citations.length > 0) {
-      response.headers.set("X-Citations", JSON.stringify(citations.map((c) => ({
+      headers["X-Citations"] = JSON.stringify(citations.map((c) => ({
         id: c.chunkId,
         title: c.title,
         excerpt: c.content.slice(0, 200),
         score: c.score,
-      }))));
+      })));
     }
 
-    return response;
+    const ctx = await getCtx();
+    const llmStart = Date.now();
+
+    return createDataStreamResponse({
+      headers,
+      execute: (dataStream) => {
+        const result = streamText({
+          model: run.model,
+          system: context.system,
+          messages: contextMessages,
+          tools,
+          maxSteps,
+          onStepFinish: async (step) => {
+            if (gatedToolNames.size === 0 || !sessionId) return;
+            try {
+              // Gated calls have no execute, so they finish the step without a result
+              const approvals = await recordPendingApprovals(step.toolCalls, toolRows, toolContext);
+              for (const approval of approvals) {
+                dataStream.writeMessageAnnotation({
+                  type: "tool-approval",
+                  approvalId: approval.id,
+                  toolCallId: approval.toolCallId,
+                  toolName: approval.toolName,
+                  displayName: approval.displayName,
+                  args: approval.args as JSONValue,
+                  expiresAt: approval.expiresAt,
+                });
+              }
+            } catch (error) {
+              console.error("Failed to record tool approvals:", error);
+            }
+          },
+          onFinish: ({ text, steps, usage, finishReason }) => {
+            // Settle against the usage of every step, billed to the model that answered
+            const answered = run.current();
+            ctx.waitUntil(run.settle(inferenceUsage(steps)));
+            dataStream.writeMessageAnnotation({
+              type: "model",
+              provider: answered.provider,
+              modelId: answered.modelId,
+              fallbackFrom: run.failed.map((f) => f.modelId),
+            });
+            if (!sessionId || !canSaveReply) return;
+            ctx.waitUntil(
+              saveAssistantMessage({
+                id: assistantMessageId,
+                sessionId,
+                content: text,
+                citations: citations.length > 0 ? citations : undefined,
+                toolCalls: collectToolCalls(steps),
+                modelId: answered.modelId,
+                usage,
+                latencyMs: Date.now() - llmStart,
+                finishReason,
+              })
+            );
+          },
+          onError: ({ error }) => {
+            console.error("AI streaming error:", error);
+            // Refund on LLM failure (best-effort)
+            ctx.waitUntil(run.refund());
+          },
+        });
+
+        // Run to completion even if the browser disconnects, so the reply is saved
+        ctx.waitUntil(result.consumeStream());
+        result.mergeIntoDataStream(dataStream);
+      },
+      onError: () => "Failed to generate a response",
+    });
   } catch (error) {
     console.error("Chat API error:", error);
     return NextResponse.json(
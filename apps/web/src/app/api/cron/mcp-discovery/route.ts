@@ -0,0 +1,22 @@
+import { getEnv } from "@/lib/db";
+import { runScheduledDiscovery } from "@/lib/mcp-discovery";
+import { NextResponse } from "next/server";
+
+/**
+ * POST /api/cron/mcp-discovery — Re-discover MCP servers and queue tool changes for review
+ * Called by the worker's cron trigger (worker.ts) with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: Request) {
+  try {
+    const env = await getEnv();
+    if (!env.CRON_SECRET || request.headers.get("Authorization") !== `Bearer ${env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await runScheduledDiscovery();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Failed to run scheduled MCP discovery:", error);
+    return NextResponse.json({ error: "Failed to run scheduled MCP discovery" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getDB } from "@/lib/db";
 import { getSession } from "@/lib/auth";
+import { isValidScope } from "@/lib/apiAuth";
 import { createHash, randomBytes } from "crypto";
 
 // GET list API keys for current user
@@ -62,6 +63,12 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Name is required" }, { status: 400 });
     }
 
+    if (scopes !== undefined) {
+      if (!Array.isArray(scopes) || scopes.some((s) => typeof s !== "string" || !isValidScope(s))) {
+        return NextResponse.json({ error: "Invalid scopes" }, { status: 400 });
+      }
+    }
+
     const db = await getDB();
 
     // Check key limit (max 5 keys per user)
@@ -8,6 +8,7 @@ interface UsageStats {
   sessions: number;
   totalSpend: number;
   queriesByAgent: { agentId: string; agentName: string; count: number }[];
+  callsByApiKey: { keyId: string; keyName: string; keyPrefix: string; count: number }[];
   dailyUsage: { date: string; calls: number; spend: number }[];
 }
 
@@ -74,6 +75,19 @@ export async function GET(request: Request) {
       .bind(session.userId, startDateStr)
       .all<{ agent_id: string; agent_name: string | null; count: number }>();
 
+    // Get API calls attributed to each key
+    const keyUsage = await db
+      .prepare(
+        `SELECT u.key_id, k.name as key_name, k.key_prefix, COUNT(*) as count
+         FROM api_key_usage u
+         LEFT JOIN api_keys k ON u.key_id = k.id
+         WHERE u.user_id = ? AND u.created_at >= ?
+         GROUP BY u.key_id
+         ORDER BY count DESC`
+      )
+      .bind(session.userId, startDateStr)
+      .all<{ key_id: string; key_name: string | null; key_prefix: string | null; count: number }>();
+
     // Get daily usage for chart
     const dailyUsage = await db
       .prepare(
@@ -132,6 +146,12 @@ export async function GET(request: Request) {
         agentName: r.agent_name || "Unknown",
         count: r.count,
       })),
+      callsByApiKey: keyUsage.results.map((r) => ({
+        keyId: r.key_id,
+        keyName: r.key_name || "Revoked key",
+        keyPrefix: r.key_prefix || "",
+        count: r.count,
+      })),
       dailyUsage: dailyData,
     };
 
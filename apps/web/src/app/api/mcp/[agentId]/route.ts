@@ -0,0 +1,88 @@
+/**
+ * MCP Endpoint (Streamable HTTP)
+ * Serves an agent to MCP clients: initialize, tools/list, tools/call,
+ * prompts/list and prompts/get. Callers authenticate with an API key
+ * carrying the mcp:invoke scope. See lib/mcp-server.ts.
+ */
+
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import {
+  handleMcpRequest,
+  McpRpcError,
+  type McpRpcMessage,
+  type McpServedAgent,
+} from "@/lib/mcp-server";
+import { NextResponse } from "next/server";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "mcp:invoke");
+    if (authError) return authError;
+
+    const { agentId } = await params;
+
+    let rpc: McpRpcMessage;
+    try {
+      rpc = await request.json();
+    } catch {
+      return jsonRpcError(null, -32700, "Parse error");
+    }
+
+    if (Array.isArray(rpc)) {
+      return jsonRpcError(null, -32600, "Batch requests are not supported");
+    }
+    if (rpc?.jsonrpc !== "2.0") {
+      return jsonRpcError(rpc?.id ?? null, -32600, "Invalid Request");
+    }
+
+    // Notifications (e.g. notifications/initialized) and client responses need no reply
+    if (rpc.id === undefined || rpc.id === null || !rpc.method) {
+      return new Response(null, { status: 202 });
+    }
+
+    const db = await getDB();
+    const agent = await db
+      .prepare("SELECT id, name, description FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1")
+      .bind(agentId, agentId)
+      .first<McpServedAgent>();
+
+    if (!agent) {
+      return jsonRpcError(rpc.id, -32001, "Agent not found");
+    }
+
+    try {
+      const result = await handleMcpRequest(rpc, agent, auth);
+      return NextResponse.json({ jsonrpc: "2.0", id: rpc.id, result });
+    } catch (error) {
+      if (error instanceof McpRpcError) {
+        return jsonRpcError(rpc.id, error.code, error.message);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("MCP endpoint error:", error);
+    return jsonRpcError(null, -32603, "Internal error");
+  }
+}
+
+/**
+ * No server-initiated stream and no sessions to end: the endpoint is POST-only.
+ */
+export async function GET() {
+  return new Response(null, { status: 405, headers: { Allow: "POST" } });
+}
+
+export async function DELETE() {
+  return new Response(null, { status: 405, headers: { Allow: "POST" } });
+}
+
+function jsonRpcError(id: string | number | null, code: number, message: string) {
+  return NextResponse.json(
+    { jsonrpc: "2.0", id, error: { code, message } },
+    { status: code === -32700 || code === -32600 ? 400 : 200 }
+  );
+}
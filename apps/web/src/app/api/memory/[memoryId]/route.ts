@@ -1,4 +1,4 @@
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { deleteMemory } from "@/lib/memory";
 import { NextResponse } from "next/server";
 
@@ -10,13 +10,11 @@ export async function DELETE(
   { params }: { params: Promise<{ memoryId: string }> }
 ) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "memory:write");
+    if (authError) return authError;
 
     const { memoryId } = await params;
-    const deleted = await deleteMemory(memoryId, session.userId);
+    const deleted = await deleteMemory(memoryId, auth.userId);
 
     if (!deleted) {
       return NextResponse.json({ error: "Memory not found" }, { status: 404 });
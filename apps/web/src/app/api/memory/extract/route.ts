@@ -1,4 +1,4 @@
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { getCtx } from "@/lib/db";
 import { extractMemories } from "@/lib/memory";
 import { NextResponse } from "next/server";
@@ -9,10 +9,8 @@ import { NextResponse } from "next/server";
  */
 export async function POST(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "memory:write");
+    if (authError) return authError;
 
     const { sessionId, agentId } = await request.json();
     if (!sessionId || !agentId) {
@@ -20,7 +18,7 @@ export async function POST(request: Request) {
     }
 
     const ctx = await getCtx();
-    ctx.waitUntil(extractMemories(sessionId, agentId, session.userId));
+    ctx.waitUntil(extractMemories(sessionId, agentId, auth.userId));
 
     return NextResponse.json({ success: true, message: "Extraction triggered" });
   } catch (error) {
@@ -1,4 +1,4 @@
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { runReflector } from "@/lib/memory";
 import { NextResponse } from "next/server";
 
@@ -9,17 +9,15 @@ import { NextResponse } from "next/server";
  */
 export async function POST(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "memory:write");
+    if (authError) return authError;
 
     const { agentId } = await request.json();
     if (!agentId) {
       return NextResponse.json({ error: "agentId is required" }, { status: 400 });
     }
 
-    const result = await runReflector(session.userId, agentId);
+    const result = await runReflector(auth.userId, agentId);
     return NextResponse.json({
       success: true,
       expired: result.expired,
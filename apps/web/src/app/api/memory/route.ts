@@ -1,4 +1,4 @@
-import { getSession } from "@/lib/auth";
+import { requireAuth } from "@/lib/apiAuth";
 import { listMemories, clearMemories, getMemoryCount } from "@/lib/memory";
 import { NextResponse } from "next/server";
 
@@ -7,10 +7,8 @@ import { NextResponse } from "next/server";
  */
 export async function GET(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "memory:read");
+    if (authError) return authError;
 
     const url = new URL(request.url);
     const agentId = url.searchParams.get("agentId");
@@ -18,8 +16,8 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "agentId is required" }, { status: 400 });
     }
 
-    const memories = await listMemories(session.userId, agentId);
-    const count = await getMemoryCount(session.userId, agentId);
+    const memories = await listMemories(auth.userId, agentId);
+    const count = await getMemoryCount(auth.userId, agentId);
 
     return NextResponse.json({ memories, count });
   } catch (error) {
@@ -33,10 +31,8 @@ export async function GET(request: Request) {
  */
 export async function DELETE(request: Request) {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "memory:write");
+    if (authError) return authError;
 
     const url = new URL(request.url);
     const agentId = url.searchParams.get("agentId");
@@ -44,7 +40,7 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: "agentId is required" }, { status: 400 });
     }
 
-    const deleted = await clearMemories(session.userId, agentId);
+    const deleted = await clearMemories(auth.userId, agentId);
     return NextResponse.json({ deleted });
   } catch (error) {
     console.error("Failed to clear memories:", error);
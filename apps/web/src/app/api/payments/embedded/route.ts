@@ -3,6 +3,7 @@ import { getDB, getEnv } from "@/lib/db";
 import { getSession } from "@/lib/auth";
 import {
   recordPayment,
+  verifyPayment,
   updatePaymentStatus,
   updateSessionPaymentStatus,
 } from "@/lib/x402";
@@ -128,9 +129,14 @@ export async function POST(req: Request) {
       sessionId
     );
 
-    // Mark as verified only for real on-chain payments
+    // Mark as verified only for real on-chain payments that pass verification
     if (onChain) {
-      await updatePaymentStatus(paymentId, "verified");
+      const verification = await verifyPayment(paymentId, transactionHash, { agentId, sessionId });
+      if (verification.verified) {
+        await updatePaymentStatus(paymentId, "verified", verification.blockNumber);
+      } else {
+        console.error("Embedded payment failed verification:", verification.error);
+      }
     }
 
     // Update session payment status (embedded balance was already deducted)
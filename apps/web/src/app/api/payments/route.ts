@@ -64,15 +64,13 @@ export async function POST(request: Request) {
     const {
       paymentId,
       payerAddress,
-      amount,
-      chainId,
       transactionHash,
       sessionId,
       agentId,
     } = await request.json();
 
-    // Validate required fields
-    if (!paymentId || !payerAddress || !amount || !chainId || !transactionHash || !agentId) {
+    // Validate required fields (amount and chain come from the stored payment request)
+    if (!paymentId || !payerAddress || !transactionHash || !agentId) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
@@ -94,23 +92,33 @@ export async function POST(request: Request) {
     }
     const payeeAddress = agent.agent_wallet;
 
-    // Record the payment
+    // Verify the payment on-chain against the issued payment request
+    const verification = await verifyPayment(paymentId, transactionHash, { agentId, sessionId });
+
+    // Only a transfer that may still confirm is worth recording
+    if (!verification.verified && !verification.pending) {
+      return NextResponse.json(
+        { verified: false, error: verification.error },
+        { status: 400 }
+      );
+    }
+
+    // Record the payment (a pending one submitted again is updated in place).
+    // A verified payment is attributed to the sender of the transfer, not the
+    // address the client sent; a pending one keeps that claim until then.
     const receipt = await recordPayment(
       paymentId,
-      payerAddress,
+      verification.payerAddress ?? payerAddress,
       payeeAddress,
-      amount,
-      chainId,
+      verification.amount!,
+      verification.chainId!,
       transactionHash,
       agentId,
       sessionId
     );
 
-    // Verify the payment on-chain
-    const verification = await verifyPayment(transactionHash, amount, payeeAddress);
-
     if (verification.verified) {
-      await updatePaymentStatus(paymentId, "verified");
+      await updatePaymentStatus(paymentId, "verified", verification.blockNumber);
       receipt.status = "verified";
 
       // Update session payment status if session provided
@@ -0,0 +1,60 @@
+import { getDB } from "@/lib/db";
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/apiAuth";
+import { decideApproval, ApprovalError } from "@/lib/tool-approvals";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string; approvalId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request, "chat:write");
+    if (authError) return authError;
+
+    const { sessionId, approvalId } = await params;
+    const { decision } = await request.json();
+
+    if (decision !== "approve" && decision !== "reject") {
+      return NextResponse.json(
+        { error: "decision must be \"approve\" or \"reject\"" },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDB();
+
+    const session = await db
+      .prepare("SELECT id, user_id FROM sessions WHERE id = ?")
+      .bind(sessionId)
+      .first<{ id: string; user_id: string | null }>();
+
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Auth: if session has a user, require authentication and ownership
+    if (session.user_id) {
+      if (!auth || auth.userId !== session.user_id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const approval = await decideApproval(approvalId, sessionId, decision);
+
+    return NextResponse.json({
+      id: approval.id,
+      toolCallId: approval.toolCallId,
+      status: approval.status,
+      result: approval.result,
+    });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to decide approval:", error);
+    return NextResponse.json(
+      { error: "Failed to process approval" },
+      { status: 500 }
+    );
+  }
+}
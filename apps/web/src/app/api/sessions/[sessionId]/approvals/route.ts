@@ -0,0 +1,43 @@
+import { getDB } from "@/lib/db";
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/apiAuth";
+import { getPendingApprovals } from "@/lib/tool-approvals";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request, "sessions:read");
+    if (authError) return authError;
+
+    const { sessionId } = await params;
+    const db = await getDB();
+
+    const session = await db
+      .prepare("SELECT id, user_id FROM sessions WHERE id = ?")
+      .bind(sessionId)
+      .first<{ id: string; user_id: string | null }>();
+
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Auth: if session has a user, require authentication and ownership
+    if (session.user_id) {
+      if (!auth || auth.userId !== session.user_id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const approvals = await getPendingApprovals(sessionId);
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error("Failed to fetch approvals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch approvals" },
+      { status: 500 }
+    );
+  }
+}
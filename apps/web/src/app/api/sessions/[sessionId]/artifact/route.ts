@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { generateArtifact, getArtifact } from "@/lib/artifacts";
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 // GET artifact for a session
 export async function GET(
@@ -9,6 +9,9 @@ export async function GET(
   context: { params: Promise<{ sessionId: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "artifacts:read");
+    if (authError) return authError;
+
     const { sessionId } = await context.params;
 
     const db = await getDB();
@@ -25,8 +28,7 @@ export async function GET(
 
     // Auth: if session has a user, require authentication and ownership
     if (session.user_id) {
-      const authSession = await getSession();
-      if (!authSession || authSession.userId !== session.user_id) {
+      if (!auth || auth.userId !== session.user_id) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
     }
@@ -53,6 +55,9 @@ export async function POST(
   context: { params: Promise<{ sessionId: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "artifacts:write");
+    if (authError) return authError;
+
     const { sessionId } = await context.params;
 
     const db = await getDB();
@@ -68,8 +73,7 @@ export async function POST(
     }
 
     if (sessionRow.user_id) {
-      const authSession = await getSession();
-      if (!authSession || authSession.userId !== sessionRow.user_id) {
+      if (!auth || auth.userId !== sessionRow.user_id) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
     }
@@ -1,13 +1,15 @@
 import { getDB, getCtx } from "@/lib/db";
 import { NextResponse } from "next/server";
 import { extractMemories } from "@/lib/memory";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiAuth";
 
 interface MessageRow {
   id: string;
   role: string;
   content: string;
   citations: string | null;
+  tool_calls: string | null;
+  model_id: string | null;
   created_at: string;
 }
 
@@ -16,6 +18,9 @@ export async function GET(
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "sessions:read");
+    if (authError) return authError;
+
     const { sessionId } = await params;
     const db = await getDB();
 
@@ -31,15 +36,14 @@ export async function GET(
 
     // Auth: if session has a user, require authentication and ownership
     if (session.user_id) {
-      const authSession = await getSession();
-      if (!authSession || authSession.userId !== session.user_id) {
+      if (!auth || auth.userId !== session.user_id) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
     }
 
     const result = await db
       .prepare(
-        `SELECT id, role, content, citations, created_at
+        `SELECT id, role, content, citations, tool_calls, model_id, created_at
          FROM messages WHERE session_id = ? ORDER BY created_at ASC`
       )
       .bind(sessionId)
@@ -50,6 +54,8 @@ export async function GET(
       role: row.role,
       content: row.content,
       citations: row.citations ? JSON.parse(row.citations) : undefined,
+      toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
+      modelId: row.model_id ?? undefined,
       createdAt: row.created_at,
     }));
 
@@ -68,6 +74,9 @@ export async function POST(
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "sessions:write");
+    if (authError) return authError;
+
     const { sessionId } = await params;
     const { role, content, citations } = await request.json();
 
@@ -92,8 +101,7 @@ export async function POST(
 
     // Auth: if session has a user, require authentication and ownership
     if (session.user_id) {
-      const authSession = await getSession();
-      if (!authSession || authSession.userId !== session.user_id) {
+      if (!auth || auth.userId !== session.user_id) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
     }
@@ -1,9 +1,12 @@
 import { getDB } from "@/lib/db";
-import { getSession } from "@/lib/auth";
+import { authenticateRequest, requireAuth } from "@/lib/apiAuth";
 import { NextResponse } from "next/server";
 
 export async function POST(request: Request) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request, "sessions:write");
+    if (authError) return authError;
+
     const { agentId } = await request.json();
 
     if (!agentId) {
@@ -28,9 +31,9 @@ export async function POST(request: Request) {
     // Use the resolved UUID for the session
     const resolvedAgentId = agent.id;
 
-    // Get user session if authenticated
-    const userSession = await getSession();
-    const userId = userSession?.userId || null;
+    // Attribute to the authenticated user (and API key, if one was used)
+    const userId = auth?.userId || null;
+    const apiKeyId = auth?.keyId || null;
 
     // Create session
     const sessionId = crypto.randomUUID();
@@ -39,10 +42,10 @@ export async function POST(request: Request) {
 
     await db
       .prepare(
-        `INSERT INTO sessions (id, agent_id, user_id, queries_used, payment_status, created_at, updated_at, expires_at)
-         VALUES (?, ?, ?, 0, 'free', ?, ?, ?)`
+        `INSERT INTO sessions (id, agent_id, user_id, api_key_id, queries_used, payment_status, created_at, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, 0, 'free', ?, ?, ?)`
       )
-      .bind(sessionId, resolvedAgentId, userId, now, now, expiresAt)
+      .bind(sessionId, resolvedAgentId, userId, apiKeyId, now, now, expiresAt)
       .run();
 
     return NextResponse.json({
@@ -61,10 +64,8 @@ export async function POST(request: Request) {
 
 export async function GET(request: Request) {
   try {
-    const userSession = await getSession();
-    if (!userSession) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { auth, error: authError } = await requireAuth(request, "sessions:read");
+    if (authError) return authError;
 
     const db = await getDB();
     const url = new URL(request.url);
@@ -76,7 +77,7 @@ export async function GET(request: Request) {
       JOIN agents a ON s.agent_id = a.id
       WHERE s.user_id = ? AND s.expires_at > datetime('now')
     `;
-    const params: string[] = [userSession.userId];
+    const params: string[] = [auth.userId];
 
     if (agentId) {
       query += " AND s.agent_id = ?";
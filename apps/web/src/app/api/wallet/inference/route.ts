@@ -0,0 +1,114 @@
+import { getDB } from "@/lib/db";
+import { requireAuth } from "@/lib/apiAuth";
+import { microsToCents } from "@/lib/inference-billing";
+import { NextResponse } from "next/server";
+
+interface LedgerRow {
+  id: string;
+  agent_id: string;
+  agent_name: string | null;
+  session_id: string | null;
+  message_id: string | null;
+  model_id: string;
+  provider: string;
+  is_byok: number;
+  prompt_tokens: number | null;
+  cached_prompt_tokens: number | null;
+  completion_tokens: number | null;
+  reserved_micros: number;
+  cost_micros: number | null;
+  status: string;
+  created_at: string;
+}
+
+/**
+ * Inference ledger for the caller's agents: recent requests (newest first,
+ * paged with ?before=<createdAt>) and 30-day totals per model.
+ */
+export async function GET(request: Request) {
+  try {
+    const { auth, error: authError } = await requireAuth(request, "agents:read");
+    if (authError) return authError;
+
+    const db = await getDB();
+    const url = new URL(request.url);
+    const agentId = url.searchParams.get("agentId");
+    const before = url.searchParams.get("before");
+    const limit = Math.min(200, Math.max(1, parseInt(url.searchParams.get("limit") || "50", 10) || 50));
+
+    let filter = "l.owner_id = ?";
+    const params: (string | number)[] = [auth.userId];
+    if (agentId) {
+      filter += " AND l.agent_id = ?";
+      params.push(agentId);
+    }
+
+    const entries = await db
+      .prepare(
+        `SELECT l.id, l.agent_id, a.name as agent_name, l.session_id, l.message_id, l.model_id, l.provider, l.is_byok,
+                l.prompt_tokens, l.cached_prompt_tokens, l.completion_tokens, l.reserved_micros, l.cost_micros, l.status, l.created_at
+         FROM inference_ledger l
+         LEFT JOIN agents a ON l.agent_id = a.id
+         WHERE ${filter}${before ? " AND l.created_at < ?" : ""}
+         ORDER BY l.created_at DESC LIMIT ?`
+      )
+      .bind(...params, ...(before ? [before] : []), limit)
+      .all<LedgerRow>();
+
+    const totals = await db
+      .prepare(
+        `SELECT l.model_id, COUNT(*) as requests,
+                COALESCE(SUM(l.prompt_tokens), 0) as prompt_tokens,
+                COALESCE(SUM(l.cached_prompt_tokens), 0) as cached_prompt_tokens,
+                COALESCE(SUM(l.completion_tokens), 0) as completion_tokens,
+                COALESCE(SUM(CASE WHEN l.status = 'reserved' THEN l.reserved_micros ELSE l.cost_micros END), 0) as cost_micros
+         FROM inference_ledger l
+         WHERE ${filter} AND l.created_at > ?
+         GROUP BY l.model_id
+         ORDER BY cost_micros DESC`
+      )
+      .bind(...params, new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+      .all<{
+        model_id: string;
+        requests: number;
+        prompt_tokens: number;
+        cached_prompt_tokens: number;
+        completion_tokens: number;
+        cost_micros: number;
+      }>();
+
+    return NextResponse.json({
+      entries: entries.results.map((row) => ({
+        id: row.id,
+        agentId: row.agent_id,
+        agentName: row.agent_name,
+        sessionId: row.session_id,
+        messageId: row.message_id,
+        modelId: row.model_id,
+        provider: row.provider,
+        isByok: row.is_byok === 1,
+        promptTokens: row.prompt_tokens,
+        cachedPromptTokens: row.cached_prompt_tokens,
+        completionTokens: row.completion_tokens,
+        // Requests still running show their reservation
+        costCents: microsToCents(row.status === "reserved" ? row.reserved_micros : (row.cost_micros ?? 0)),
+        status: row.status,
+        createdAt: row.created_at,
+      })),
+      last30Days: totals.results.map((row) => ({
+        modelId: row.model_id,
+        requests: row.requests,
+        promptTokens: row.prompt_tokens,
+        cachedPromptTokens: row.cached_prompt_tokens,
+        completionTokens: row.completion_tokens,
+        costCents: microsToCents(row.cost_micros),
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch inference ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch inference ledger" },
+      { status: 500 }
+    );
+  }
+}
@@ -24,6 +24,15 @@ interface Agent {
   };
 }
 
+interface PendingApproval {
+  approvalId: string;
+  toolCallId: string;
+  toolName: string;
+  displayName: string;
+  args: Record<string, unknown>;
+  expiresAt: string;
+}
+
 // Session storage key
 const getSessionStorageKey = (agentId: string) => `straits_session_${agentId}`;
 
@@ -39,6 +48,10 @@ export default function ChatPage() {
   const [restoredMessages, setRestoredMessages] = useState<Message[]>([]);
   const [sessionReady, setSessionReady] = useState(false);
 
+  // Tool calls awaiting user approval, keyed by toolCallId
+  const [approvals, setApprovals] = useState<Record<string, PendingApproval>>({});
+  const [decidingApproval, setDecidingApproval] = useState<string | null>(null);
+
   // Payment state
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
   const [paymentRequired, setPaymentRequired] = useState<X402PaymentRequired | null>(null);
@@ -113,6 +126,34 @@ export default function ChatPage() {
               });
             });
 
+            // Re-attach tool calls still waiting for approval
+            try {
+              const approvalsRes = await fetch(`/api/sessions/${storedSessionId}/approvals`);
+              if (approvalsRes.ok) {
+                const { approvals: pending } = await approvalsRes.json();
+                const restoredApprovals: Record<string, PendingApproval> = {};
+                pending.forEach((a: { id: string; toolCallId: string; toolName: string; displayName: string; args: Record<string, unknown>; expiresAt: string }) => {
+                  restoredApprovals[a.toolCallId] = {
+                    approvalId: a.id,
+                    toolCallId: a.toolCallId,
+                    toolName: a.toolName,
+                    displayName: a.displayName,
+                    args: a.args,
+                    expiresAt: a.expiresAt,
+                  };
+                  restored.push({
+                    id: `approval-${a.id}`,
+                    role: "assistant",
+                    content: "",
+                    toolInvocations: [{ state: "call", toolCallId: a.toolCallId, toolName: a.toolName, args: a.args }],
+                  });
+                });
+                setApprovals(restoredApprovals);
+              }
+            } catch (err) {
+              console.error("Failed to restore pending approvals:", err);
+            }
+
             setRestoredMessages(restored);
             setQueriesUsed(messages.filter((m: { role: string }) => m.role === "user").length);
             setSessionReady(true);
@@ -226,25 +267,14 @@ export default function ChatPage() {
     return response;
   }, []);
 
-  const { messages, input, handleInputChange, handleSubmit, isLoading, append } = useChat({
+  const { messages, input, handleInputChange, handleSubmit, isLoading, append, addToolResult } = useChat({
     api: "/api/chat",
     body: { agentId, sessionId },
     initialMessages,
+    // Resubmit automatically once an approved tool's result is added
+    maxSteps: 5,
+    // Assistant replies are saved by /api/chat when the stream finishes
     fetch: customFetch,
-    onFinish: useCallback(async (message: Message) => {
-      // Save assistant message to session
-      if (sessionId) {
-        try {
-          await fetch(`/api/sessions/${sessionId}/messages`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ role: "assistant", content: message.content }),
-          });
-        } catch (err) {
-          console.error("Failed to save message:", err);
-        }
-      }
-    }, [sessionId]),
     onError: useCallback((error: Error) => {
       // Don't show error for payment required
       if (error.message !== "Payment required") {
@@ -278,6 +308,46 @@ export default function ChatPage() {
     handleSubmit(e);
   };
 
+  // Pick up approval requests streamed as message annotations
+  useEffect(() => {
+    const streamed: Record<string, PendingApproval> = {};
+    for (const message of messages) {
+      for (const annotation of message.annotations || []) {
+        if (isApprovalAnnotation(annotation)) {
+          streamed[annotation.toolCallId] = annotation;
+        }
+      }
+    }
+    const newIds = Object.keys(streamed).filter((id) => !approvals[id]);
+    if (newIds.length > 0) {
+      setApprovals((prev) => ({ ...streamed, ...prev }));
+    }
+  }, [messages, approvals]);
+
+  const handleApprovalDecision = async (approval: PendingApproval, decision: "approve" | "reject") => {
+    if (!sessionId) return;
+    setDecidingApproval(approval.toolCallId);
+
+    let result: unknown = "This tool call was not approved by the user and did not run.";
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/approvals/${approval.approvalId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        result = data.result;
+      }
+    } catch (err) {
+      console.error("Failed to submit approval:", err);
+    }
+
+    // The server substitutes its stored result when the chat resumes
+    addToolResult({ toolCallId: approval.toolCallId, result });
+    setDecidingApproval(null);
+  };
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -415,9 +485,18 @@ export default function ChatPage() {
               {/* Tool invocations */}
               {message.toolInvocations && message.toolInvocations.length > 0 && (
                 <div className="mb-2 space-y-1">
-                  {message.toolInvocations.map((invocation, idx) => (
-                    <ToolInvocationIndicator key={idx} invocation={invocation} />
-                  ))}
+                  {message.toolInvocations.map((invocation, idx) =>
+                    invocation.state === "call" && approvals[invocation.toolCallId] ? (
+                      <ApprovalCard
+                        key={idx}
+                        approval={approvals[invocation.toolCallId]}
+                        disabled={isLoading || decidingApproval === invocation.toolCallId}
+                        onDecide={(decision) => handleApprovalDecision(approvals[invocation.toolCallId], decision)}
+                      />
+                    ) : (
+                      <ToolInvocationIndicator key={idx} invocation={invocation} />
+                    )
+                  )}
                 </div>
               )}
               <div className="whitespace-pre-wrap">{message.content}</div>
@@ -459,6 +538,71 @@ export default function ChatPage() {
   );
 }
 
+// ─── Tool Approval ──────────────────────────────────────────────────────────
+
+function isApprovalAnnotation(value: unknown): value is PendingApproval & { type: "tool-approval" } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "tool-approval" &&
+    typeof (value as { toolCallId?: unknown }).toolCallId === "string"
+  );
+}
+
+function ApprovalCard({
+  approval,
+  disabled,
+  onDecide,
+}: {
+  approval: PendingApproval;
+  disabled: boolean;
+  onDecide: (decision: "approve" | "reject") => void;
+}) {
+  const expired = new Date(approval.expiresAt).getTime() < Date.now();
+  const args = Object.entries(approval.args || {});
+
+  return (
+    <div className="text-xs rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-2">
+      <div className="font-medium text-amber-800 dark:text-amber-300">
+        {approval.displayName} needs your approval
+      </div>
+      {args.length > 0 && (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-gray-700 dark:text-gray-300">
+          {args.map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="font-mono text-gray-500 dark:text-gray-400">{key}</dt>
+              <dd className="break-all">{typeof value === "string" ? value : JSON.stringify(value)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {expired ? (
+        <p className="text-gray-500 dark:text-gray-400">This request expired and was not run.</p>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onDecide("approve")}
+            disabled={disabled}
+            className="rounded-md bg-primary-600 px-3 py-1 text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Approve
+          </button>
+          <button
+            onClick={() => onDecide("reject")}
+            disabled={disabled}
+            className="rounded-md border border-gray-300 dark:border-gray-600 px-3 py-1 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <span className="text-gray-400">
+            Expires {new Date(approval.expiresAt).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Tool Invocation Indicator ──────────────────────────────────────────────
 
 interface ToolInvocation {
@@ -545,9 +689,60 @@ function ToolInvocationIndicator({ invocation }: { invocation: ToolInvocation })
         <div className="mt-1 px-3 py-2 bg-gray-50 dark:bg-gray-800/50 rounded-lg text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap max-h-40 overflow-y-auto">
           {typeof invocation.result === "string"
             ? invocation.result
-            : JSON.stringify(invocation.result, null, 2)}
+            : isMcpOutput(invocation.result)
+              ? invocation.result.text
+              : JSON.stringify(invocation.result, null, 2)}
         </div>
       )}
+      {isMcpOutput(invocation.result) && <McpOutputMedia output={invocation.result} />}
+    </div>
+  );
+}
+
+// ─── MCP Tool Output ────────────────────────────────────────────────────────
+
+interface McpOutput {
+  text: string;
+  images: Array<{ data: string; mimeType: string }>;
+  resources: Array<{ uri: string; name?: string; mimeType?: string }>;
+}
+
+function isMcpOutput(value: unknown): value is McpOutput {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { text?: unknown }).text === "string" &&
+    Array.isArray((value as { images?: unknown }).images) &&
+    Array.isArray((value as { resources?: unknown }).resources)
+  );
+}
+
+/** Images and resource links returned by MCP tools, shown below the badge */
+function McpOutputMedia({ output }: { output: McpOutput }) {
+  const links = output.resources.filter((r) => /^https?:\/\//i.test(r.uri));
+  if (output.images.length === 0 && links.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-1">
+      {output.images.map((image, idx) => (
+        <img
+          key={idx}
+          src={`data:${image.mimeType};base64,${image.data}`}
+          alt="Tool result"
+          className="max-h-64 rounded-lg border"
+        />
+      ))}
+      {links.map((resource) => (
+        <a
+          key={resource.uri}
+          href={resource.uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block truncate text-primary-600 hover:underline"
+        >
+          {resource.name || resource.uri}
+        </a>
+      ))}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { LlmConnectionTest } from "@/components/LlmConnectionTest";
 
 export interface AgentConfig {
   systemPrompt: string;
@@ -17,7 +18,16 @@ export interface AgentConfig {
     hours: string;
     website: string;
   };
-  llmProvider: "openai" | "anthropic" | "openrouter" | "";
+  llmProvider:
+    | "openai"
+    | "anthropic"
+    | "openrouter"
+    | "google"
+    | "mistral"
+    | "groq"
+    | "openai-compatible"
+    | "workers-ai"
+    | "";
   llmApiKey: string;
   llmModel: string;
   llmBaseUrl: string;
@@ -34,14 +44,26 @@ const LLM_PROVIDER_LABELS: Record<string, string> = {
   openai: "OpenAI",
   anthropic: "Anthropic",
   openrouter: "OpenRouter",
+  google: "Google Gemini",
+  mistral: "Mistral",
+  groq: "Groq",
+  "openai-compatible": "OpenAI-compatible (vLLM, Ollama...)",
+  "workers-ai": "Cloudflare Workers AI (platform)",
 };
 
 const LLM_DEFAULT_MODELS: Record<string, string> = {
   openai: "gpt-4o-mini",
   anthropic: "claude-sonnet-4-5-20250929",
   openrouter: "google/gemini-2.0-flash-001",
+  google: "gemini-2.0-flash",
+  mistral: "mistral-small-latest",
+  groq: "llama-3.3-70b-versatile",
+  "workers-ai": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
 };
 
+/** Self-hosted endpoints may not need a key; Workers AI never does */
+const LLM_KEY_OPTIONAL = ["openai-compatible", "workers-ai"];
+
 interface ConfigStepProps {
   initialData: AgentConfig;
   onChange: (data: AgentConfig) => void;
@@ -71,7 +93,8 @@ export function ConfigStep({ initialData, onChange, onSubmit, onBack, isSubmitti
 
   const isValid = data.systemPrompt.trim().length > 0 &&
     (data.pricingType === "free" || (data.agentWallet.trim().length > 0 && /^0x[a-fA-F0-9]{40}$/.test(data.agentWallet.trim()))) &&
-    (!data.llmProvider || data.llmApiKey.trim().length > 0);
+    (!data.llmProvider || LLM_KEY_OPTIONAL.includes(data.llmProvider) || data.llmApiKey.trim().length > 0) &&
+    (data.llmProvider !== "openai-compatible" || (data.llmBaseUrl.trim().length > 0 && data.llmModel.trim().length > 0));
 
   return (
     <div>
@@ -327,35 +350,59 @@ export function ConfigStep({ initialData, onChange, onSubmit, onBack, isSubmitti
                   ))}
                 </select>
               </div>
+              {data.llmProvider === "workers-ai" && (
+                <p className="text-xs text-gray-400">
+                  Runs on Cloudflare&apos;s network with no key needed. Usage is billed to your platform balance.
+                </p>
+              )}
               {data.llmProvider && (
                 <>
+                  {data.llmProvider !== "workers-ai" && (
+                    <>
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                          API Key{" "}
+                          {LLM_KEY_OPTIONAL.includes(data.llmProvider) ? (
+                            <span className="text-xs text-gray-400">(optional)</span>
+                          ) : (
+                            <span className="text-red-500">*</span>
+                          )}
+                        </label>
+                        <input
+                          type="password"
+                          value={data.llmApiKey}
+                          onChange={(e) => update({ llmApiKey: e.target.value })}
+                          placeholder={`Enter your ${LLM_PROVIDER_LABELS[data.llmProvider]} API key`}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                          Base URL{" "}
+                          {data.llmProvider === "openai-compatible" ? (
+                            <span className="text-red-500">*</span>
+                          ) : (
+                            <span className="text-xs text-gray-400">(optional, for custom/self-hosted endpoints)</span>
+                          )}
+                        </label>
+                        <input
+                          type="text"
+                          value={data.llmBaseUrl}
+                          onChange={(e) => update({ llmBaseUrl: e.target.value })}
+                          placeholder={data.llmProvider === "openai-compatible" ? "https://ollama.example.com/v1" : "https://api.openai.com/v1"}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                        />
+                      </div>
+                    </>
+                  )}
                   <div>
                     <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                      API Key <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="password"
-                      value={data.llmApiKey}
-                      onChange={(e) => update({ llmApiKey: e.target.value })}
-                      placeholder={`Enter your ${LLM_PROVIDER_LABELS[data.llmProvider]} API key`}
-                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                      Base URL <span className="text-xs text-gray-400">(optional, for custom/self-hosted endpoints)</span>
-                    </label>
-                    <input
-                      type="text"
-                      value={data.llmBaseUrl}
-                      onChange={(e) => update({ llmBaseUrl: e.target.value })}
-                      placeholder="https://api.openai.com/v1"
-                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                      Model <span className="text-xs text-gray-400">(optional)</span>
+                      Model{" "}
+                      {data.llmProvider === "openai-compatible" ? (
+                        <span className="text-red-500">*</span>
+                      ) : (
+                        <span className="text-xs text-gray-400">(optional)</span>
+                      )}
                     </label>
                     <input
                       type="text"
@@ -364,10 +411,18 @@ export function ConfigStep({ initialData, onChange, onSubmit, onBack, isSubmitti
                       placeholder={LLM_DEFAULT_MODELS[data.llmProvider] || "Default model"}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
                     />
-                    <p className="text-xs text-gray-400 mt-1">
-                      Leave empty to use the default: {LLM_DEFAULT_MODELS[data.llmProvider]}
-                    </p>
+                    {LLM_DEFAULT_MODELS[data.llmProvider] && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Leave empty to use the default: {LLM_DEFAULT_MODELS[data.llmProvider]}
+                      </p>
+                    )}
                   </div>
+                  <LlmConnectionTest
+                    provider={data.llmProvider}
+                    apiKey={data.llmApiKey}
+                    model={data.llmModel}
+                    baseUrl={data.llmBaseUrl}
+                  />
                 </>
               )}
             </div>
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import {
+  parseOpenApi,
+  buildSecurityHeaders,
+  type ParsedOpenApi,
+  type WebhookRequestConfig,
+} from "@/lib/openapi";
+
+/** A webhook tool generated from one OpenAPI operation */
+export interface ImportedWebhookTool {
+  name: string;
+  displayName: string;
+  description: string;
+  webhookUrl: string;
+  webhookMethod: string;
+  webhookHeaders: Record<string, string>;
+  webhookConfig: WebhookRequestConfig;
+  parametersSchema: Record<string, unknown>;
+}
+
+interface OpenApiImportProps {
+  onImport: (tools: ImportedWebhookTool[]) => void;
+  onCancel: () => void;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  GET: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  POST: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400",
+  PUT: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  PATCH: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  DELETE: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+};
+
+export function OpenApiImport({ onImport, onCancel }: OpenApiImportProps) {
+  const [specText, setSpecText] = useState("");
+  const [spec, setSpec] = useState<ParsedOpenApi | null>(null);
+  const [baseUrl, setBaseUrl] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  function parse(text: string) {
+    setError(null);
+    try {
+      const parsed = parseOpenApi(text);
+      if (parsed.operations.length === 0) {
+        throw new Error("The document has no operations");
+      }
+      setSpec(parsed);
+      setBaseUrl(parsed.baseUrl || "");
+      setSelected([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to parse the document");
+    }
+  }
+
+  async function loadFile(file: File) {
+    const text = await file.text();
+    setSpecText(text);
+    parse(text);
+  }
+
+  function toggle(key: string) {
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  }
+
+  function importSelected() {
+    if (!spec) return;
+    let base: URL;
+    try {
+      base = new URL(baseUrl);
+      if (base.protocol !== "https:" && base.protocol !== "http:") throw new Error();
+    } catch {
+      setError("Enter the API's base URL (http or https)");
+      return;
+    }
+
+    const tools = spec.operations
+      .filter((op) => selected.includes(op.key))
+      .map((op): ImportedWebhookTool => {
+        const { headers, querySecrets } = buildSecurityHeaders(spec.securitySchemes, op.security, credentials);
+        return {
+          name: op.toolName,
+          displayName: op.displayName,
+          description: op.description,
+          webhookUrl: `${base.href.replace(/\/+$/, "")}${op.path}`,
+          webhookMethod: op.method,
+          webhookHeaders: headers,
+          webhookConfig: querySecrets.length > 0 ? { ...op.config, querySecrets } : op.config,
+          parametersSchema: op.parametersSchema,
+        };
+      });
+    onImport(tools);
+  }
+
+  const neededSchemes = spec
+    ? spec.securitySchemes.filter((s) =>
+        spec.operations.some((op) => selected.includes(op.key) && op.security.includes(s.name))
+      )
+    : [];
+
+  return (
+    <div className="p-4 border border-indigo-200 dark:border-indigo-800 rounded-lg space-y-3">
+      {!spec ? (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Paste an OpenAPI 3.x document (JSON) or upload it. Each operation you pick becomes a webhook tool.
+          </p>
+          <textarea
+            value={specText}
+            onChange={(e) => setSpecText(e.target.value)}
+            rows={8}
+            placeholder='{ "openapi": "3.0.0", ... }'
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-xs font-mono"
+          />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => parse(specText)}
+              disabled={!specText.trim()}
+              className="rounded-md bg-indigo-600 px-3 py-1.5 text-xs text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Read Operations
+            </button>
+            <label className="text-xs text-indigo-600 dark:text-indigo-400 cursor-pointer hover:text-indigo-700">
+              Upload JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+              />
+            </label>
+            <button onClick={onCancel} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {spec.title} {spec.version && <span className="text-xs text-gray-400">v{spec.version}</span>}
+            </span>
+            <button onClick={() => setSpec(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Change document
+            </button>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Base URL</label>
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="https://api.example.com/v1"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">Operations</span>
+              <button
+                onClick={() =>
+                  setSelected(selected.length === spec.operations.length ? [] : spec.operations.map((op) => op.key))
+                }
+                className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+              >
+                {selected.length === spec.operations.length ? "Select none" : "Select all"}
+              </button>
+            </div>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {spec.operations.map((op) => (
+                <label key={op.key} className="flex items-start gap-2 text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(op.key)}
+                    onChange={() => toggle(op.key)}
+                    className="mt-0.5"
+                  />
+                  <span className={`px-1.5 rounded font-mono ${METHOD_STYLES[op.method] || "bg-gray-100 text-gray-600"}`}>
+                    {op.method}
+                  </span>
+                  <span>
+                    <span className="font-mono text-gray-900 dark:text-white">{op.path}</span>
+                    <span className="ml-1 text-gray-400 font-mono">{op.toolName}</span>
+                    {op.displayName !== op.key && (
+                      <span className="block text-gray-500 dark:text-gray-400">{op.displayName}</span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {neededSchemes.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">Credentials (stored encrypted)</span>
+              {neededSchemes.map((scheme) => (
+                <div key={scheme.name}>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {scheme.name}{" "}
+                    <span className="text-gray-400">
+                      {scheme.type === "apiKey"
+                        ? `(API key in ${scheme.in} "${scheme.paramName}")`
+                        : scheme.type === "basic"
+                          ? "(user:password)"
+                          : "(bearer token)"}
+                    </span>
+                  </label>
+                  <input
+                    type="password"
+                    value={credentials[scheme.name] || ""}
+                    onChange={(e) => setCredentials({ ...credentials, [scheme.name]: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={importSelected}
+              disabled={selected.length === 0}
+              className="rounded-md bg-indigo-600 px-3 py-1.5 text-xs text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Import {selected.length || ""} Tool{selected.length !== 1 ? "s" : ""}
+            </button>
+            <button onClick={onCancel} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import {
+  mapToolResponse,
+  parseOutputSchema,
+  type ResponseMapping,
+} from "@/lib/response-mapping";
+
+export interface ResponseShaping {
+  responseMapping?: ResponseMapping;
+  outputSchema?: Record<string, unknown>;
+}
+
+interface ResponseMappingEditorProps {
+  value: ResponseShaping;
+  onChange: (value: ResponseShaping) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-xs font-mono";
+
+export function ResponseMappingEditor({ value, onChange }: ResponseMappingEditorProps) {
+  const mapping = value.responseMapping ?? {};
+  const [fieldsText, setFieldsText] = useState((mapping.fields ?? []).join(", "));
+  const [schemaText, setSchemaText] = useState(value.outputSchema ? JSON.stringify(value.outputSchema, null, 2) : "");
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [sample, setSample] = useState("");
+
+  function updateMapping(patch: Partial<ResponseMapping>) {
+    const next = { ...mapping, ...patch };
+    const cleaned: ResponseMapping = {};
+    if (next.extract?.trim()) cleaned.extract = next.extract.trim();
+    if (next.fields && next.fields.length > 0) cleaned.fields = next.fields;
+    if (next.template?.trim()) cleaned.template = next.template;
+    onChange({ ...value, responseMapping: Object.keys(cleaned).length > 0 ? cleaned : undefined });
+  }
+
+  function updateSchema(text: string) {
+    setSchemaText(text);
+    if (!text.trim()) {
+      setSchemaError(null);
+      onChange({ ...value, outputSchema: undefined });
+      return;
+    }
+    const schema = parseOutputSchema(text);
+    setSchemaError(schema ? null : "Enter a JSON Schema object");
+    if (schema) onChange({ ...value, outputSchema: schema });
+  }
+
+  let preview: string | null = null;
+  if (sample.trim()) {
+    try {
+      preview = mapToolResponse(JSON.parse(sample), value.responseMapping ?? null, value.outputSchema ?? null);
+    } catch (err) {
+      preview = `Error: ${err instanceof Error ? err.message : "Mapping failed"}`;
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Shape JSON responses before the model sees them. Leave everything empty to pass the raw response through.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Extract (JSONPath)</label>
+          <input
+            type="text"
+            value={mapping.extract ?? ""}
+            onChange={(e) => updateMapping({ extract: e.target.value })}
+            placeholder="$.data.items[*]"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Keep fields</label>
+          <input
+            type="text"
+            value={fieldsText}
+            onChange={(e) => {
+              setFieldsText(e.target.value);
+              updateMapping({ fields: e.target.value.split(",").map((f) => f.trim()).filter(Boolean) });
+            }}
+            placeholder="id, name, price.amount"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Markdown template <span className="text-gray-400">(once per item for lists)</span>
+        </label>
+        <textarea
+          value={mapping.template ?? ""}
+          onChange={(e) => updateMapping({ template: e.target.value })}
+          rows={2}
+          placeholder="- **{{name}}**: {{price.amount}} {{price.currency}}"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Output JSON Schema <span className="text-gray-400">(checked after extraction)</span>
+        </label>
+        <textarea
+          value={schemaText}
+          onChange={(e) => updateSchema(e.target.value)}
+          rows={3}
+          placeholder='{ "type": "array", "items": { "type": "object", "required": ["id"] } }'
+          className={inputClass}
+        />
+        {schemaError && <p className="text-xs text-red-500 mt-1">{schemaError}</p>}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Try it with a sample response</label>
+        <textarea
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          rows={3}
+          placeholder='{ "data": { "items": [] } }'
+          className={inputClass}
+        />
+        {preview !== null && (
+          <pre className="mt-1 px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900 text-xs font-mono whitespace-pre-wrap max-h-40 overflow-auto">
+            {preview}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
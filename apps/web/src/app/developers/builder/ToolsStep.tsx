@@ -1,6 +1,10 @@
 "use client";
 
 import { useState } from "react";
+import { OpenApiImport, type ImportedWebhookTool } from "./OpenApiImport";
+import { ResponseMappingEditor } from "./ResponseMappingEditor";
+import type { WebhookRequestConfig } from "@/lib/openapi";
+import type { ResponseMapping } from "@/lib/response-mapping";
 
 interface BuiltinToolConfig {
   ref: string;
@@ -19,6 +23,11 @@ interface WebhookToolConfig {
   webhookMethod: string;
   webhookHeaders: Record<string, string>;
   parametersSchema: SchemaField[];
+  /** Imported from OpenAPI: the generated schema is used as-is instead of the fields */
+  rawSchema?: Record<string, unknown>;
+  webhookConfig?: WebhookRequestConfig;
+  responseMapping?: ResponseMapping;
+  outputSchema?: Record<string, unknown>;
 }
 
 interface SchemaField {
@@ -204,6 +213,7 @@ export function ToolsStep({ initialData, onChange, onNext, onBack }: ToolsStepPr
   const [showImportSkill, setShowImportSkill] = useState(false);
   const [importText, setImportText] = useState("");
   const [showMcpAdvanced, setShowMcpAdvanced] = useState<Record<string, boolean>>({});
+  const [showOpenApiImport, setShowOpenApiImport] = useState(false);
 
   const updateAndNotify = (
     newBuiltins: BuiltinToolConfig[],
@@ -238,6 +248,26 @@ export function ToolsStep({ initialData, onChange, onNext, onBack }: ToolsStepPr
     updateAndNotify(builtins, updated);
   };
 
+  const importOpenApiTools = (tools: ImportedWebhookTool[]) => {
+    const taken = new Set(webhooks.map((w) => w.name));
+    const imported = tools
+      .filter((t) => !taken.has(t.name))
+      .map((t): WebhookToolConfig => ({
+        id: crypto.randomUUID(),
+        name: t.name,
+        displayName: t.displayName,
+        description: t.description,
+        webhookUrl: t.webhookUrl,
+        webhookMethod: t.webhookMethod,
+        webhookHeaders: t.webhookHeaders,
+        parametersSchema: [],
+        rawSchema: t.parametersSchema,
+        webhookConfig: t.webhookConfig,
+      }));
+    setShowOpenApiImport(false);
+    updateAndNotify(builtins, [...webhooks, ...imported]);
+  };
+
   const removeWebhook = (id: string) => {
     const updated = webhooks.filter((w) => w.id !== id);
     updateAndNotify(builtins, updated);
@@ -396,14 +426,28 @@ export function ToolsStep({ initialData, onChange, onNext, onBack }: ToolsStepPr
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Webhook Tools</h3>
-          <button
-            onClick={addWebhook}
-            className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium"
-          >
-            + Add Webhook Tool
-          </button>
+          <div className="flex gap-4">
+            <button
+              onClick={() => setShowOpenApiImport(!showOpenApiImport)}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium"
+            >
+              Import OpenAPI
+            </button>
+            <button
+              onClick={addWebhook}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium"
+            >
+              + Add Webhook Tool
+            </button>
+          </div>
         </div>
 
+        {showOpenApiImport && (
+          <div className="mb-4">
+            <OpenApiImport onImport={importOpenApiTools} onCancel={() => setShowOpenApiImport(false)} />
+          </div>
+        )}
+
         {webhooks.length === 0 ? (
           <p className="text-sm text-gray-400 italic">No webhook tools configured. Click &ldquo;Add Webhook Tool&rdquo; to connect external APIs.</p>
         ) : (
@@ -502,96 +546,122 @@ export function ToolsStep({ initialData, onChange, onNext, onBack }: ToolsStepPr
                           <option value="POST">POST</option>
                           <option value="GET">GET</option>
                           <option value="PUT">PUT</option>
+                          <option value="PATCH">PATCH</option>
+                          <option value="DELETE">DELETE</option>
                         </select>
                       </div>
                     </div>
 
                     {/* Parameters Schema */}
-                    <div>
-                      <div className="flex items-center justify-between mb-2">
-                        <label className="text-xs text-gray-500 dark:text-gray-400 font-medium">Parameters</label>
-                        <div className="flex gap-3">
-                          <button
-                            onClick={() => setShowRawSchema({ ...showRawSchema, [wh.id]: !showRawSchema[wh.id] })}
-                            className="text-xs text-gray-400 hover:text-gray-600"
-                          >
-                            {showRawSchema[wh.id] ? "Visual Editor" : "Raw JSON"}
-                          </button>
-                          {!showRawSchema[wh.id] && (
+                    {wh.rawSchema ? (
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 font-medium mb-2">
+                          Parameters <span className="font-normal text-gray-400">(generated from OpenAPI)</span>
+                        </label>
+                        <pre className="px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900 text-xs font-mono max-h-48 overflow-auto">
+                          {JSON.stringify(wh.rawSchema, null, 2)}
+                        </pre>
+                      </div>
+                    ) : (
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <label className="text-xs text-gray-500 dark:text-gray-400 font-medium">Parameters</label>
+                          <div className="flex gap-3">
                             <button
-                              onClick={() => addSchemaField(wh.id)}
-                              className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+                              onClick={() => setShowRawSchema({ ...showRawSchema, [wh.id]: !showRawSchema[wh.id] })}
+                              className="text-xs text-gray-400 hover:text-gray-600"
                             >
-                              + Add Field
+                              {showRawSchema[wh.id] ? "Visual Editor" : "Raw JSON"}
                             </button>
-                          )}
-                        </div>
-                      </div>
-
-                      {showRawSchema[wh.id] ? (
-                        <textarea
-                          value={JSON.stringify(fieldsToJsonSchema(wh.parametersSchema), null, 2)}
-                          onChange={(e) => {
-                            try {
-                              const parsed = JSON.parse(e.target.value);
-                              updateWebhook(wh.id, { parametersSchema: jsonSchemaToFields(parsed) });
-                            } catch {
-                              // Invalid JSON — don't update
-                            }
-                          }}
-                          rows={6}
-                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-xs font-mono"
-                        />
-                      ) : (
-                        <div className="space-y-2">
-                          {wh.parametersSchema.map((field, i) => (
-                            <div key={i} className="flex items-center gap-2">
-                              <input
-                                type="text"
-                                value={field.name}
-                                onChange={(e) => updateSchemaField(wh.id, i, { name: e.target.value })}
-                                placeholder="name"
-                                className="w-28 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs font-mono"
-                              />
-                              <select
-                                value={field.type}
-                                onChange={(e) => updateSchemaField(wh.id, i, { type: e.target.value as SchemaField["type"] })}
-                                className="w-24 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs"
-                              >
-                                <option value="string">string</option>
-                                <option value="number">number</option>
-                                <option value="boolean">boolean</option>
-                              </select>
-                              <input
-                                type="text"
-                                value={field.description}
-                                onChange={(e) => updateSchemaField(wh.id, i, { description: e.target.value })}
-                                placeholder="description"
-                                className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs"
-                              />
-                              <label className="flex items-center gap-1 text-xs text-gray-500">
-                                <input
-                                  type="checkbox"
-                                  checked={field.required}
-                                  onChange={(e) => updateSchemaField(wh.id, i, { required: e.target.checked })}
-                                  className="rounded text-indigo-600"
-                                />
-                                Req
-                              </label>
+                            {!showRawSchema[wh.id] && (
                               <button
-                                onClick={() => removeSchemaField(wh.id, i)}
-                                className="text-red-400 hover:text-red-600 text-xs"
+                                onClick={() => addSchemaField(wh.id)}
+                                className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
                               >
-                                ×
+                                + Add Field
                               </button>
-                            </div>
-                          ))}
-                          {wh.parametersSchema.length === 0 && (
-                            <p className="text-xs text-gray-400 italic">No parameters. Click &ldquo;Add Field&rdquo; to define input parameters.</p>
-                          )}
+                            )}
+                          </div>
                         </div>
-                      )}
-                    </div>
+
+                        {showRawSchema[wh.id] ? (
+                          <textarea
+                            value={JSON.stringify(fieldsToJsonSchema(wh.parametersSchema), null, 2)}
+                            onChange={(e) => {
+                              try {
+                                const parsed = JSON.parse(e.target.value);
+                                updateWebhook(wh.id, { parametersSchema: jsonSchemaToFields(parsed) });
+                              } catch {
+                                // Invalid JSON — don't update
+                              }
+                            }}
+                            rows={6}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-xs font-mono"
+                          />
+                        ) : (
+                          <div className="space-y-2">
+                            {wh.parametersSchema.map((field, i) => (
+                              <div key={i} className="flex items-center gap-2">
+                                <input
+                                  type="text"
+                                  value={field.name}
+                                  onChange={(e) => updateSchemaField(wh.id, i, { name: e.target.value })}
+                                  placeholder="name"
+                                  className="w-28 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs font-mono"
+                                />
+                                <select
+                                  value={field.type}
+                                  onChange={(e) => updateSchemaField(wh.id, i, { type: e.target.value as SchemaField["type"] })}
+                                  className="w-24 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs"
+                                >
+                                  <option value="string">string</option>
+                                  <option value="number">number</option>
+                                  <option value="boolean">boolean</option>
+                                </select>
+                                <input
+                                  type="text"
+                                  value={field.description}
+                                  onChange={(e) => updateSchemaField(wh.id, i, { description: e.target.value })}
+                                  placeholder="description"
+                                  className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-xs"
+                                />
+                                <label className="flex items-center gap-1 text-xs text-gray-500">
+                                  <input
+                                    type="checkbox"
+                                    checked={field.required}
+                                    onChange={(e) => updateSchemaField(wh.id, i, { required: e.target.checked })}
+                                    className="rounded text-indigo-600"
+                                  />
+                                  Req
+                                </label>
+                                <button
+                                  onClick={() => removeSchemaField(wh.id, i)}
+                                  className="text-red-400 hover:text-red-600 text-xs"
+                                >
+                                  ×
+                                </button>
+                              </div>
+                            ))}
+                            {wh.parametersSchema.length === 0 && (
+                              <p className="text-xs text-gray-400 italic">No parameters. Click &ldquo;Add Field&rdquo; to define input parameters.</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Response Mapping */}
+                    <details open={!!(wh.responseMapping || wh.outputSchema)}>
+                      <summary className="text-xs text-gray-500 dark:text-gray-400 font-medium cursor-pointer">
+                        Response mapping
+                      </summary>
+                      <div className="mt-2">
+                        <ResponseMappingEditor
+                          value={{ responseMapping: wh.responseMapping, outputSchema: wh.outputSchema }}
+                          onChange={(shaping) => updateWebhook(wh.id, shaping)}
+                        />
+                      </div>
+                    </details>
                   </div>
                 )}
               </div>
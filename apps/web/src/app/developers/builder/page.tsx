@@ -178,7 +178,10 @@ export default function AgentBuilderPage() {
               webhookUrl: wh.webhookUrl,
               webhookMethod: wh.webhookMethod,
               webhookHeaders: Object.keys(wh.webhookHeaders).length > 0 ? wh.webhookHeaders : undefined,
-              parametersSchema: fieldsToJsonSchema(wh.parametersSchema),
+              webhookConfig: wh.webhookConfig,
+              responseMapping: wh.responseMapping,
+              outputSchema: wh.outputSchema,
+              parametersSchema: wh.rawSchema ?? fieldsToJsonSchema(wh.parametersSchema),
             }),
           })
         );
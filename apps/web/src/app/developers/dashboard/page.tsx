@@ -19,6 +19,23 @@ interface NewKeyResponse extends ApiKey {
   message: string;
 }
 
+// Mirrors API_SCOPES in lib/apiAuth.ts
+const AVAILABLE_SCOPES: { scope: string; label: string }[] = [
+  { scope: "chat:write", label: "Chat with agents" },
+  { scope: "sessions:read", label: "Read sessions & messages" },
+  { scope: "sessions:write", label: "Create sessions & messages" },
+  { scope: "agents:read", label: "Read agents" },
+  { scope: "agents:manage", label: "Manage your agents" },
+  { scope: "memory:read", label: "Read memories" },
+  { scope: "memory:write", label: "Modify memories" },
+  { scope: "artifacts:read", label: "Read artifacts" },
+  { scope: "artifacts:write", label: "Generate artifacts" },
+  { scope: "a2a:invoke", label: "Call agents over A2A" },
+  { scope: "mcp:invoke", label: "Use agents from MCP clients" },
+];
+
+const DEFAULT_SCOPES = ["chat:write", "sessions:read", "sessions:write", "agents:read"];
+
 export default function DeveloperDashboard() {
   const { user, isAuthenticated } = useAuthContext();
   const [keys, setKeys] = useState<ApiKey[]>([]);
@@ -27,6 +44,7 @@ export default function DeveloperDashboard() {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newKeyName, setNewKeyName] = useState("");
   const [newKeyExpiry, setNewKeyExpiry] = useState<string>("never");
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(DEFAULT_SCOPES);
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -80,7 +98,7 @@ export default function DeveloperDashboard() {
         body: JSON.stringify({
           name: newKeyName,
           expiresInDays,
-          scopes: ["chat", "sessions", "agents"],
+          scopes: newKeyScopes,
         }),
       });
 
@@ -101,6 +119,7 @@ export default function DeveloperDashboard() {
         ]);
         setNewKeyName("");
         setNewKeyExpiry("never");
+        setNewKeyScopes(DEFAULT_SCOPES);
         setShowCreateForm(false);
       } else {
         const data = await res.json();
@@ -277,6 +296,27 @@ export default function DeveloperDashboard() {
                     <option value="365">1 year</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Scopes</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {AVAILABLE_SCOPES.map(({ scope, label }) => (
+                      <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={newKeyScopes.includes(scope)}
+                          onChange={(e) =>
+                            setNewKeyScopes((prev) =>
+                              e.target.checked ? [...prev, scope] : prev.filter((s) => s !== scope)
+                            )
+                          }
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span>{label}</span>
+                        <code className="text-xs text-gray-500 dark:text-gray-400">{scope}</code>
+                      </label>
+                    ))}
+                  </div>
+                </div>
                 <div className="flex gap-2">
                   <button
                     onClick={createKey}
@@ -290,6 +330,7 @@ export default function DeveloperDashboard() {
                       setShowCreateForm(false);
                       setNewKeyName("");
                       setNewKeyExpiry("never");
+                      setNewKeyScopes(DEFAULT_SCOPES);
                     }}
                     className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:text-gray-100"
                   >
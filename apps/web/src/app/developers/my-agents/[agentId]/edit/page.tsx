@@ -3,8 +3,12 @@
 import { useState, useEffect, useCallback, use } from "react";
 import Link from "next/link";
 import { Header } from "@/components/Header";
+import { LlmConnectionTest } from "@/components/LlmConnectionTest";
 import { useAuthContext } from "@/providers/AuthProvider";
 import { DocumentStep } from "@/app/developers/builder/DocumentStep";
+import { OpenApiImport, type ImportedWebhookTool } from "@/app/developers/builder/OpenApiImport";
+import { ResponseMappingEditor, type ResponseShaping } from "@/app/developers/builder/ResponseMappingEditor";
+import type { ResponseMapping } from "@/lib/response-mapping";
 
 interface AgentData {
   id: string;
@@ -24,21 +28,42 @@ interface AgentData {
   llmModel: string | null;
   llmBaseUrl: string | null;
   hasLlmApiKey: boolean;
+  llmFallbacks: LlmFallback[];
 }
 
+interface LlmFallback {
+  source: "byok" | "platform";
+  provider?: "openrouter" | "workers-ai";
+  model?: string;
+}
+
+const MAX_LLM_FALLBACKS = 3;
+
 const LLM_PROVIDER_LABELS: Record<string, string> = {
   "": "Platform Default",
   openai: "OpenAI",
   anthropic: "Anthropic",
   openrouter: "OpenRouter",
+  google: "Google Gemini",
+  mistral: "Mistral",
+  groq: "Groq",
+  "openai-compatible": "OpenAI-compatible (vLLM, Ollama...)",
+  "workers-ai": "Cloudflare Workers AI (platform)",
 };
 
 const LLM_DEFAULT_MODELS: Record<string, string> = {
   openai: "gpt-4o-mini",
   anthropic: "claude-sonnet-4-5-20250929",
   openrouter: "google/gemini-2.0-flash-001",
+  google: "gemini-2.0-flash",
+  mistral: "mistral-small-latest",
+  groq: "llama-3.3-70b-versatile",
+  "workers-ai": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
 };
 
+/** Self-hosted endpoints may not need a key; Workers AI never does */
+const LLM_KEY_OPTIONAL = ["openai-compatible", "workers-ai"];
+
 export default function EditAgentPage({ params }: { params: Promise<{ agentId: string }> }) {
   const { agentId } = use(params);
   const { isAuthenticated } = useAuthContext();
@@ -66,6 +91,7 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
   const [llmModel, setLlmModel] = useState("");
   const [llmBaseUrl, setLlmBaseUrl] = useState("");
   const [hasLlmApiKey, setHasLlmApiKey] = useState(false);
+  const [llmFallbacks, setLlmFallbacks] = useState<LlmFallback[]>([]);
 
   // Memory config state
   const [memoryEnabled, setMemoryEnabled] = useState(true);
@@ -97,6 +123,7 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
       setLlmModel(data.llmModel || "");
       setLlmBaseUrl(data.llmBaseUrl || "");
       setHasLlmApiKey(data.hasLlmApiKey || false);
+      setLlmFallbacks(data.llmFallbacks || []);
 
       // Fetch memory config
       try {
@@ -150,6 +177,11 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
           ...(llmApiKey ? { llmApiKey } : {}),
           llmModel: llmModel || null,
           llmBaseUrl: llmBaseUrl || null,
+          llmFallbacks: llmFallbacks.map((f) => ({
+            source: f.source,
+            ...(f.source === "platform" && f.provider === "workers-ai" && { provider: f.provider }),
+            ...(f.model?.trim() && { model: f.model.trim() }),
+          })),
         }),
       });
 
@@ -501,41 +533,61 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
                     ))}
                   </select>
                 </div>
+                {llmProvider === "workers-ai" && (
+                  <p className="text-xs text-gray-400">
+                    Runs on Cloudflare&apos;s network with no key needed. Usage is billed to your platform balance.
+                  </p>
+                )}
                 {llmProvider && (
                   <>
+                    {llmProvider !== "workers-ai" && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            API Key
+                            {LLM_KEY_OPTIONAL.includes(llmProvider) && <span className="ml-1 text-xs text-gray-400">(optional)</span>}
+                            {hasLlmApiKey && (
+                              <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                                Key is set
+                              </span>
+                            )}
+                          </label>
+                          <input
+                            type="password"
+                            value={llmApiKey}
+                            onChange={(e) => setLlmApiKey(e.target.value)}
+                            placeholder={hasLlmApiKey ? "Enter new key to update" : `Enter your ${LLM_PROVIDER_LABELS[llmProvider]} API key`}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            Base URL{" "}
+                            {llmProvider === "openai-compatible" ? (
+                              <span className="text-red-500">*</span>
+                            ) : (
+                              <span className="text-xs text-gray-400">(optional, for custom/self-hosted endpoints)</span>
+                            )}
+                          </label>
+                          <input
+                            type="text"
+                            value={llmBaseUrl}
+                            onChange={(e) => setLlmBaseUrl(e.target.value)}
+                            placeholder={llmProvider === "openai-compatible" ? "https://ollama.example.com/v1" : "https://api.openai.com/v1"}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                          />
+                        </div>
+                      </>
+                    )}
                     <div>
                       <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                        API Key
-                        {hasLlmApiKey && (
-                          <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
-                            Key is set
-                          </span>
+                        Model{" "}
+                        {llmProvider === "openai-compatible" ? (
+                          <span className="text-red-500">*</span>
+                        ) : (
+                          <span className="text-xs text-gray-400">(optional)</span>
                         )}
                       </label>
-                      <input
-                        type="password"
-                        value={llmApiKey}
-                        onChange={(e) => setLlmApiKey(e.target.value)}
-                        placeholder={hasLlmApiKey ? "Enter new key to update" : `Enter your ${LLM_PROVIDER_LABELS[llmProvider]} API key`}
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                        Base URL <span className="text-xs text-gray-400">(optional, for custom/self-hosted endpoints)</span>
-                      </label>
-                      <input
-                        type="text"
-                        value={llmBaseUrl}
-                        onChange={(e) => setLlmBaseUrl(e.target.value)}
-                        placeholder="https://api.openai.com/v1"
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                        Model <span className="text-xs text-gray-400">(optional)</span>
-                      </label>
                       <input
                         type="text"
                         value={llmModel}
@@ -543,12 +595,83 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
                         placeholder={LLM_DEFAULT_MODELS[llmProvider] || "Default model"}
                         className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
                       />
-                      <p className="text-xs text-gray-400 mt-1">
-                        Leave empty to use the default: {LLM_DEFAULT_MODELS[llmProvider]}
-                      </p>
+                      {LLM_DEFAULT_MODELS[llmProvider] && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          Leave empty to use the default: {LLM_DEFAULT_MODELS[llmProvider]}
+                        </p>
+                      )}
                     </div>
+                    <LlmConnectionTest
+                      provider={llmProvider}
+                      apiKey={llmApiKey}
+                      model={llmModel}
+                      baseUrl={llmBaseUrl}
+                      agentId={agentId}
+                    />
                   </>
                 )}
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Fallback models <span className="text-xs text-gray-400">(optional, tried in order)</span>
+                  </label>
+                  <p className="text-xs text-gray-400 mb-2">
+                    Used when the model above is rate limited, down or times out before answering. Platform fallbacks are billed to your balance.
+                  </p>
+                  <div className="space-y-2">
+                    {llmFallbacks.map((fallback, i) => (
+                      <div key={i} className="flex gap-2">
+                        <select
+                          value={fallback.provider === "workers-ai" ? "platform:workers-ai" : fallback.source}
+                          onChange={(e) =>
+                            setLlmFallbacks(
+                              llmFallbacks.map((f, j) =>
+                                j === i
+                                  ? e.target.value === "platform:workers-ai"
+                                    ? { source: "platform", provider: "workers-ai", model: "" }
+                                    : { source: e.target.value as LlmFallback["source"], model: "" }
+                                  : f
+                              )
+                            )
+                          }
+                          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                        >
+                          <option value="platform">Platform (OpenRouter)</option>
+                          <option value="platform:workers-ai">Platform (Workers AI)</option>
+                          <option value="byok" disabled={!llmProvider || llmProvider === "workers-ai"}>
+                            Your key{llmProvider && llmProvider !== "workers-ai" ? ` (${LLM_PROVIDER_LABELS[llmProvider]})` : ""}
+                          </option>
+                        </select>
+                        <input
+                          type="text"
+                          value={fallback.model || ""}
+                          onChange={(e) => setLlmFallbacks(llmFallbacks.map((f, j) => (j === i ? { ...f, model: e.target.value } : f)))}
+                          placeholder={
+                            fallback.source === "byok"
+                              ? LLM_DEFAULT_MODELS[llmProvider] || "Default model"
+                              : LLM_DEFAULT_MODELS[fallback.provider ?? "openrouter"]
+                          }
+                          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setLlmFallbacks(llmFallbacks.filter((_, j) => j !== i))}
+                          className="px-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    {llmFallbacks.length < MAX_LLM_FALLBACKS && (
+                      <button
+                        type="button"
+                        onClick={() => setLlmFallbacks([...llmFallbacks, { source: "platform", model: "" }])}
+                        className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                      >
+                        + Add fallback
+                      </button>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -618,7 +741,7 @@ export default function EditAgentPage({ params }: { params: Promise<{ agentId: s
             <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
               <button
                 onClick={handleSave}
-                disabled={saving || !name.trim() || !systemPrompt.trim() || (pricingType === "per-query" && !/^0x[a-fA-F0-9]{40}$/.test(agentWallet.trim())) || (!!llmProvider && !hasLlmApiKey && !llmApiKey.trim())}
+                disabled={saving || !name.trim() || !systemPrompt.trim() || (pricingType === "per-query" && !/^0x[a-fA-F0-9]{40}$/.test(agentWallet.trim())) || (!!llmProvider && !LLM_KEY_OPTIONAL.includes(llmProvider) && !hasLlmApiKey && !llmApiKey.trim()) || (llmProvider === "openai-compatible" && (!llmBaseUrl.trim() || !llmModel.trim()))}
                 className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors font-medium"
               >
                 {saving ? "Saving..." : "Save Changes"}
@@ -656,6 +779,14 @@ interface ToolItem {
   builtinRef: string | null;
   webhookUrl: string | null;
   webhookMethod: string | null;
+  signed?: boolean;
+  responseMapping: ResponseMapping | null;
+  outputSchema: Record<string, unknown> | null;
+  mcpServerId: string | null;
+  cacheTtlSeconds: number | null;
+  cacheVaryByUser: boolean;
+  /** Set while the tool's circuit breaker is open */
+  unavailableUntil: string | null;
 }
 
 interface McpServerItem {
@@ -665,9 +796,15 @@ interface McpServerItem {
   serverUrl: string;
   transportType: string;
   isActive: boolean;
+  authType: string;
+  needsReauth: boolean;
   lastDiscoveredAt: string | null;
   discoveryError: string | null;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastCheckedAt: string | null;
   toolCount: number;
+  pendingChanges: number;
 }
 
 function ToolsEditPanel({ agentId }: { agentId: string }) {
@@ -677,10 +814,17 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
   const [savingTool, setSavingTool] = useState(false);
   const [toolError, setToolError] = useState<string | null>(null);
   const [toolSuccess, setToolSuccess] = useState(false);
+  // Signing secrets are only returned on creation or rotation, so show them once
+  const [signingSecrets, setSigningSecrets] = useState<Array<{ name: string; secret: string }>>([]);
   const [discoveringServer, setDiscoveringServer] = useState<string | null>(null);
+  const [openServer, setOpenServer] = useState<string | null>(null);
+  const [openChangeLog, setOpenChangeLog] = useState<string | null>(null);
+  const [openServerTools, setOpenServerTools] = useState<string | null>(null);
+  const [openResponse, setOpenResponse] = useState<string | null>(null);
 
   // New webhook form
   const [showAddWebhook, setShowAddWebhook] = useState(false);
+  const [showOpenApiImport, setShowOpenApiImport] = useState(false);
   const [newName, setNewName] = useState("");
   const [newDisplayName, setNewDisplayName] = useState("");
   const [newDescription, setNewDescription] = useState("");
@@ -699,6 +843,17 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
     fetchMcpServers();
   }, [agentId]);
 
+  // Result of an MCP OAuth redirect back to this page
+  useEffect(() => {
+    const search = new URLSearchParams(window.location.search);
+    if (search.get("mcpAuth") === "connected") {
+      setToolSuccess(true);
+      setTimeout(() => setToolSuccess(false), 3000);
+    } else if (search.get("mcpAuth") === "error") {
+      setToolError(`MCP authorization failed: ${search.get("reason") || "unknown error"}`);
+    }
+  }, []);
+
   async function fetchTools() {
     try {
       const res = await fetch(`/api/agents/${agentId}/tools`);
@@ -781,10 +936,13 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
           parametersSchema: { type: "object", properties: {} },
         }),
       });
+      const data = await res.json();
       if (!res.ok) {
-        const data = await res.json();
         throw new Error(data.error || "Failed to add tool");
       }
+      if (data.signingSecret) {
+        setSigningSecrets([{ name: data.name, secret: data.signingSecret }]);
+      }
       setNewName("");
       setNewDisplayName("");
       setNewDescription("");
@@ -800,6 +958,62 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
     }
   }
 
+  async function importOpenApiTools(imported: ImportedWebhookTool[]) {
+    setSavingTool(true);
+    setToolError(null);
+
+    const failed: string[] = [];
+    const secrets: Array<{ name: string; secret: string }> = [];
+    for (const t of imported) {
+      const res = await fetch(`/api/agents/${agentId}/tools`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: t.name,
+          displayName: t.displayName,
+          description: t.description,
+          toolType: "webhook",
+          webhookUrl: t.webhookUrl,
+          webhookMethod: t.webhookMethod,
+          webhookHeaders: Object.keys(t.webhookHeaders).length > 0 ? t.webhookHeaders : undefined,
+          webhookConfig: t.webhookConfig,
+          parametersSchema: t.parametersSchema,
+        }),
+      }).catch(() => null);
+      if (!res?.ok) {
+        failed.push(t.name);
+        continue;
+      }
+      const data = await res.json();
+      if (data.signingSecret) secrets.push({ name: t.name, secret: data.signingSecret });
+    }
+    setSigningSecrets(secrets);
+
+    if (failed.length > 0) {
+      setToolError(`Failed to import: ${failed.join(", ")}`);
+    } else {
+      setShowOpenApiImport(false);
+      setToolSuccess(true);
+      setTimeout(() => setToolSuccess(false), 3000);
+    }
+    await fetchTools();
+    setSavingTool(false);
+  }
+
+  async function rotateSecret(tool: ToolItem) {
+    if (!confirm(`Rotate the signing secret for ${tool.displayName}? Requests are signed with the new secret immediately.`)) return;
+    setToolError(null);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/tools/${tool.id}/rotate-secret`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to rotate secret");
+      setSigningSecrets([{ name: tool.name, secret: data.signingSecret }]);
+      setTools((prev) => prev.map((t) => (t.id === tool.id ? { ...t, signed: true } : t)));
+    } catch (err) {
+      setToolError(err instanceof Error ? err.message : "Failed to rotate secret");
+    }
+  }
+
   async function removeTool(toolId: string) {
     try {
       await fetch(`/api/agents/${agentId}/tools/${toolId}`, { method: "DELETE" });
@@ -855,6 +1069,20 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
     }
   }
 
+  async function authorizeMcpServer(serverId: string) {
+    setToolError(null);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/mcp-servers/${serverId}/oauth`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start authorization");
+      }
+      window.location.href = data.authorizationUrl;
+    } catch (err) {
+      setToolError(err instanceof Error ? err.message : "Failed to start authorization");
+    }
+  }
+
   async function discoverTools(serverId: string) {
     setDiscoveringServer(serverId);
     setToolError(null);
@@ -899,6 +1127,21 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
           Saved!
         </div>
       )}
+      {signingSecrets.length > 0 && (
+        <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300 space-y-2">
+          <p>
+            Copy the signing secret{signingSecrets.length > 1 ? "s" : ""} now; {signingSecrets.length > 1 ? "they" : "it"} won&apos;t
+            be shown again. Verify the X-Straits-Signature header with verifyWebhookSignature from @straits/sdk.
+          </p>
+          {signingSecrets.map((s) => (
+            <div key={s.name} className="text-xs">
+              <span className="font-mono">{s.name}</span>
+              <code className="ml-2 px-1.5 py-0.5 bg-white dark:bg-gray-800 rounded font-mono break-all select-all">{s.secret}</code>
+            </div>
+          ))}
+          <button onClick={() => setSigningSecrets([])} className="text-xs underline">Dismiss</button>
+        </div>
+      )}
 
       {/* Builtin Tools */}
       <div>
@@ -932,14 +1175,29 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
       <div>
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Webhook Tools</h3>
-          <button
-            onClick={() => setShowAddWebhook(!showAddWebhook)}
-            className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium"
-          >
-            + Add Webhook
-          </button>
+          <div className="flex gap-4">
+            <button
+              onClick={() => setShowOpenApiImport(!showOpenApiImport)}
+              disabled={savingTool}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium disabled:opacity-50"
+            >
+              Import OpenAPI
+            </button>
+            <button
+              onClick={() => setShowAddWebhook(!showAddWebhook)}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium"
+            >
+              + Add Webhook
+            </button>
+          </div>
         </div>
 
+        {showOpenApiImport && (
+          <div className="mb-4">
+            <OpenApiImport onImport={importOpenApiTools} onCancel={() => setShowOpenApiImport(false)} />
+          </div>
+        )}
+
         {showAddWebhook && (
           <div className="p-4 border border-indigo-200 dark:border-indigo-800 rounded-lg mb-4 space-y-3 bg-indigo-50/50 dark:bg-indigo-900/10">
             <div className="grid grid-cols-2 gap-3">
@@ -1020,23 +1278,42 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
         ) : (
           <div className="space-y-2">
             {webhookTools.map((t) => (
-              <div
-                key={t.id}
-                className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
-              >
-                <div>
-                  <span className="font-medium text-gray-900 dark:text-white text-sm">{t.displayName}</span>
-                  <span className="ml-2 text-xs text-gray-400 font-mono">{t.name}</span>
-                  {t.webhookUrl && (
-                    <span className="ml-2 text-xs text-gray-400">{t.webhookMethod} {t.webhookUrl}</span>
-                  )}
+              <div key={t.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-gray-900 dark:text-white text-sm">{t.displayName}</span>
+                    <span className="ml-2 text-xs text-gray-400 font-mono">{t.name}</span>
+                    {t.webhookUrl && (
+                      <span className="ml-2 text-xs text-gray-400">{t.webhookMethod} {t.webhookUrl}</span>
+                    )}
+                    {!t.signed && <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">Unsigned</span>}
+                    {t.unavailableUntil && <ToolUnavailableBadge until={t.unavailableUntil} />}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setOpenResponse(openResponse === t.id ? null : t.id)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      {t.responseMapping || t.outputSchema ? "Response (mapped)" : "Response"}
+                      {t.cacheTtlSeconds ? " · cached" : ""}
+                    </button>
+                    <button
+                      onClick={() => rotateSecret(t)}
+                      className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+                    >
+                      {t.signed ? "Rotate secret" : "Generate secret"}
+                    </button>
+                    <button
+                      onClick={() => removeTool(t.id)}
+                      className="text-xs text-red-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
                 </div>
-                <button
-                  onClick={() => removeTool(t.id)}
-                  className="text-xs text-red-500 hover:text-red-700"
-                >
-                  Remove
-                </button>
+                {openResponse === t.id && (
+                  <ToolResponsePanel agentId={agentId} tool={t} onSaved={fetchTools} />
+                )}
               </div>
             ))}
           </div>
@@ -1136,6 +1413,21 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
                         {server.toolCount} tool{server.toolCount !== 1 ? "s" : ""}
                       </span>
                     )}
+                    {server.authType === "oauth" && !server.needsReauth && (
+                      <span className="text-xs px-1.5 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded">
+                        OAuth
+                      </span>
+                    )}
+                    {server.needsReauth && (
+                      <span className="text-xs px-1.5 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded">
+                        Needs authorization
+                      </span>
+                    )}
+                    {server.pendingChanges > 0 && (
+                      <span className="text-xs px-1.5 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded">
+                        {server.pendingChanges} change{server.pendingChanges !== 1 ? "s" : ""} to review
+                      </span>
+                    )}
                     {server.discoveryError && (
                       <span className="text-xs px-1.5 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded" title={server.discoveryError}>
                         Error
@@ -1150,6 +1442,30 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
                     >
                       {discoveringServer === server.id ? "Discovering..." : "Refresh Tools"}
                     </button>
+                    <button
+                      onClick={() => authorizeMcpServer(server.id)}
+                      className="text-xs text-indigo-500 hover:text-indigo-700"
+                    >
+                      {server.authType === "oauth" ? "Re-authorize" : "Authorize"}
+                    </button>
+                    <button
+                      onClick={() => setOpenServer(openServer === server.id ? null : server.id)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      {openServer === server.id ? "Hide Resources" : "Resources & Prompts"}
+                    </button>
+                    <button
+                      onClick={() => setOpenServerTools(openServerTools === server.id ? null : server.id)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      {openServerTools === server.id ? "Hide Tools" : "Tool Outputs"}
+                    </button>
+                    <button
+                      onClick={() => setOpenChangeLog(openChangeLog === server.id ? null : server.id)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      {openChangeLog === server.id ? "Hide Changes" : "Change Log"}
+                    </button>
                     <button
                       onClick={() => removeMcpServer(server.id)}
                       className="text-xs text-red-500 hover:text-red-700"
@@ -1164,6 +1480,57 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
                     Last discovered: {new Date(server.lastDiscoveredAt).toLocaleString()}
                   </div>
                 )}
+                {server.lastCheckedAt && (
+                  <div className={`mt-0.5 text-xs ${server.consecutiveFailures > 0 ? "text-red-500" : "text-gray-400"}`}>
+                    Last checked: {new Date(server.lastCheckedAt).toLocaleString()}
+                    {server.lastLatencyMs !== null && ` · ${server.lastLatencyMs} ms`}
+                    {server.consecutiveFailures > 0 &&
+                      ` · ${server.consecutiveFailures} consecutive failure${server.consecutiveFailures !== 1 ? "s" : ""}`}
+                  </div>
+                )}
+                {openServerTools === server.id && (
+                  <div className="mt-3 space-y-2">
+                    {tools
+                      .filter((t) => t.mcpServerId === server.id)
+                      .map((t) => (
+                        <div key={t.id} className="p-2 border border-gray-100 dark:border-gray-700 rounded">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="font-mono text-gray-700 dark:text-gray-300">
+                              {t.name}
+                              {t.unavailableUntil && <ToolUnavailableBadge until={t.unavailableUntil} />}
+                            </span>
+                            <button
+                              onClick={() => setOpenResponse(openResponse === t.id ? null : t.id)}
+                              className="text-gray-500 hover:text-gray-700"
+                            >
+                              {t.responseMapping || t.outputSchema ? "Response (mapped)" : "Response"}
+                              {t.cacheTtlSeconds ? " · cached" : ""}
+                            </button>
+                          </div>
+                          {openResponse === t.id && (
+                            <ToolResponsePanel agentId={agentId} tool={t} onSaved={fetchTools} />
+                          )}
+                        </div>
+                      ))}
+                    {!tools.some((t) => t.mcpServerId === server.id) && (
+                      <p className="text-xs text-gray-400 italic">No tools discovered yet.</p>
+                    )}
+                  </div>
+                )}
+                {openServer === server.id && (
+                  <McpAttachmentsPanel key={server.lastDiscoveredAt} agentId={agentId} serverId={server.id} />
+                )}
+                {openChangeLog === server.id && (
+                  <McpChangeLogPanel
+                    key={server.lastCheckedAt}
+                    agentId={agentId}
+                    serverId={server.id}
+                    onReviewed={() => {
+                      fetchTools();
+                      fetchMcpServers();
+                    }}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -1173,6 +1540,438 @@ function ToolsEditPanel({ agentId }: { agentId: string }) {
   );
 }
 
+function ToolUnavailableBadge({ until }: { until: string }) {
+  return (
+    <span
+      className="ml-2 text-xs text-red-500"
+      title="Repeated failures opened the circuit breaker; the tool is hidden from the model until then"
+    >
+      Unavailable until {new Date(until).toLocaleTimeString()}
+    </span>
+  );
+}
+
+// ─── Tool Response Mapping ──────────────────────────────────────────────────
+
+function ToolResponsePanel({ agentId, tool, onSaved }: { agentId: string; tool: ToolItem; onSaved: () => void }) {
+  const [shaping, setShaping] = useState<ResponseShaping>({
+    responseMapping: tool.responseMapping ?? undefined,
+    outputSchema: tool.outputSchema ?? undefined,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [cacheTtl, setCacheTtl] = useState(tool.cacheTtlSeconds ? String(tool.cacheTtlSeconds) : "");
+  const [cacheVaryByUser, setCacheVaryByUser] = useState(tool.cacheVaryByUser);
+  const [cacheStats, setCacheStats] = useState<{ successfulCalls: number; cacheHits: number; savedMs: number } | null>(null);
+  const [purged, setPurged] = useState(false);
+
+  useEffect(() => {
+    if (!tool.cacheTtlSeconds) return;
+    fetch(`/api/agents/${agentId}/tools/${tool.id}/cache`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setCacheStats(data.last7Days))
+      .catch(() => {});
+  }, [agentId, tool.id, tool.cacheTtlSeconds]);
+
+  async function purgeCache() {
+    setError(null);
+    const res = await fetch(`/api/agents/${agentId}/tools/${tool.id}/cache`, { method: "DELETE" });
+    if (!res.ok) {
+      setError("Failed to purge cache");
+      return;
+    }
+    setPurged(true);
+    setTimeout(() => setPurged(false), 3000);
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/tools/${tool.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          responseMapping: shaping.responseMapping ?? null,
+          outputSchema: shaping.outputSchema ?? null,
+          cacheTtlSeconds: Number(cacheTtl) > 0 ? Number(cacheTtl) : null,
+          cacheVaryByUser,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to save");
+      }
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700 space-y-2">
+      <ResponseMappingEditor value={shaping} onChange={setShaping} />
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+        <label className="flex items-center gap-1">
+          Cache results for
+          <input
+            type="number"
+            min={60}
+            max={86400}
+            value={cacheTtl}
+            onChange={(e) => setCacheTtl(e.target.value)}
+            placeholder="off"
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          seconds
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={cacheVaryByUser} onChange={(e) => setCacheVaryByUser(e.target.checked)} />
+          Separate cache per user
+        </label>
+        {!!tool.cacheTtlSeconds && (
+          <>
+            {cacheStats && (
+              <span>
+                {cacheStats.cacheHits} of {cacheStats.successfulCalls} calls served from cache in 7 days
+                {cacheStats.savedMs > 0 && ` (~${(cacheStats.savedMs / 1000).toFixed(1)}s saved)`}
+              </span>
+            )}
+            <button onClick={purgeCache} className="text-red-500 hover:text-red-700">
+              {purged ? "Purged" : "Purge cache"}
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">
+        Only cache read-only lookups. Turn on per-user caching when results depend on who is asking.
+      </p>
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-xs text-green-600">Saved</span>}
+        {error && <span className="text-xs text-red-500">{error}</span>}
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1 bg-indigo-600 text-white rounded text-xs hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── MCP Resources & Prompts ────────────────────────────────────────────────
+
+interface McpResourceItem {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+}
+
+interface McpPromptItem {
+  name: string;
+  title?: string;
+  description?: string;
+}
+
+function McpAttachmentsPanel({ agentId, serverId }: { agentId: string; serverId: string }) {
+  const [resources, setResources] = useState<McpResourceItem[]>([]);
+  const [prompts, setPrompts] = useState<McpPromptItem[]>([]);
+  const [selectedResources, setSelectedResources] = useState<string[]>([]);
+  const [selectedPrompts, setSelectedPrompts] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [agentId, serverId]);
+
+  async function fetchAttachments() {
+    try {
+      const res = await fetch(`/api/agents/${agentId}/mcp-servers/${serverId}/attachments`);
+      if (res.ok) {
+        const data = await res.json();
+        setResources(data.resources || []);
+        setPrompts(data.prompts || []);
+        setSelectedResources(data.attached?.resources || []);
+        setSelectedPrompts(data.attached?.prompts || []);
+      }
+    } catch {
+      setError("Failed to load resources and prompts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/mcp-servers/${serverId}/attachments`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resources: selectedResources, prompts: selectedPrompts }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save");
+      }
+      setSelectedResources(data.attached.resources);
+      setSelectedPrompts(data.attached.prompts);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggle(list: string[], setList: (value: string[]) => void, value: string) {
+    setList(list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+  }
+
+  if (loading) {
+    return <div className="mt-3 text-xs text-gray-400 animate-pulse">Loading resources and prompts...</div>;
+  }
+
+  if (resources.length === 0 && prompts.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-gray-400 italic">
+        This server exposes no resources or prompts. Use Refresh Tools to discover them again.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-800 space-y-3">
+      {resources.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Resources <span className="font-normal text-gray-400">(added to the knowledge base)</span>
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {resources.map((resource) => (
+              <label key={resource.uri} className="flex items-start gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedResources.includes(resource.uri)}
+                  onChange={() => toggle(selectedResources, setSelectedResources, resource.uri)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="text-gray-900 dark:text-white">{resource.title || resource.name}</span>
+                  <span className="ml-1 text-gray-400 font-mono">{resource.uri}</span>
+                  {resource.description && (
+                    <span className="block text-gray-500 dark:text-gray-400">{resource.description}</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      {prompts.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Prompts <span className="font-normal text-gray-400">(added as skills)</span>
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {prompts.map((prompt) => (
+              <label key={prompt.name} className="flex items-start gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedPrompts.includes(prompt.name)}
+                  onChange={() => toggle(selectedPrompts, setSelectedPrompts, prompt.name)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="text-gray-900 dark:text-white">{prompt.title || prompt.name}</span>
+                  {prompt.description && (
+                    <span className="block text-gray-500 dark:text-gray-400">{prompt.description}</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="rounded-md bg-indigo-600 px-3 py-1 text-xs text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Selection"}
+        </button>
+        {saved && <span className="text-xs text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
+
+// ─── MCP Change Log ─────────────────────────────────────────────────────────
+
+interface McpToolDefinitionItem {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface McpToolChangeItem {
+  id: string;
+  toolName: string;
+  changeType: "added" | "removed" | "changed";
+  previous: McpToolDefinitionItem | null;
+  next: McpToolDefinitionItem | null;
+  status: "pending" | "approved" | "rejected" | "applied" | "superseded";
+  createdAt: string;
+}
+
+const CHANGE_STATUS_STYLES: Record<McpToolChangeItem["status"], string> = {
+  pending: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  approved: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  applied: "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400",
+  rejected: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+  superseded: "bg-gray-100 dark:bg-gray-800 text-gray-400",
+};
+
+function McpChangeLogPanel({
+  agentId,
+  serverId,
+  onReviewed,
+}: {
+  agentId: string;
+  serverId: string;
+  onReviewed: () => void;
+}) {
+  const [changes, setChanges] = useState<McpToolChangeItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchChanges();
+  }, [agentId, serverId]);
+
+  async function fetchChanges() {
+    try {
+      const res = await fetch(`/api/agents/${agentId}/mcp-servers/${serverId}/changes`);
+      if (res.ok) {
+        const data = await res.json();
+        setChanges(data.changes || []);
+      }
+    } catch {
+      setError("Failed to load the change log");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function review(changeId: string, decision: "approve" | "reject") {
+    setReviewing(changeId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/mcp-servers/${serverId}/changes/${changeId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to review change");
+      }
+      setChanges((prev) => prev.map((c) => (c.id === changeId ? { ...c, status: data.change.status } : c)));
+      onReviewed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review change");
+    } finally {
+      setReviewing(null);
+    }
+  }
+
+  if (loading) {
+    return <div className="mt-3 text-xs text-gray-400 animate-pulse">Loading change log...</div>;
+  }
+
+  if (changes.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-gray-400 italic">
+        No tool changes recorded yet. The server is re-checked every 30 minutes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-800 space-y-2">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        New and changed tools found by scheduled checks stay off until you approve them. Removed tools are disabled
+        right away.
+      </p>
+      {changes.map((change) => (
+        <div key={change.id} className="text-xs">
+          <div className="flex items-center gap-2">
+            <span className={`px-1.5 py-0.5 rounded ${CHANGE_STATUS_STYLES[change.status]}`}>{change.status}</span>
+            <span className="text-gray-900 dark:text-white font-mono">{change.toolName}</span>
+            <span className="text-gray-500">{change.changeType}</span>
+            <span className="text-gray-400">{new Date(change.createdAt).toLocaleString()}</span>
+            {change.changeType !== "removed" && (
+              <button
+                onClick={() => setExpanded(expanded === change.id ? null : change.id)}
+                className="text-indigo-500 hover:text-indigo-700"
+              >
+                {expanded === change.id ? "Hide" : "Details"}
+              </button>
+            )}
+            {change.status === "pending" && (
+              <>
+                <button
+                  onClick={() => review(change.id, "approve")}
+                  disabled={reviewing === change.id}
+                  className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => review(change.id, "reject")}
+                  disabled={reviewing === change.id}
+                  className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </>
+            )}
+          </div>
+          {expanded === change.id && (
+            <div className="mt-1 grid grid-cols-2 gap-2">
+              {(["previous", "next"] as const).map((side) => (
+                <div key={side}>
+                  <div className="text-gray-500 mb-0.5">{side === "previous" ? "Before" : "After"}</div>
+                  <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto max-h-48 text-[11px]">
+                    {change[side] ? JSON.stringify(change[side], null, 2) : "—"}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
 // ─── Skills Edit Panel ──────────────────────────────────────────────────────
 
 interface SkillItem {
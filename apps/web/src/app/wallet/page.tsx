@@ -9,6 +9,26 @@ import { useSmartAccountContext } from "@/providers/SmartAccountProvider";
 import { useAuthContext } from "@/providers/AuthProvider";
 import { getChainConfig, isSupportedChain } from "@/lib/smart-account/config";
 
+interface InferenceTotal {
+  modelId: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costCents: number;
+}
+
+interface InferenceEntry {
+  id: string;
+  agentName: string | null;
+  modelId: string;
+  isByok: boolean;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  costCents: number;
+  status: string;
+  createdAt: string;
+}
+
 export default function WalletPage() {
   const { address: eoaAddress, isConnected, chainId } = useAccount();
   const {
@@ -34,6 +54,8 @@ export default function WalletPage() {
   const [onChainBalance, setOnChainBalance] = useState<string | null>(null);
   const [isLoadingOnChainBalance, setIsLoadingOnChainBalance] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [inferenceTotals, setInferenceTotals] = useState<InferenceTotal[]>([]);
+  const [inferenceEntries, setInferenceEntries] = useState<InferenceEntry[]>([]);
 
   // Get USDC address for current chain
   const usdcAddress = chainId && isSupportedChain(chainId)
@@ -78,6 +100,21 @@ export default function WalletPage() {
     }
   }, [hasEmbeddedWallet, embeddedWalletAddress, fetchOnChainBalance]);
 
+  // Inference spending of the user's agents
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetch("/api/wallet/inference?limit=20")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setInferenceTotals(data.last30Days ?? []);
+        setInferenceEntries(data.entries ?? []);
+      })
+      .catch(() => {
+        // Spending history is supplemental
+      });
+  }, [isAuthenticated]);
+
   const handleCopyAddress = () => {
     if (embeddedWalletAddress) {
       navigator.clipboard.writeText(embeddedWalletAddress);
@@ -185,6 +222,55 @@ export default function WalletPage() {
             </div>
           )}
 
+          {/* Inference Spending */}
+          {isAuthenticated && inferenceEntries.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 rounded-xl border p-6">
+              <h2 className="font-semibold mb-1 dark:text-white">Inference Spending</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Platform-key requests are billed by token usage. BYOK requests are listed at no cost.
+              </p>
+
+              {inferenceTotals.length > 0 && (
+                <div className="mb-4 space-y-1">
+                  <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Last 30 days</p>
+                  {inferenceTotals.map((t) => (
+                    <div key={t.modelId} className="flex items-center justify-between text-sm">
+                      <span className="font-mono text-xs truncate dark:text-gray-300">{t.modelId}</span>
+                      <span className="text-gray-600 dark:text-gray-400">
+                        {t.requests} requests · {(t.promptTokens + t.completionTokens).toLocaleString()} tokens · ${(t.costCents / 100).toFixed(4)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="divide-y dark:divide-gray-800">
+                {inferenceEntries.map((e) => (
+                  <div key={e.id} className="py-2 flex items-center justify-between text-xs">
+                    <div className="min-w-0">
+                      <p className="truncate dark:text-gray-200">{e.agentName ?? "Deleted agent"}</p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {new Date(e.createdAt).toLocaleString()} · {e.modelId}
+                        {e.isByok && " · BYOK"}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0 ml-4">
+                      <p className="font-medium dark:text-gray-200">
+                        {e.status === "refunded" ? "Refunded" : `$${(e.costCents / 100).toFixed(4)}`}
+                        {e.status === "reserved" && " (reserved)"}
+                      </p>
+                      {e.promptTokens !== null && (
+                        <p className="text-gray-500 dark:text-gray-400">
+                          {e.promptTokens.toLocaleString()} in · {(e.completionTokens ?? 0).toLocaleString()} out
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* External Wallet Section */}
           {!isConnected ? (
             <div className="bg-white dark:bg-gray-900 rounded-xl border p-8 text-center">
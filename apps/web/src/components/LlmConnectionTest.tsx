@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+
+interface LlmConnectionTestProps {
+  provider: string;
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  /** Lets the test use the agent's stored key when no new key is entered */
+  agentId?: string;
+}
+
+interface TestResult {
+  ok: boolean;
+  modelId: string;
+  latencyMs: number | null;
+  capabilities: { streaming: boolean; toolCalling: boolean; vision: boolean };
+  error?: string;
+}
+
+const CAPABILITY_LABELS = {
+  streaming: "Streaming",
+  toolCalling: "Tool calling",
+  vision: "Vision",
+} as const;
+
+export function LlmConnectionTest({ provider, apiKey, model, baseUrl, agentId }: LlmConnectionTestProps) {
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<TestResult | null>(null);
+  const [error, setError] = useState("");
+
+  const runTest = async () => {
+    setTesting(true);
+    setResult(null);
+    setError("");
+    try {
+      const res = await fetch("/api/agents/test-connection", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider,
+          apiKey: apiKey.trim() || undefined,
+          model: model.trim() || undefined,
+          baseUrl: baseUrl.trim() || undefined,
+          agentId,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Connection test failed");
+      } else {
+        setResult(data);
+      }
+    } catch {
+      setError("Connection test failed");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={runTest}
+        disabled={testing || !provider}
+        className="px-3 py-1.5 text-xs font-medium border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+      >
+        {testing ? "Testing..." : "Test connection"}
+      </button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {result && !result.ok && (
+        <p className="text-xs text-red-500">Connection failed: {result.error}</p>
+      )}
+      {result?.ok && (
+        <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          <p className="text-green-600 dark:text-green-400">
+            Connected to {result.modelId}
+            {result.latencyMs !== null && ` (${result.latencyMs} ms)`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CAPABILITY_LABELS) as Array<keyof typeof CAPABILITY_LABELS>).map((key) => (
+              <span
+                key={key}
+                className={`px-2 py-0.5 rounded-full ${
+                  result.capabilities[key]
+                    ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                    : "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-500 line-through"
+                }`}
+              >
+                {CAPABILITY_LABELS[key]}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -47,6 +47,8 @@ export interface X402PaymentRequired {
     recipient: string;
     description: string;
     expiresAt: string;
+    chainId: number; // Chain the transfer is verified on
+    tokenAddress: string; // USDC contract on chainId
   };
   paymentId: string;
 }
@@ -118,6 +120,10 @@ export function useX402Payment() {
         return { success: false, error: `Chain ${chainId} not supported` };
       }
 
+      if (chainId !== paymentRequired.paymentDetails.chainId) {
+        return { success: false, error: `Switch your wallet to chain ${paymentRequired.paymentDetails.chainId} to pay this agent` };
+      }
+
       const config = getChainConfig(chainId);
       const usdcAddress = config.usdcAddress;
 
@@ -161,8 +167,9 @@ export function useX402Payment() {
           }),
         });
 
-        if (!recordResponse.ok) {
-          throw new Error("Failed to record payment");
+        const recorded = await recordResponse.json();
+        if (!recordResponse.ok || !recorded.verified) {
+          throw new Error(recorded.error || "Failed to verify payment");
         }
 
         setPaymentState({
@@ -205,6 +212,10 @@ export function useX402Payment() {
       if (!isSupportedChain(chainId)) {
         return { success: false, error: `Chain ${chainId} not supported` };
       }
+
+      if (chainId !== paymentRequired.paymentDetails.chainId) {
+        return { success: false, error: `Switch your wallet to chain ${paymentRequired.paymentDetails.chainId} to pay this agent` };
+      }
       const eoaConfig = getChainConfig(chainId);
       const usdcAddress = eoaConfig.usdcAddress;
 
@@ -251,8 +262,9 @@ export function useX402Payment() {
           }),
         });
 
-        if (!recordResponse.ok) {
-          throw new Error("Failed to record payment");
+        const recorded = await recordResponse.json();
+        if (!recordResponse.ok || !recorded.verified) {
+          throw new Error(recorded.error || "Failed to verify payment");
         }
 
         setPaymentState({
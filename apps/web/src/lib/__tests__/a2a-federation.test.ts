@@ -0,0 +1,135 @@
+/**
+ * Tests for paying remote A2A peers (D1, the A2A client and the wallet are mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const PAYEE = "0x4444444444444444444444444444444444444444";
+const wallet = { balance: 0 };
+
+vi.mock("../db", () => ({
+  getEnv: vi.fn(async () => ({
+    EMBEDDED_WALLET_SECRET: "secret",
+    RELAYER_PRIVATE_KEY: "0xrelayer",
+    PAYMASTER_ADDRESS: "0xpaymaster",
+  })),
+  getDB: vi.fn(async () => ({
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => {
+          if (sql.includes("FROM agent_peers")) {
+            return {
+              id: "peer-1",
+              name: "Remote",
+              card_url: "https://peer.example.com/card",
+              endpoint_url: "https://peer.example.com",
+              auth_headers: null,
+              max_price_cents: 10,
+            };
+          }
+          return {
+            user_id: "owner-1",
+            embedded_wallet_address: "0x11",
+            encrypted_private_key: "enc",
+            embedded_balance: wallet.balance,
+          };
+        },
+        run: async () => {
+          const amount = values[0] as number;
+          if (sql.includes("embedded_balance - ?")) {
+            if (wallet.balance < amount) return { meta: { changes: 0 } };
+            wallet.balance -= amount;
+          } else if (sql.includes("embedded_balance + ?")) {
+            wallet.balance += amount;
+          }
+          return { meta: { changes: 1 } };
+        },
+      }),
+    }),
+  })),
+}));
+vi.mock("../a2a-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../a2a-client")>()),
+  fetchAgentCard: vi.fn(async () => ({
+    name: "Remote",
+    url: "https://peer.example.com",
+    x402: { network: "arbitrum-sepolia", chainId: 421614, asset: "USDC", pricePerQuery: 5, payee: PAYEE },
+  })),
+  sendA2AMessage: vi.fn(),
+}));
+vi.mock("../embedded-wallet", () => ({
+  sendUsdcViaPaymaster: vi.fn(),
+  signMessageAsSmartAccount: vi.fn(async () => ({ address: "0x11", signature: "0xsig" })),
+}));
+
+import { callRemoteAgent, FederationError } from "../a2a-federation";
+import { sendA2AMessage, A2ARpcError, type A2AResponse } from "../a2a-client";
+import { sendUsdcViaPaymaster } from "../embedded-wallet";
+import { centsToUsdcUnits } from "../x402";
+import { PAYMENT_REQUIRED_CODE } from "../a2a-payments";
+
+const input = { agentId: "agent-1", cardUrl: "https://peer.example.com/card", message: "Hi", callDepth: 0, callChain: [] };
+const completed = { id: "t1", status: { state: "completed" }, artifacts: [{ parts: [{ type: "text", text: "Done" }] }] } as unknown as A2AResponse;
+
+function paymentRequired(cents: number) {
+  return new A2ARpcError("Payment required", PAYMENT_REQUIRED_CODE, {
+    accepts: [
+      {
+        scheme: "exact",
+        network: "arbitrum-sepolia",
+        chainId: 421614,
+        assetAddress: "0xusdc",
+        maxAmountRequired: centsToUsdcUnits(cents).toString(),
+        payTo: PAYEE,
+        paymentId: "pay_1",
+      },
+    ],
+  });
+}
+
+describe("callRemoteAgent payments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    wallet.balance = 100;
+  });
+
+  it("should pay the amount the peer asks for and reserve it from the balance", async () => {
+    vi.mocked(sendA2AMessage).mockRejectedValueOnce(paymentRequired(3)).mockResolvedValueOnce(completed);
+    vi.mocked(sendUsdcViaPaymaster).mockResolvedValue({ hash: "0xpaid", onChain: true, logs: [] });
+
+    const result = await callRemoteAgent(input);
+
+    expect(vi.mocked(sendUsdcViaPaymaster).mock.calls[0][3]).toBe(3);
+    expect(wallet.balance).toBe(97);
+    expect(result.paymentTxHash).toBe("0xpaid");
+  });
+
+  it("should refuse requests above the card's price without paying", async () => {
+    vi.mocked(sendA2AMessage).mockRejectedValueOnce(paymentRequired(6));
+
+    await expect(callRemoteAgent(input)).rejects.toThrow("more than its advertised price");
+    expect(sendUsdcViaPaymaster).not.toHaveBeenCalled();
+    expect(wallet.balance).toBe(100);
+  });
+
+  it("should refund the reservation when the transfer fails", async () => {
+    vi.mocked(sendA2AMessage).mockRejectedValue(paymentRequired(5));
+    vi.mocked(sendUsdcViaPaymaster).mockResolvedValueOnce({ hash: null, logs: ["reverted"] });
+    await expect(callRemoteAgent(input)).rejects.toThrow("Payment to the remote agent failed");
+    expect(wallet.balance).toBe(100);
+
+    vi.mocked(sendUsdcViaPaymaster).mockRejectedValueOnce(new Error("bundler down"));
+    await expect(callRemoteAgent(input)).rejects.toThrow("bundler down");
+    expect(wallet.balance).toBe(100);
+  });
+
+  it("should keep the transaction hash when the paid call fails", async () => {
+    vi.mocked(sendA2AMessage).mockRejectedValueOnce(paymentRequired(5)).mockRejectedValueOnce(new Error("peer crashed"));
+    vi.mocked(sendUsdcViaPaymaster).mockResolvedValue({ hash: "0xpaid", onChain: true, logs: [] });
+
+    const error = await callRemoteAgent(input).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FederationError);
+    expect(error.paymentTxHash).toBe("0xpaid");
+    expect(wallet.balance).toBe(95);
+  });
+});
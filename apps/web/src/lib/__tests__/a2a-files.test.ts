@@ -0,0 +1,80 @@
+/**
+ * Tests for A2A file and data parts (R2 storage is mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const put = vi.fn();
+vi.mock("../db", () => ({ getR2: vi.fn(async () => ({ put })) }));
+
+import { prepareInboundParts, storeInboundFiles, A2APartError, MAX_FILE_BYTES, MAX_FILE_PARTS } from "../a2a-files";
+
+const target = { agentId: "agent-1", taskId: "task-1", baseUrl: "https://example.com" };
+
+describe("A2A file and data parts", () => {
+  beforeEach(() => put.mockReset());
+
+  it("should turn data parts into structured context", async () => {
+    const prepared = await prepareInboundParts(
+      [
+        { type: "text", text: "Summarize this order" },
+        { type: "data", data: { orderId: 42 } },
+      ],
+      target
+    );
+
+    expect(prepared.content).toContain("Summarize this order");
+    expect(prepared.content).toContain('"orderId": 42');
+    expect(prepared.attachments).toEqual([]);
+  });
+
+  it("should store inline files in R2 and reference them by URL", async () => {
+    const prepared = await prepareInboundParts(
+      [{ type: "file", file: { name: "notes.txt", mimeType: "text/plain", bytes: btoa("hello") } }],
+      target
+    );
+
+    // Nothing is written until the task exists
+    expect(put).not.toHaveBeenCalled();
+    await storeInboundFiles(prepared);
+    expect(put).toHaveBeenCalledOnce();
+    expect(put.mock.calls[0][0]).toMatch(/^a2a-files\/agent-1\//);
+    expect(put.mock.calls[0][2].customMetadata).toEqual({ taskId: "task-1", name: "notes.txt" });
+
+    const [part] = prepared.parts;
+    expect(part.type === "file" && part.file.uri).toMatch(/^https:\/\/example\.com\/api\/a2a\/agent-1\/files\//);
+    expect(part.type === "file" && part.file.bytes).toBeFalsy();
+    expect(prepared.attachments[0]).toMatchObject({ name: "notes.txt", contentType: "text/plain" });
+  });
+
+  it("should reject blocked URIs and too many files", async () => {
+    await expect(
+      prepareInboundParts([{ type: "file", file: { uri: "http://localhost/secret" } }], target)
+    ).rejects.toBeInstanceOf(A2APartError);
+
+    const files = Array.from({ length: MAX_FILE_PARTS + 1 }, () => ({
+      type: "file" as const,
+      file: { bytes: btoa("x") },
+    }));
+    await expect(prepareInboundParts(files, target)).rejects.toThrow("At most");
+  });
+
+  it("should stop reading fetched files past the size limit without content-length", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body)));
+    try {
+      await expect(
+        prepareInboundParts([{ type: "file", file: { name: "big.bin", uri: "https://files.example.com/big.bin" } }], target)
+      ).rejects.toThrow("exceeds");
+      expect(sent).toBeLessThanOrEqual(MAX_FILE_BYTES + 2 * chunk.byteLength);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for A2A x402 payment headers (decoding and matching the Agent Card).
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDB: vi.fn() }));
+vi.mock("../rate-limit", () => ({
+  A2A_PAYMENT_REQUEST_RATE_LIMIT: {},
+  checkRateLimit: vi.fn(async () => ({ allowed: true })),
+}));
+
+import { getDB } from "../db";
+import type { RequestAuth } from "../apiAuth";
+import {
+  authorizeA2ACall,
+  buildX402Requirements,
+  decodePaymentHeader,
+  encodePaymentHeader,
+  matchPaymentHeader,
+  type X402PaymentHeader,
+  PAYMENT_REQUIRED_CODE,
+} from "../a2a-payments";
+
+const WALLET = "0x3333333333333333333333333333333333333333";
+
+const agent = {
+  id: "agent-1",
+  pricing_type: "per-query",
+  price_per_query: 5,
+  agent_wallet: WALLET,
+  chain_id: 421614,
+};
+
+function header(overrides: Partial<X402PaymentHeader> = {}): X402PaymentHeader {
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: "arbitrum-sepolia",
+    chainId: 421614,
+    assetAddress: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+    payee: WALLET,
+    payload: {
+      paymentId: "pay_1",
+      transactionHash: `0x${"cd".repeat(32)}`,
+      payer: "0x2222222222222222222222222222222222222222",
+      signature: "0x00",
+    },
+    ...overrides,
+  };
+}
+
+describe("A2A payments", () => {
+  describe("buildX402Requirements", () => {
+    it("should describe the agent's chain, asset and wallet", () => {
+      const requirements = buildX402Requirements(agent);
+      expect(requirements).toMatchObject({
+        network: "arbitrum-sepolia",
+        chainId: 421614,
+        asset: "USDC",
+        pricePerQuery: 5,
+        payee: WALLET,
+      });
+    });
+
+    it("should return null for free agents or agents without a wallet", () => {
+      expect(buildX402Requirements({ ...agent, pricing_type: "free" })).toBeNull();
+      expect(buildX402Requirements({ ...agent, agent_wallet: null })).toBeNull();
+    });
+  });
+
+  describe("payment headers", () => {
+    it("should round-trip through base64", () => {
+      expect(decodePaymentHeader(encodePaymentHeader(header()))).toEqual(header());
+    });
+
+    it("should reject malformed headers", () => {
+      expect(decodePaymentHeader("not base64 json")).toBeNull();
+      expect(decodePaymentHeader(btoa(JSON.stringify({ x402Version: 1 })))).toBeNull();
+    });
+
+    it("should accept a header matching the card", () => {
+      expect(matchPaymentHeader(header(), buildX402Requirements(agent)!)).toBeNull();
+    });
+
+    it("should reject payments on another chain or to another payee", () => {
+      const requirements = buildX402Requirements(agent)!;
+      expect(matchPaymentHeader(header({ chainId: 97 }), requirements)).toContain("arbitrum-sepolia");
+      expect(
+        matchPaymentHeader(header({ payee: "0x4444444444444444444444444444444444444444" }), requirements)
+      ).toContain("payee");
+    });
+  });
+
+  describe("authorizeA2ACall", () => {
+    const auth: RequestAuth = { userId: "user-1", method: "api_key", keyId: "key-1", scopes: ["a2a:invoke"] };
+
+    function mockSession(queriesUsed: number, paymentStatus = "free") {
+      const run = vi.fn();
+      vi.mocked(getDB).mockResolvedValue({
+        prepare: (sql: string) => ({
+          bind: () => ({
+            first: async () =>
+              sql.includes("FROM agents") ? { free_queries: 2 } : { queries_used: queriesUsed, payment_status: paymentStatus },
+            run,
+          }),
+        }),
+      } as unknown as Awaited<ReturnType<typeof getDB>>);
+      return run;
+    }
+
+    it("should let API keys use the session's free queries", async () => {
+      mockSession(1);
+      await expect(authorizeA2ACall(agent, auth, null, "https://app/a2a", null, "s1")).resolves.toEqual({
+        type: "api_key",
+        userId: "user-1",
+        keyId: "key-1",
+      });
+
+      mockSession(5, "paid");
+      await expect(authorizeA2ACall(agent, auth, null, "https://app/a2a", null, "s1")).resolves.toMatchObject({
+        type: "api_key",
+      });
+    });
+
+    it("should ask API keys to pay once the free queries are used up", async () => {
+      const run = mockSession(2);
+      await expect(authorizeA2ACall(agent, auth, null, "https://app/a2a", null, "s1")).rejects.toMatchObject({
+        code: PAYMENT_REQUIRED_CODE,
+        data: { accepts: [expect.objectContaining({ payTo: WALLET })] },
+      });
+      // The payment request was stored
+      expect(run).toHaveBeenCalled();
+
+      // Free agents never charge
+      await expect(
+        authorizeA2ACall({ ...agent, pricing_type: "free" }, auth, null, "https://app/a2a", null, "s1")
+      ).resolves.toMatchObject({ type: "api_key" });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the A2A route's task preparation (tasks, payments and D1 are mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const agentRow = { id: "agent-1", name: "Helper", pricing_type: "per-query", price_per_query: 5, agent_wallet: "0x33", chain_id: 421614 };
+
+vi.mock("@/lib/db", () => ({
+  getDB: vi.fn(async () => ({
+    prepare: () => ({ bind: () => ({ first: async () => agentRow }) }),
+  })),
+  getR2: vi.fn(async () => ({ put: vi.fn() })),
+}));
+vi.mock("@/lib/apiAuth", () => ({ authenticateRequest: vi.fn(async () => ({ auth: null, error: null })) }));
+vi.mock("@/lib/a2a-tasks", () => ({
+  getTask: vi.fn(),
+  canAccessTask: vi.fn(() => true),
+  canOpenSession: vi.fn(async () => true),
+  openSession: vi.fn(async () => true),
+  resumeTask: vi.fn(),
+  createTask: vi.fn(async (input: { taskId: string; sessionId: string }) => ({
+    taskId: input.taskId,
+    sessionId: input.sessionId,
+    status: { state: "submitted", timestamp: "" },
+  })),
+  loadSessionMessages: vi.fn(async () => []),
+  appendSessionMessage: vi.fn(),
+  startTask: vi.fn(async (task: unknown) => ({ task })),
+}));
+vi.mock("@/lib/a2a-payments", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/a2a-payments")>()),
+  paymentSigner: vi.fn(async () => "0x2222222222222222222222222222222222222222"),
+  authorizeA2ACall: vi.fn(async () => ({
+    type: "x402",
+    payerAddress: "0x2222222222222222222222222222222222222222",
+    paymentId: "pay_1",
+    transactionHash: "0xabc",
+  })),
+  recordA2ACall: vi.fn(async () => "tx-1"),
+  releaseA2ACall: vi.fn(),
+}));
+
+import { POST } from "@/app/api/a2a/[agentId]/route";
+import { getTask, resumeTask, canOpenSession, openSession } from "@/lib/a2a-tasks";
+import { authorizeA2ACall, releaseA2ACall } from "@/lib/a2a-payments";
+
+function send(parts: unknown[], taskId?: string, sessionId?: string) {
+  const request = new Request("https://app.example.com/api/a2a/agent-1", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Payment": "signed" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tasks/send", params: { taskId, sessionId, message: { role: "user", parts } } }),
+  });
+  return POST(request, { params: Promise.resolve({ agentId: "agent-1" }) });
+}
+
+describe("A2A tasks/send", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("should reject a bad part before the payment is verified", async () => {
+    const response = await send([{ type: "file", file: { uri: "http://localhost/secret" } }]);
+
+    expect((await response.json()).error.code).toBe(-32602);
+    expect(authorizeA2ACall).not.toHaveBeenCalled();
+  });
+
+  it("should check the session before payment and open it for the payer after", async () => {
+    vi.mocked(canOpenSession).mockResolvedValueOnce(false);
+    const denied = await send([{ type: "text", text: "Hi" }], undefined, "someone-elses");
+
+    expect((await denied.json()).error.message).toBe("Session not found: someone-elses");
+    expect(authorizeA2ACall).not.toHaveBeenCalled();
+    expect(openSession).not.toHaveBeenCalled();
+
+    vi.mocked(getTask).mockResolvedValueOnce(null);
+    await send([{ type: "text", text: "Hi" }], undefined, "mine");
+    expect(openSession).toHaveBeenCalledWith("mine", "agent-1", {
+      userId: null,
+      keyId: null,
+      address: "0x2222222222222222222222222222222222222222",
+    });
+  });
+
+  it("should release the payment when the task cannot be resumed", async () => {
+    vi.mocked(getTask).mockResolvedValue({
+      taskId: "task-1",
+      sessionId: "session-1",
+      status: { state: "input-required", timestamp: "" },
+      callerUserId: null,
+      callerAddress: "0x2222222222222222222222222222222222222222",
+    });
+    vi.mocked(resumeTask).mockResolvedValue(null);
+
+    const response = await send([{ type: "text", text: "Blue" }], "task-1");
+
+    expect((await response.json()).error.message).toBe("Task already exists: task-1");
+    expect(releaseA2ACall).toHaveBeenCalledWith(expect.objectContaining({ paymentId: "pay_1" }), "tx-1");
+  });
+});
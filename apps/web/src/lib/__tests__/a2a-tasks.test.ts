@@ -0,0 +1,179 @@
+/**
+ * Tests for the A2A task state machine and task/session access checks (D1 and the chat pipeline are mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type Row = Record<string, unknown> & { id: string; agent_id: string; state: string; history: string };
+const tasks: Row[] = [];
+const sessions: Array<{ id: string; agent_id: string; user_id: string | null; caller_address: string | null }> = [];
+
+vi.mock("../db", () => ({
+  getCtx: vi.fn(),
+  getDB: vi.fn(async () => ({
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => {
+          if (sql.includes("FROM sessions")) return sessions.find((s) => s.id === values[0]) ?? null;
+          return tasks.find((t) => t.id === values[0] && (values.length < 2 || t.agent_id === values[1])) ?? null;
+        },
+        run: async () => {
+          if (sql.startsWith("INSERT INTO a2a_tasks")) {
+            const [id, agent_id, session_id, caller_user_id, caller_address, history, metadata, , updated_at] = values;
+            tasks.push({
+              id, agent_id, session_id, caller_user_id, caller_address, history, metadata, updated_at,
+              state: "submitted", status_message: null, artifacts: "[]",
+            } as Row);
+            return { meta: { changes: 1 } };
+          }
+          if (sql.includes("state = 'input-required'")) {
+            const [history, updated_at, id, agentId] = values as string[];
+            const task = tasks.find((t) => t.id === id && t.agent_id === agentId && t.state === "input-required");
+            if (task) Object.assign(task, { state: "submitted", status_message: null, history, updated_at });
+            return { meta: { changes: task ? 1 : 0 } };
+          }
+          if (sql.includes("state NOT IN")) {
+            const [state, status_message, history, artifacts, metadata, updated_at, id, ...terminal] = values as string[];
+            const task = tasks.find((t) => t.id === id && !terminal.includes(t.state));
+            if (task) {
+              Object.assign(task, { state, status_message, history, updated_at });
+              if (artifacts) task.artifacts = artifacts;
+              if (metadata) task.metadata = metadata;
+            }
+            return { meta: { changes: task ? 1 : 0 } };
+          }
+          return { meta: { changes: 0 } };
+        },
+      }),
+    }),
+  })),
+}));
+vi.mock("../chat-engine", () => ({ executeChatPipeline: vi.fn() }));
+vi.mock("../agentConfigs", () => ({ getAgentConfig: vi.fn() }));
+
+import {
+  createTask,
+  getTask,
+  updateTaskState,
+  resumeTask,
+  cancelTask,
+  canAccessTask,
+  canOpenSession,
+  isTerminalState,
+  type A2ATaskMessage,
+} from "../a2a-tasks";
+
+const PAYER = "0xAbCdEf0000000000000000000000000000000001";
+const question: A2ATaskMessage = { role: "agent", parts: [{ type: "text", text: "Which colour?" }] };
+const reply: A2ATaskMessage = { role: "user", parts: [{ type: "text", text: "Blue" }] };
+
+function create(taskId = "task-1") {
+  return createTask({
+    taskId,
+    agentId: "agent-1",
+    sessionId: "session-1",
+    callerUserId: null,
+    callerAddress: PAYER.toLowerCase(),
+    message: { role: "user", parts: [{ type: "text", text: "Paint it" }] },
+  });
+}
+
+describe("A2A task state machine", () => {
+  beforeEach(() => {
+    tasks.length = 0;
+  });
+
+  it("should move a task through working to completed and keep agent replies", async () => {
+    await create();
+
+    expect(await updateTaskState("task-1", "working")).toBe(true);
+    expect(await updateTaskState("task-1", "completed", { message: question, metadata: { tokens: 3 } })).toBe(true);
+
+    const task = await getTask("task-1", "agent-1");
+    expect(task?.status.state).toBe("completed");
+    expect(task?.status.message).toEqual(question);
+    expect(task?.history).toHaveLength(2);
+    expect(task?.metadata).toEqual({ tokens: 3 });
+  });
+
+  it("should never overwrite a terminal state", async () => {
+    await create();
+    expect(await cancelTask("task-1")).toBe(true);
+
+    expect(await updateTaskState("task-1", "completed")).toBe(false);
+    expect(await cancelTask("task-1")).toBe(false);
+    expect((await getTask("task-1", "agent-1"))?.status.state).toBe("canceled");
+  });
+
+  it("should resume an input-required task once", async () => {
+    await create();
+    expect(await resumeTask("task-1", "agent-1", reply)).toBeNull();
+
+    await updateTaskState("task-1", "input-required", { message: question });
+    const [first, second] = await Promise.all([
+      resumeTask("task-1", "agent-1", reply),
+      resumeTask("task-1", "agent-1", reply),
+    ]);
+
+    expect(first?.status.state).toBe("submitted");
+    expect(first?.history?.at(-1)).toEqual(reply);
+    expect(first).not.toHaveProperty("callerAddress");
+    expect(second).toBeNull();
+    expect(await resumeTask("task-1", "agent-2", reply)).toBeNull();
+  });
+
+  it("should trim history to historyLength", async () => {
+    await create();
+    await updateTaskState("task-1", "completed", { message: question });
+
+    expect((await getTask("task-1", "agent-1", 1))?.history).toEqual([question]);
+    expect((await getTask("task-1", "agent-1", 0))?.history).toEqual([]);
+    expect(await getTask("task-1", "agent-2")).toBeNull();
+  });
+
+  it("should report terminal states", () => {
+    expect(["completed", "failed", "canceled"].every((s) => isTerminalState(s as never))).toBe(true);
+    expect(["submitted", "working", "input-required"].some((s) => isTerminalState(s as never))).toBe(false);
+  });
+});
+
+describe("canAccessTask", () => {
+  it("should match the owning user and ignore the wallet", () => {
+    const task = { callerUserId: "user-1", callerAddress: null };
+    expect(canAccessTask(task, { userId: "user-1", address: null })).toBe(true);
+    expect(canAccessTask(task, { userId: "user-2", address: null })).toBe(false);
+    expect(canAccessTask(task, { userId: null, address: PAYER })).toBe(false);
+  });
+
+  it("should match the payer wallet in any case", () => {
+    const task = { callerUserId: null, callerAddress: PAYER.toLowerCase() };
+    expect(canAccessTask(task, { userId: null, address: PAYER })).toBe(true);
+    expect(canAccessTask(task, { userId: "user-1", address: "0x0000000000000000000000000000000000000002" })).toBe(false);
+    expect(canAccessTask(task, { userId: "user-1", address: null })).toBe(false);
+  });
+
+  it("should deny tasks with no owner", () => {
+    expect(canAccessTask({ callerUserId: null, callerAddress: null }, { userId: null, address: null })).toBe(false);
+    expect(canAccessTask({ callerUserId: null, callerAddress: null }, { userId: "user-1", address: PAYER })).toBe(false);
+  });
+});
+
+describe("canOpenSession", () => {
+  beforeEach(() => {
+    sessions.length = 0;
+    sessions.push(
+      { id: "paid", agent_id: "agent-1", user_id: null, caller_address: PAYER.toLowerCase() },
+      { id: "ownerless", agent_id: "agent-1", user_id: null, caller_address: null }
+    );
+  });
+
+  it("should allow new sessions and the payer's own", async () => {
+    expect(await canOpenSession("new", "agent-1", { userId: null, address: null })).toBe(true);
+    expect(await canOpenSession("paid", "agent-1", { userId: null, address: PAYER })).toBe(true);
+  });
+
+  it("should deny other callers, other agents and sessions with no owner", async () => {
+    expect(await canOpenSession("paid", "agent-1", { userId: "user-1", address: null })).toBe(false);
+    expect(await canOpenSession("paid", "agent-2", { userId: null, address: PAYER })).toBe(false);
+    expect(await canOpenSession("ownerless", "agent-1", { userId: null, address: PAYER })).toBe(false);
+  });
+});
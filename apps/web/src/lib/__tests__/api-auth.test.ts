@@ -0,0 +1,60 @@
+/**
+ * Tests for API key scope matching and key-creation scope validation.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDB: vi.fn(), getCtx: vi.fn() }));
+vi.mock("../auth", () => ({ getSession: vi.fn() }));
+
+import { hasScope, isValidScope, getApiKeyFromRequest, API_SCOPES } from "../apiAuth";
+
+describe("apiAuth", () => {
+  describe("hasScope", () => {
+    it("should grant an exact scope match", () => {
+      expect(hasScope(["chat:write"], "chat:write")).toBe(true);
+    });
+
+    it("should reject a different action on the same resource", () => {
+      expect(hasScope(["memory:read"], "memory:write")).toBe(false);
+    });
+
+    it("should treat a bare resource scope as all actions", () => {
+      expect(hasScope(["sessions"], "sessions:read")).toBe(true);
+      expect(hasScope(["sessions"], "sessions:write")).toBe(true);
+      expect(hasScope(["sessions"], "agents:read")).toBe(false);
+    });
+
+    it("should reject keys with no scopes", () => {
+      expect(hasScope([], "agents:read")).toBe(false);
+    });
+  });
+
+  describe("isValidScope", () => {
+    it("should accept every known scope", () => {
+      for (const scope of API_SCOPES) {
+        expect(isValidScope(scope)).toBe(true);
+      }
+    });
+
+    it("should accept bare resource scopes from older keys", () => {
+      expect(isValidScope("chat")).toBe(true);
+      expect(isValidScope("agents")).toBe(true);
+    });
+
+    it("should reject unknown scopes", () => {
+      expect(isValidScope("admin")).toBe(false);
+      expect(isValidScope("chat:delete")).toBe(false);
+    });
+  });
+
+  describe("getApiKeyFromRequest", () => {
+    it("should extract a Bearer token", () => {
+      const req = new Request("https://example.com", { headers: { Authorization: "Bearer sk_abc" } });
+      expect(getApiKeyFromRequest(req)).toBe("sk_abc");
+    });
+
+    it("should return null without an Authorization header", () => {
+      expect(getApiKeyFromRequest(new Request("https://example.com"))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for collecting tool calls into the assistant message record.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDB: vi.fn() }));
+vi.mock("../memory", () => ({ extractMemories: vi.fn() }));
+
+import { collectToolCalls } from "../chat-transcript";
+
+describe("collectToolCalls", () => {
+  it("pairs calls with results across steps and marks their status", () => {
+    const calls = collectToolCalls([
+      {
+        toolCalls: [
+          { type: "tool-call", toolCallId: "c1", toolName: "search_documents", args: { query: "hours" } },
+          { type: "tool-call", toolCallId: "c2", toolName: "lookup_order", args: { id: "42" } },
+        ],
+        toolResults: [
+          { type: "tool-result", toolCallId: "c1", toolName: "search_documents", args: { query: "hours" }, result: "Open 9-5" },
+          { type: "tool-result", toolCallId: "c2", toolName: "lookup_order", args: { id: "42" }, result: "Error calling Orders: HTTP 500" },
+        ],
+      },
+      {
+        toolCalls: [{ type: "tool-call", toolCallId: "c3", toolName: "refund", args: { id: "42" } }],
+        toolResults: [],
+      },
+    ] as never);
+
+    expect(calls).toEqual([
+      { id: "c1", name: "search_documents", arguments: { query: "hours" }, result: "Open 9-5", status: "completed" },
+      { id: "c2", name: "lookup_order", arguments: { id: "42" }, result: "Error calling Orders: HTTP 500", status: "failed" },
+      { id: "c3", name: "refund", arguments: { id: "42" }, status: "pending" },
+    ]);
+  });
+
+  it("keeps MCP result text and drops images", () => {
+    const [call] = collectToolCalls([
+      {
+        toolCalls: [{ type: "tool-call", toolCallId: "c1", toolName: "chart", args: {} }],
+        toolResults: [
+          { type: "tool-result", toolCallId: "c1", toolName: "chart", args: {}, result: { text: "Sales chart", images: [{ data: "AAAA" }], resources: [] } },
+        ],
+      },
+    ] as never);
+    expect(call.result).toBe("Sales chart");
+  });
+});
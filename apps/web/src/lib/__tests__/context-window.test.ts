@@ -0,0 +1,156 @@
+/**
+ * Tests for context window fitting, session history merging and summary billing.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Message } from "ai";
+
+vi.mock("../db", () => ({
+  getDB: vi.fn(),
+  getEnv: vi.fn(),
+  getCtx: vi.fn(),
+}));
+vi.mock("../inference-billing", () => ({
+  deductPlatformCost: vi.fn(),
+  settlePlatformCost: vi.fn(),
+  refundPlatformCost: vi.fn(),
+}));
+
+import {
+  fitContextWindow,
+  mergeSessionHistory,
+  foldSessionHistory,
+  MAX_VERBATIM_MESSAGES,
+  CONTEXT_PRIORITY,
+} from "../context-window";
+import { getDB, getEnv } from "../db";
+import { deductPlatformCost, settlePlatformCost, refundPlatformCost, type InferenceReservation } from "../inference-billing";
+
+function turns(count: number, size = 10): Message[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `${i}:`.padEnd(size, "x"),
+  }));
+}
+
+describe("fitContextWindow", () => {
+  it("keeps the newest turns verbatim and reports the rest as folded", () => {
+    const messages = turns(40);
+    const fitted = fitContextWindow({ modelId: "gpt-4o-mini", system: "sys", sections: [], messages });
+
+    expect(fitted.messages).toHaveLength(MAX_VERBATIM_MESSAGES);
+    expect(fitted.messages[fitted.messages.length - 1].id).toBe("m39");
+    expect(fitted.folded.map((m) => m.id)).toEqual(messages.slice(0, 40 - MAX_VERBATIM_MESSAGES).map((m) => m.id));
+  });
+
+  it("fits sections by priority and trims or drops what does not fit", () => {
+    // Unknown models get a 32k window; 3.5 chars per token
+    const big = "line\n".repeat(30_000);
+    const fitted = fitContextWindow({
+      modelId: "some-local-model",
+      system: "sys",
+      sections: [
+        { name: "skills", text: "\n\nskills:" + "s".repeat(60_000), priority: CONTEXT_PRIORITY.skills },
+        { name: "rag", text: "\n\nrag:\n" + big, priority: CONTEXT_PRIORITY.rag, truncatable: true },
+        { name: "tools", text: "\n\ntools", priority: CONTEXT_PRIORITY.tools },
+      ],
+      messages: turns(10, 2000),
+      summary: "earlier",
+    });
+
+    expect(fitted.dropped).toEqual(["skills", "summary"]);
+    expect(fitted.system.startsWith("sys\n\nrag:\n")).toBe(true);
+    expect(fitted.system).toContain("[truncated]");
+    expect(fitted.system.endsWith("\n\ntools")).toBe(true);
+    // The latest user turn is always kept
+    expect(fitted.messages.map((m) => m.id)).toEqual(["m8", "m9"]);
+  });
+});
+
+describe("mergeSessionHistory", () => {
+  const stored = [
+    { id: "s1", role: "user" as const, content: "hi", createdAt: "2026-01-01T00:00:01Z" },
+    { id: "s2", role: "assistant" as const, content: "hello", createdAt: "2026-01-01T00:00:02Z" },
+    { id: "s3", role: "user" as const, content: "menu?", createdAt: "2026-01-01T00:00:03Z" },
+  ];
+
+  it("prepends stored turns for clients that send only the newest message", () => {
+    const client: Message[] = [{ id: "c1", role: "user", content: "menu?" }];
+    const { messages, storedAt } = mergeSessionHistory({ messages: stored, summary: null, summaryThrough: null }, client);
+
+    expect(messages.map((m) => m.id)).toEqual(["s1", "s2", "c1"]);
+    expect(storedAt.get(messages[2])).toBe("2026-01-01T00:00:03Z");
+  });
+
+  it("prefers client copies and skips already summarized client turns", () => {
+    const client: Message[] = [
+      { id: "welcome", role: "assistant", content: "Welcome!" },
+      { id: "old", role: "user", content: "summarized already" },
+      { id: "s2", role: "assistant", content: "hello" },
+      { id: "c3", role: "user", content: "menu?" },
+    ];
+    const { messages } = mergeSessionHistory({ messages: stored, summary: "User said hi", summaryThrough: "x" }, client);
+    expect(messages.map((m) => m.id)).toEqual(["s1", "s2", "c3"]);
+  });
+});
+
+describe("foldSessionHistory", () => {
+  const history = { messages: [], summary: null, summaryThrough: null };
+  const turns = [{ role: "user", content: "I need a table for four", createdAt: "2026-01-01T00:00:01Z" }];
+  const reservation = { id: "ledger-1", ownerId: "owner-1", modelId: "m", chargeable: true, reservedMicros: 10_000 } as InferenceReservation;
+  const run = vi.fn();
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getEnv).mockResolvedValue({ OPENROUTER_API_KEY: "platform" } as never);
+    vi.mocked(getDB).mockResolvedValue({ prepare: () => ({ bind: () => ({ run }) }) } as never);
+    vi.mocked(deductPlatformCost).mockResolvedValue(reservation);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("reserves the summary call against the agent and settles the reported usage", async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({
+        choices: [{ message: { content: "Wants a table for four" } }],
+        usage: { prompt_tokens: 120, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 0 } },
+      })
+    );
+
+    await foldSessionHistory("session-1", "agent-1", history, turns);
+
+    expect(deductPlatformCost).toHaveBeenCalledWith(
+      "agent-1",
+      expect.objectContaining({ provider: "openrouter", isByok: false, sessionId: "session-1" })
+    );
+    expect(settlePlatformCost).toHaveBeenCalledWith(reservation, {
+      promptTokens: 120,
+      cachedPromptTokens: 0,
+      completionTokens: 20,
+    });
+    expect(run).toHaveBeenCalled();
+  });
+
+  it("skips the summary when the creator's balance cannot cover it", async () => {
+    vi.mocked(deductPlatformCost).mockResolvedValue(null);
+
+    await foldSessionHistory("session-1", "agent-1", history, turns);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("refunds the reservation when the call fails", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("busy", { status: 503 }));
+    await foldSessionHistory("session-1", "agent-1", history, turns);
+
+    fetchMock.mockRejectedValueOnce(new Error("network"));
+    await foldSessionHistory("session-1", "agent-1", history, turns);
+
+    expect(refundPlatformCost).toHaveBeenCalledTimes(2);
+    expect(settlePlatformCost).not.toHaveBeenCalled();
+    expect(run).not.toHaveBeenCalled();
+  });
+});
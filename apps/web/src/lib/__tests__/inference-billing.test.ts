@@ -0,0 +1,38 @@
+/**
+ * Tests for per-model inference pricing, reservations and usage collection.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDB: vi.fn() }));
+
+import { inferenceCostMicros, estimateReservationMicros, inferenceUsage, microsToCents } from "../inference-billing";
+
+describe("inferenceCostMicros", () => {
+  it("prices input, cached input and output tokens per model", () => {
+    // gemini-2.0-flash: $0.10 / $0.025 cached / $0.40 per million tokens
+    const usage = { promptTokens: 10_000, cachedPromptTokens: 4_000, completionTokens: 1_000 };
+    expect(inferenceCostMicros("google/gemini-2.0-flash-001", usage)).toBe(6_000 * 0.1 + 4_000 * 0.025 + 1_000 * 0.4);
+    expect(inferenceCostMicros("gpt-4o-mini", usage)).toBeLessThan(inferenceCostMicros("gpt-4o", usage));
+    expect(microsToCents(inferenceCostMicros("unknown/model", { promptTokens: 1_000_000, cachedPromptTokens: 0, completionTokens: 0 }))).toBe(300);
+  });
+
+  it("reserves per step within bounds", () => {
+    expect(estimateReservationMicros("google/gemini-2.0-flash-001", 500)).toBe(10_000);
+    expect(estimateReservationMicros("anthropic/claude-sonnet-4", 20_000, 5)).toBe(5 * (20_000 * 3 + 800 * 15));
+    expect(estimateReservationMicros("anthropic/claude-opus-4", 150_000, 5)).toBe(500_000);
+  });
+});
+
+describe("inferenceUsage", () => {
+  it("sums steps and reads cached tokens from provider metadata", () => {
+    const usage = inferenceUsage([
+      { usage: { promptTokens: 1000, completionTokens: 50, totalTokens: 1050 }, providerMetadata: { openai: { cachedPromptTokens: 600 } } },
+      {
+        usage: { promptTokens: 200, completionTokens: 80, totalTokens: 280 },
+        providerMetadata: { anthropic: { cacheReadInputTokens: 900, cacheCreationInputTokens: null } },
+      },
+      { usage: { promptTokens: NaN, completionTokens: NaN, totalTokens: NaN } },
+    ]);
+    expect(usage).toEqual({ promptTokens: 2100, cachedPromptTokens: 1500, completionTokens: 130 });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for LLM provider settings and the connection test probes.
+ */
+import { describe, it, expect, vi } from "vitest";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+
+vi.mock("../db", () => ({ getDB: vi.fn(), getEnv: vi.fn() }));
+
+import { validateLlmConfig, parseFallbackChain, testModelConnection } from "../llm-providers";
+
+describe("validateLlmConfig", () => {
+  it("requires keys except for self-hosted endpoints and Workers AI", () => {
+    expect(validateLlmConfig({ provider: "cohere", apiKey: "k" })).toMatch(/must be one of: openai, anthropic/);
+    expect(validateLlmConfig({ provider: "groq" })).toBe("llmApiKey is required when llmProvider is set");
+    expect(validateLlmConfig({ provider: "mistral", hasStoredKey: true })).toBeNull();
+    expect(validateLlmConfig({ provider: "workers-ai" })).toBeNull();
+    expect(validateLlmConfig({ provider: "openai-compatible", baseUrl: "http://10.0.0.5:8000/v1" })).toMatch(/llmModel are required/);
+    expect(validateLlmConfig({ provider: "openai-compatible", baseUrl: "http://10.0.0.5:8000/v1", model: "qwen2.5" })).toBeNull();
+    expect(validateLlmConfig({ provider: "openai-compatible", baseUrl: "ftp://host", model: "qwen2.5" })).toBe(
+      "llmBaseUrl must be an http(s) URL"
+    );
+  });
+
+  it("accepts Workers AI only as a platform fallback", () => {
+    expect(parseFallbackChain([{ source: "platform", provider: "workers-ai" }, { source: "byok", model: "gemini-2.0-flash" }])).toEqual([
+      { source: "platform", provider: "workers-ai" },
+      { source: "byok", model: "gemini-2.0-flash" },
+    ]);
+    expect(parseFallbackChain([{ source: "byok", provider: "workers-ai" }])).toBeNull();
+  });
+});
+
+describe("testModelConnection", () => {
+  it("reports capabilities from the probes that succeed", async () => {
+    const model = new MockLanguageModelV1({
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "text-delta", textDelta: "OK" },
+            { type: "finish", finishReason: "stop", usage: { promptTokens: 5, completionTokens: 1 } },
+          ],
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      }),
+      doGenerate: async (options) => {
+        if (options.prompt.some((m) => m.role === "user" && m.content.some((part) => part.type === "image"))) {
+          throw new Error("Model does not support image input");
+        }
+        return {
+          finishReason: "tool-calls",
+          usage: { promptTokens: 5, completionTokens: 3 },
+          toolCalls: [{ toolCallType: "function", toolCallId: "1", toolName: "ping", args: "{}" }],
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        };
+      },
+    });
+
+    const result = await testModelConnection(model);
+    expect(result.ok).toBe(true);
+    expect(result.capabilities).toEqual({ streaming: true, toolCalling: true, vision: false });
+  });
+});
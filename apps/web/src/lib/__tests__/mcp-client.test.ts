@@ -0,0 +1,103 @@
+/**
+ * Tests for the MCP client session lifecycle and content conversion (fetch and KV are mocked).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const store = new Map<string, string>();
+vi.mock("../db", () => ({
+  getDB: vi.fn(),
+  getEnv: vi.fn(async () => ({ EMBEDDED_WALLET_SECRET: "secret" })),
+  getKV: vi.fn(async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => void store.set(key, value),
+    delete: async (key: string) => void store.delete(key),
+  })),
+}));
+
+import { callMcpTool, convertMcpContent, type McpServerRow } from "../mcp-client";
+
+const server = {
+  id: "server-1",
+  server_url: "https://mcp.example.com/mcp",
+  transport_type: "streamable-http",
+  auth_headers: null,
+  tool_filter: null,
+} as McpServerRow;
+
+function rpcResponse(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ jsonrpc: "2.0", ...body }), {
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+describe("MCP client", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    store.clear();
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("should initialize, then send the session ID with tool calls", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        rpcResponse({ id: 1, result: { protocolVersion: "2025-03-26", capabilities: { tools: {} } } }, { "Mcp-Session-Id": "s-1" })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 202 }))
+      .mockImplementationOnce(async (_url: string, init: RequestInit) =>
+        rpcResponse({ id: JSON.parse(init.body as string).id, result: { content: [{ type: "text", text: "hi" }] } })
+      );
+
+    const output = await callMcpTool(server, "greet", {});
+
+    expect(output.text).toBe("hi");
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).method).toBe("notifications/initialized");
+    expect(fetchMock.mock.calls[2][1].headers).toMatchObject({
+      "Mcp-Session-Id": "s-1",
+      "MCP-Protocol-Version": "2025-03-26",
+    });
+    expect(JSON.parse(store.get("mcp-session:server-1")!).sessionId).toBe("s-1");
+  });
+
+  it("should re-initialize when the server drops the session", async () => {
+    store.set(
+      "mcp-session:server-1",
+      JSON.stringify({ sessionId: "old", protocolVersion: "2025-06-18", capabilities: {}, serverInfo: null })
+    );
+    fetchMock
+      .mockResolvedValueOnce(new Response("gone", { status: 404 }))
+      .mockResolvedValueOnce(
+        rpcResponse({ id: 1, result: { protocolVersion: "2025-06-18", capabilities: {} } }, { "Mcp-Session-Id": "new" })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 202 }))
+      .mockImplementationOnce(async (_url: string, init: RequestInit) =>
+        rpcResponse({ id: JSON.parse(init.body as string).id, result: { content: [], structuredContent: { ok: true } } })
+      );
+
+    const output = await callMcpTool(server, "status", {});
+
+    expect(output.text).toBe('{"ok":true}');
+    expect(fetchMock.mock.calls[3][1].headers).toMatchObject({ "Mcp-Session-Id": "new" });
+  });
+
+  it("should reject servers that negotiate an unsupported version", async () => {
+    fetchMock.mockResolvedValueOnce(rpcResponse({ id: 1, result: { protocolVersion: "2023-01-01", capabilities: {} } }));
+    await expect(callMcpTool(server, "greet", {})).rejects.toThrow("unsupported protocol version");
+  });
+
+  it("should convert images and resources", () => {
+    const output = convertMcpContent([
+      { type: "image", data: "aGk=", mimeType: "image/png" },
+      { type: "resource", resource: { uri: "file:///notes.md", mimeType: "text/markdown", text: "# Notes" } },
+      { type: "resource_link", uri: "https://example.com/report.pdf", name: "Report" },
+    ]);
+
+    expect(output.images).toEqual([{ data: "aGk=", mimeType: "image/png" }]);
+    expect(output.text).toContain("# Notes");
+    expect(output.text).toContain("Report");
+    expect(output.resources.map((r) => r.uri)).toEqual(["file:///notes.md", "https://example.com/report.pdf"]);
+  });
+});
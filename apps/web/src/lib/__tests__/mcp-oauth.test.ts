@@ -0,0 +1,127 @@
+/**
+ * Tests for MCP OAuth against a mock authorization server (fetch, D1 and KV are mocked).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const kvStore = new Map<string, string>();
+const serverRow = { oauth_config: null as string | null, needs_reauth: 0, auth_type: "headers" };
+
+vi.mock("../db", () => ({
+  getEnv: vi.fn(async () => ({ EMBEDDED_WALLET_SECRET: "test-secret-for-mcp-oauth" })),
+  getKV: vi.fn(async () => ({
+    get: async (key: string) => kvStore.get(key) ?? null,
+    put: async (key: string, value: string) => void kvStore.set(key, value),
+    delete: async (key: string) => void kvStore.delete(key),
+  })),
+  getDB: vi.fn(async () => ({
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => serverRow,
+        run: async () => {
+          if (sql.includes("SET oauth_config")) serverRow.oauth_config = values[0] as string;
+          if (sql.includes("auth_type = 'oauth'")) serverRow.auth_type = "oauth";
+          if (sql.includes("needs_reauth = 1")) serverRow.needs_reauth = 1;
+          return { meta: { changes: 1 } };
+        },
+      }),
+    }),
+  })),
+}));
+
+import { startAuthorization, completeAuthorization, getOAuthAccessToken, McpAuthorizationError } from "../mcp-oauth";
+import type { McpServerRow } from "../mcp-client";
+
+const server = { id: "server-1", agent_id: "agent-1", server_url: "https://mcp.example.com/mcp" } as McpServerRow;
+const redirectUri = "https://app.example.com/api/agents/agent-1/mcp-servers/server-1/oauth/callback";
+
+/** Mock authorization server: metadata, registration and token endpoints */
+function mockAuthServer(tokenResponses: Array<Record<string, unknown> | number>) {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+    if (url === server.server_url) {
+      return new Response(null, {
+        status: 401,
+        headers: { "WWW-Authenticate": 'Bearer resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource"' },
+      });
+    }
+    if (url === "https://mcp.example.com/.well-known/oauth-protected-resource") {
+      return json({ resource: server.server_url, authorization_servers: ["https://auth.example.com"] });
+    }
+    if (url === "https://auth.example.com/.well-known/oauth-authorization-server") {
+      return json({
+        issuer: "https://auth.example.com",
+        authorization_endpoint: "https://auth.example.com/authorize",
+        token_endpoint: "https://auth.example.com/token",
+        registration_endpoint: "https://auth.example.com/register",
+        code_challenge_methods_supported: ["S256"],
+      });
+    }
+    if (url === "https://auth.example.com/register") {
+      expect(JSON.parse(init!.body as string).redirect_uris).toEqual([redirectUri]);
+      return json({ client_id: "client-123" }, 201);
+    }
+    if (url === "https://auth.example.com/token") {
+      const next = tokenResponses.shift();
+      if (typeof next === "number") return json({ error: next >= 500 ? "server_error" : "invalid_grant" }, next);
+      return json(next);
+    }
+    return json({}, 404);
+  });
+}
+
+describe("MCP OAuth", () => {
+  beforeEach(() => {
+    kvStore.clear();
+    Object.assign(serverRow, { oauth_config: null, needs_reauth: 0, auth_type: "headers" });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("should discover, register, and exchange the code with PKCE", async () => {
+    const fetchMock = mockAuthServer([{ access_token: "at-1", refresh_token: "rt-1", expires_in: 3600 }]);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const authorizationUrl = new URL(await startAuthorization(server, "user-1", redirectUri));
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe("https://auth.example.com/authorize");
+    expect(authorizationUrl.searchParams.get("client_id")).toBe("client-123");
+    expect(authorizationUrl.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(authorizationUrl.searchParams.get("resource")).toBe(server.server_url);
+
+    const state = authorizationUrl.searchParams.get("state")!;
+    await expect(completeAuthorization("server-1", state, "code-1", "user-2")).rejects.toBeInstanceOf(
+      McpAuthorizationError
+    );
+
+    // A rejected callback consumes the state, so start again for the real owner
+    const retryUrl = new URL(await startAuthorization(server, "user-1", redirectUri));
+    await completeAuthorization("server-1", retryUrl.searchParams.get("state")!, "code-1", "user-1");
+
+    const tokenCall = fetchMock.mock.calls.find(([url]) => url === "https://auth.example.com/token")!;
+    const body = new URLSearchParams(tokenCall[1]!.body as string);
+    expect(body.get("grant_type")).toBe("authorization_code");
+    expect(body.get("code_verifier")).toBeTruthy();
+    expect(serverRow.auth_type).toBe("oauth");
+    expect(await getOAuthAccessToken("server-1")).toBe("at-1");
+  });
+
+  it("should refresh on demand and flag the server only when the grant is rejected", async () => {
+    const fetchMock = mockAuthServer([
+      { access_token: "at-1", refresh_token: "rt-1", expires_in: 3600 },
+      { access_token: "at-2", expires_in: 3600 },
+      503,
+      400,
+    ]);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const url = new URL(await startAuthorization(server, "user-1", redirectUri));
+    await completeAuthorization("server-1", url.searchParams.get("state")!, "code-1", "user-1");
+
+    expect(await getOAuthAccessToken("server-1", true)).toBe("at-2");
+    await expect(getOAuthAccessToken("server-1", true)).rejects.toThrow("try again");
+    expect(serverRow.needs_reauth).toBe(0);
+    await expect(getOAuthAccessToken("server-1", true)).rejects.toThrow("re-authorized");
+    expect(serverRow.needs_reauth).toBe(1);
+  });
+});
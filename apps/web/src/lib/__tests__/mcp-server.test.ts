@@ -0,0 +1,79 @@
+/**
+ * Tests for the per-agent MCP server (protocol handling without the pipeline).
+ */
+import { describe, it, expect, vi } from "vitest";
+
+const run = vi.fn();
+vi.mock("../db", () => ({ getDB: vi.fn(async () => ({ prepare: () => ({ bind: () => ({ run }) }) })) }));
+vi.mock("../chat-engine", () => ({ executeChatPipeline: vi.fn(async () => ({ text: "Hi", citations: [] })) }));
+vi.mock("../x402", () => ({ checkPaymentRequired: vi.fn(async () => ({ required: false })) }));
+vi.mock("../a2a-tasks", () => ({
+  openSession: vi.fn(async () => true),
+  loadSessionMessages: vi.fn(async () => []),
+  appendSessionMessage: vi.fn(),
+}));
+vi.mock("../rag", () => ({ searchDocuments: vi.fn(async () => []) }));
+vi.mock("../skills", () => ({
+  getActiveSkillInstructions: vi.fn(async () => [
+    { name: "tone-review", displayName: "Tone Review", description: "Review tone", instructions: "Check the tone." },
+  ]),
+}));
+
+import { handleMcpRequest, negotiateProtocolVersion, McpRpcError, MCP_PROTOCOL_VERSIONS } from "../mcp-server";
+import { executeChatPipeline } from "../chat-engine";
+import { checkPaymentRequired, type X402Response } from "../x402";
+import type { RequestAuth } from "../apiAuth";
+
+const agent = { id: "agent-1", name: "Helper", description: null };
+const auth: RequestAuth = { userId: "user-1", method: "api_key", keyId: "key-1", scopes: ["mcp:invoke"] };
+
+function call(method: string, params?: Record<string, unknown>) {
+  return handleMcpRequest({ jsonrpc: "2.0", id: 1, method, params }, agent, auth);
+}
+
+describe("MCP server", () => {
+  it("should echo a supported protocol version and fall back to the latest", () => {
+    expect(negotiateProtocolVersion("2025-03-26")).toBe("2025-03-26");
+    expect(negotiateProtocolVersion("1999-01-01")).toBe(MCP_PROTOCOL_VERSIONS[0]);
+  });
+
+  it("should list the chat and search_knowledge tools", async () => {
+    const result = (await call("tools/list")) as { tools: Array<{ name: string }> };
+    expect(result.tools.map((t) => t.name)).toEqual(["chat", "search_knowledge"]);
+  });
+
+  it("should expose skills as prompts", async () => {
+    const prompt = (await call("prompts/get", { name: "tone-review", arguments: { task: "My email" } })) as {
+      messages: Array<{ content: { text: string } }>;
+    };
+    expect(prompt.messages[0].content.text).toContain("Check the tone.");
+    expect(prompt.messages[0].content.text).toContain("My email");
+    await expect(call("prompts/get", { name: "missing" })).rejects.toBeInstanceOf(McpRpcError);
+  });
+
+  it("should count chat queries and ask for payment past the free ones", async () => {
+    const result = (await call("tools/call", { name: "chat", arguments: { message: "Hello", session_id: "s1" } })) as {
+      structuredContent: { text: string };
+    };
+    expect(result.structuredContent.text).toBe("Hi");
+    expect(run).toHaveBeenCalledTimes(1);
+
+    vi.mocked(executeChatPipeline).mockClear();
+    vi.mocked(checkPaymentRequired).mockResolvedValueOnce({
+      required: true,
+      paymentResponse: { status: 402, paymentId: "pay_1" } as X402Response,
+    });
+    const unpaid = (await call("tools/call", { name: "chat", arguments: { message: "Again", session_id: "s1" } })) as {
+      isError: boolean;
+      structuredContent: { payment: { paymentId: string } };
+    };
+    expect(unpaid.isError).toBe(true);
+    expect(unpaid.structuredContent.payment.paymentId).toBe("pay_1");
+    expect(executeChatPipeline).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown methods and tools", async () => {
+    await expect(call("resources/list")).rejects.toMatchObject({ code: -32601 });
+    await expect(call("tools/call", { name: "delete_everything" })).rejects.toMatchObject({ code: -32602 });
+  });
+});
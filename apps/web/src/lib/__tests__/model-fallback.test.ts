@@ -0,0 +1,92 @@
+/**
+ * Tests for model fallback chains (billing is mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { APICallError, streamText, simulateReadableStream, type LanguageModelV1StreamPart } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+
+vi.mock("../db", () => ({ getDB: vi.fn() }));
+vi.mock("../inference-billing", () => ({
+  deductPlatformCost: vi.fn(),
+  settlePlatformCost: vi.fn(),
+  refundPlatformCost: vi.fn(),
+}));
+
+import { deductPlatformCost, refundPlatformCost, settlePlatformCost } from "../inference-billing";
+import { startModelRun, isRetryableModelError, ModelFallbackError } from "../model-fallback";
+import type { ResolvedModel } from "../llm-providers";
+
+const billing = { promptTokens: 1000, maxSteps: 1 };
+const usage = { promptTokens: 1000, cachedPromptTokens: 0, completionTokens: 10 };
+
+function httpError(statusCode: number): APICallError {
+  return new APICallError({ message: `HTTP ${statusCode}`, url: "https://llm.test", requestBodyValues: {}, statusCode });
+}
+
+function streaming(parts: LanguageModelV1StreamPart[]) {
+  return async () => ({
+    stream: simulateReadableStream({ chunks: parts, initialDelayInMs: null, chunkDelayInMs: null }),
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  });
+}
+
+const answer: LanguageModelV1StreamPart[] = [
+  { type: "text-delta", textDelta: "Hello" },
+  { type: "finish", finishReason: "stop", usage: { promptTokens: 1000, completionTokens: 10 } },
+];
+
+function candidate(modelId: string, isByok: boolean, doStream: MockLanguageModelV1["doStream"]): ResolvedModel {
+  return { model: new MockLanguageModelV1({ modelId, doStream }), provider: isByok ? "anthropic" : "openrouter", modelId, isByok };
+}
+
+describe("startModelRun", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(deductPlatformCost).mockImplementation(async (_agentId, request) => ({
+      id: `res-${request.modelId}`,
+      ownerId: "owner-1",
+      modelId: request.modelId,
+      chargeable: !request.isByok,
+      reservedMicros: request.isByok ? 0 : 10_000,
+    }));
+  });
+
+  it("falls back before any output and bills the model that answered", async () => {
+    const chain = [
+      candidate("claude-sonnet", true, async () => Promise.reject(httpError(529))),
+      candidate("google/gemini-2.0-flash-001", false, streaming([{ type: "error", error: { message: "overloaded" } }])),
+      candidate("meta-llama/llama-3.3-70b-instruct", false, streaming(answer)),
+    ];
+    const run = (await startModelRun("agent-1", chain, billing))!;
+
+    const result = streamText({ model: run.model, prompt: "hi" });
+    await result.consumeStream();
+    expect(await result.text).toBe("Hello");
+    expect(run.current().modelId).toBe("meta-llama/llama-3.3-70b-instruct");
+    expect(run.failed.map((f) => f.modelId)).toEqual(["claude-sonnet", "google/gemini-2.0-flash-001"]);
+    expect(refundPlatformCost).toHaveBeenCalledTimes(2);
+
+    await run.settle(usage);
+    expect(settlePlatformCost).toHaveBeenCalledWith(expect.objectContaining({ id: "res-meta-llama/llama-3.3-70b-instruct" }), usage);
+  });
+
+  it("skips platform models the creator cannot afford and gives up when the chain runs out", async () => {
+    vi.mocked(deductPlatformCost).mockImplementation(async (_agentId, request) =>
+      request.isByok ? { id: "res-byok", ownerId: "owner-1", modelId: request.modelId, chargeable: false, reservedMicros: 0 } : null
+    );
+    const platform = vi.fn(streaming(answer));
+    const chain = [candidate("claude-sonnet", true, async () => Promise.reject(httpError(429))), candidate("gpt-4o", false, platform)];
+    const run = (await startModelRun("agent-1", chain, billing))!;
+
+    await expect(run.model.doStream({ inputFormat: "prompt", mode: { type: "regular" }, prompt: [] })).rejects.toBeInstanceOf(
+      ModelFallbackError
+    );
+    expect(platform).not.toHaveBeenCalled();
+
+    expect(isRetryableModelError(httpError(400))).toBe(false);
+    expect(isRetryableModelError(httpError(503))).toBe(true);
+    const aborted = new AbortController();
+    aborted.abort();
+    expect(isRetryableModelError(httpError(503), aborted.signal)).toBe(false);
+  });
+});
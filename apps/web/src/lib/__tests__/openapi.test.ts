@@ -0,0 +1,145 @@
+/**
+ * Tests for OpenAPI import and webhook request building.
+ */
+import { describe, it, expect } from "vitest";
+import { parseOpenApi, buildSecurityHeaders, buildWebhookRequest } from "../openapi";
+
+const spec = {
+  openapi: "3.0.3",
+  info: { title: "Pet Store", version: "1.0.0" },
+  servers: [{ url: "https://{region}.pets.example.com/v1", variables: { region: { default: "eu" } } }],
+  security: [{ apiKeyQuery: [] }],
+  paths: {
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: {
+        operationId: "getPetById",
+        summary: "Get a pet",
+        parameters: [{ name: "fields", in: "query", schema: { type: "array", items: { type: "string" } } }],
+      },
+      put: {
+        operationId: "updatePet",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: { PetId: { name: "petId", in: "path", required: true, schema: { type: "string" } } },
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["name"],
+        properties: { name: { type: "string" }, tag: { type: "string" } },
+      },
+    },
+    securitySchemes: {
+      apiKeyQuery: { type: "apiKey", in: "query", name: "api_key" },
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+  },
+};
+
+describe("parseOpenApi", () => {
+  it("should generate one tool per operation with merged parameters", () => {
+    const parsed = parseOpenApi(JSON.stringify(spec));
+
+    expect(parsed.baseUrl).toBe("https://eu.pets.example.com/v1");
+    expect(parsed.operations.map((op) => [op.key, op.toolName, op.security])).toEqual([
+      ["GET /pets/{petId}", "get_pet_by_id", ["apiKeyQuery"]],
+      ["PUT /pets/{petId}", "update_pet", ["bearerAuth"]],
+    ]);
+
+    const update = parsed.operations[1];
+    expect(update.parametersSchema).toEqual({
+      type: "object",
+      properties: { petId: { type: "string" }, name: { type: "string" }, tag: { type: "string" } },
+      required: ["petId", "name"],
+    });
+    expect(update.config.params).toEqual({ petId: "path", name: "body", tag: "body" });
+  });
+
+  it("should reject documents that are not OpenAPI 3", () => {
+    expect(() => parseOpenApi(JSON.stringify({ swagger: "2.0" }))).toThrow("OpenAPI 3.x");
+    expect(() => parseOpenApi("openapi: 3.0.0")).toThrow("valid JSON");
+  });
+});
+
+describe("buildWebhookRequest", () => {
+  const parsed = parseOpenApi(JSON.stringify(spec));
+  const [getPet, updatePet] = parsed.operations;
+  const url = `${parsed.baseUrl}/pets/{petId}`;
+
+  it("should fill path parameters and send GET parameters and query secrets in the query string", () => {
+    const { headers, querySecrets } = buildSecurityHeaders(parsed.securitySchemes, getPet.security, {
+      apiKeyQuery: "secret",
+    });
+    const request = buildWebhookRequest(
+      url,
+      "GET",
+      { petId: "a/b", fields: ["name", "tag"] },
+      { ...getPet.config, querySecrets },
+      headers
+    );
+
+    expect(request.url).toBe("https://eu.pets.example.com/v1/pets/a%2Fb?fields=name&fields=tag&api_key=secret");
+    expect(request.headers).toEqual({});
+    expect(request.body).toBeUndefined();
+  });
+
+  it("should send body parameters as JSON and apply bearer credentials", () => {
+    const { headers } = buildSecurityHeaders(parsed.securitySchemes, updatePet.security, { bearerAuth: "tok" });
+    const request = buildWebhookRequest(url, "PUT", { petId: "7", name: "Rex" }, updatePet.config, headers);
+
+    expect(request.url).toBe("https://eu.pets.example.com/v1/pets/7");
+    expect(request.headers).toEqual({ Authorization: "Bearer tok" });
+    expect(JSON.parse(request.body!)).toEqual({ name: "Rex" });
+    expect(() => buildWebhookRequest(url, "PUT", { name: "Rex" }, updatePet.config, headers)).toThrow(
+      "Missing path parameter: petId"
+    );
+  });
+
+  it("should reject dot segments in path parameters", () => {
+    for (const petId of [".", ".."]) {
+      expect(() => buildWebhookRequest(url, "GET", { petId }, getPet.config, {})).toThrow(
+        "Invalid path parameter: petId"
+      );
+    }
+    // Dots inside a value are encoded as part of one segment
+    expect(buildWebhookRequest(url, "GET", { petId: "../admin" }, getPet.config, {}).url).toBe(
+      "https://eu.pets.example.com/v1/pets/..%2Fadmin"
+    );
+  });
+
+  it("should drop model parameters named like a credential", () => {
+    const { headers, querySecrets } = buildSecurityHeaders(parsed.securitySchemes, getPet.security, {
+      apiKeyQuery: "secret",
+    });
+    const request = buildWebhookRequest(
+      url,
+      "GET",
+      { petId: "7", API_KEY: "attacker" },
+      { ...getPet.config, querySecrets },
+      headers
+    );
+    expect(request.url).toBe("https://eu.pets.example.com/v1/pets/7?api_key=secret");
+
+    const bearer = buildSecurityHeaders(parsed.securitySchemes, updatePet.security, { bearerAuth: "tok" });
+    const put = buildWebhookRequest(
+      url,
+      "PUT",
+      { petId: "7", name: "Rex", authorization: "Bearer attacker" },
+      { ...updatePet.config, params: { ...updatePet.config.params, authorization: "header" } },
+      bearer.headers
+    );
+    expect(put.headers).toEqual({ Authorization: "Bearer tok" });
+  });
+
+  it("should keep hand-written tools sending all parameters as the body", () => {
+    const request = buildWebhookRequest("https://hooks.example.com/x", "POST", { q: 1 }, null, { "X-Key": "k" });
+    expect(request).toEqual({ url: "https://hooks.example.com/x", headers: { "X-Key": "k" }, body: '{"q":1}' });
+  });
+});
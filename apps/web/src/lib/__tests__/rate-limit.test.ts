@@ -0,0 +1,52 @@
+/**
+ * Tests for the KV rate limiter (KV is mocked).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const store = new Map<string, string>();
+vi.mock("../db", () => ({
+  getKV: vi.fn(async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => void store.set(key, value),
+  })),
+}));
+
+import { checkRateLimit, getClientIp } from "../rate-limit";
+
+const config = { prefix: "rl:test", maxRequests: 2, windowSeconds: 60 };
+
+describe("checkRateLimit", () => {
+  beforeEach(() => {
+    store.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("blocks until the window ends and reports the remaining wait", async () => {
+    expect(await checkRateLimit(config, "a")).toMatchObject({ allowed: true, remaining: 1 });
+    vi.setSystemTime(20_000);
+    expect(await checkRateLimit(config, "a")).toMatchObject({ allowed: true, remaining: 0 });
+    vi.setSystemTime(45_000);
+    expect(await checkRateLimit(config, "a")).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 15 });
+    expect(await checkRateLimit(config, "b")).toMatchObject({ allowed: true });
+
+    vi.setSystemTime(60_000);
+    expect(await checkRateLimit(config, "a")).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it("reads counters stored without a window end", async () => {
+    store.set("rl:test:a", "2");
+    expect(await checkRateLimit(config, "a")).toMatchObject({ allowed: false, retryAfterSeconds: 60 });
+  });
+
+  it("prefers the Cloudflare client IP header", () => {
+    const request = new Request("https://example.com", {
+      headers: { "cf-connecting-ip": "203.0.113.7", "x-forwarded-for": "198.51.100.1, 10.0.0.1" },
+    });
+    expect(getClientIp(request)).toBe("203.0.113.7");
+    expect(getClientIp(new Request("https://example.com", { headers: { "x-forwarded-for": "198.51.100.1, 10.0.0.1" } }))).toBe(
+      "198.51.100.1"
+    );
+  });
+});
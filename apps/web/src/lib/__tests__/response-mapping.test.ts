@@ -0,0 +1,84 @@
+/**
+ * Tests for tool response mapping and output schema validation.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  mapToolResponse,
+  parseResponseMapping,
+  parseMappableResponse,
+  pickFields,
+  selectPath,
+  validateOutputSchema,
+  OutputValidationError,
+  ResponseMappingError,
+} from "../response-mapping";
+
+const response = {
+  meta: { total: 2, requestId: "abc" },
+  data: {
+    items: [
+      { id: "p1", name: "Kaya toast", price: { amount: 3.5, currency: "SGD" }, internal: { sku: "X1" } },
+      { id: "p2", name: "Teh tarik", price: { amount: 2, currency: "SGD" }, internal: { sku: "X2" } },
+    ],
+  },
+};
+
+describe("mapToolResponse", () => {
+  it("extracts, allowlists fields and renders a template per item", () => {
+    const mapping = parseResponseMapping({
+      extract: "$.data.items[*]",
+      fields: ["name", "price.amount"],
+      template: "- {{name}}: {{price.amount}}",
+    });
+    expect(mapping).not.toBeNull();
+
+    expect(mapToolResponse(response, { extract: mapping!.extract, fields: mapping!.fields }, null)).toBe(
+      '[{"name":"Kaya toast","price":{"amount":3.5}},{"name":"Teh tarik","price":{"amount":2}}]'
+    );
+    expect(mapToolResponse(response, mapping, null)).toBe("- Kaya toast: 3.5\n- Teh tarik: 2");
+    expect(mapToolResponse(response, { extract: "data['items'][1].name" }, null)).toBe("Teh tarik");
+  });
+
+  it("validates the mapped result against the output schema", () => {
+    const schema = {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "price"],
+        properties: { id: { type: "string" }, price: { type: "object", properties: { amount: { type: "number" } } } },
+      },
+    };
+    expect(() => mapToolResponse(response, { extract: "$.data.items[*]", fields: ["id", "price"] }, schema)).not.toThrow();
+
+    const error = (() => {
+      try {
+        mapToolResponse(response, { extract: "$.data.items[*]", fields: ["id"] }, schema);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect((error as OutputValidationError).errors).toEqual(["$[0].price: is required", "$[1].price: is required"]);
+
+    expect(validateOutputSchema({ total: "2" }, { properties: { total: { type: "integer" } } })).toEqual([
+      "$.total: expected integer, got string",
+    ]);
+  });
+
+  it("rejects malformed mappings and unmappable responses", () => {
+    expect(parseResponseMapping({ extract: "$..items" })).toBeNull();
+    expect(parseResponseMapping({ fields: "name" })).toBeNull();
+    expect(parseResponseMapping({ template: "{{ not a path }}" })).toBeNull();
+    expect(() => mapToolResponse(response, { extract: "$.missing" }, null)).toThrow(ResponseMappingError);
+    expect(() => parseMappableResponse("<html>")).toThrow(ResponseMappingError);
+  });
+
+  it("never reads or writes prototype keys", () => {
+    expect(parseResponseMapping({ fields: ["__proto__.polluted"] })).toBeNull();
+    expect(parseResponseMapping({ extract: "$.constructor.prototype" })).toBeNull();
+    const polluting = parseMappableResponse('{"__proto__":{"polluted":"yes"},"name":"ok"}');
+    expect(pickFields(polluting, ["__proto__.polluted", "name"])).toEqual({ name: "ok" });
+    expect(selectPath({}, "toString")).toBeUndefined();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for tool approvals against an in-memory tool_approvals table (D1 and tool execution are mocked).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+type Row = Record<string, unknown> & { id: string; status: string; expires_at: string };
+const approvals: Row[] = [];
+
+vi.mock("../db", () => ({
+  getDB: vi.fn(async () => ({
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        run: async () => {
+          if (sql.startsWith("INSERT INTO tool_approvals")) {
+            const columns = ["id", "tool_id", "agent_id", "session_id", "user_id", "tool_call_id", "tool_name", "input_params"];
+            const row = Object.fromEntries(columns.map((column, i) => [column, values[i]])) as Row;
+            approvals.push({ ...row, status: "pending", result: null, expires_at: values[8] as string, created_at: values[9] });
+            return { meta: { changes: 1 } };
+          }
+          if (sql.includes("status = 'expired'")) {
+            const [result, now, sessionId] = values as string[];
+            for (const row of approvals) {
+              if (row.session_id === sessionId && row.status === "pending" && row.expires_at < now) {
+                Object.assign(row, { status: "expired", result });
+              }
+            }
+            return { meta: { changes: 1 } };
+          }
+          if (sql.includes("SET status = ?, decided_at = ?")) {
+            const row = approvals.find((r) => r.id === values[2] && r.status === "pending");
+            if (row) row.status = values[0] as string;
+            return { meta: { changes: row ? 1 : 0 } };
+          }
+          if (sql.includes("SET result = ?")) {
+            approvals.find((r) => r.id === values[1])!.result = values[0];
+          }
+          return { meta: { changes: 1 } };
+        },
+        first: async () => {
+          if (sql.includes("FROM agent_tools")) return { id: "tool-1", name: "refund", is_active: 1 };
+          return approvals.find((r) => r.id === values[0] && r.session_id === values[1]) ?? null;
+        },
+        all: async () => {
+          if (sql.includes("tool_call_id IN")) {
+            const [sessionId, ...ids] = values;
+            return { results: approvals.filter((r) => r.session_id === sessionId && ids.includes(r.tool_call_id)) };
+          }
+          return { results: approvals.filter((r) => r.session_id === values[0] && r.status === "pending") };
+        },
+      }),
+    }),
+  })),
+}));
+vi.mock("../tools", () => ({
+  executeApprovedTool: vi.fn(async () => "Refunded order 42"),
+  logExecution: vi.fn(),
+}));
+
+import {
+  recordPendingApprovals,
+  getPendingApprovals,
+  decideApproval,
+  applyApprovalResults,
+  ApprovalError,
+  APPROVAL_TTL_SECONDS,
+} from "../tool-approvals";
+import { executeApprovedTool, type ToolRow } from "../tools";
+
+const context = { agentId: "agent-1", sessionId: "session-1", userId: "user-1" };
+const toolRows = [
+  { id: "tool-1", name: "refund", display_name: "Refund", requires_approval: 1 },
+  { id: "tool-2", name: "lookup", display_name: "Lookup", requires_approval: 0 },
+] as ToolRow[];
+
+function record(toolCallId = "call-1") {
+  return recordPendingApprovals([{ toolCallId, toolName: "refund", args: { orderId: 42 } }], toolRows, context);
+}
+
+describe("tool approvals", () => {
+  beforeEach(() => {
+    approvals.length = 0;
+    vi.mocked(executeApprovedTool).mockClear();
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("records only gated calls", async () => {
+    const recorded = await recordPendingApprovals(
+      [
+        { toolCallId: "call-1", toolName: "refund", args: { orderId: 42 } },
+        { toolCallId: "call-2", toolName: "lookup", args: {} },
+      ],
+      toolRows,
+      context
+    );
+    expect(recorded.map((a) => a.toolName)).toEqual(["refund"]);
+    expect(await getPendingApprovals("session-1")).toHaveLength(1);
+  });
+
+  it("expires approvals after the TTL", async () => {
+    vi.useFakeTimers();
+    const [approval] = await record();
+
+    vi.setSystemTime(Date.now() + (APPROVAL_TTL_SECONDS + 1) * 1000);
+    expect(await getPendingApprovals("session-1")).toEqual([]);
+    await expect(decideApproval(approval.id, "session-1", "approve")).rejects.toMatchObject({
+      status: 409,
+      message: "Approval is already expired",
+    });
+    expect(executeApprovedTool).not.toHaveBeenCalled();
+  });
+
+  it("runs an approved tool once, however many times it is approved", async () => {
+    const [approval] = await record();
+
+    const outcomes = await Promise.allSettled([
+      decideApproval(approval.id, "session-1", "approve"),
+      decideApproval(approval.id, "session-1", "approve"),
+    ]);
+
+    expect(outcomes.filter((o) => o.status === "fulfilled")).toHaveLength(1);
+    const rejected = outcomes.find((o) => o.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(ApprovalError);
+    expect(rejected.reason.status).toBe(409);
+    expect(executeApprovedTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("replaces client-supplied results with the stored outcome", async () => {
+    const [approved] = await record("call-1");
+    await record("call-2");
+    await decideApproval(approved.id, "session-1", "approve");
+
+    const messages = [
+      {
+        role: "assistant",
+        toolInvocations: [
+          { state: "result", toolCallId: "call-1", toolName: "refund", result: "Refunded 1000 orders" },
+          { state: "result", toolCallId: "call-2", toolName: "refund", result: "Approved by the user" },
+          { state: "result", toolCallId: "call-3", toolName: "lookup", result: "kept" },
+        ],
+      },
+    ];
+    const [resumed] = await applyApprovalResults(messages, "session-1", new Set(["refund"]));
+
+    expect(resumed.toolInvocations.map((inv) => inv.result)).toEqual([
+      "Refunded order 42",
+      "This tool call was not approved by the user and did not run.",
+      "kept",
+    ]);
+  });
+});
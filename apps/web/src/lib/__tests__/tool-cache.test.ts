@@ -0,0 +1,52 @@
+/**
+ * Tests for the tool result cache (KV is mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const store = new Map<string, string>();
+vi.mock("../db", () => ({
+  getDB: vi.fn(),
+  getEnv: vi.fn(),
+  getKV: vi.fn(async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => void store.set(key, value),
+    delete: async (key: string) => void store.delete(key),
+  })),
+}));
+
+import { normalizeParams, toolCacheKey, toolCacheScope, getCachedToolResult, putCachedToolResult } from "../tool-cache";
+
+const scope = { toolId: "tool-1", generation: 0, varyBy: null };
+
+describe("tool cache", () => {
+  beforeEach(() => store.clear());
+
+  it("normalizes parameter order", async () => {
+    expect(normalizeParams({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe(
+      '{"a":{"d":[2,{"e":0,"f":1}]},"b":1}'
+    );
+    expect(await toolCacheKey(scope, { a: 1, b: 2 })).toBe(await toolCacheKey(scope, { b: 2, a: 1 }));
+  });
+
+  it("keys entries by generation and user", async () => {
+    const base = await toolCacheKey(scope, { q: "x" });
+    expect(await toolCacheKey({ ...scope, generation: 1 }, { q: "x" })).not.toBe(base);
+    expect(await toolCacheKey({ ...scope, varyBy: "user:u1" }, { q: "x" })).not.toBe(base);
+  });
+
+  it("scopes vary-by-user tools to the user or session and skips sessionless callers", () => {
+    const tool = { id: "tool-1", cache_ttl_seconds: 300, cache_vary_by_user: 1, cache_generation: 2 };
+
+    expect(toolCacheScope(tool, { userId: "u1", sessionId: "anon" })).toEqual({ toolId: "tool-1", generation: 2, varyBy: "user:u1" });
+    expect(toolCacheScope(tool, { userId: null, sessionId: "s1" })?.varyBy).toBe("session:s1");
+    expect(toolCacheScope(tool, { userId: null, sessionId: "anon" })).toBeNull();
+    expect(toolCacheScope({ ...tool, cache_vary_by_user: 0 }, { userId: null, sessionId: "anon" })?.varyBy).toBeNull();
+    expect(toolCacheScope({ ...tool, cache_ttl_seconds: null }, { userId: "u1", sessionId: "s1" })).toBeNull();
+  });
+
+  it("round-trips results and misses after a purge", async () => {
+    await putCachedToolResult(scope, { q: "x" }, "cached text", 300);
+    expect(await getCachedToolResult<string>(scope, { q: "x" })).toBe("cached text");
+    expect(await getCachedToolResult<string>({ ...scope, generation: 1 }, { q: "x" })).toBeUndefined();
+  });
+});
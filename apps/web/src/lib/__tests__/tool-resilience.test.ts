@@ -0,0 +1,83 @@
+/**
+ * Tests for tool call retries and the KV circuit breaker (KV is mocked).
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const store = new Map<string, string>();
+vi.mock("../db", () => ({
+  getDB: vi.fn(),
+  getEnv: vi.fn(),
+  getKV: vi.fn(async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => void store.set(key, value),
+    delete: async (key: string) => void store.delete(key),
+  })),
+}));
+
+import {
+  withRetry,
+  parseRetryAfter,
+  parseRetryPolicy,
+  getOpenBreakers,
+  recordToolFailure,
+  recordToolSuccess,
+  ToolCallError,
+  BREAKER_FAILURE_THRESHOLD,
+} from "../tool-resilience";
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50, retryUnsafeMethods: false };
+
+describe("withRetry", () => {
+  it("retries transient failures of idempotent calls and honors Retry-After", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new ToolCallError("HTTP 503: Service Unavailable", 503))
+      .mockRejectedValueOnce(new ToolCallError("HTTP 429: Too Many Requests", 429, 5))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(fn, { policy, idempotent: true })).resolves.toEqual({ result: "ok", attempts: 3 });
+  });
+
+  it("retries unsafe calls only on 429 and stops at client errors or long Retry-After", async () => {
+    const unsafe503 = vi.fn().mockRejectedValue(new ToolCallError("HTTP 503", 503));
+    await expect(withRetry(unsafe503, { policy, idempotent: false })).rejects.toMatchObject({ attempts: 1 });
+
+    const unsafe429 = vi.fn().mockRejectedValueOnce(new ToolCallError("HTTP 429", 429)).mockResolvedValueOnce("ok");
+    await expect(withRetry(unsafe429, { policy, idempotent: false })).resolves.toMatchObject({ attempts: 2 });
+
+    const notFound = vi.fn().mockRejectedValue(new ToolCallError("HTTP 404", 404));
+    await expect(withRetry(notFound, { policy, idempotent: true })).rejects.toThrow("HTTP 404");
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    const busy = vi.fn().mockRejectedValue(new ToolCallError("HTTP 429", 429, 60_000));
+    await expect(withRetry(busy, { policy, idempotent: true })).rejects.toThrow("HTTP 429");
+    expect(busy).toHaveBeenCalledTimes(1);
+  });
+
+  it("parses Retry-After and clamps policies", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryPolicy({ maxAttempts: 50 })).toMatchObject({ maxAttempts: 5, baseDelayMs: 500 });
+    expect(parseRetryPolicy({ maxAttempts: "3" })).toBeNull();
+  });
+});
+
+describe("circuit breaker", () => {
+  beforeEach(() => store.clear());
+
+  it("opens after repeated failures and closes on success", async () => {
+    for (let i = 0; i < BREAKER_FAILURE_THRESHOLD - 1; i++) {
+      await recordToolFailure("agent-1", "tool-1");
+    }
+    expect((await getOpenBreakers("agent-1")).size).toBe(0);
+
+    await recordToolFailure("agent-1", "tool-1");
+    const open = await getOpenBreakers("agent-1");
+    expect(open.get("tool-1")).toBeGreaterThan(Date.now());
+
+    await recordToolSuccess("agent-1", "tool-1");
+    expect((await getOpenBreakers("agent-1")).size).toBe(0);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for webhook request signing and context headers.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({
+  getDB: vi.fn(),
+  getEnv: vi.fn(async () => ({ EMBEDDED_WALLET_SECRET: "test-secret-for-webhook-signing" })),
+  getKV: vi.fn(),
+}));
+
+import {
+  WEBHOOK_HEADERS,
+  generateSigningSecret,
+  encryptSigningSecret,
+  signWebhookPayload,
+  webhookRequestHeaders,
+} from "../webhook-signing";
+
+const context = { agentId: "agent-1", sessionId: "session-1", executionId: "exec-1" };
+
+describe("webhookRequestHeaders", () => {
+  it("signs timestamp, nonce, method, path, query and body with the tool's secret", async () => {
+    const secret = generateSigningSecret();
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+
+    const body = JSON.stringify({ city: "Singapore" });
+    const url = "https://hooks.example.com/v1/weather?units=metric";
+    const headers = await webhookRequestHeaders({
+      ...context,
+      encryptedSecret: await encryptSigningSecret(secret),
+      method: "POST",
+      url,
+      body,
+      userId: "user-1",
+    });
+
+    const timestamp = headers[WEBHOOK_HEADERS.timestamp];
+    const nonce = headers[WEBHOOK_HEADERS.nonce];
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    const sign = (method: string, target: string, payload: string) =>
+      signWebhookPayload(secret, timestamp, nonce, method, target, payload).then((hex) => `v1=${hex}`);
+    expect(headers[WEBHOOK_HEADERS.signature]).toBe(await sign("POST", url, body));
+    // Receivers may pass the path-only URL they see
+    expect(headers[WEBHOOK_HEADERS.signature]).toBe(await sign("post", "/v1/weather?units=metric", body));
+    expect(headers[WEBHOOK_HEADERS.signature]).not.toBe(await sign("POST", url, body + " "));
+    expect(headers[WEBHOOK_HEADERS.signature]).not.toBe(await sign("PUT", url, body));
+    expect(headers[WEBHOOK_HEADERS.signature]).not.toBe(await sign("POST", "/v1/admin?units=metric", body));
+    expect(headers[WEBHOOK_HEADERS.signature]).not.toBe(await sign("POST", "/v1/weather?units=imperial", body));
+
+    expect(headers[WEBHOOK_HEADERS.executionId]).toBe("exec-1");
+    expect(headers[WEBHOOK_HEADERS.userId]).toMatch(/^[0-9a-f]{32}$/);
+    expect(headers[WEBHOOK_HEADERS.userId]).not.toContain("user-1");
+  });
+
+  it("sends context headers without a signature for unsigned tools", async () => {
+    const headers = await webhookRequestHeaders({
+      ...context,
+      encryptedSecret: null,
+      method: "GET",
+      url: "https://hooks.example.com/v1/weather",
+      body: "",
+      userId: null,
+    });
+
+    expect(headers[WEBHOOK_HEADERS.agentId]).toBe("agent-1");
+    expect(headers[WEBHOOK_HEADERS.sessionId]).toBe("session-1");
+    expect(headers[WEBHOOK_HEADERS.signature]).toBeUndefined();
+    expect(headers[WEBHOOK_HEADERS.userId]).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for on-chain x402 receipt checks (USDC Transfer log decoding).
+ * Receipts are built from encoded logs, so no RPC or anvil node is needed.
+ */
+import { describe, it, expect, vi } from "vitest";
+import { encodeAbiParameters, encodeEventTopics, parseAbi, type Address, type Log } from "viem";
+
+vi.mock("../db", () => ({ getDB: vi.fn() }));
+
+import { checkTransferReceipt, centsToUsdcUnits, createPaymentRequired } from "../x402";
+
+const TRANSFER_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+const USDC: Address = "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d";
+const OTHER_TOKEN: Address = "0x1111111111111111111111111111111111111111";
+const PAYER: Address = "0x2222222222222222222222222222222222222222";
+const AGENT: Address = "0x3333333333333333333333333333333333333333";
+const STRANGER: Address = "0x4444444444444444444444444444444444444444";
+
+function transferLog(token: Address, from: Address, to: Address, value: bigint): Log {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi: TRANSFER_ABI, eventName: "Transfer", args: { from, to } }) as Log["topics"],
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+    blockNumber: 100n,
+    blockHash: `0x${"ab".repeat(32)}`,
+    transactionHash: `0x${"cd".repeat(32)}`,
+    transactionIndex: 0,
+    logIndex: 0,
+    removed: false,
+  };
+}
+
+const expected = { tokenAddress: USDC, recipient: AGENT, amountCents: 5 };
+
+describe("x402 verification", () => {
+  describe("centsToUsdcUnits", () => {
+    it("should convert cents to 6-decimal units", () => {
+      expect(centsToUsdcUnits(5)).toBe(50_000n);
+      expect(centsToUsdcUnits(100)).toBe(1_000_000n);
+    });
+  });
+
+  describe("checkTransferReceipt", () => {
+    it("should verify a matching USDC transfer", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [transferLog(USDC, PAYER, AGENT, 50_000n)],
+      };
+      const result = checkTransferReceipt(receipt, expected, 105n, 3);
+      expect(result.verified).toBe(true);
+      expect(result.payerAddress?.toLowerCase()).toBe(PAYER.toLowerCase());
+      expect(result.blockNumber).toBe(100);
+    });
+
+    it("should reject a reverted transaction", () => {
+      const receipt = { status: "reverted" as const, blockNumber: 100n, logs: [] };
+      expect(checkTransferReceipt(receipt, expected, 105n, 1).verified).toBe(false);
+    });
+
+    it("should ignore transfers of other tokens", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [transferLog(OTHER_TOKEN, PAYER, AGENT, 50_000n)],
+      };
+      const result = checkTransferReceipt(receipt, expected, 105n, 1);
+      expect(result.verified).toBe(false);
+      expect(result.error).toContain("No USDC transfer");
+    });
+
+    it("should ignore transfers to other recipients", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [transferLog(USDC, PAYER, STRANGER, 50_000n)],
+      };
+      expect(checkTransferReceipt(receipt, expected, 105n, 1).verified).toBe(false);
+    });
+
+    it("should reject an underpayment", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [transferLog(USDC, PAYER, AGENT, 49_999n)],
+      };
+      const result = checkTransferReceipt(receipt, expected, 105n, 1);
+      expect(result.verified).toBe(false);
+      expect(result.pending).toBeUndefined();
+    });
+
+    it("should sum split transfers to the recipient", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [
+          transferLog(USDC, PAYER, AGENT, 20_000n),
+          transferLog(USDC, PAYER, AGENT, 30_000n),
+        ],
+      };
+      expect(checkTransferReceipt(receipt, expected, 105n, 1).verified).toBe(true);
+    });
+
+    it("should report pending until enough confirmations", () => {
+      const receipt = {
+        status: "success" as const,
+        blockNumber: 100n,
+        logs: [transferLog(USDC, PAYER, AGENT, 50_000n)],
+      };
+      const result = checkTransferReceipt(receipt, expected, 101n, 3);
+      expect(result.verified).toBe(false);
+      expect(result.pending).toBe(true);
+      expect(checkTransferReceipt(receipt, expected, 102n, 3).verified).toBe(true);
+    });
+  });
+
+  describe("createPaymentRequired", () => {
+    it("should include the chain and USDC token for verification", () => {
+      const response = createPaymentRequired(5, AGENT, "Query", 60, 421614);
+      expect(response.paymentDetails.chainId).toBe(421614);
+      expect(response.paymentDetails.tokenAddress).toBe(USDC);
+      expect(response.paymentId).toMatch(/^pay_[0-9a-f]{32}$/);
+    });
+
+    it("should reject unsupported chains", () => {
+      expect(() => createPaymentRequired(5, AGENT, "Query", 60, 1)).toThrow("Unsupported");
+    });
+  });
+});
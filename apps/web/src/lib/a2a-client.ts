@@ -28,6 +28,7 @@ export interface AgentCard {
     network: string;
     chainId: number;
     asset: string;
+    assetAddress?: string;
     pricePerQuery: number;
     payee?: string;
   };
@@ -39,22 +40,70 @@ export interface AgentCard {
   };
 }
 
+/** Message and artifact parts: text, files (inline base64 or URI) and JSON data */
+export type A2APart =
+  | { type: "text"; text: string }
+  | { type: "file"; file: { name?: string; mimeType?: string; bytes?: string; uri?: string } }
+  | { type: "data"; data: Record<string, unknown> };
+
+export interface A2AArtifact {
+  index?: number;
+  name?: string;
+  description?: string;
+  parts: A2APart[];
+  metadata?: Record<string, unknown>;
+}
+
 export interface A2AResponse {
   taskId: string;
   sessionId?: string;
   status: {
-    state: "completed" | "failed" | "canceled" | "working";
+    state: "submitted" | "working" | "input-required" | "completed" | "failed" | "canceled";
     message?: {
       role: string;
-      parts: Array<{ type: string; text: string }>;
+      parts: A2APart[];
     };
   };
-  artifacts?: Array<{
-    parts: Array<{ type: string; text: string }>;
+  artifacts?: A2AArtifact[];
+  history?: Array<{
+    role: string;
+    parts: A2APart[];
   }>;
   metadata?: Record<string, unknown>;
 }
 
+/** Frames streamed by tasks/sendSubscribe and tasks/resubscribe */
+export type A2AStreamEvent =
+  | {
+      id: string;
+      status: A2AResponse["status"];
+      final: boolean;
+      metadata?: Record<string, unknown>;
+    }
+  | {
+      id: string;
+      artifact: A2AArtifact & {
+        append?: boolean;
+        lastChunk?: boolean;
+      };
+    };
+
+/** JSON-RPC error returned by a remote agent (e.g. -32402 with x402 payment requirements) */
+export class A2ARpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly data?: Record<string, unknown>
+  ) {
+    super(`A2A error: ${message}`);
+    this.name = "A2ARpcError";
+  }
+}
+
+/** Remote tasks run asynchronously; poll tasks/get until they settle */
+const TASK_POLL_INTERVAL_MS = 1000;
+const TASK_POLL_TIMEOUT_MS = 60_000;
+
 // ─── SSRF Protection ────────────────────────────────────────────────────────
 
 const A2A_SSRF_BLOCKED_PATTERNS = [
@@ -77,7 +126,7 @@ const A2A_SSRF_BLOCKED_PATTERNS = [
   /^data:/i,
 ];
 
-function isA2AUrlSafe(url: string): boolean {
+export function isA2AUrlSafe(url: string): boolean {
   try {
     const parsed = new URL(url);
     if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
@@ -145,20 +194,29 @@ export async function fetchAgentCard(agentUrl: string): Promise<AgentCard> {
 
 /**
  * Send a message to an A2A agent via JSON-RPC.
+ * With `stream`, uses tasks/sendSubscribe and reports each event to
+ * `onEvent` (falling back to tasks/send if the agent does not stream).
+ * Otherwise waits for the task to settle by polling tasks/get, and
+ * cancels it if it does not finish in time.
  */
 export async function sendA2AMessage(
   agentUrl: string,
-  message: string,
+  message: string | A2APart[],
   options?: {
     taskId?: string;
     sessionId?: string;
     callDepth?: number;
     callChain?: string[];
     paymentHeader?: string;
+    /** Extra request headers, e.g. an API key for the remote platform */
+    headers?: Record<string, string>;
+    stream?: boolean;
+    onEvent?: (event: A2AStreamEvent) => void;
   }
 ): Promise<A2AResponse> {
   const taskId = options?.taskId || crypto.randomUUID();
   const headers: Record<string, string> = {
+    ...options?.headers,
     "Content-Type": "application/json",
   };
 
@@ -166,33 +224,253 @@ export async function sendA2AMessage(
     headers["X-Payment"] = options.paymentHeader;
   }
 
-  if (!isA2AUrlSafe(agentUrl)) {
-    throw new Error("Agent URL is blocked for security reasons");
+  const params = {
+    taskId,
+    sessionId: options?.sessionId,
+    message: {
+      role: "user",
+      parts: typeof message === "string" ? [{ type: "text", text: message }] : message,
+    },
+    metadata: {
+      callDepth: options?.callDepth || 0,
+      callChain: options?.callChain || [],
+    },
+  };
+
+  if (options?.stream) {
+    const streamed = await subscribeA2A(agentUrl, headers, "tasks/sendSubscribe", params, options.onEvent);
+    if (streamed) {
+      return isSettled(streamed) ? streamed : waitForA2ATask(agentUrl, streamed, headers);
+    }
+  }
+
+  const task = await callA2A(agentUrl, headers, "tasks/send", params);
+  return waitForA2ATask(agentUrl, task, headers);
+}
+
+/**
+ * Re-attach to a remote task's event stream after a disconnect.
+ */
+export async function resubscribeA2ATask(
+  agentUrl: string,
+  taskId: string,
+  onEvent?: (event: A2AStreamEvent) => void,
+  headers: Record<string, string> = { "Content-Type": "application/json" }
+): Promise<A2AResponse> {
+  const streamed = await subscribeA2A(agentUrl, headers, "tasks/resubscribe", { taskId }, onEvent);
+  if (!streamed) {
+    return waitForA2ATask(agentUrl, await getA2ATask(agentUrl, taskId, headers), headers);
   }
+  return isSettled(streamed) ? streamed : waitForA2ATask(agentUrl, streamed, headers);
+}
+
+/**
+ * Fetch the current state of an A2A task.
+ */
+export async function getA2ATask(
+  agentUrl: string,
+  taskId: string,
+  headers: Record<string, string> = { "Content-Type": "application/json" }
+): Promise<A2AResponse> {
+  return callA2A(agentUrl, headers, "tasks/get", { taskId });
+}
+
+/**
+ * Poll tasks/get until the task leaves the submitted/working states.
+ */
+async function waitForA2ATask(
+  agentUrl: string,
+  task: A2AResponse,
+  headers: Record<string, string>
+): Promise<A2AResponse> {
+  const deadline = Date.now() + TASK_POLL_TIMEOUT_MS;
+  while (!isSettled(task)) {
+    if (Date.now() > deadline) {
+      await callA2A(agentUrl, headers, "tasks/cancel", { taskId: task.taskId }).catch(() => undefined);
+      throw new Error(`A2A task ${task.taskId} timed out`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, TASK_POLL_INTERVAL_MS));
+    task = await getA2ATask(agentUrl, task.taskId, headers);
+  }
+  return task;
+}
+
+function isSettled(task: A2AResponse): boolean {
+  return task.status.state !== "submitted" && task.status.state !== "working";
+}
+
+/**
+ * Call a streaming method and fold its events into a task snapshot.
+ * Returns null if the agent does not implement the method. If the stream
+ * ends before a final event, the last known (unsettled) snapshot is returned.
+ */
+async function subscribeA2A(
+  agentUrl: string,
+  headers: Record<string, string>,
+  method: "tasks/sendSubscribe" | "tasks/resubscribe",
+  params: { taskId: string; sessionId?: string } & Record<string, unknown>,
+  onEvent?: (event: A2AStreamEvent) => void
+): Promise<A2AResponse | null> {
+  const response = await postA2A(
+    agentUrl,
+    { ...headers, Accept: "text/event-stream" },
+    { jsonrpc: "2.0", id: crypto.randomUUID(), method, params },
+    AbortSignal.timeout(TASK_POLL_TIMEOUT_MS)
+  );
+
+  // Agents without streaming answer with a plain JSON-RPC error
+  if (!response.headers.get("content-type")?.includes("text/event-stream")) {
+    const rpcResponse = await response.json() as {
+      error?: { code: number; message: string; data?: Record<string, unknown> };
+    };
+    if (rpcResponse.error?.code === -32601) return null;
+    if (rpcResponse.error) {
+      throw new A2ARpcError(rpcResponse.error.message, rpcResponse.error.code, rpcResponse.error.data);
+    }
+    throw new Error(`A2A error: Unexpected response to ${method}`);
+  }
+
+  const task: A2AResponse = {
+    taskId: params.taskId,
+    sessionId: params.sessionId,
+    status: { state: "submitted" },
+  };
+  const artifacts = new Map<number, A2AArtifact>();
+
+  for await (const data of readSseData(response.body!)) {
+    const frame = JSON.parse(data) as {
+      result?: A2AStreamEvent;
+      error?: { code: number; message: string; data?: Record<string, unknown> };
+    };
+    if (frame.error) {
+      throw new A2ARpcError(frame.error.message, frame.error.code, frame.error.data);
+    }
+    if (!frame.result) continue;
+
+    const event = frame.result;
+    onEvent?.(event);
+
+    if ("artifact" in event) {
+      const { append, lastChunk: _lastChunk, ...artifact } = event.artifact;
+      const index = artifact.index ?? 0;
+      const existing = artifacts.get(index);
+      artifacts.set(index, append && existing ? appendParts(existing, artifact.parts) : { ...artifact, index });
+    } else {
+      task.status = event.status;
+      if (event.metadata) task.metadata = event.metadata;
+      if (event.final) break;
+    }
+  }
+
+  if (artifacts.size > 0) {
+    task.artifacts = [...artifacts.values()].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  }
+
+  return task;
+}
 
-  const rpcBody = JSON.stringify({
+/**
+ * Merge streamed chunks: text continues the last text part, other parts are added.
+ */
+function appendParts(artifact: A2AArtifact, chunk: A2APart[]): A2AArtifact {
+  const parts = [...artifact.parts];
+  for (const part of chunk) {
+    const last = parts[parts.length - 1];
+    if (part.type === "text" && last?.type === "text") {
+      parts[parts.length - 1] = { type: "text", text: last.text + part.text };
+    } else {
+      parts.push(part);
+    }
+  }
+  return { ...artifact, parts };
+}
+
+/**
+ * Yield the data payload of each Server-Sent Event frame.
+ */
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * POST a JSON-RPC call to an A2A endpoint and unwrap the result.
+ */
+async function callA2A(
+  agentUrl: string,
+  headers: Record<string, string>,
+  method: string,
+  params: Record<string, unknown>
+): Promise<A2AResponse> {
+  const response = await postA2A(agentUrl, headers, {
     jsonrpc: "2.0",
-    id: taskId,
-    method: "tasks/send",
-    params: {
-      taskId,
-      sessionId: options?.sessionId,
-      message: {
-        role: "user",
-        parts: [{ type: "text", text: message }],
-      },
-      metadata: {
-        callDepth: options?.callDepth || 0,
-        callChain: options?.callChain || [],
-      },
-    },
+    id: crypto.randomUUID(),
+    method,
+    params,
   });
 
+  const rpcResponse = await response.json() as {
+    jsonrpc: string;
+    id: string | number;
+    result?: A2AResponse;
+    error?: { code: number; message: string; data?: Record<string, unknown> };
+  };
+
+  if (rpcResponse.error) {
+    throw new A2ARpcError(rpcResponse.error.message, rpcResponse.error.code, rpcResponse.error.data);
+  }
+
+  if (!rpcResponse.result) {
+    throw new Error("A2A response missing result");
+  }
+
+  return rpcResponse.result;
+}
+
+/**
+ * POST to an A2A endpoint with SSRF checks on the URL and any redirect.
+ */
+async function postA2A(
+  agentUrl: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (!isA2AUrlSafe(agentUrl)) {
+    throw new Error("Agent URL is blocked for security reasons");
+  }
+
+  const rpcBody = JSON.stringify(body);
+
   let response = await fetch(agentUrl, {
     method: "POST",
     headers,
     body: rpcBody,
     redirect: "manual", // Prevent SSRF via redirect
+    signal,
   });
 
   // Validate redirect targets
@@ -206,6 +484,7 @@ export async function sendA2AMessage(
       headers,
       body: rpcBody,
       redirect: "error",
+      signal,
     });
   }
 
@@ -213,33 +492,21 @@ export async function sendA2AMessage(
     throw new Error(`A2A request failed: ${response.status} ${response.statusText}`);
   }
 
-  const rpcResponse = await response.json() as {
-    jsonrpc: string;
-    id: string | number;
-    result?: A2AResponse;
-    error?: { code: number; message: string };
-  };
-
-  if (rpcResponse.error) {
-    throw new Error(`A2A error: ${rpcResponse.error.message}`);
-  }
-
-  if (!rpcResponse.result) {
-    throw new Error("A2A response missing result");
-  }
-
-  return rpcResponse.result;
+  return response;
 }
 
 /**
  * Extract text content from an A2A response.
  */
 export function extractA2AText(response: A2AResponse): string {
-  if (response.status.state === "failed") {
-    const failMsg = response.status.message?.parts
-      ?.filter((p) => p.type === "text")
-      .map((p) => p.text)
-      .join("\n");
+  if (response.status.state === "input-required") {
+    // The remote agent asked a question; reply with the same taskId to continue
+    const question = partsToText(response.status.message?.parts ?? []);
+    return question || "The agent needs more input";
+  }
+
+  if (response.status.state === "failed" || response.status.state === "canceled") {
+    const failMsg = partsToText(response.status.message?.parts ?? []);
     return failMsg || "Agent call failed";
   }
 
@@ -248,6 +515,22 @@ export function extractA2AText(response: A2AResponse): string {
   }
 
   return response.artifacts
-    .flatMap((a) => a.parts.filter((p) => p.type === "text").map((p) => p.text))
+    .map((a) => partsToText(a.parts))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Render parts as text: data parts as JSON, files by name and location.
+ */
+function partsToText(parts: A2APart[]): string {
+  return parts
+    .map((p) => {
+      if (p.type === "text") return p.text;
+      if (p.type === "data") return "```json\n" + JSON.stringify(p.data, null, 2) + "\n```";
+      const where = p.file.uri ? ` at ${p.file.uri}` : "";
+      return `[File: ${p.file.name || "file"} (${p.file.mimeType || "unknown type"})${where}]`;
+    })
+    .filter(Boolean)
     .join("\n");
 }
@@ -0,0 +1,332 @@
+/**
+ * Federated A2A Calls
+ * call_agent can reach external A2A agents by Agent Card URL, but only peers
+ * the agent's owner registered in agent_peers. The card is re-fetched on every
+ * call and must still point at the registered endpoint. If the peer asks for
+ * an x402 payment, the agent's wallet (the owner's embedded smart account)
+ * pays it, up to the peer's price cap.
+ */
+
+import type { Address } from "viem";
+import { getDB, getEnv } from "./db";
+import { encrypt, decrypt } from "./encryption";
+import {
+  fetchAgentCard,
+  sendA2AMessage,
+  extractA2AText,
+  A2ARpcError,
+  type AgentCard,
+  type A2AResponse,
+} from "./a2a-client";
+import {
+  encodePaymentHeader,
+  paymentMessage,
+  PAYMENT_REQUIRED_CODE,
+  X402_VERSION,
+} from "./a2a-payments";
+import { centsToUsdcUnits } from "./x402";
+import { sendUsdcViaPaymaster, signMessageAsSmartAccount } from "./embedded-wallet";
+import { isSupportedChain, type SupportedChainId } from "./smart-account/config";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface AgentPeerRow {
+  id: string;
+  agent_id: string;
+  card_url: string;
+  name: string;
+  endpoint_url: string;
+  auth_headers: string | null;
+  max_price_cents: number;
+  is_active: number;
+  last_verified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Requirements a peer returns with a -32402 payment error */
+interface PaymentAccept {
+  scheme: string;
+  network: string;
+  chainId: number;
+  assetAddress: string;
+  maxAmountRequired: string;
+  payTo: string;
+  paymentId: string;
+}
+
+export interface RemoteCallResult {
+  name: string;
+  endpoint: string;
+  text: string;
+  paymentTxHash?: string;
+}
+
+export class FederationError extends Error {
+  constructor(
+    message: string,
+    /** Set when the peer was paid but the call still failed */
+    public readonly paymentTxHash?: string
+  ) {
+    super(message);
+    this.name = "FederationError";
+  }
+}
+
+/** Wait before retrying a payment the peer has not seen confirmed yet */
+const PAYMENT_RETRY_DELAY_MS = 5000;
+
+// ─── Peers ──────────────────────────────────────────────────────────────────
+
+export function isCardUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value.trim());
+}
+
+export async function getPeer(agentId: string, cardUrl: string): Promise<AgentPeerRow | null> {
+  const db = await getDB();
+  return db
+    .prepare("SELECT * FROM agent_peers WHERE agent_id = ? AND card_url = ? AND is_active = 1")
+    .bind(agentId, cardUrl.trim())
+    .first<AgentPeerRow>();
+}
+
+/**
+ * Fetch and validate a peer's card before registering it.
+ */
+export async function verifyPeerCard(cardUrl: string): Promise<AgentCard> {
+  const card = await fetchAgentCard(cardUrl);
+  if (!isCardUrl(card.url)) {
+    throw new FederationError("Agent Card url must be an http(s) endpoint");
+  }
+  return card;
+}
+
+export async function encryptPeerHeaders(headers: Record<string, string>): Promise<string> {
+  const env = await getEnv();
+  return encrypt(JSON.stringify(headers), env.EMBEDDED_WALLET_SECRET, "a2a-peer");
+}
+
+async function decryptPeerHeaders(encrypted: string | null): Promise<Record<string, string>> {
+  if (!encrypted) return {};
+  const env = await getEnv();
+  return JSON.parse(await decrypt(encrypted, env.EMBEDDED_WALLET_SECRET, "a2a-peer"));
+}
+
+// ─── Remote Calls ───────────────────────────────────────────────────────────
+
+/**
+ * Call a registered remote peer. Depth and cycle checks are the caller's
+ * (call_agent's); this adds the card endpoint to the cycle check and passes
+ * depth and chain on so the peer can apply its own limits.
+ */
+export async function callRemoteAgent(input: {
+  agentId: string;
+  cardUrl: string;
+  message: string;
+  callDepth: number;
+  callChain: string[];
+}): Promise<RemoteCallResult> {
+  const peer = await getPeer(input.agentId, input.cardUrl);
+  if (!peer) {
+    throw new FederationError(`${input.cardUrl} is not a registered peer of this agent`);
+  }
+
+  const card = await fetchAgentCard(peer.card_url);
+  if (card.url !== peer.endpoint_url) {
+    throw new FederationError(
+      `Agent Card for ${peer.name} now points at ${card.url}; the owner must re-register the peer`
+    );
+  }
+  if (input.callChain.includes(card.url) || input.callChain.includes(peer.card_url)) {
+    throw new FederationError(`Cycle detected: ${peer.name} already in call chain`);
+  }
+
+  const price = card.x402?.pricePerQuery ?? 0;
+  if (price > peer.max_price_cents) {
+    throw new FederationError(
+      `${peer.name} charges ${price}¢ per call, above this peer's limit of ${peer.max_price_cents}¢`
+    );
+  }
+
+  const db = await getDB();
+  await db
+    .prepare("UPDATE agent_peers SET last_verified_at = ? WHERE id = ?")
+    .bind(new Date().toISOString(), peer.id)
+    .run();
+
+  const options = {
+    taskId: crypto.randomUUID(),
+    callDepth: input.callDepth,
+    callChain: [...input.callChain, input.agentId],
+    headers: await decryptPeerHeaders(peer.auth_headers),
+  };
+
+  let response: A2AResponse;
+  let paymentTxHash: string | undefined;
+
+  try {
+    response = await sendA2AMessage(card.url, input.message, options);
+  } catch (error) {
+    if (!(error instanceof A2ARpcError) || error.code !== PAYMENT_REQUIRED_CODE || !card.x402) {
+      throw error;
+    }
+
+    const accept = (error.data?.accepts as PaymentAccept[] | undefined)?.[0];
+    if (!accept) throw error;
+
+    const payment = await payPeer(input.agentId, card, peer, accept);
+    paymentTxHash = payment.transactionHash;
+
+    try {
+      try {
+        response = await sendA2AMessage(card.url, input.message, { ...options, paymentHeader: payment.header });
+      } catch (retryError) {
+        if (!(retryError instanceof A2ARpcError) || !retryError.data?.pending) throw retryError;
+        // Paid, but the peer has not seen enough confirmations yet
+        await new Promise((resolve) => setTimeout(resolve, PAYMENT_RETRY_DELAY_MS));
+        response = await sendA2AMessage(card.url, input.message, { ...options, paymentHeader: payment.header });
+      }
+    } catch (paidError) {
+      // The transfer is spent either way; keep its hash with the failure
+      console.error(`Call to ${peer.name} failed after payment ${paymentTxHash}:`, paidError);
+      const reason = paidError instanceof Error ? paidError.message : "call failed";
+      throw new FederationError(`${peer.name} failed after payment: ${reason}`, paymentTxHash);
+    }
+  }
+
+  return {
+    name: card.name,
+    endpoint: card.url,
+    text: extractA2AText(response),
+    paymentTxHash,
+  };
+}
+
+// ─── Payment ────────────────────────────────────────────────────────────────
+
+/**
+ * Pay a peer's x402 request from the calling agent's wallet and build the
+ * signed X-Payment header. The request must match the peer's card, and the
+ * amount it asks for is paid (rounded up to whole cents) up to the card's
+ * price and the peer's cap.
+ */
+async function payPeer(
+  agentId: string,
+  card: AgentCard,
+  peer: AgentPeerRow,
+  accept: PaymentAccept
+): Promise<{ transactionHash: string; header: string }> {
+  const x402 = card.x402!;
+  if (accept.scheme !== "exact" || accept.chainId !== x402.chainId) {
+    throw new FederationError(`${peer.name} requested payment on an unexpected network`);
+  }
+  if (x402.payee && accept.payTo.toLowerCase() !== x402.payee.toLowerCase()) {
+    throw new FederationError(`${peer.name} requested payment to a wallet that does not match its card`);
+  }
+  if (!/^\d+$/.test(accept.maxAmountRequired ?? "") || BigInt(accept.maxAmountRequired) === 0n) {
+    throw new FederationError(`${peer.name} requested an invalid payment amount`);
+  }
+  const unitsPerCent = centsToUsdcUnits(1);
+  const amountCents = Number((BigInt(accept.maxAmountRequired) + unitsPerCent - 1n) / unitsPerCent);
+  if (amountCents > Math.min(x402.pricePerQuery, peer.max_price_cents)) {
+    throw new FederationError(`${peer.name} requested more than its advertised price`);
+  }
+  if (!isSupportedChain(accept.chainId)) {
+    throw new FederationError(`Unsupported payment chain: ${accept.chainId}`);
+  }
+
+  const chainId = accept.chainId as SupportedChainId;
+  const db = await getDB();
+
+  // The agent pays from its payout wallet, which must be the owner's embedded smart account
+  const wallet = await db
+    .prepare(
+      `SELECT u.id as user_id, u.embedded_wallet_address, u.encrypted_private_key, u.embedded_balance
+       FROM agents a JOIN users u ON u.id = a.owner_id
+       WHERE a.id = ? AND u.wallet_type = 'embedded'
+         AND lower(u.embedded_wallet_address) = lower(a.agent_wallet)`
+    )
+    .bind(agentId)
+    .first<{
+      user_id: string;
+      embedded_wallet_address: string;
+      encrypted_private_key: string | null;
+      embedded_balance: number;
+    }>();
+
+  if (!wallet?.encrypted_private_key) {
+    throw new FederationError("This agent's wallet cannot pay: it must be the owner's embedded wallet");
+  }
+  if (wallet.embedded_balance < amountCents) {
+    throw new FederationError("Insufficient wallet balance to pay the remote agent");
+  }
+
+  const env = await getEnv();
+  const paymasterAddr = chainId === 97
+    ? ((env as unknown as Record<string, string>)["PAYMASTER_ADDRESS_BSC"] || env.PAYMASTER_ADDRESS)
+    : env.PAYMASTER_ADDRESS;
+  if (!env.EMBEDDED_WALLET_SECRET || !env.RELAYER_PRIVATE_KEY || !paymasterAddr) {
+    throw new FederationError("On-chain payments are not configured");
+  }
+
+  // Reserve the amount first (WHERE clause prevents going negative), so
+  // concurrent calls cannot spend the same balance twice
+  const reserved = await db
+    .prepare("UPDATE users SET embedded_balance = embedded_balance - ? WHERE id = ? AND embedded_balance >= ?")
+    .bind(amountCents, wallet.user_id, amountCents)
+    .run();
+  if (!reserved.meta.changes) {
+    throw new FederationError("Insufficient wallet balance to pay the remote agent");
+  }
+
+  const refund = () =>
+    db
+      .prepare("UPDATE users SET embedded_balance = embedded_balance + ? WHERE id = ?")
+      .bind(amountCents, wallet.user_id)
+      .run();
+
+  let transfer: Awaited<ReturnType<typeof sendUsdcViaPaymaster>>;
+  try {
+    transfer = await sendUsdcViaPaymaster(
+      wallet.encrypted_private_key,
+      env.EMBEDDED_WALLET_SECRET,
+      accept.payTo as Address,
+      amountCents,
+      env.RELAYER_PRIVATE_KEY,
+      paymasterAddr,
+      chainId
+    );
+  } catch (error) {
+    await refund();
+    throw error;
+  }
+  if (!transfer.hash) {
+    await refund();
+    console.error("Remote agent payment failed:", transfer.logs.join("; "));
+    throw new FederationError("Payment to the remote agent failed");
+  }
+
+  const { address, signature } = await signMessageAsSmartAccount(
+    wallet.encrypted_private_key,
+    env.EMBEDDED_WALLET_SECRET,
+    paymentMessage(accept.paymentId, transfer.hash),
+    chainId
+  );
+
+  const header = encodePaymentHeader({
+    x402Version: X402_VERSION,
+    scheme: "exact",
+    network: accept.network,
+    chainId,
+    assetAddress: accept.assetAddress,
+    payee: accept.payTo,
+    payload: {
+      paymentId: accept.paymentId,
+      transactionHash: transfer.hash,
+      payer: address,
+      signature,
+    },
+  });
+
+  return { transactionHash: transfer.hash, header };
+}
@@ -0,0 +1,241 @@
+/**
+ * A2A File & Data Parts
+ * Inbound `file` parts (inline base64 or a URI) are read and validated
+ * first, then copied into R2 once the task exists (storeInboundFiles) and
+ * referenced from task history by a download URL; `data` parts are kept as
+ * JSON. For the pipeline, files become message attachments (images, text,
+ * PDFs) and data parts become structured context in the user message.
+ */
+
+import type { Attachment } from "ai";
+import { getR2 } from "./db";
+import { isA2AUrlSafe } from "./a2a-client";
+import type { A2APart, A2AFilePart } from "./a2a-tasks";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Per-file size limit for inline and fetched files */
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/** File parts accepted per message */
+export const MAX_FILE_PARTS = 5;
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** Content types passed to the model as attachments; others are referenced by name only */
+const ATTACHABLE_TYPES = [/^image\//, /^text\//, /^application\/pdf$/];
+
+export interface PreparedParts {
+  /** Parts as stored in task history (files point at the download route) */
+  parts: A2APart[];
+  /** Text plus structured context for the pipeline and session history */
+  content: string;
+  attachments: Attachment[];
+  /** Files to write to R2 with storeInboundFiles */
+  uploads: PendingUpload[];
+}
+
+interface PendingUpload {
+  key: string;
+  bytes: Uint8Array;
+  mimeType: string;
+  name: string;
+  taskId: string;
+}
+
+export class A2APartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "A2APartError";
+  }
+}
+
+// ─── Inbound ────────────────────────────────────────────────────────────────
+
+/**
+ * Validate a caller's message parts, read their files and build the
+ * pipeline input. Nothing is written to R2 until storeInboundFiles.
+ * Throws A2APartError for parts the caller must fix.
+ */
+export async function prepareInboundParts(
+  parts: A2APart[],
+  target: { agentId: string; taskId: string; baseUrl: string }
+): Promise<PreparedParts> {
+  const files = parts.filter((p): p is A2AFilePart => p.type === "file");
+  if (files.length > MAX_FILE_PARTS) {
+    throw new A2APartError(`At most ${MAX_FILE_PARTS} file parts are allowed per message`);
+  }
+
+  const stored: A2APart[] = [];
+  const sections: string[] = [];
+  const attachments: Attachment[] = [];
+  const uploads: PendingUpload[] = [];
+
+  for (const part of parts) {
+    if (part.type === "text") {
+      if (part.text) {
+        stored.push(part);
+        sections.push(part.text);
+      }
+    } else if (part.type === "data") {
+      if (!part.data || typeof part.data !== "object" || Array.isArray(part.data)) {
+        throw new A2APartError("data parts must carry a JSON object");
+      }
+      stored.push(part);
+      sections.push(`Structured data from the caller:\n\`\`\`json\n${JSON.stringify(part.data, null, 2)}\n\`\`\``);
+    } else if (part.type === "file") {
+      const { bytes, mimeType, name } = await readFilePart(part);
+      const fileId = crypto.randomUUID();
+
+      uploads.push({ key: fileKey(target.agentId, fileId), bytes, mimeType, name, taskId: target.taskId });
+
+      stored.push({
+        type: "file",
+        file: { name, mimeType, uri: `${target.baseUrl}/api/a2a/${target.agentId}/files/${fileId}` },
+      });
+      sections.push(`[Attached file: ${name} (${mimeType})]`);
+
+      if (ATTACHABLE_TYPES.some((pattern) => pattern.test(mimeType))) {
+        attachments.push({ name, contentType: mimeType, url: `data:${mimeType};base64,${toBase64(bytes)}` });
+      }
+    } else {
+      throw new A2APartError(`Unsupported part type: ${(part as { type: string }).type}`);
+    }
+  }
+
+  return { parts: stored, content: sections.join("\n\n"), attachments, uploads };
+}
+
+/**
+ * Write a message's files to R2. Called once the task row exists, so a
+ * call rejected later (payment, task conflict) leaves no objects behind.
+ */
+export async function storeInboundFiles(prepared: PreparedParts): Promise<void> {
+  if (prepared.uploads.length === 0) return;
+  const r2 = await getR2();
+  await Promise.all(
+    prepared.uploads.map((upload) =>
+      r2.put(upload.key, upload.bytes, {
+        httpMetadata: { contentType: upload.mimeType },
+        customMetadata: { taskId: upload.taskId, name: upload.name },
+      })
+    )
+  );
+}
+
+async function readFilePart(part: A2AFilePart): Promise<{ bytes: Uint8Array; mimeType: string; name: string }> {
+  const { file } = part;
+  const name = file?.name || "file";
+  let mimeType = file?.mimeType || "application/octet-stream";
+  let bytes: Uint8Array;
+
+  if (file?.bytes) {
+    try {
+      bytes = fromBase64(file.bytes);
+    } catch {
+      throw new A2APartError(`File ${name} is not valid base64`);
+    }
+  } else if (file?.uri) {
+    if (!isA2AUrlSafe(file.uri)) {
+      throw new A2APartError(`File URI for ${name} is blocked for security reasons`);
+    }
+    let response: Response;
+    try {
+      response = await fetch(file.uri, { redirect: "error", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    } catch {
+      throw new A2APartError(`Could not fetch file ${name}`);
+    }
+    if (!response.ok) {
+      throw new A2APartError(`Could not fetch file ${name}: ${response.status}`);
+    }
+    const declared = Number(response.headers.get("content-length") || 0);
+    if (declared > MAX_FILE_BYTES) {
+      throw new A2APartError(`File ${name} exceeds ${MAX_FILE_BYTES} bytes`);
+    }
+    bytes = await readLimited(response, name);
+    if (!file.mimeType) {
+      mimeType = response.headers.get("content-type")?.split(";")[0] || mimeType;
+    }
+  } else {
+    throw new A2APartError(`File ${name} needs either bytes or uri`);
+  }
+
+  if (bytes.byteLength > MAX_FILE_BYTES) {
+    throw new A2APartError(`File ${name} exceeds ${MAX_FILE_BYTES} bytes`);
+  }
+
+  return { bytes, mimeType, name };
+}
+
+/**
+ * Read a response body up to MAX_FILE_BYTES, aborting as soon as it grows
+ * past the limit (servers may omit or understate content-length).
+ */
+async function readLimited(response: Response, name: string): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let next: ReadableStreamReadResult<Uint8Array>;
+    try {
+      next = await reader.read();
+    } catch {
+      throw new A2APartError(`Could not fetch file ${name}`);
+    }
+    if (next.done) break;
+    total += next.value.byteLength;
+    if (total > MAX_FILE_BYTES) {
+      reader.cancel().catch(() => {});
+      throw new A2APartError(`File ${name} exceeds ${MAX_FILE_BYTES} bytes`);
+    }
+    chunks.push(next.value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// ─── Downloads ──────────────────────────────────────────────────────────────
+
+/**
+ * Load a stored task file. Returns null if it does not exist for this agent.
+ */
+export async function getTaskFile(agentId: string, fileId: string) {
+  const r2 = await getR2();
+  const object = await r2.get(fileKey(agentId, fileId));
+  if (!object) return null;
+
+  return {
+    body: object.body,
+    taskId: object.customMetadata?.taskId ?? "",
+    name: object.customMetadata?.name ?? fileId,
+    mimeType: object.httpMetadata?.contentType ?? "application/octet-stream",
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function fileKey(agentId: string, fileId: string): string {
+  return `a2a-files/${agentId}/${fileId}`;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/^data:[^,]*,/, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,448 @@
+/**
+ * A2A Caller Authorization & Billing
+ * tasks/send and tasks/sendSubscribe run the full pipeline, so callers must
+ * either authenticate (API key or session) or attach a signed x402 payment in
+ * the X-Payment header. Per-query agents give authenticated callers the
+ * session's free queries, like /api/chat, and then require a payment too. The payment must match the x402 block advertised in
+ * the agent's card, be confirmed on-chain, and be signed by the wallet that
+ * sent the transfer. Every authorized call is recorded in `transactions`.
+ */
+
+import { createPublicClient, http, type Hex } from "viem";
+import { getDB } from "./db";
+import { checkRateLimit, A2A_PAYMENT_REQUEST_RATE_LIMIT } from "./rate-limit";
+import { type RequestAuth } from "./apiAuth";
+import {
+  centsToUsdcUnits,
+  createPaymentRequired,
+  storePaymentRequest,
+  verifyPayment,
+  DEFAULT_PAYMENT_CHAIN_ID,
+} from "./x402";
+import { getChainById, getChainConfig, isSupportedChain, type SupportedChainId } from "./smart-account/config";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** JSON-RPC error codes returned to unauthorized callers */
+export const AUTH_REQUIRED_CODE = -32401;
+export const PAYMENT_REQUIRED_CODE = -32402;
+
+export const X402_VERSION = 1;
+
+export interface A2ABillingAgent {
+  id: string;
+  pricing_type: string;
+  price_per_query: number;
+  agent_wallet: string | null;
+  chain_id: number | null;
+}
+
+/** The `x402` block of an Agent Card */
+export interface X402Requirements {
+  network: string;
+  chainId: number;
+  asset: "USDC";
+  assetAddress: string;
+  pricePerQuery: number;
+  payee: string;
+}
+
+/** Decoded X-Payment header (base64-encoded JSON) */
+export interface X402PaymentHeader {
+  x402Version: number;
+  scheme: "exact";
+  network: string;
+  chainId: number;
+  assetAddress: string;
+  payee: string;
+  payload: {
+    paymentId: string;
+    transactionHash: string;
+    payer: string;
+    /** Signature by `payer` over paymentMessage(paymentId, transactionHash): EIP-191, or ERC-1271 for smart accounts */
+    signature: string;
+  };
+}
+
+export type A2ACaller =
+  | { type: "api_key" | "session"; userId: string; keyId: string | null }
+  | { type: "x402"; payerAddress: string; paymentId: string; transactionHash: string; blockNumber?: number };
+
+export class A2AAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly data?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "A2AAuthError";
+  }
+}
+
+// ─── Requirements ───────────────────────────────────────────────────────────
+
+/**
+ * Build the x402 block advertised in the Agent Card.
+ * Returns null for agents that do not charge per query or have no wallet.
+ */
+export function buildX402Requirements(agent: A2ABillingAgent): X402Requirements | null {
+  if (agent.pricing_type !== "per-query" || !agent.agent_wallet) return null;
+
+  const chainId = (
+    agent.chain_id && isSupportedChain(agent.chain_id) ? agent.chain_id : DEFAULT_PAYMENT_CHAIN_ID
+  ) as SupportedChainId;
+  const chainConfig = getChainConfig(chainId);
+
+  return {
+    network: chainConfig.name.toLowerCase().replace(/\s+/g, "-"),
+    chainId,
+    asset: "USDC",
+    assetAddress: chainConfig.usdcAddress,
+    pricePerQuery: agent.price_per_query,
+    payee: agent.agent_wallet,
+  };
+}
+
+/**
+ * The message a payer signs to bind a transfer to the A2A call.
+ */
+export function paymentMessage(paymentId: string, transactionHash: string): string {
+  return `x402 payment ${paymentId} with transaction ${transactionHash.toLowerCase()}`;
+}
+
+export function encodePaymentHeader(header: X402PaymentHeader): string {
+  return btoa(JSON.stringify(header));
+}
+
+export function decodePaymentHeader(value: string): X402PaymentHeader | null {
+  try {
+    const header = JSON.parse(atob(value)) as X402PaymentHeader;
+    const payload = header?.payload;
+    if (
+      !payload ||
+      typeof payload.paymentId !== "string" ||
+      typeof payload.transactionHash !== "string" ||
+      typeof payload.payer !== "string" ||
+      typeof payload.signature !== "string"
+    ) {
+      return null;
+    }
+    return header;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a decoded header against the card's x402 block.
+ * Returns a reason for the first mismatch, or null if it matches.
+ */
+export function matchPaymentHeader(header: X402PaymentHeader, requirements: X402Requirements): string | null {
+  if (header.x402Version !== X402_VERSION) return `Unsupported x402Version: ${header.x402Version}`;
+  if (header.scheme !== "exact") return `Unsupported payment scheme: ${header.scheme}`;
+  if (header.chainId !== requirements.chainId || header.network !== requirements.network) {
+    return `Payment must be made on ${requirements.network} (${requirements.chainId})`;
+  }
+  if (header.assetAddress?.toLowerCase() !== requirements.assetAddress.toLowerCase()) {
+    return "Payment asset does not match the agent's USDC address";
+  }
+  if (header.payee?.toLowerCase() !== requirements.payee.toLowerCase()) {
+    return "Payment payee does not match the agent wallet";
+  }
+  return null;
+}
+
+// ─── Authorization ──────────────────────────────────────────────────────────
+
+/**
+ * The wallet that signed an X-Payment header, or null if the header is
+ * missing, malformed or not signed by its payer. Identifies x402 callers
+ * on calls that do not run the agent (tasks/get, tasks/cancel, ...), so
+ * nothing is verified on-chain here.
+ */
+export async function paymentSigner(paymentHeader: string | null): Promise<string | null> {
+  const header = paymentHeader ? decodePaymentHeader(paymentHeader) : null;
+  if (!header) return null;
+
+  const { paymentId, transactionHash, payer, signature } = header.payload;
+  const chainId = isSupportedChain(header.chainId) ? header.chainId : DEFAULT_PAYMENT_CHAIN_ID;
+  const client = createPublicClient({ chain: getChainById(chainId), transport: http() });
+  const signed = await client
+    .verifyMessage({
+      address: payer as Hex,
+      message: paymentMessage(paymentId, transactionHash),
+      signature: signature as Hex,
+    })
+    .catch(() => false);
+  return signed ? payer.toLowerCase() : null;
+}
+
+/**
+ * Whether the session still has one of the agent's free queries. Sessions
+ * that paid through /api/payments are not limited; new sessions start at zero.
+ */
+async function hasFreeQuery(agentId: string, sessionId: string): Promise<boolean> {
+  const db = await getDB();
+  const agent = await db
+    .prepare("SELECT free_queries FROM agents WHERE id = ?")
+    .bind(agentId)
+    .first<{ free_queries: number }>();
+  const session = await db
+    .prepare("SELECT queries_used, payment_status FROM sessions WHERE id = ?")
+    .bind(sessionId)
+    .first<{ queries_used: number; payment_status: string }>();
+
+  if (session && session.payment_status !== "free") return true;
+  return (session?.queries_used ?? 0) < (agent?.free_queries ?? 0);
+}
+
+/**
+ * Authorize a call that runs the agent. Authenticated callers pass through
+ * unless the agent charges per query and the session's free queries are
+ * used up; then, as for anonymous callers, a valid X-Payment header is
+ * required. Throws A2AAuthError with the payment requirements (and a fresh
+ * payment request) when it is missing.
+ */
+export async function authorizeA2ACall(
+  agent: A2ABillingAgent,
+  auth: RequestAuth | null,
+  paymentHeader: string | null,
+  resource: string,
+  clientIp: string | null,
+  sessionId: string
+): Promise<A2ACaller> {
+  const requirements = buildX402Requirements(agent);
+
+  if (auth && (!requirements || (!paymentHeader && (await hasFreeQuery(agent.id, sessionId))))) {
+    return { type: auth.method, userId: auth.userId, keyId: auth.keyId };
+  }
+
+  if (!requirements) {
+    throw new A2AAuthError("Authentication required: send an API key with the a2a:invoke scope", AUTH_REQUIRED_CODE);
+  }
+
+  if (!paymentHeader) {
+    throw await paymentRequiredError(agent, requirements, resource, "Payment required", clientIp);
+  }
+
+  const header = decodePaymentHeader(paymentHeader);
+  if (!header) {
+    throw await paymentRequiredError(agent, requirements, resource, "Malformed X-Payment header", clientIp);
+  }
+
+  const mismatch = matchPaymentHeader(header, requirements);
+  if (mismatch) {
+    throw await paymentRequiredError(agent, requirements, resource, mismatch, clientIp);
+  }
+
+  const { paymentId, transactionHash, payer, signature } = header.payload;
+
+  // The public client also verifies smart account (ERC-1271/6492) signatures
+  const client = createPublicClient({ chain: getChainById(requirements.chainId), transport: http() });
+  const signed = await client
+    .verifyMessage({
+      address: payer as Hex,
+      message: paymentMessage(paymentId, transactionHash),
+      signature: signature as Hex,
+    })
+    .catch(() => false);
+  if (!signed) {
+    throw await paymentRequiredError(agent, requirements, resource, "Payment signature does not match the payer", clientIp);
+  }
+
+  const db = await getDB();
+  const request = await db
+    .prepare("SELECT agent_id FROM payment_requests WHERE id = ?")
+    .bind(paymentId)
+    .first<{ agent_id: string }>();
+  if (!request || request.agent_id !== agent.id) {
+    throw await paymentRequiredError(agent, requirements, resource, "Unknown payment ID for this agent", clientIp);
+  }
+
+  const used = await db
+    .prepare("SELECT id FROM transactions WHERE x402_payment_id = ?")
+    .bind(paymentId)
+    .first();
+  if (used) {
+    throw await paymentRequiredError(agent, requirements, resource, "Payment has already been used", clientIp);
+  }
+
+  const verification = await verifyPayment(paymentId, transactionHash, { agentId: agent.id });
+  if (!verification.verified) {
+    if (verification.pending) {
+      // Same payment can be retried once it has enough confirmations
+      throw new A2AAuthError(verification.error || "Payment is not confirmed yet", PAYMENT_REQUIRED_CODE, {
+        x402Version: X402_VERSION,
+        paymentId,
+        pending: true,
+      });
+    }
+    throw await paymentRequiredError(agent, requirements, resource, verification.error || "Payment verification failed", clientIp);
+  }
+
+  if (verification.payerAddress?.toLowerCase() !== payer.toLowerCase()) {
+    throw await paymentRequiredError(agent, requirements, resource, "Payment was not sent by the signing wallet", clientIp);
+  }
+
+  return {
+    type: "x402",
+    payerAddress: payer,
+    paymentId,
+    transactionHash,
+    blockNumber: verification.blockNumber,
+  };
+}
+
+/**
+ * Issue a payment request and wrap it, with the card's requirements, in an error.
+ * Requests are rate limited per IP, since anonymous callers can ask for them.
+ */
+async function paymentRequiredError(
+  agent: A2ABillingAgent,
+  requirements: X402Requirements,
+  resource: string,
+  reason: string,
+  clientIp: string | null
+): Promise<A2AAuthError> {
+  const rl = await checkRateLimit(A2A_PAYMENT_REQUEST_RATE_LIMIT, clientIp ?? "unknown");
+  if (!rl.allowed) {
+    return new A2AAuthError(`${reason}. Too many payment requests, try again later`, PAYMENT_REQUIRED_CODE, {
+      x402Version: X402_VERSION,
+      retryAfterSeconds: rl.retryAfterSeconds,
+    });
+  }
+
+  const payment = createPaymentRequired(
+    requirements.pricePerQuery,
+    requirements.payee,
+    `A2A call to agent ${agent.id}`,
+    3600,
+    requirements.chainId
+  );
+  await storePaymentRequest(payment, agent.id);
+
+  return new A2AAuthError(reason, PAYMENT_REQUIRED_CODE, {
+    x402Version: X402_VERSION,
+    accepts: [
+      {
+        scheme: "exact",
+        network: requirements.network,
+        chainId: requirements.chainId,
+        asset: requirements.asset,
+        assetAddress: requirements.assetAddress,
+        maxAmountRequired: centsToUsdcUnits(requirements.pricePerQuery).toString(),
+        payTo: requirements.payee,
+        resource,
+        description: payment.paymentDetails.description,
+        paymentId: payment.paymentId,
+        expiresAt: payment.paymentDetails.expiresAt,
+      },
+    ],
+  });
+}
+
+// ─── Recording ──────────────────────────────────────────────────────────────
+
+/**
+ * Record an authorized call in `transactions`. Paid calls store the verified
+ * transfer; authenticated calls are recorded at zero amount for attribution
+ * and use up one of the session's free queries.
+ * The unique x402_payment_id index makes a payment usable for only one call.
+ * Returns the transaction ID.
+ */
+export async function recordA2ACall(
+  caller: A2ACaller,
+  agent: A2ABillingAgent,
+  taskId: string,
+  sessionId: string
+): Promise<string> {
+  const db = await getDB();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const chainId = agent.chain_id || DEFAULT_PAYMENT_CHAIN_ID;
+  const payee = agent.agent_wallet || agent.id;
+
+  if (caller.type === "x402") {
+    try {
+      await db
+        .prepare(
+          `INSERT INTO transactions (id, x402_payment_id, payer_address, payee_address, amount, currency, chain_id, transaction_hash, block_number, status, agent_id, session_id, caller_type, caller_id, a2a_task_id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, 'USDC', ?, ?, ?, 'verified', ?, ?, 'x402', ?, ?, ?, ?)`
+        )
+        .bind(
+          id,
+          caller.paymentId,
+          caller.payerAddress,
+          payee,
+          agent.price_per_query,
+          chainId,
+          caller.transactionHash,
+          caller.blockNumber ?? null,
+          agent.id,
+          sessionId,
+          caller.payerAddress,
+          taskId,
+          now,
+          now
+        )
+        .run();
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("UNIQUE constraint")) {
+        throw new A2AAuthError("Payment has already been used", PAYMENT_REQUIRED_CODE);
+      }
+      throw error;
+    }
+    return id;
+  }
+
+  // Without a payment there is no on-chain payer; attribute to the user's wallet if linked
+  const user = await db
+    .prepare("SELECT wallet_address FROM users WHERE id = ?")
+    .bind(caller.userId)
+    .first<{ wallet_address: string | null }>();
+
+  await db
+    .prepare(
+      `INSERT INTO transactions (id, payer_address, payee_address, amount, currency, chain_id, status, agent_id, session_id, caller_type, caller_id, api_key_id, a2a_task_id, created_at, updated_at)
+       VALUES (?, ?, ?, 0, 'USDC', ?, 'settled', ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      id,
+      user?.wallet_address || caller.userId,
+      payee,
+      chainId,
+      agent.id,
+      sessionId,
+      caller.type,
+      caller.userId,
+      caller.keyId,
+      taskId,
+      now,
+      now
+    )
+    .run();
+
+  await db
+    .prepare("UPDATE sessions SET queries_used = queries_used + 1, updated_at = ? WHERE id = ?")
+    .bind(now, sessionId)
+    .run();
+  return id;
+}
+
+/**
+ * Undo an authorized call that could not start, and its recordA2ACall row if
+ * there is one. An x402 payment request is reopened so the same payment can
+ * be presented again.
+ */
+export async function releaseA2ACall(caller: A2ACaller, transactionId: string | null): Promise<void> {
+  const db = await getDB();
+  if (transactionId) {
+    await db.prepare("DELETE FROM transactions WHERE id = ?").bind(transactionId).run();
+  }
+  if (caller.type === "x402") {
+    await db
+      .prepare("UPDATE payment_requests SET status = 'open' WHERE id = ? AND status = 'paid'")
+      .bind(caller.paymentId)
+      .run();
+  }
+}
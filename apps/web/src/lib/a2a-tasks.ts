@@ -0,0 +1,791 @@
+/**
+ * A2A Task Store
+ * Persists A2A tasks so callers can poll tasks/get and cancel in-flight work.
+ * tasks/send records the task and runs the chat pipeline in the background
+ * via ctx.waitUntil(); cancellation aborts the LLM call through an AbortSignal.
+ * Streaming runs (tasks/sendSubscribe) emit status and artifact events as the
+ * model generates, and save partial output so tasks/resubscribe can follow along.
+ * Turns are stored in the same sessions/messages tables as human chat, so a
+ * caller can continue a conversation by reusing its sessionId. The agent may
+ * pause a task in input-required to ask a clarifying question; the caller
+ * answers by sending to the same taskId.
+ */
+
+import { tool, type Message } from "ai";
+import { z } from "zod";
+import { getDB, getCtx } from "./db";
+import { executeChatPipeline } from "./chat-engine";
+import type { SearchResult } from "./rag";
+import { buildArtifactTool, artifactTemplates, type Artifact } from "./artifacts";
+import { getAgentConfig } from "./agentConfigs";
+import { toBase64 } from "./a2a-files";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type TaskState =
+  | "submitted"
+  | "working"
+  | "input-required"
+  | "completed"
+  | "failed"
+  | "canceled";
+
+export const TERMINAL_STATES: TaskState[] = ["completed", "failed", "canceled"];
+
+export interface A2ATextPart {
+  type: "text";
+  text: string;
+}
+
+export interface A2AFilePart {
+  type: "file";
+  file: {
+    name?: string;
+    mimeType?: string;
+    /** Inline base64 content */
+    bytes?: string;
+    uri?: string;
+  };
+}
+
+export interface A2ADataPart {
+  type: "data";
+  data: Record<string, unknown>;
+}
+
+export type A2APart = A2ATextPart | A2AFilePart | A2ADataPart;
+
+export interface A2ATaskMessage {
+  role: "user" | "agent";
+  parts: A2APart[];
+}
+
+export interface A2AArtifact {
+  index: number;
+  name?: string;
+  description?: string;
+  parts: A2APart[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2ATaskStatus {
+  state: TaskState;
+  message?: A2ATaskMessage;
+  timestamp: string;
+}
+
+export interface A2ATask {
+  taskId: string;
+  sessionId: string;
+  status: A2ATaskStatus;
+  history?: A2ATaskMessage[];
+  artifacts?: A2AArtifact[];
+  metadata?: Record<string, unknown>;
+}
+
+interface A2ATaskRow {
+  id: string;
+  agent_id: string;
+  session_id: string;
+  caller_user_id: string | null;
+  caller_address: string | null;
+  state: string;
+  status_message: string | null;
+  history: string;
+  artifacts: string;
+  metadata: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskStatusUpdateEvent {
+  id: string;
+  status: A2ATaskStatus;
+  final: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TaskArtifactUpdateEvent {
+  id: string;
+  artifact: A2AArtifact & { append?: boolean; lastChunk?: boolean };
+}
+
+export type TaskEvent = TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+/** Who started a task */
+export interface TaskOwner {
+  callerUserId: string | null;
+  callerAddress: string | null;
+}
+
+/** Who is asking: an authenticated user, or the wallet that signed an X-Payment header */
+export interface TaskCaller {
+  userId: string | null;
+  address: string | null;
+}
+
+/**
+ * Receives task events. Returns false once the subscriber has gone away.
+ */
+export type TaskEventSink = (event: TaskEvent) => boolean;
+
+/** How often a background task checks whether it was canceled from another request */
+const CANCEL_POLL_MS = 2000;
+
+/** How often a streaming run saves partial output for resubscribers */
+const PROGRESS_SAVE_MS = 1000;
+
+/** How often tasks/resubscribe re-reads the store, and for how long */
+const WATCH_POLL_MS = 1000;
+const WATCH_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Number of earlier session messages replayed to the model */
+const SESSION_HISTORY_LIMIT = 20;
+
+/** A2A sessions stay open for 24 hours after their last turn */
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Built-in tool the agent calls to ask its caller for more input */
+const REQUEST_INPUT_TOOL = "request_input";
+
+/** Built-in tool productivity agents call to publish their document */
+const ARTIFACT_TOOL = "create_artifact";
+
+/** Abort controllers for tasks running in this isolate */
+const runningTasks = new Map<string, AbortController>();
+
+// ─── Store ──────────────────────────────────────────────────────────────────
+
+/**
+ * Create a task in the submitted state with the caller's first message.
+ */
+export async function createTask(input: {
+  taskId: string;
+  agentId: string;
+  sessionId: string;
+  callerUserId: string | null;
+  /** Payer wallet of an x402 caller (lowercase) */
+  callerAddress: string | null;
+  message: A2ATaskMessage;
+  metadata?: Record<string, unknown>;
+}): Promise<A2ATask> {
+  const db = await getDB();
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `INSERT INTO a2a_tasks (id, agent_id, session_id, caller_user_id, caller_address, state, history, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'submitted', ?, ?, ?, ?)`
+    )
+    .bind(
+      input.taskId,
+      input.agentId,
+      input.sessionId,
+      input.callerUserId,
+      input.callerAddress,
+      JSON.stringify([input.message]),
+      input.metadata ? JSON.stringify(input.metadata) : null,
+      now,
+      now
+    )
+    .run();
+
+  return {
+    taskId: input.taskId,
+    sessionId: input.sessionId,
+    status: { state: "submitted", timestamp: now },
+    history: [input.message],
+    artifacts: [],
+  };
+}
+
+/**
+ * Continue a task paused in input-required with the caller's reply.
+ * The state is claimed atomically so two replies cannot both resume it.
+ * Returns null if the task is not waiting for input.
+ */
+export async function resumeTask(
+  taskId: string,
+  agentId: string,
+  message: A2ATaskMessage
+): Promise<A2ATask | null> {
+  const task = await getTask(taskId, agentId);
+  if (!task || task.status.state !== "input-required") return null;
+
+  const db = await getDB();
+  const now = new Date().toISOString();
+  const history = [...(task.history ?? []), message];
+
+  const claim = await db
+    .prepare(
+      `UPDATE a2a_tasks SET state = 'submitted', status_message = NULL, history = ?, updated_at = ?
+       WHERE id = ? AND agent_id = ? AND state = 'input-required'`
+    )
+    .bind(JSON.stringify(history), now, taskId, agentId)
+    .run();
+
+  if ((claim.meta.changes ?? 0) === 0) return null;
+
+  const { callerUserId: _callerUserId, callerAddress: _callerAddress, ...rest } = task;
+  return {
+    ...rest,
+    status: { state: "submitted", timestamp: now },
+    history,
+  };
+}
+
+/**
+ * Load a task scoped to an agent. Returns null if it does not exist.
+ * historyLength limits how many of the most recent messages are returned.
+ */
+export async function getTask(
+  taskId: string,
+  agentId: string,
+  historyLength?: number
+): Promise<(A2ATask & TaskOwner) | null> {
+  const db = await getDB();
+  const row = await db
+    .prepare("SELECT * FROM a2a_tasks WHERE id = ? AND agent_id = ?")
+    .bind(taskId, agentId)
+    .first<A2ATaskRow>();
+
+  if (!row) return null;
+
+  const task = rowToTask(row);
+  if (historyLength !== undefined && task.history) {
+    task.history = historyLength > 0 ? task.history.slice(-historyLength) : [];
+  }
+  return { ...task, callerUserId: row.caller_user_id, callerAddress: row.caller_address };
+}
+
+/**
+ * Move a task to a new state. Terminal states are never overwritten, so a
+ * task canceled mid-flight stays canceled when the pipeline returns.
+ */
+export async function updateTaskState(
+  taskId: string,
+  state: TaskState,
+  update?: {
+    message?: A2ATaskMessage;
+    artifacts?: A2AArtifact[];
+    metadata?: Record<string, unknown>;
+  }
+): Promise<boolean> {
+  const db = await getDB();
+  const now = new Date().toISOString();
+
+  const row = await db
+    .prepare("SELECT history, metadata FROM a2a_tasks WHERE id = ?")
+    .bind(taskId)
+    .first<{ history: string; metadata: string | null }>();
+  if (!row) return false;
+
+  // Agent replies are appended to the task history
+  const history: A2ATaskMessage[] = JSON.parse(row.history);
+  if (update?.message?.role === "agent") {
+    history.push(update.message);
+  }
+
+  const metadata = update?.metadata
+    ? { ...(row.metadata ? JSON.parse(row.metadata) : {}), ...update.metadata }
+    : null;
+
+  const placeholders = TERMINAL_STATES.map(() => "?").join(", ");
+  const result = await db
+    .prepare(
+      `UPDATE a2a_tasks
+       SET state = ?, status_message = ?, history = ?,
+           artifacts = COALESCE(?, artifacts), metadata = COALESCE(?, metadata), updated_at = ?
+       WHERE id = ? AND state NOT IN (${placeholders})`
+    )
+    .bind(
+      state,
+      update?.message ? JSON.stringify(update.message) : null,
+      JSON.stringify(history),
+      update?.artifacts ? JSON.stringify(update.artifacts) : null,
+      metadata ? JSON.stringify(metadata) : null,
+      now,
+      taskId,
+      ...TERMINAL_STATES
+    )
+    .run();
+
+  return (result.meta.changes ?? 0) > 0;
+}
+
+/**
+ * Cancel a task that has not finished. Aborts the LLM call if it is running
+ * in this isolate; otherwise the runner notices on its next poll.
+ * Returns false if the task is already in a terminal state.
+ */
+export async function cancelTask(taskId: string): Promise<boolean> {
+  const canceled = await updateTaskState(taskId, "canceled", {
+    message: { role: "agent", parts: [{ type: "text", text: "Task canceled by caller" }] },
+  });
+  if (canceled) {
+    runningTasks.get(taskId)?.abort();
+  }
+  return canceled;
+}
+
+// ─── Sessions ───────────────────────────────────────────────────────────────
+
+export interface SessionCaller extends TaskCaller {
+  keyId: string | null;
+}
+
+/**
+ * Whether the caller may use a session: one that does not exist yet, or one
+ * of this agent's owned by the caller's user or, for x402 callers, payer
+ * wallet. Sessions with no owner are denied. Nothing is written, so this can
+ * run before the caller is authorized.
+ */
+export async function canOpenSession(sessionId: string, agentId: string, caller: TaskCaller): Promise<boolean> {
+  const db = await getDB();
+  const session = await db
+    .prepare("SELECT agent_id, user_id, caller_address FROM sessions WHERE id = ?")
+    .bind(sessionId)
+    .first<{ agent_id: string; user_id: string | null; caller_address: string | null }>();
+
+  if (!session) return true;
+  if (session.agent_id !== agentId) return false;
+  return canAccessTask({ callerUserId: session.user_id, callerAddress: session.caller_address }, caller);
+}
+
+/**
+ * Open the session an A2A or MCP call belongs to, creating it on first use.
+ * Returns false if the session belongs to another agent or another caller.
+ */
+export async function openSession(sessionId: string, agentId: string, caller: SessionCaller): Promise<boolean> {
+  const db = await getDB();
+  const now = new Date();
+  const inserted = await db
+    .prepare(
+      `INSERT OR IGNORE INTO sessions (id, agent_id, user_id, api_key_id, caller_address, queries_used, payment_status, created_at, updated_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, 0, 'free', ?, ?, ?)`
+    )
+    .bind(
+      sessionId,
+      agentId,
+      caller.userId,
+      caller.keyId,
+      caller.userId ? null : caller.address?.toLowerCase() ?? null,
+      now.toISOString(),
+      now.toISOString(),
+      new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+    )
+    .run();
+
+  // An existing session, or one created concurrently, must be the caller's
+  return (inserted.meta.changes ?? 0) > 0 || canOpenSession(sessionId, agentId, caller);
+}
+
+/**
+ * Load the most recent turns of a session, oldest first.
+ */
+export async function loadSessionMessages(sessionId: string): Promise<Message[]> {
+  const db = await getDB();
+  const result = await db
+    .prepare(
+      `SELECT id, role, content FROM messages
+       WHERE session_id = ?
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .bind(sessionId, SESSION_HISTORY_LIMIT)
+    .all<{ id: string; role: string; content: string }>();
+
+  return result.results.reverse().map((row) => ({
+    id: row.id,
+    role: row.role as "user" | "assistant",
+    content: row.content,
+  }));
+}
+
+/**
+ * Append a turn to a session and extend its expiry.
+ */
+export async function appendSessionMessage(
+  sessionId: string,
+  role: "user" | "assistant",
+  content: string,
+  citations?: unknown
+): Promise<void> {
+  const db = await getDB();
+  const now = new Date();
+
+  await db
+    .prepare(
+      `INSERT INTO messages (id, session_id, role, content, citations, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      crypto.randomUUID(),
+      sessionId,
+      role,
+      content,
+      citations ? JSON.stringify(citations) : null,
+      now.toISOString()
+    )
+    .run();
+
+  await db
+    .prepare(
+      `UPDATE sessions SET queries_used = queries_used + ?, updated_at = ?, expires_at = ? WHERE id = ?`
+    )
+    .bind(
+      role === "user" ? 1 : 0,
+      now.toISOString(),
+      new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+      sessionId
+    )
+    .run();
+}
+
+// ─── Background Execution ───────────────────────────────────────────────────
+
+interface TaskRunInput {
+  agentId: string;
+  /** Authenticated caller, for memory; null for paid or agent-only calls */
+  userId: string | null;
+  messages: Message[];
+  callDepth: number;
+  callChain: string[];
+}
+
+/**
+ * Run the chat pipeline for a task after the response has been sent.
+ * The task moves to working immediately; completion, failure or
+ * cancellation is written back to the store. With an event sink the
+ * model output is streamed as TaskStatusUpdateEvent/TaskArtifactUpdateEvent.
+ * The run outlives the subscriber, so a dropped stream can resubscribe.
+ */
+export async function startTask(
+  task: A2ATask,
+  input: TaskRunInput,
+  onEvent?: TaskEventSink
+): Promise<{ task: A2ATask; done: Promise<void> }> {
+  await updateTaskState(task.taskId, "working");
+
+  const done = runTask(task.taskId, task.sessionId, input, onEvent);
+  try {
+    const ctx = await getCtx();
+    ctx.waitUntil(done);
+  } catch {
+    // No Workers context (local dev) — let the promise run unattended
+    done.catch((err) => console.error("A2A task failed:", err));
+  }
+
+  return {
+    task: {
+      ...task,
+      status: { state: "working", timestamp: new Date().toISOString() },
+    },
+    done,
+  };
+}
+
+async function runTask(
+  taskId: string,
+  sessionId: string,
+  input: TaskRunInput,
+  onEvent?: TaskEventSink
+): Promise<void> {
+  const controller = new AbortController();
+  runningTasks.set(taskId, controller);
+
+  // tasks/cancel may land on another isolate; watch the store for it
+  const poll = setInterval(async () => {
+    try {
+      const db = await getDB();
+      const row = await db
+        .prepare("SELECT state FROM a2a_tasks WHERE id = ?")
+        .bind(taskId)
+        .first<{ state: string }>();
+      if (row?.state === "canceled") controller.abort();
+    } catch (err) {
+      console.error("A2A cancel poll failed:", err);
+    }
+  }, CANCEL_POLL_MS);
+
+  onEvent?.(statusEvent(taskId, "working", false));
+
+  try {
+    // Productivity agents publish their document through a tool so it can be returned typed
+    const created: Artifact[] = [];
+    const artifactType = await getArtifactType(input.agentId);
+    const extraTools = {
+      [REQUEST_INPUT_TOOL]: requestInputTool,
+      ...(artifactType && {
+        [ARTIFACT_TOOL]: buildArtifactTool(sessionId, artifactType, (artifact) => created.push(artifact)),
+      }),
+    };
+
+    const result = await executeChatPipeline({
+      agentId: input.agentId,
+      messages: input.messages,
+      sessionId,
+      userId: input.userId,
+      callDepth: input.callDepth,
+      callChain: input.callChain,
+      useRag: true,
+      stream: !!onEvent,
+      abortSignal: controller.signal,
+      extraTools,
+    });
+
+    let responseText = result.text || "";
+    let question = findQuestion(result.toolCalls ?? []);
+    if (onEvent && result.fullStream) {
+      responseText = "";
+      let lastSaved = Date.now();
+      for await (const part of result.fullStream) {
+        if (part.type === "text-delta") {
+          onEvent({
+            id: taskId,
+            artifact: { index: 0, parts: [{ type: "text", text: part.textDelta }], append: responseText.length > 0 },
+          });
+          responseText += part.textDelta;
+          if (Date.now() - lastSaved >= PROGRESS_SAVE_MS) {
+            await saveTaskProgress(taskId, responseText);
+            lastSaved = Date.now();
+          }
+        } else if (part.type === "tool-call") {
+          question = findQuestion([part]) ?? question;
+        } else if (part.type === "error") {
+          throw part.error instanceof Error ? part.error : new Error(String(part.error));
+        }
+      }
+      if (controller.signal.aborted) throw new Error("Task canceled");
+    }
+
+    if (question) {
+      // Pause until the caller replies to the same taskId
+      const message: A2ATaskMessage = { role: "agent", parts: [{ type: "text", text: question }] };
+      await updateTaskState(taskId, "input-required", { message });
+      await appendSessionMessage(sessionId, "assistant", question);
+      onEvent?.(statusEvent(taskId, "input-required", true, message));
+      return;
+    }
+
+    // Record which model answered (it differs from the agent's primary after a fallback)
+    const metadata = {
+      model: result.answeredBy().modelId,
+      ...(result.citations.length > 0 && { citations: formatCitations(result.citations) }),
+    };
+    const message: A2ATaskMessage = { role: "agent", parts: [{ type: "text", text: responseText }] };
+    const typedArtifacts = created.map((artifact, i) => toA2AArtifact(artifact, i + 1));
+    await updateTaskState(taskId, "completed", {
+      message,
+      artifacts: [{ index: 0, parts: [{ type: "text", text: responseText }] }, ...typedArtifacts],
+      metadata,
+    });
+    await appendSessionMessage(sessionId, "assistant", responseText, metadata.citations);
+
+    if (onEvent) {
+      onEvent({ id: taskId, artifact: { index: 0, parts: [{ type: "text", text: "" }], append: true, lastChunk: true } });
+      for (const artifact of typedArtifacts) {
+        onEvent({ id: taskId, artifact: { ...artifact, lastChunk: true } });
+      }
+      onEvent({ ...statusEvent(taskId, "completed", true, message), metadata });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // Already marked canceled by tasks/cancel
+      onEvent?.(statusEvent(taskId, "canceled", true));
+      return;
+    }
+
+    const msg = error instanceof Error ? error.message : "Pipeline error";
+    console.error("A2A task error:", msg);
+    const message: A2ATaskMessage = { role: "agent", parts: [{ type: "text", text: msg }] };
+    await updateTaskState(taskId, "failed", { message });
+    onEvent?.(statusEvent(taskId, "failed", true, message));
+  } finally {
+    clearInterval(poll);
+    runningTasks.delete(taskId);
+  }
+}
+
+/**
+ * Save partial output of a streaming run while it is still working.
+ */
+async function saveTaskProgress(taskId: string, text: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db
+      .prepare("UPDATE a2a_tasks SET artifacts = ?, updated_at = ? WHERE id = ? AND state = 'working'")
+      .bind(JSON.stringify([{ index: 0, parts: [{ type: "text", text }] }]), new Date().toISOString(), taskId)
+      .run();
+  } catch (err) {
+    console.error("Failed to save A2A task progress:", err);
+  }
+}
+
+/**
+ * Follow a task from the store (tasks/resubscribe). Replays the output so
+ * far, then emits new output and state changes until the task settles or
+ * asks for input, the subscriber disconnects, or the watch times out.
+ */
+export async function watchTask(taskId: string, agentId: string, onEvent: TaskEventSink): Promise<void> {
+  let sentLength = 0;
+  let lastState: TaskState | null = null;
+  const deadline = Date.now() + WATCH_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const task = await getTask(taskId, agentId, 0);
+    if (!task) return;
+
+    const final = isTerminalState(task.status.state) || task.status.state === "input-required";
+
+    if (!final && task.status.state !== lastState) {
+      if (!onEvent({ id: taskId, status: task.status, final: false })) return;
+      lastState = task.status.state;
+    }
+
+    const text = textOf(task.artifacts?.[0]?.parts ?? []);
+    if (text.length > sentLength) {
+      const open = onEvent({
+        id: taskId,
+        artifact: {
+          index: 0,
+          parts: [{ type: "text", text: text.slice(sentLength) }],
+          append: sentLength > 0,
+          ...(final && { lastChunk: true }),
+        },
+      });
+      if (!open) return;
+      sentLength = text.length;
+    }
+
+    if (final) {
+      // Typed artifacts (e.g. a generated PRD) are only sent once the task settles
+      for (const artifact of task.artifacts?.slice(1) ?? []) {
+        if (!onEvent({ id: taskId, artifact: { ...artifact, lastChunk: true } })) return;
+      }
+      onEvent({
+        id: taskId,
+        status: task.status,
+        final: true,
+        ...(task.metadata && { metadata: task.metadata }),
+      });
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, WATCH_POLL_MS));
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Tasks are only visible to the caller that started them: the same user, or
+ * for x402 callers the same payer wallet. Tasks with no owner are denied.
+ */
+export function canAccessTask(task: TaskOwner, caller: TaskCaller): boolean {
+  if (task.callerUserId) return task.callerUserId === caller.userId;
+  if (task.callerAddress) return task.callerAddress === caller.address?.toLowerCase();
+  return false;
+}
+
+function textOf(parts: A2APart[]): string {
+  return parts.map((p) => (p.type === "text" ? p.text : "")).join("");
+}
+
+export function isTerminalState(state: TaskState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+const requestInputTool = tool({
+  description:
+    "Ask the calling agent a clarifying question when its request is ambiguous or missing information you need. " +
+    "The task pauses until it replies.",
+  parameters: z.object({
+    question: z.string().describe("The question to ask the caller"),
+  }),
+});
+
+/**
+ * Artifact type produced by a productivity agent, from its template config.
+ */
+async function getArtifactType(agentId: string): Promise<string | null> {
+  const db = await getDB();
+  const agent = await db
+    .prepare("SELECT type, category FROM agents WHERE id = ?")
+    .bind(agentId)
+    .first<{ type: string; category: string }>();
+  if (agent?.category !== "productivity") return null;
+
+  const artifactType = getAgentConfig(agent.type)?.artifactType;
+  return artifactType && artifactTemplates[artifactType] ? artifactType : null;
+}
+
+/**
+ * Return a generated document as a typed artifact: its sections as a data
+ * part and the rendered Markdown as a file part.
+ */
+function toA2AArtifact(artifact: Artifact, index: number): A2AArtifact {
+  return {
+    index,
+    name: artifact.title,
+    description: artifactTemplates[artifact.type]?.name,
+    parts: [
+      {
+        type: "data",
+        data: { artifactId: artifact.id, artifactType: artifact.type, title: artifact.title, sections: artifact.data },
+      },
+      {
+        type: "file",
+        file: {
+          name: `${artifact.type}.md`,
+          mimeType: "text/markdown",
+          bytes: toBase64(new TextEncoder().encode(artifact.content)),
+        },
+      },
+    ],
+    metadata: { artifactType: artifact.type, format: artifact.format },
+  };
+}
+
+function findQuestion(toolCalls: Array<{ toolName: string; args: unknown }>): string | null {
+  const call = toolCalls.find((c) => c.toolName === REQUEST_INPUT_TOOL);
+  const question = (call?.args as { question?: unknown } | undefined)?.question;
+  return typeof question === "string" && question.trim() ? question.trim() : null;
+}
+
+function statusEvent(
+  taskId: string,
+  state: TaskState,
+  final: boolean,
+  message?: A2ATaskMessage
+): TaskStatusUpdateEvent {
+  return {
+    id: taskId,
+    status: { state, ...(message && { message }), timestamp: new Date().toISOString() },
+    final,
+  };
+}
+
+function formatCitations(citations: SearchResult[]) {
+  return citations.map((c) => ({
+    title: c.title,
+    excerpt: c.content.slice(0, 200),
+    score: c.score,
+  }));
+}
+
+function rowToTask(row: A2ATaskRow): A2ATask {
+  const metadata = row.metadata ? JSON.parse(row.metadata) : undefined;
+  return {
+    taskId: row.id,
+    sessionId: row.session_id,
+    status: {
+      state: row.state as TaskState,
+      ...(row.status_message && { message: JSON.parse(row.status_message) }),
+      timestamp: row.updated_at,
+    },
+    history: JSON.parse(row.history),
+    artifacts: JSON.parse(row.artifacts),
+    ...(metadata && { metadata }),
+  };
+}
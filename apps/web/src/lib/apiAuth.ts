@@ -1,8 +1,12 @@
 /**
  * API Key authentication for SDK usage
+ * Routes accept either the session cookie (full access) or an `sk_` key
+ * sent as `Authorization: Bearer`, limited to the scopes stored on the key.
  */
 
-import { getDB } from "./db";
+import { NextResponse } from "next/server";
+import { getDB, getCtx } from "./db";
+import { getSession } from "./auth";
 import { createHash } from "crypto";
 
 interface ApiKeyInfo {
@@ -11,6 +15,202 @@ interface ApiKeyInfo {
   scopes: string[];
 }
 
+// ─── Scopes ─────────────────────────────────────────────────────────────────
+
+export type ApiScope =
+  | "chat:write"
+  | "sessions:read"
+  | "sessions:write"
+  | "agents:read"
+  | "agents:manage"
+  | "memory:read"
+  | "memory:write"
+  | "artifacts:read"
+  | "artifacts:write"
+  | "a2a:invoke"
+  | "mcp:invoke";
+
+export const API_SCOPES: ApiScope[] = [
+  "chat:write",
+  "sessions:read",
+  "sessions:write",
+  "agents:read",
+  "agents:manage",
+  "memory:read",
+  "memory:write",
+  "artifacts:read",
+  "artifacts:write",
+  "a2a:invoke",
+  "mcp:invoke",
+];
+
+/**
+ * Check whether a key's granted scopes cover the required scope.
+ * A bare resource scope (e.g. "chat", as issued by older dashboard keys)
+ * grants every action on that resource.
+ */
+export function hasScope(granted: string[], required: ApiScope): boolean {
+  const [resource] = required.split(":");
+  return granted.includes(required) || granted.includes(resource);
+}
+
+/**
+ * Validate a requested scope list for key creation.
+ * Accepts fine-grained scopes and bare resource names.
+ */
+export function isValidScope(scope: string): boolean {
+  if (API_SCOPES.includes(scope as ApiScope)) return true;
+  return API_SCOPES.some((s) => s.split(":")[0] === scope);
+}
+
+// ─── Request Auth ───────────────────────────────────────────────────────────
+
+export interface RequestAuth {
+  userId: string;
+  method: "session" | "api_key";
+  /** API key ID when authenticated with a key, for usage attribution */
+  keyId: string | null;
+  scopes: string[];
+}
+
+export type AuthResult =
+  | { auth: RequestAuth | null; error: null }
+  | { auth: null; error: NextResponse };
+
+export type RequiredAuthResult =
+  | { auth: RequestAuth; error: null }
+  | { auth: null; error: NextResponse };
+
+/**
+ * Resolve the caller from an API key or session cookie.
+ * Returns `auth: null` for anonymous callers. An invalid key or a key
+ * without the required scope produces an error response instead of
+ * silently falling back to anonymous access.
+ */
+export async function authenticateRequest(
+  request: Request,
+  scope: ApiScope
+): Promise<AuthResult> {
+  const apiKey = getApiKeyFromRequest(request);
+
+  if (apiKey) {
+    const keyInfo = await validateApiKey(apiKey);
+    if (!keyInfo) {
+      return {
+        auth: null,
+        error: NextResponse.json(
+          { error: "Invalid or expired API key", code: "invalid_api_key" },
+          { status: 401 }
+        ),
+      };
+    }
+
+    if (!hasScope(keyInfo.scopes, scope)) {
+      return { auth: null, error: insufficientScopeResponse(scope, keyInfo.scopes) };
+    }
+
+    await trackApiKeyUsage(keyInfo, request, scope);
+
+    return {
+      auth: {
+        userId: keyInfo.userId,
+        method: "api_key",
+        keyId: keyInfo.keyId,
+        scopes: keyInfo.scopes,
+      },
+      error: null,
+    };
+  }
+
+  try {
+    const session = await getSession();
+    if (session) {
+      return {
+        auth: { userId: session.userId, method: "session", keyId: null, scopes: [...API_SCOPES] },
+        error: null,
+      };
+    }
+  } catch {
+    // Auth not available — continue as anonymous
+  }
+
+  return { auth: null, error: null };
+}
+
+/**
+ * Same as authenticateRequest, but anonymous callers get a 401.
+ */
+export async function requireAuth(
+  request: Request,
+  scope: ApiScope
+): Promise<RequiredAuthResult> {
+  const result = await authenticateRequest(request, scope);
+  if (result.error) return result;
+  if (!result.auth) {
+    return {
+      auth: null,
+      error: NextResponse.json(
+        { error: "Authentication required", code: "unauthenticated" },
+        { status: 401 }
+      ),
+    };
+  }
+  return { auth: result.auth, error: null };
+}
+
+/**
+ * Consistent 403 body for API keys missing a scope.
+ */
+export function insufficientScopeResponse(required: ApiScope, granted: string[]): NextResponse {
+  return NextResponse.json(
+    {
+      error: `API key is missing required scope: ${required}`,
+      code: "insufficient_scope",
+      requiredScope: required,
+      grantedScopes: granted,
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Record an API key call for usage analytics. Runs after the response
+ * when a Workers context is available.
+ */
+async function trackApiKeyUsage(key: ApiKeyInfo, request: Request, scope: ApiScope): Promise<void> {
+  const write = async () => {
+    try {
+      const db = await getDB();
+      await db
+        .prepare(
+          `INSERT INTO api_key_usage (id, key_id, user_id, method, path, scope, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          crypto.randomUUID(),
+          key.keyId,
+          key.userId,
+          request.method,
+          new URL(request.url).pathname,
+          scope,
+          new Date().toISOString()
+        )
+        .run();
+    } catch (err) {
+      console.error("Failed to record API key usage:", err);
+    }
+  };
+
+  try {
+    const ctx = await getCtx();
+    ctx.waitUntil(write());
+  } catch {
+    await write();
+  }
+}
+
+// ─── API Keys ───────────────────────────────────────────────────────────────
+
 /**
  * Validate an API key and return associated user info
  */
@@ -2,6 +2,8 @@
  * Artifact generation for productivity agents
  */
 
+import { tool } from "ai";
+import { z } from "zod";
 import { getDB } from "./db";
 
 export interface Artifact {
@@ -158,6 +160,33 @@ export async function generateArtifact(
   };
 }
 
+/**
+ * Tool that lets a productivity agent publish its finished document
+ * (used for A2A calls, which return the artifact as a typed part).
+ */
+export function buildArtifactTool(
+  sessionId: string,
+  type: string,
+  onCreate: (artifact: Artifact) => void
+) {
+  const template = artifactTemplates[type];
+
+  return tool({
+    description:
+      `Publish the finished ${template.name} once you have enough information to write it. ` +
+      `Sections: ${template.sections.join(", ")}.`,
+    parameters: z.object({
+      title: z.string().describe("Document title"),
+      sections: z.record(z.string()).describe("Markdown content keyed by section name"),
+    }),
+    execute: async ({ title, sections }) => {
+      const artifact = await generateArtifact(sessionId, type, title, sections);
+      onCreate(artifact);
+      return { artifactId: artifact.id, status: "published" };
+    },
+  });
+}
+
 /**
  * Get artifact by ID
  */
@@ -4,13 +4,16 @@
  * Handles tools, skills, memory, RAG, and LLM resolution.
  */
 
-import { streamText, generateText, Message } from "ai";
+import { streamText, generateText, Message, type TextStreamPart, type ToolSet } from "ai";
 import { getDB, getCtx } from "./db";
 import { searchDocuments, SearchResult } from "./rag";
-import { resolveModel, deductPlatformCost, refundPlatformCost, InsufficientBalanceError } from "./llm-providers";
+import { resolveModelChain, InsufficientBalanceError } from "./llm-providers";
+import { inferenceUsage } from "./inference-billing";
+import { startModelRun } from "./model-fallback";
 import { loadMemoryContext, getMemoryConfig, isRememberCommand, storeExplicitMemory } from "./memory";
 import { resolveAgentTools, getToolRows, buildToolInstructions } from "./tools";
 import { getActiveSkillInstructions, formatSkillsForPrompt } from "./skills";
+import { buildChatContext, narrowestModelId, CONTEXT_PRIORITY, type ContextSection } from "./context-window";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -19,16 +22,27 @@ export interface ChatPipelineInput {
   messages: Message[];
   sessionId: string;
   userId: string | null;
+  /** Original caller's IP, for anonymous tool rate limits */
+  clientIp?: string | null;
   callDepth?: number;
   callChain?: string[];
   useRag?: boolean;
   stream?: boolean;
+  /** Aborts the LLM call (e.g. when an A2A task is canceled) */
+  abortSignal?: AbortSignal;
+  /** Protocol tools added by the caller (e.g. A2A's request_input) */
+  extraTools?: ToolSet;
 }
 
 export interface ChatPipelineResult {
-  stream?: ReadableStream;
+  /** Typed stream parts (text deltas, tool calls, errors) when streaming */
+  fullStream?: AsyncIterable<TextStreamPart<ToolSet>>;
   text?: string;
+  /** Tool calls left without a result when the run stopped (non-streaming) */
+  toolCalls?: Array<{ toolName: string; args: unknown }>;
   citations: SearchResult[];
+  /** The model that answered; final once the stream has finished */
+  answeredBy: () => { provider: string; modelId: string };
 }
 
 interface AgentRow {
@@ -51,10 +65,13 @@ export async function executeChatPipeline(input: ChatPipelineInput): Promise<Cha
     messages,
     sessionId,
     userId,
+    clientIp,
     callDepth = 0,
     callChain = [],
     useRag = true,
     stream = true,
+    abortSignal,
+    extraTools,
   } = input;
 
   // Safety: prevent infinite recursion
@@ -81,10 +98,10 @@ export async function executeChatPipeline(input: ChatPipelineInput): Promise<Cha
   let systemPrompt = agent.system_prompt || "You are a helpful AI assistant.";
   const agentName = agent.name || "Assistant";
 
-  // Resolve LLM model
-  let resolved;
+  // Resolve LLM models (primary, then configured fallbacks)
+  let chain;
   try {
-    resolved = await resolveModel(resolvedAgentId);
+    chain = await resolveModelChain(resolvedAgentId);
   } catch (error) {
     if (error instanceof InsufficientBalanceError) {
       throw error;
@@ -135,25 +152,31 @@ export async function executeChatPipeline(input: ChatPipelineInput): Promise<Cha
     }
   }
 
-  // Build full system prompt
-  let fullSystemPrompt = `${systemPrompt}\n\nYou are ${agentName}. Be helpful, accurate, and concise.`;
+  // System prompt sections, fitted into the model's window by priority
+  const basePrompt = `${systemPrompt}\n\nYou are ${agentName}. Be helpful, accurate, and concise.`;
+  const sections: ContextSection[] = [];
 
   if (memoryContext) {
-    fullSystemPrompt += `\n\n${memoryContext}`;
+    sections.push({ name: "memory", text: `\n\n${memoryContext}`, priority: CONTEXT_PRIORITY.memory, truncatable: true });
   }
 
   // Load skills
   try {
     const skills = await getActiveSkillInstructions(resolvedAgentId);
     if (skills.length > 0) {
-      fullSystemPrompt += "\n\n" + formatSkillsForPrompt(skills);
+      sections.push({ name: "skills", text: "\n\n" + formatSkillsForPrompt(skills), priority: CONTEXT_PRIORITY.skills });
     }
   } catch (error) {
     console.error("Failed to load skills:", error);
   }
 
   if (ragContext) {
-    fullSystemPrompt += `\n\nUse the following information to help answer the user's question. Cite sources using [1], [2], etc. when referencing information.${ragContext}`;
+    sections.push({
+      name: "rag",
+      text: `\n\nUse the following information to help answer the user's question. Cite sources using [1], [2], etc. when referencing information.${ragContext}`,
+      priority: CONTEXT_PRIORITY.rag,
+      truncatable: true,
+    });
   }
 
   // Resolve tools
@@ -164,6 +187,7 @@ export async function executeChatPipeline(input: ChatPipelineInput): Promise<Cha
       sessionId,
       userId,
       agentId: resolvedAgentId,
+      clientIp,
       callDepth,
       callChain: [...callChain, agentId],
     };
@@ -171,58 +195,91 @@ export async function executeChatPipeline(input: ChatPipelineInput): Promise<Cha
     if (Object.keys(resolvedTools).length > 0) {
       tools = resolvedTools;
       maxSteps = 5;
-      const toolRows = await getToolRows(resolvedAgentId);
-      fullSystemPrompt += buildToolInstructions(toolRows);
+      // Only describe tools the model was given (open breakers are left out)
+      const toolRows = (await getToolRows(resolvedAgentId)).filter((r) => r.name in resolvedTools);
+      sections.push({ name: "tools", text: buildToolInstructions(toolRows), priority: CONTEXT_PRIORITY.tools });
     }
   } catch (error) {
     console.error("Failed to resolve tools:", error);
   }
 
-  // Deduct platform cost BEFORE the LLM call (atomic, prevents race conditions)
-  if (!resolved.isByok && resolvedAgentId) {
-    const deducted = await deductPlatformCost(resolvedAgentId);
-    if (!deducted) {
-      throw new InsufficientBalanceError(
-        "Agent creator has insufficient platform balance for inference."
-      );
-    }
+  if (extraTools && Object.keys(extraTools).length > 0) {
+    tools = { ...tools, ...extraTools };
+    maxSteps = maxSteps ?? 5;
+  }
+
+  // Newest turns verbatim, older ones folded into the session summary
+  const context = await buildChatContext({
+    sessionId,
+    agentId: resolvedAgentId,
+    userId,
+    modelId: narrowestModelId(chain.map((c) => c.modelId)),
+    system: basePrompt,
+    sections,
+    messages,
+  });
+
+  // Reserve the estimated cost BEFORE the LLM call (atomic, prevents race conditions)
+  const run = await startModelRun(resolvedAgentId, chain, {
+    promptTokens: context.promptTokens,
+    maxSteps,
+    sessionId,
+  });
+  if (!run) {
+    throw new InsufficientBalanceError(
+      "Agent creator has insufficient platform balance for inference."
+    );
   }
 
+  const answeredBy = () => ({ provider: run.current().provider, modelId: run.current().modelId });
+
   if (stream) {
     // Streaming response (for human-facing HTTP)
+    const ctx = await getCtx();
     const result = streamText({
-      model: resolved.model,
-      system: fullSystemPrompt,
-      messages,
+      model: run.model,
+      system: context.system,
+      messages: context.messages,
       tools,
       maxSteps,
+      abortSignal,
+      onFinish: ({ steps }) => {
+        ctx.waitUntil(run.settle(inferenceUsage(steps)));
+      },
       onError: (error) => {
         console.error("AI streaming error:", error);
         // Refund on LLM failure (best-effort)
-        if (!resolved.isByok && resolvedAgentId) {
-          refundPlatformCost(resolvedAgentId);
-        }
+        ctx.waitUntil(run.refund());
       },
     });
 
-    return { stream: result.toDataStreamResponse().body!, citations };
+    // Only fullStream is exposed: an unread data stream branch would buffer the whole run
+    return { fullStream: result.fullStream, citations, answeredBy };
   } else {
     // Non-streaming (for A2A / internal calls)
     try {
       const result = await generateText({
-        model: resolved.model,
-        system: fullSystemPrompt,
-        messages,
+        model: run.model,
+        system: context.system,
+        messages: context.messages,
         tools,
         maxSteps,
+        abortSignal,
       });
+      await run.settle(inferenceUsage(result.steps));
+
+      const answered = new Set((result.toolResults as Array<{ toolCallId: string }>).map((r) => r.toolCallId));
+      const pending = result.toolCalls.filter((call) => !answered.has(call.toolCallId));
 
-      return { text: result.text, citations };
+      return {
+        text: result.text,
+        toolCalls: pending.map((call) => ({ toolName: call.toolName, args: call.args })),
+        citations,
+        answeredBy,
+      };
     } catch (error) {
       // Refund on LLM failure
-      if (!resolved.isByok && resolvedAgentId) {
-        await refundPlatformCost(resolvedAgentId);
-      }
+      await run.refund();
       throw error;
     }
   }
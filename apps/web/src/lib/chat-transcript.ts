@@ -0,0 +1,125 @@
+/**
+ * Chat Transcript
+ * Server-side record of assistant replies. /api/chat writes the final
+ * message when the model stream finishes, with its citations, tool calls,
+ * model, token usage and latency, whether or not the browser is still
+ * connected. Tool executions point at the message through message_id.
+ */
+
+import type { StepResult, ToolSet } from "ai";
+import { getDB } from "./db";
+import { extractMemories } from "./memory";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Mirrors ToolCall in @straits/core */
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  status: "pending" | "completed" | "failed";
+}
+
+export interface AssistantMessageRecord {
+  id: string;
+  sessionId: string;
+  content: string;
+  citations?: unknown;
+  toolCalls: TranscriptToolCall[];
+  modelId: string;
+  usage: { promptTokens: number; completionTokens: number };
+  latencyMs: number;
+  finishReason: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Tool results longer than this are cut in the transcript */
+const MAX_RESULT_CHARS = 4000;
+
+/** Memory extraction runs every this many user messages */
+const EXTRACTION_INTERVAL = 4;
+
+// ─── Tool Calls ─────────────────────────────────────────────────────────────
+
+/**
+ * Collect the tool calls of every step with their results. Calls without a
+ * result are waiting for approval; results reported as errors are failed.
+ */
+export function collectToolCalls(steps: Array<Pick<StepResult<ToolSet>, "toolCalls" | "toolResults">>): TranscriptToolCall[] {
+  return steps.flatMap((step) => {
+    const results = new Map(
+      (step.toolResults as Array<{ toolCallId: string; result: unknown }>).map((r) => [r.toolCallId, r.result])
+    );
+    return step.toolCalls.map((call): TranscriptToolCall => {
+      if (!results.has(call.toolCallId)) {
+        return { id: call.toolCallId, name: call.toolName, arguments: call.args as Record<string, unknown>, status: "pending" };
+      }
+      const result = transcriptResult(results.get(call.toolCallId));
+      return {
+        id: call.toolCallId,
+        name: call.toolName,
+        arguments: call.args as Record<string, unknown>,
+        result,
+        status: typeof result === "string" && /^Error\b/.test(result) ? "failed" : "completed",
+      };
+    });
+  });
+}
+
+/** MCP results keep their text; images stay out of the transcript */
+function transcriptResult(result: unknown): unknown {
+  const value =
+    result && typeof result === "object" && "text" in result ? (result as { text: unknown }).text : result;
+  if (typeof value === "string") {
+    return value.length > MAX_RESULT_CHARS ? value.slice(0, MAX_RESULT_CHARS) + "\n[truncated]" : value;
+  }
+  const json = JSON.stringify(value ?? null);
+  return json.length > MAX_RESULT_CHARS ? json.slice(0, MAX_RESULT_CHARS) + "\n[truncated]" : value;
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+/**
+ * Save an assistant reply and run memory extraction on the usual schedule.
+ * Replies with neither text nor tool calls (failed streams) are skipped.
+ */
+export async function saveAssistantMessage(record: AssistantMessageRecord): Promise<void> {
+  if (!record.content && record.toolCalls.length === 0) return;
+  try {
+    const db = await getDB();
+    const now = new Date().toISOString();
+
+    await db
+      .prepare(
+        `INSERT INTO messages (id, session_id, role, content, citations, tool_calls, model_id, prompt_tokens, completion_tokens, latency_ms, finish_reason, created_at)
+         VALUES (?, ?, 'assistant', ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        record.id,
+        record.sessionId,
+        record.content,
+        record.citations ? JSON.stringify(record.citations) : null,
+        record.toolCalls.length > 0 ? JSON.stringify(record.toolCalls) : null,
+        record.modelId,
+        Number.isFinite(record.usage.promptTokens) ? record.usage.promptTokens : null,
+        Number.isFinite(record.usage.completionTokens) ? record.usage.completionTokens : null,
+        record.latencyMs,
+        record.finishReason,
+        now
+      )
+      .run();
+
+    const session = await db
+      .prepare("UPDATE sessions SET updated_at = ? WHERE id = ? RETURNING agent_id, user_id, queries_used")
+      .bind(now, record.sessionId)
+      .first<{ agent_id: string; user_id: string | null; queries_used: number }>();
+
+    if (session?.user_id && session.queries_used > 0 && session.queries_used % EXTRACTION_INTERVAL === 0) {
+      await extractMemories(record.sessionId, session.agent_id, session.user_id);
+    }
+  } catch (error) {
+    console.error("Failed to save assistant message:", error);
+  }
+}
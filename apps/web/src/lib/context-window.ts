@@ -0,0 +1,432 @@
+/**
+ * Context Window Manager
+ * Fits a chat request into the model's context limit. The newest turns are
+ * sent verbatim; older turns are folded into a rolling per-session summary
+ * (the SessionMemory.summary idea from @straits/core, persisted on
+ * sessions.summary). System prompt sections (tool instructions, RAG, memory,
+ * skills) are fitted by priority and dropped or trimmed when space runs out.
+ *
+ * Token counts are estimates: characters per token for the model family.
+ */
+
+import type { Message } from "ai";
+import { getDB, getEnv, getCtx } from "./db";
+import { deductPlatformCost, settlePlatformCost, refundPlatformCost, type InferenceUsage } from "./inference-billing";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ModelContextProfile {
+  /** Total context window in tokens */
+  contextTokens: number;
+  /** Average characters per token for the model's tokenizer */
+  charsPerToken: number;
+}
+
+export interface ContextSection {
+  /** Label reported in `dropped` */
+  name: string;
+  /** Text appended to the system prompt, including its leading separator */
+  text: string;
+  /** Lower numbers are fitted first */
+  priority: number;
+  /** Cut at a line boundary to fit instead of dropping the whole section */
+  truncatable?: boolean;
+}
+
+export interface FittedContext {
+  system: string;
+  messages: Message[];
+  /** Earlier messages left out of `messages`, oldest first */
+  folded: Message[];
+  /** Sections that did not fit */
+  dropped: string[];
+  /** Estimated prompt tokens */
+  promptTokens: number;
+}
+
+/** A stored message; created_at orders turns and marks summary progress */
+export interface StoredMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+export interface SessionHistory {
+  /** Unsummarized messages, oldest first */
+  messages: StoredMessage[];
+  summary: string | null;
+  /** created_at of the newest message folded into the summary */
+  summaryThrough: string | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Section priorities: tool instructions first, since the tools are sent anyway */
+export const CONTEXT_PRIORITY = {
+  tools: 1,
+  rag: 2,
+  memory: 3,
+  skills: 4,
+  summary: 5,
+} as const;
+
+const MODEL_PROFILES: Array<{ match: RegExp; profile: ModelContextProfile }> = [
+  // Workers AI serves most models with shorter windows than their hosted versions
+  { match: /^@cf\//, profile: { contextTokens: 24_000, charsPerToken: 3.5 } },
+  { match: /claude/i, profile: { contextTokens: 200_000, charsPerToken: 3.5 } },
+  { match: /gemini/i, profile: { contextTokens: 1_000_000, charsPerToken: 4 } },
+  { match: /gpt-3\.5/i, profile: { contextTokens: 16_000, charsPerToken: 4 } },
+  { match: /gpt-4o|gpt-4\.1|gpt-5|\bo[134]\b|\bo[134]-/i, profile: { contextTokens: 128_000, charsPerToken: 4 } },
+  { match: /llama|mistral|mixtral|qwen|deepseek|gemma/i, profile: { contextTokens: 32_000, charsPerToken: 3.5 } },
+];
+
+/** Unknown models get a conservative window */
+const DEFAULT_PROFILE: ModelContextProfile = { contextTokens: 32_000, charsPerToken: 3.5 };
+
+/** Left free for the response and tool call arguments */
+const OUTPUT_RESERVE_TOKENS = 4096;
+/** Role markers and formatting per message */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Trimmed sections smaller than this are dropped instead */
+const MIN_SECTION_TOKENS = 100;
+
+/** Most earlier messages sent verbatim, including the latest turn */
+export const MAX_VERBATIM_MESSAGES = 24;
+/** A fold leaves this many newest messages unsummarized, so folds run every few turns */
+const KEEP_VERBATIM_AFTER_FOLD = 12;
+/** Unsummarized messages loaded per request */
+const HISTORY_FETCH_LIMIT = 40;
+
+const SUMMARY_MODEL = "google/gemini-2.0-flash-001";
+const MAX_SUMMARY_INPUT_CHARS = 2000;
+const MAX_SUMMARY_OUTPUT_TOKENS = 500;
+const SUMMARY_PROMPT =
+  "You maintain a running summary of a conversation between a user and an agent. Merge the new turns into the existing summary. Keep the user's goals, facts, names, numbers, decisions and open questions. Drop small talk. Write plain prose under 250 words. Output only the summary.";
+
+// ─── Token Estimates ────────────────────────────────────────────────────────
+
+export function getModelProfile(modelId: string): ModelContextProfile {
+  return MODEL_PROFILES.find((p) => p.match.test(modelId))?.profile ?? DEFAULT_PROFILE;
+}
+
+/** The model with the smallest window, so a context fits every model in a fallback chain */
+export function narrowestModelId(modelIds: string[]): string {
+  return modelIds.reduce((narrowest, id) =>
+    getModelProfile(id).contextTokens < getModelProfile(narrowest).contextTokens ? id : narrowest
+  );
+}
+
+export function estimateTokens(text: string, profile: ModelContextProfile = DEFAULT_PROFILE): number {
+  return Math.ceil(text.length / profile.charsPerToken);
+}
+
+function messageTokens(message: Message, profile: ModelContextProfile): number {
+  const invocations = message.toolInvocations ? JSON.stringify(message.toolInvocations) : "";
+  return estimateTokens(message.content + invocations, profile) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/** Keep whole lines that fit; a first line that does not fit is cut */
+function truncateToTokens(text: string, maxTokens: number, profile: ModelContextProfile): string {
+  const maxChars = Math.floor(maxTokens * profile.charsPerToken);
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lastLine = cut.lastIndexOf("\n");
+  return (lastLine > maxChars / 2 ? cut.slice(0, lastLine) : cut) + "\n[truncated]";
+}
+
+// ─── Fitting ────────────────────────────────────────────────────────────────
+
+/**
+ * Fit the system prompt, sections, summary and conversation into the
+ * model's window. The base system prompt and the latest turn (from the last
+ * user message on) are always sent; sections follow by priority, then the
+ * newest earlier messages fill what is left, up to MAX_VERBATIM_MESSAGES.
+ */
+export function fitContextWindow(input: {
+  modelId: string;
+  system: string;
+  sections: ContextSection[];
+  messages: Message[];
+  summary?: string | null;
+}): FittedContext {
+  const profile = getModelProfile(input.modelId);
+  const budget = profile.contextTokens - OUTPUT_RESERVE_TOKENS;
+  let remaining = budget - estimateTokens(input.system, profile);
+
+  const lastUser = input.messages.map((m) => m.role).lastIndexOf("user");
+  const turnStart = lastUser >= 0 ? lastUser : Math.max(0, input.messages.length - 1);
+  const latest = input.messages.slice(turnStart);
+  for (const message of latest) remaining -= messageTokens(message, profile);
+
+  // The summary goes right after the base prompt; other sections keep their order
+  const candidates: ContextSection[] = [
+    ...(input.summary
+      ? [{ name: "summary", text: `\n\n## Earlier in this conversation\n${input.summary}`, priority: CONTEXT_PRIORITY.summary }]
+      : []),
+    ...input.sections,
+  ];
+
+  const included = new Map<ContextSection, string>();
+  const dropped: string[] = [];
+  for (const section of [...candidates].sort((a, b) => a.priority - b.priority)) {
+    if (!section.text) continue;
+    const tokens = estimateTokens(section.text, profile);
+    if (tokens <= remaining) {
+      included.set(section, section.text);
+      remaining -= tokens;
+    } else if (section.truncatable && remaining >= MIN_SECTION_TOKENS) {
+      const text = truncateToTokens(section.text, remaining, profile);
+      included.set(section, text);
+      remaining -= estimateTokens(text, profile);
+    } else {
+      dropped.push(section.name);
+    }
+  }
+
+  // Newest earlier messages first, stopping at the first one that does not fit
+  const earlier = input.messages.slice(0, turnStart);
+  let keepFrom = earlier.length;
+  while (keepFrom > 0 && earlier.length - keepFrom + latest.length < MAX_VERBATIM_MESSAGES) {
+    const tokens = messageTokens(earlier[keepFrom - 1], profile);
+    if (tokens > remaining) break;
+    remaining -= tokens;
+    keepFrom--;
+  }
+
+  return {
+    system: input.system + candidates.map((s) => included.get(s) ?? "").join(""),
+    messages: [...earlier.slice(keepFrom), ...latest],
+    folded: earlier.slice(0, keepFrom),
+    dropped,
+    promptTokens: budget - remaining,
+  };
+}
+
+// ─── Session History ────────────────────────────────────────────────────────
+
+/**
+ * Combine unsummarized stored turns with the messages a client sent. Browser
+ * clients resend the whole conversation; API clients often send only the
+ * newest message. Client copies win where both exist, since they may carry
+ * tool invocations the transcript does not. Returns the merged list and the
+ * stored created_at of each message backed by a stored row.
+ */
+export function mergeSessionHistory(
+  history: SessionHistory,
+  client: Message[]
+): { messages: Message[]; storedAt: Map<Message, string> } {
+  const stored = history.messages;
+  const storedAt = new Map<Message, string>();
+  const same = (s: StoredMessage, c: Message) => s.id === c.id || (s.role === c.role && s.content === c.content);
+  const toMessage = (s: StoredMessage): Message => {
+    const message: Message = { id: s.id, role: s.role, content: s.content };
+    storedAt.set(message, s.createdAt);
+    return message;
+  };
+
+  const first = client.findIndex((c) => stored.some((s) => same(s, c)));
+  if (first === -1) {
+    return { messages: [...stored.map(toMessage), ...client], storedAt };
+  }
+
+  let cursor = stored.findIndex((s) => same(s, client[first]));
+  // Client messages before the overlap are already summarized when a summary exists
+  const messages = [...(history.summary ? [] : client.slice(0, first)), ...stored.slice(0, cursor).map(toMessage)];
+  for (const message of client.slice(first)) {
+    const match = stored.findIndex((s, i) => i >= cursor && same(s, message));
+    if (match !== -1) {
+      storedAt.set(message, stored[match].createdAt);
+      cursor = match + 1;
+    }
+    messages.push(message);
+  }
+  return { messages, storedAt };
+}
+
+/**
+ * Load a session's summary and its unsummarized messages (newest
+ * HISTORY_FETCH_LIMIT, oldest first). Sessions of another agent or another
+ * user load as empty, so a session ID alone does not expose a transcript.
+ */
+export async function loadSessionHistory(
+  sessionId: string,
+  caller: { agentId: string; userId: string | null }
+): Promise<SessionHistory> {
+  const db = await getDB();
+  const session = await db
+    .prepare("SELECT agent_id, user_id, summary, summary_through FROM sessions WHERE id = ?")
+    .bind(sessionId)
+    .first<{ agent_id: string; user_id: string | null; summary: string | null; summary_through: string | null }>();
+
+  if (!session || session.agent_id !== caller.agentId || (session.user_id && session.user_id !== caller.userId)) {
+    return { messages: [], summary: null, summaryThrough: null };
+  }
+
+  const result = await db
+    .prepare(
+      `SELECT id, role, content, created_at FROM messages
+       WHERE session_id = ? AND created_at > ? AND role IN ('user', 'assistant')
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .bind(sessionId, session.summary_through ?? "", HISTORY_FETCH_LIMIT)
+    .all<{ id: string; role: "user" | "assistant"; content: string; created_at: string }>();
+
+  return {
+    messages: result.results.reverse().map((row) => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      createdAt: row.created_at,
+    })),
+    summary: session.summary,
+    summaryThrough: session.summary_through,
+  };
+}
+
+/**
+ * Build the system prompt and messages for a chat turn. With a session, the
+ * stored transcript and summary are merged in, and a fold is scheduled once
+ * stored turns start falling out of the window.
+ */
+export async function buildChatContext(input: {
+  sessionId: string | null;
+  agentId: string;
+  userId: string | null;
+  modelId: string;
+  system: string;
+  sections: ContextSection[];
+  messages: Message[];
+}): Promise<FittedContext> {
+  let history: SessionHistory | null = null;
+  if (input.sessionId) {
+    try {
+      history = await loadSessionHistory(input.sessionId, { agentId: input.agentId, userId: input.userId });
+    } catch (error) {
+      console.error("Failed to load session history:", error);
+    }
+  }
+
+  const merged = history ? mergeSessionHistory(history, input.messages) : null;
+  const fitted = fitContextWindow({
+    modelId: input.modelId,
+    system: input.system,
+    sections: input.sections,
+    messages: merged?.messages ?? input.messages,
+    summary: history?.summary,
+  });
+
+  if (history && merged && input.sessionId && fitted.folded.some((m) => merged.storedAt.has(m))) {
+    // Fold past what had to go, leaving KEEP_VERBATIM_AFTER_FOLD messages for later turns
+    const foldCount = Math.max(fitted.folded.length, merged.messages.length - KEEP_VERBATIM_AFTER_FOLD);
+    const toFold = merged.messages
+      .slice(0, foldCount)
+      .filter((m) => merged.storedAt.has(m))
+      .map((m) => ({ role: m.role, content: m.content, createdAt: merged.storedAt.get(m)! }));
+    try {
+      const ctx = await getCtx();
+      ctx.waitUntil(foldSessionHistory(input.sessionId, input.agentId, history, toFold));
+    } catch (error) {
+      console.error("Failed to schedule session summary:", error);
+    }
+  }
+
+  return fitted;
+}
+
+// ─── Rolling Summary ────────────────────────────────────────────────────────
+
+/**
+ * Fold turns into the session summary with a fast platform model. The call
+ * is reserved and settled against the agent creator's balance like chat
+ * inference, and skipped when the balance cannot cover it. The update only
+ * applies if no other request moved the summary first.
+ */
+export async function foldSessionHistory(
+  sessionId: string,
+  agentId: string,
+  history: SessionHistory,
+  turns: Array<{ role: string; content: string; createdAt: string }>
+): Promise<void> {
+  if (turns.length === 0) return;
+  try {
+    const env = await getEnv();
+    const apiKey = env.OPENROUTER_API_KEY;
+    if (!apiKey) return;
+
+    const transcript = turns
+      .map((t) => `${t.role === "user" ? "User" : "Agent"}: ${t.content.slice(0, MAX_SUMMARY_INPUT_CHARS)}`)
+      .join("\n");
+    const prompt = `Existing summary:\n${history.summary || "(none)"}\n\nNew turns:\n${transcript}`;
+    const promptTokens = estimateTokens(SUMMARY_PROMPT + prompt, getModelProfile(SUMMARY_MODEL));
+
+    const reservation = await deductPlatformCost(agentId, {
+      modelId: SUMMARY_MODEL,
+      provider: "openrouter",
+      isByok: false,
+      promptTokens,
+      sessionId,
+    });
+    if (!reservation) return;
+
+    let data: {
+      choices: Array<{ message: { content: string } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number; prompt_tokens_details?: { cached_tokens?: number } };
+    };
+    try {
+      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+          "HTTP-Referer": "https://straits-agents-web.mystraits-ai.workers.dev",
+          "X-Title": "Straits Agents Conversation Summary",
+        },
+        body: JSON.stringify({
+          model: SUMMARY_MODEL,
+          messages: [
+            { role: "system", content: SUMMARY_PROMPT },
+            { role: "user", content: prompt },
+          ],
+          temperature: 0.1,
+          max_tokens: MAX_SUMMARY_OUTPUT_TOKENS,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Session summary LLM error: ${response.status}`);
+        await refundPlatformCost(reservation);
+        return;
+      }
+      data = await response.json();
+    } catch (error) {
+      await refundPlatformCost(reservation);
+      throw error;
+    }
+
+    // Without reported usage the call is settled at the prompt estimate and the full output allowance
+    const usage: InferenceUsage = data.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          cachedPromptTokens: data.usage.prompt_tokens_details?.cached_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+        }
+      : { promptTokens, cachedPromptTokens: 0, completionTokens: MAX_SUMMARY_OUTPUT_TOKENS };
+    await settlePlatformCost(reservation, usage);
+
+    const summary = data.choices?.[0]?.message?.content?.trim();
+    if (!summary) return;
+
+    const db = await getDB();
+    await db
+      .prepare(
+        `UPDATE sessions SET summary = ?, summary_through = ?
+         WHERE id = ? AND COALESCE(summary_through, '') = ?`
+      )
+      .bind(summary, turns.reduce((max, t) => (t.createdAt > max ? t.createdAt : max), ""), sessionId, history.summaryThrough ?? "")
+      .run();
+  } catch (error) {
+    console.error("Failed to update session summary:", error);
+  }
+}
@@ -13,6 +13,7 @@ declare global {
     EMBEDDED_WALLET_SECRET: string;
     RELAYER_PRIVATE_KEY: string;
     PAYMASTER_ADDRESS: string;
+    CRON_SECRET: string;
   }
 }
 
@@ -103,6 +103,38 @@ export async function getSmartAccountAddress(
 }
 
 
+/**
+ * Sign a message as the Safe smart account (ERC-1271, or ERC-6492 if the
+ * Safe is not deployed yet). Verifiers must use a public client's verifyMessage.
+ */
+export async function signMessageAsSmartAccount(
+  encryptedPrivateKey: string,
+  secret: string,
+  message: string,
+  chainId: SupportedChainId = 421614,
+): Promise<{ address: Address; signature: Hex }> {
+  const privateKey = await decryptPrivateKey(encryptedPrivateKey, secret);
+  const signer = privateKeyToAccount(privateKey);
+
+  const publicClient = createPublicClient({
+    chain: getChainById(chainId),
+    transport: http(),
+  });
+
+  const safeAccount = await toSafeSmartAccount({
+    client: publicClient,
+    owners: [signer],
+    version: "1.4.1",
+    entryPoint: {
+      address: entryPoint07Address,
+      version: "0.7",
+    },
+    safe4337ModuleAddress: SAFE_ADDRESSES.safe4337Module,
+  });
+
+  return { address: safeAccount.address, signature: await safeAccount.signMessage({ message }) };
+}
+
 /**
  * Send a USDC transfer via ERC-4337 Smart Account with custom UsdcPaymaster.
  * Uses createSmartAccountClient from permissionless to properly handle Safe
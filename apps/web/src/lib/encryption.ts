@@ -18,7 +18,9 @@ export type EncryptionContext =
   | "wallet"       // Embedded wallet private keys
   | "llm-api-key"  // BYOK LLM API keys
   | "webhook"      // Webhook auth headers
+  | "webhook-signing" // Webhook HMAC signing secrets
   | "mcp"          // MCP server auth headers
+  | "a2a-peer"     // Remote A2A peer auth headers
   | "default";     // Backward compatible (no context)
 
 // ─── v2 Key Derivation (PBKDF2) ─────────────────────────────────────────────
@@ -0,0 +1,294 @@
+/**
+ * Inference Billing
+ * Platform-key inference is billed to the agent creator's balance by actual
+ * token usage. Before the LLM call an estimate is reserved (deducted) from
+ * the balance; when the call finishes the reservation is settled against the
+ * usage the provider reported, refunding or charging the difference. Every
+ * request gets a row in inference_ledger, including BYOK requests (recorded
+ * at zero cost), so creators can see what their balance was spent on.
+ *
+ * Prices are USD per million tokens, so tokens × price is micro-USD.
+ * Balances are in cents (1 cent = 10,000 micro-USD) and may be fractional.
+ */
+
+import type { LanguageModelUsage, ProviderMetadata } from "ai";
+import { getDB } from "./db";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ModelPrice {
+  /** USD per million uncached prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+  /** USD per million prompt tokens read from the provider's prompt cache */
+  cachedInput: number;
+}
+
+export interface InferenceUsage {
+  /** All prompt tokens, including cached ones */
+  promptTokens: number;
+  /** Prompt tokens served from the provider's cache */
+  cachedPromptTokens: number;
+  completionTokens: number;
+}
+
+export interface InferenceRequest {
+  modelId: string;
+  provider: string;
+  isByok: boolean;
+  /** Estimated prompt tokens of the first step */
+  promptTokens: number;
+  /** Tool loop steps the model may take; each resends the prompt */
+  maxSteps?: number;
+  sessionId?: string | null;
+  messageId?: string | null;
+}
+
+export interface InferenceReservation {
+  /** inference_ledger row ID */
+  id: string;
+  ownerId: string | null;
+  modelId: string;
+  /** False for BYOK and ownerless agents, which are recorded but not billed */
+  chargeable: boolean;
+  reservedMicros: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const MICROS_PER_CENT = 10_000;
+
+/** Platform-key requests are refused below this balance */
+export const MIN_PLATFORM_BALANCE_CENTS = 1;
+
+/** Output tokens reserved per step; settlement corrects the estimate */
+const ESTIMATED_OUTPUT_TOKENS_PER_STEP = 800;
+const MIN_RESERVATION_MICROS = 1 * MICROS_PER_CENT;
+/** Keeps long tool loops on large models from needing a large balance up front */
+const MAX_RESERVATION_MICROS = 50 * MICROS_PER_CENT;
+
+/** First match wins, so specific IDs come before their families */
+const MODEL_PRICES: Array<{ match: RegExp; price: ModelPrice }> = [
+  { match: /^@cf\/meta\/llama-3\.3-70b/i, price: { input: 0.29, output: 2.25, cachedInput: 0.29 } },
+  { match: /^@cf\//, price: { input: 0.3, output: 2.25, cachedInput: 0.3 } },
+  { match: /gemini-2\.0-flash-lite/i, price: { input: 0.075, output: 0.3, cachedInput: 0.01875 } },
+  { match: /gemini-2\.0-flash/i, price: { input: 0.1, output: 0.4, cachedInput: 0.025 } },
+  { match: /gemini-2\.5-flash-lite/i, price: { input: 0.1, output: 0.4, cachedInput: 0.025 } },
+  { match: /gemini-2\.5-flash/i, price: { input: 0.3, output: 2.5, cachedInput: 0.075 } },
+  { match: /gemini-2\.5-pro/i, price: { input: 1.25, output: 10, cachedInput: 0.31 } },
+  { match: /gpt-4o-mini/i, price: { input: 0.15, output: 0.6, cachedInput: 0.075 } },
+  { match: /gpt-4o/i, price: { input: 2.5, output: 10, cachedInput: 1.25 } },
+  { match: /gpt-4\.1-nano/i, price: { input: 0.1, output: 0.4, cachedInput: 0.025 } },
+  { match: /gpt-4\.1-mini/i, price: { input: 0.4, output: 1.6, cachedInput: 0.1 } },
+  { match: /gpt-4\.1/i, price: { input: 2, output: 8, cachedInput: 0.5 } },
+  { match: /gpt-3\.5/i, price: { input: 0.5, output: 1.5, cachedInput: 0.5 } },
+  { match: /claude-opus-4[.-]5/i, price: { input: 5, output: 25, cachedInput: 0.5 } },
+  { match: /claude.*opus/i, price: { input: 15, output: 75, cachedInput: 1.5 } },
+  { match: /claude.*sonnet/i, price: { input: 3, output: 15, cachedInput: 0.3 } },
+  { match: /claude.*haiku/i, price: { input: 1, output: 5, cachedInput: 0.1 } },
+  { match: /llama-3\.[13]-70b/i, price: { input: 0.13, output: 0.4, cachedInput: 0.13 } },
+  { match: /llama-3\.[12]-(8b|3b|1b)/i, price: { input: 0.05, output: 0.08, cachedInput: 0.05 } },
+  { match: /mistral-small/i, price: { input: 0.1, output: 0.3, cachedInput: 0.1 } },
+  { match: /deepseek/i, price: { input: 0.3, output: 1.2, cachedInput: 0.07 } },
+];
+
+/** Unknown models are billed at mid-size frontier prices */
+const DEFAULT_PRICE: ModelPrice = { input: 3, output: 15, cachedInput: 3 };
+
+// ─── Pricing ────────────────────────────────────────────────────────────────
+
+export function getModelPrice(modelId: string): ModelPrice {
+  return MODEL_PRICES.find((p) => p.match.test(modelId))?.price ?? DEFAULT_PRICE;
+}
+
+/** Cost of a request in micro-USD, rounded up */
+export function inferenceCostMicros(modelId: string, usage: InferenceUsage): number {
+  const price = getModelPrice(modelId);
+  const cached = Math.min(usage.cachedPromptTokens, usage.promptTokens);
+  const micros =
+    (usage.promptTokens - cached) * price.input + cached * price.cachedInput + usage.completionTokens * price.output;
+  return Math.ceil(micros);
+}
+
+/** Reserved up front: the prompt once per step plus a typical reply per step */
+export function estimateReservationMicros(modelId: string, promptTokens: number, maxSteps = 1): number {
+  const steps = Math.max(1, maxSteps);
+  const micros = inferenceCostMicros(modelId, {
+    promptTokens: promptTokens * steps,
+    cachedPromptTokens: 0,
+    completionTokens: ESTIMATED_OUTPUT_TOKENS_PER_STEP * steps,
+  });
+  return Math.min(MAX_RESERVATION_MICROS, Math.max(MIN_RESERVATION_MICROS, micros));
+}
+
+export function microsToCents(micros: number): number {
+  return micros / MICROS_PER_CENT;
+}
+
+// ─── Usage ──────────────────────────────────────────────────────────────────
+
+function finite(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Sum the usage of every step. Cache reads come from provider metadata:
+ * OpenAI counts them inside promptTokens, Anthropic reports them separately.
+ */
+export function inferenceUsage(
+  steps: Array<{ usage: LanguageModelUsage; providerMetadata?: ProviderMetadata }>
+): InferenceUsage {
+  const total: InferenceUsage = { promptTokens: 0, cachedPromptTokens: 0, completionTokens: 0 };
+  for (const step of steps) {
+    const meta = step.providerMetadata;
+    const anthropicRead = finite(meta?.anthropic?.cacheReadInputTokens);
+    const anthropicWrite = finite(meta?.anthropic?.cacheCreationInputTokens);
+    const openrouterUsage = meta?.openrouter?.usage as { promptTokensDetails?: { cachedTokens?: unknown } } | undefined;
+    const includedCached =
+      finite(meta?.openai?.cachedPromptTokens) + finite(openrouterUsage?.promptTokensDetails?.cachedTokens);
+
+    total.promptTokens += finite(step.usage.promptTokens) + anthropicRead + anthropicWrite;
+    total.cachedPromptTokens += includedCached + anthropicRead;
+    total.completionTokens += finite(step.usage.completionTokens);
+  }
+  return total;
+}
+
+// ─── Reservations ───────────────────────────────────────────────────────────
+
+/**
+ * Reserve the estimated cost from the creator's balance BEFORE the LLM call
+ * and open a ledger row. The deduction is atomic (UPDATE WHERE balance >=
+ * estimate), so concurrent requests cannot overdraw. Returns null when the
+ * balance is insufficient. BYOK and ownerless agents are recorded unbilled.
+ */
+export async function deductPlatformCost(
+  agentId: string,
+  request: InferenceRequest
+): Promise<InferenceReservation | null> {
+  const db = await getDB();
+  const agent = await db
+    .prepare("SELECT owner_id FROM agents WHERE id = ?")
+    .bind(agentId)
+    .first<{ owner_id: string | null }>();
+
+  const ownerId = agent?.owner_id ?? null;
+  const chargeable = !request.isByok && ownerId !== null;
+  const reservedMicros = chargeable
+    ? estimateReservationMicros(request.modelId, request.promptTokens, request.maxSteps)
+    : 0;
+
+  if (chargeable) {
+    const cents = microsToCents(reservedMicros);
+    const result = await db
+      .prepare("UPDATE users SET embedded_balance = embedded_balance - ? WHERE id = ? AND embedded_balance >= ?")
+      .bind(cents, ownerId, cents)
+      .run();
+    if ((result.meta.changes ?? 0) === 0) return null;
+  }
+
+  const reservation: InferenceReservation = {
+    id: crypto.randomUUID(),
+    ownerId,
+    modelId: request.modelId,
+    chargeable,
+    reservedMicros,
+  };
+
+  try {
+    await db
+      .prepare(
+        `INSERT INTO inference_ledger (id, agent_id, owner_id, session_id, message_id, model_id, provider, is_byok, reserved_micros, status, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'reserved', ?)`
+      )
+      .bind(
+        reservation.id,
+        agentId,
+        ownerId,
+        request.sessionId ?? null,
+        request.messageId ?? null,
+        request.modelId,
+        request.provider,
+        request.isByok ? 1 : 0,
+        reservedMicros,
+        new Date().toISOString()
+      )
+      .run();
+  } catch (error) {
+    // Without a ledger row the reservation could never be settled
+    if (chargeable) {
+      await db
+        .prepare("UPDATE users SET embedded_balance = embedded_balance + ? WHERE id = ?")
+        .bind(microsToCents(reservedMicros), ownerId)
+        .run();
+    }
+    throw error;
+  }
+
+  return reservation;
+}
+
+/**
+ * Settle a reservation against the reported usage: the ledger row records
+ * the tokens and cost, and the balance gets the reservation back minus the
+ * actual cost. A cost above the reservation is charged in full, even if the
+ * balance goes below zero. Best-effort — logs errors but doesn't throw.
+ */
+export async function settlePlatformCost(reservation: InferenceReservation, usage: InferenceUsage): Promise<void> {
+  try {
+    const db = await getDB();
+    const costMicros = reservation.chargeable ? inferenceCostMicros(reservation.modelId, usage) : 0;
+
+    // Only the first settle or refund of a reservation moves the balance
+    const settled = await db
+      .prepare(
+        `UPDATE inference_ledger
+         SET status = 'settled', prompt_tokens = ?, cached_prompt_tokens = ?, completion_tokens = ?, cost_micros = ?, settled_at = ?
+         WHERE id = ? AND status = 'reserved'`
+      )
+      .bind(
+        usage.promptTokens,
+        usage.cachedPromptTokens,
+        usage.completionTokens,
+        costMicros,
+        new Date().toISOString(),
+        reservation.id
+      )
+      .run();
+
+    const difference = reservation.reservedMicros - costMicros;
+    if ((settled.meta.changes ?? 0) === 0 || !reservation.chargeable || difference === 0) return;
+
+    await db
+      .prepare("UPDATE users SET embedded_balance = embedded_balance + ? WHERE id = ?")
+      .bind(microsToCents(difference), reservation.ownerId)
+      .run();
+  } catch (error) {
+    console.error("Failed to settle inference cost:", error);
+  }
+}
+
+/**
+ * Refund a reservation in full on LLM failure. Best-effort — logs errors but doesn't throw.
+ */
+export async function refundPlatformCost(reservation: InferenceReservation): Promise<void> {
+  try {
+    const db = await getDB();
+    const refunded = await db
+      .prepare(
+        "UPDATE inference_ledger SET status = 'refunded', cost_micros = 0, settled_at = ? WHERE id = ? AND status = 'reserved'"
+      )
+      .bind(new Date().toISOString(), reservation.id)
+      .run();
+
+    if ((refunded.meta.changes ?? 0) === 0 || !reservation.chargeable || reservation.reservedMicros === 0) return;
+
+    await db
+      .prepare("UPDATE users SET embedded_balance = embedded_balance + ? WHERE id = ?")
+      .bind(microsToCents(reservation.reservedMicros), reservation.ownerId)
+      .run();
+  } catch (error) {
+    console.error("Failed to refund platform cost:", error);
+  }
+}
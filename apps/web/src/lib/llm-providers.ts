@@ -1,27 +1,63 @@
 /**
  * LLM Provider Factory for BYOK (Bring Your Own Key)
- * Resolves the correct AI model based on agent's BYOK configuration
+ * Resolves the correct AI model based on agent's BYOK configuration.
+ * Workers AI is the exception: it runs on the platform's AI binding, needs
+ * no key and is billed to the creator's balance like the OpenRouter default.
  */
 
 import { createOpenAI } from "@ai-sdk/openai";
 import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createMistral } from "@ai-sdk/mistral";
+import { createGroq } from "@ai-sdk/groq";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import type { LanguageModel } from "ai";
+import { createWorkersAI } from "workers-ai-provider";
+import type { Ai } from "@cloudflare/workers-types";
+import { generateText, streamText, tool, type LanguageModel } from "ai";
+import { z } from "zod";
 import { getDB, getEnv } from "./db";
 import { decrypt } from "./encryption";
+import { MIN_PLATFORM_BALANCE_CENTS } from "./inference-billing";
 
-export type LlmProvider = "openai" | "anthropic" | "openrouter";
+export type LlmProvider =
+  | "openai"
+  | "anthropic"
+  | "openrouter"
+  | "google"
+  | "mistral"
+  | "groq"
+  | "openai-compatible"
+  | "workers-ai";
 
-const VALID_PROVIDERS: LlmProvider[] = ["openai", "anthropic", "openrouter"];
+const VALID_PROVIDERS: LlmProvider[] = [
+  "openai",
+  "anthropic",
+  "openrouter",
+  "google",
+  "mistral",
+  "groq",
+  "openai-compatible",
+  "workers-ai",
+];
 
-const DEFAULT_MODELS: Record<LlmProvider, string> = {
+/** Platform models: OpenRouter with the platform key, or Workers AI */
+export type PlatformProvider = "openrouter" | "workers-ai";
+
+/** OpenAI-compatible endpoints have no default; the model must be set */
+const DEFAULT_MODELS: Record<LlmProvider, string | null> = {
   openai: "gpt-4o-mini",
   anthropic: "claude-sonnet-4-5-20250929",
   openrouter: "google/gemini-2.0-flash-001",
+  google: "gemini-2.0-flash",
+  mistral: "mistral-small-latest",
+  groq: "llama-3.3-70b-versatile",
+  "openai-compatible": null,
+  "workers-ai": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
 };
 
-// Estimated cost per query in cents (for platform balance deduction)
-const PLATFORM_COST_PER_QUERY_CENTS = 5; // $0.005
+/** Self-hosted servers may run without auth; Workers AI uses the AI binding */
+const KEY_OPTIONAL_PROVIDERS = new Set<LlmProvider>(["openai-compatible", "workers-ai"]);
 
 export interface ResolvedModel {
   model: LanguageModel;
@@ -30,11 +66,27 @@ export interface ResolvedModel {
   isByok: boolean;
 }
 
+/**
+ * A fallback after the agent's primary model, configured in agents.llm_fallbacks.
+ * "byok" uses the agent's own provider and key; "platform" uses the platform's
+ * OpenRouter key or Workers AI, billed to the creator's balance.
+ */
+export interface FallbackEntry {
+  source: "byok" | "platform";
+  /** Platform entries only; defaults to OpenRouter */
+  provider?: PlatformProvider;
+  /** Defaults to the provider's default model */
+  model?: string;
+}
+
+export const MAX_FALLBACKS = 3;
+
 interface AgentLlmRow {
   llm_provider: string | null;
   encrypted_llm_api_key: string | null;
   llm_model: string | null;
   llm_base_url: string | null;
+  llm_fallbacks: string | null;
   owner_id: string | null;
 }
 
@@ -42,53 +94,188 @@ export function isValidProvider(provider: string): provider is LlmProvider {
   return VALID_PROVIDERS.includes(provider as LlmProvider);
 }
 
+export function providerRequiresKey(provider: LlmProvider): boolean {
+  return !KEY_OPTIONAL_PROVIDERS.has(provider);
+}
+
+/** Null for OpenAI-compatible endpoints, which need an explicit model */
+export function getDefaultModel(provider: LlmProvider): string | null {
+  return DEFAULT_MODELS[provider];
+}
+
+/**
+ * Validate LLM settings from the agents API or a connection test.
+ * Returns an error message, or null when the settings are usable.
+ */
+export function validateLlmConfig(config: {
+  provider: string;
+  apiKey?: string | null;
+  model?: string | null;
+  baseUrl?: string | null;
+  /** An encrypted key is already stored for the agent */
+  hasStoredKey?: boolean;
+}): string | null {
+  const { provider, apiKey, model, baseUrl, hasStoredKey } = config;
+  if (!isValidProvider(provider)) {
+    return `llmProvider must be one of: ${VALID_PROVIDERS.join(", ")}`;
+  }
+  if (providerRequiresKey(provider) && !apiKey?.trim() && !hasStoredKey) {
+    return "llmApiKey is required when llmProvider is set";
+  }
+  if (provider === "openai-compatible" && (!baseUrl?.trim() || !model?.trim())) {
+    return "llmBaseUrl and llmModel are required for OpenAI-compatible endpoints";
+  }
+  if (baseUrl?.trim() && provider !== "workers-ai") {
+    try {
+      if (!["http:", "https:"].includes(new URL(baseUrl.trim()).protocol)) throw new Error();
+    } catch {
+      return "llmBaseUrl must be an http(s) URL";
+    }
+  }
+  return null;
+}
+
 /**
- * Resolve the LLM model for an agent based on BYOK configuration.
- * Falls back to platform OpenRouter key if no BYOK key is set.
- * For platform-key agents, checks and deducts from creator's balance.
+ * Validate a fallback list from the agents API (array or JSON string).
+ * Returns null when malformed.
  */
-export async function resolveModel(resolvedAgentId: string): Promise<ResolvedModel> {
+export function parseFallbackChain(raw: unknown): FallbackEntry[] | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(value) || value.length > MAX_FALLBACKS) return null;
+
+  const entries: FallbackEntry[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const { source, provider, model } = item as Record<string, unknown>;
+    if (source !== "byok" && source !== "platform") return null;
+    if (provider !== undefined && provider !== null && (source !== "platform" || (provider !== "openrouter" && provider !== "workers-ai"))) {
+      return null;
+    }
+    if (model !== undefined && model !== null && typeof model !== "string") return null;
+    const trimmed = typeof model === "string" ? model.trim() : "";
+    entries.push({
+      source,
+      ...(provider === "workers-ai" && { provider }),
+      ...(trimmed && { model: trimmed }),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Resolve the agent's models in the order they should be tried: the primary
+ * (BYOK if a key is set, otherwise the platform OpenRouter key), then the
+ * configured fallbacks. Candidates that cannot be resolved (missing key,
+ * creator balance too low for platform inference) are left out; when none
+ * is left, the first error is thrown. The cost of platform candidates is
+ * reserved and settled by inference-billing.
+ */
+export async function resolveModelChain(resolvedAgentId: string): Promise<ResolvedModel[]> {
   const db = await getDB();
-  const env = await getEnv();
 
-  // Fetch agent's LLM config
   const agent = await db
-    .prepare("SELECT llm_provider, encrypted_llm_api_key, llm_model, llm_base_url, owner_id FROM agents WHERE id = ?")
+    .prepare("SELECT llm_provider, encrypted_llm_api_key, llm_model, llm_base_url, llm_fallbacks, owner_id FROM agents WHERE id = ?")
     .bind(resolvedAgentId)
     .first<AgentLlmRow>();
 
+  const primaryModel = agent?.llm_model || undefined;
+  const primary: FallbackEntry =
+    agent?.llm_provider === "workers-ai"
+      ? { source: "platform", provider: "workers-ai", model: primaryModel }
+      : hasByokConfig(agent)
+        ? { source: "byok", model: primaryModel }
+        : { source: "platform", model: primaryModel };
+  const entries: FallbackEntry[] = [
+    primary,
+    ...((agent?.llm_fallbacks && parseFallbackChain(agent.llm_fallbacks)) || []),
+  ];
+
+  const chain: ResolvedModel[] = [];
+  let firstError: unknown;
+  for (const entry of entries) {
+    try {
+      const resolved = await resolveEntry(entry, agent);
+      const duplicate = chain.some(
+        (c) => c.provider === resolved.provider && c.modelId === resolved.modelId && c.isByok === resolved.isByok
+      );
+      if (!duplicate) chain.push(resolved);
+    } catch (error) {
+      console.error(`Failed to resolve ${entry.source} model:`, error);
+      firstError ??= error;
+    }
+  }
+
+  if (chain.length === 0) {
+    throw firstError ?? new Error("No LLM model available");
+  }
+  return chain;
+}
+
+/** A BYOK provider with its key, or a keyless endpoint such as a local vLLM server */
+function hasByokConfig(agent: AgentLlmRow | null): boolean {
+  if (!agent?.llm_provider || !isValidProvider(agent.llm_provider) || agent.llm_provider === "workers-ai") return false;
+  return !!agent.encrypted_llm_api_key || !providerRequiresKey(agent.llm_provider);
+}
+
+async function resolveEntry(entry: FallbackEntry, agent: AgentLlmRow | null): Promise<ResolvedModel> {
+  const db = await getDB();
+  const env = await getEnv();
+
   // BYOK path: agent has its own API key
-  if (agent?.llm_provider && agent?.encrypted_llm_api_key) {
+  if (entry.source === "byok") {
+    if (!agent || !hasByokConfig(agent)) {
+      throw new Error("Agent has no BYOK API key configured");
+    }
     const provider = agent.llm_provider as LlmProvider;
-    const apiKey = await decrypt(agent.encrypted_llm_api_key, env.EMBEDDED_WALLET_SECRET, "llm-api-key");
-    const modelId = agent.llm_model || DEFAULT_MODELS[provider];
+    const apiKey = agent.encrypted_llm_api_key
+      ? await decrypt(agent.encrypted_llm_api_key, env.EMBEDDED_WALLET_SECRET, "llm-api-key")
+      : undefined;
+    const modelId = entry.model || DEFAULT_MODELS[provider];
+    if (!modelId) {
+      throw new Error(`A model is required for ${provider}`);
+    }
     const baseURL = agent.llm_base_url || undefined;
 
-    const model = createProviderModel(provider, apiKey, modelId, baseURL);
+    const model = createProviderModel(provider, { apiKey, modelId, baseURL });
     return { model, provider, modelId, isByok: true };
   }
 
+  const platformProvider: PlatformProvider = entry.provider ?? "openrouter";
+
   // Platform path: use platform's OpenRouter key
   const apiKey = env.OPENROUTER_API_KEY;
-  if (!apiKey) {
+  if (platformProvider === "openrouter" && !apiKey) {
     throw new Error("Platform API key not configured");
   }
 
-  // Check creator's platform balance for non-BYOK agents
+  // Check creator's platform balance for platform inference
   if (agent?.owner_id) {
     const owner = await db
       .prepare("SELECT embedded_balance FROM users WHERE id = ?")
       .bind(agent.owner_id)
       .first<{ embedded_balance: number }>();
 
-    if (owner && owner.embedded_balance < PLATFORM_COST_PER_QUERY_CENTS) {
+    if (owner && owner.embedded_balance < MIN_PLATFORM_BALANCE_CENTS) {
       throw new InsufficientBalanceError(
         "Agent creator has insufficient platform balance for inference. Please add funds or configure a BYOK API key."
       );
     }
   }
 
-  const modelId = agent?.llm_model || DEFAULT_MODELS.openrouter;
+  if (platformProvider === "workers-ai") {
+    const modelId = entry.model || DEFAULT_MODELS["workers-ai"]!;
+    const model = createProviderModel("workers-ai", { modelId, ai: env.AI });
+    return { model, provider: "workers-ai", modelId, isByok: false };
+  }
+
+  const modelId = entry.model || DEFAULT_MODELS.openrouter!;
   const openrouter = createOpenRouter({
     apiKey,
     headers: {
@@ -100,52 +287,18 @@ export async function resolveModel(resolvedAgentId: string): Promise<ResolvedMod
   return { model: openrouter(modelId) as unknown as LanguageModel, provider: "openrouter", modelId, isByok: false };
 }
 
-/**
- * Atomically deduct platform inference cost from creator's balance BEFORE the LLM call.
- * Returns true if deduction succeeded, false if insufficient balance.
- * Uses UPDATE WHERE balance >= cost to prevent races.
- */
-export async function deductPlatformCost(agentId: string): Promise<boolean> {
-  const db = await getDB();
-  const agent = await db
-    .prepare("SELECT owner_id, llm_provider FROM agents WHERE id = ?")
-    .bind(agentId)
-    .first<{ owner_id: string | null; llm_provider: string | null }>();
-
-  // Only deduct for platform-key (non-BYOK) agents
-  if (!agent?.owner_id || agent.llm_provider) return true;
-
-  const result = await db
-    .prepare("UPDATE users SET embedded_balance = embedded_balance - ? WHERE id = ? AND embedded_balance >= ?")
-    .bind(PLATFORM_COST_PER_QUERY_CENTS, agent.owner_id, PLATFORM_COST_PER_QUERY_CENTS)
-    .run();
-
-  return (result.meta.changes ?? 0) > 0;
-}
-
-/**
- * Refund platform cost on LLM failure. Best-effort — logs errors but doesn't throw.
- */
-export async function refundPlatformCost(agentId: string): Promise<void> {
-  try {
-    const db = await getDB();
-    const agent = await db
-      .prepare("SELECT owner_id, llm_provider FROM agents WHERE id = ?")
-      .bind(agentId)
-      .first<{ owner_id: string | null; llm_provider: string | null }>();
-
-    if (!agent?.owner_id || agent.llm_provider) return;
-
-    await db
-      .prepare("UPDATE users SET embedded_balance = embedded_balance + ? WHERE id = ?")
-      .bind(PLATFORM_COST_PER_QUERY_CENTS, agent.owner_id)
-      .run();
-  } catch (err) {
-    console.error("Failed to refund platform cost:", err);
-  }
+export interface ProviderModelOptions {
+  modelId: string;
+  /** Optional for OpenAI-compatible endpoints; unused by Workers AI */
+  apiKey?: string;
+  baseURL?: string;
+  /** Workers AI binding */
+  ai?: Ai;
 }
 
-function createProviderModel(provider: LlmProvider, apiKey: string, modelId: string, baseURL?: string): LanguageModel {
+/** Build a model for a provider; also used by the connection test */
+export function createProviderModel(provider: LlmProvider, options: ProviderModelOptions): LanguageModel {
+  const { apiKey, modelId, baseURL } = options;
   switch (provider) {
     case "openai": {
       const openai = createOpenAI({ apiKey, baseURL });
@@ -159,6 +312,29 @@ function createProviderModel(provider: LlmProvider, apiKey: string, modelId: str
       const openrouter = createOpenRouter({ apiKey, baseURL });
       return openrouter(modelId) as unknown as LanguageModel;
     }
+    case "google": {
+      const google = createGoogleGenerativeAI({ apiKey, baseURL });
+      return google(modelId) as unknown as LanguageModel;
+    }
+    case "mistral": {
+      const mistral = createMistral({ apiKey, baseURL });
+      return mistral(modelId) as unknown as LanguageModel;
+    }
+    case "groq": {
+      const groq = createGroq({ apiKey, baseURL });
+      return groq(modelId) as unknown as LanguageModel;
+    }
+    case "openai-compatible": {
+      if (!baseURL) throw new Error("OpenAI-compatible endpoints need a base URL");
+      const compatible = createOpenAICompatible({ name: "openai-compatible", baseURL, apiKey });
+      return compatible(modelId) as unknown as LanguageModel;
+    }
+    case "workers-ai": {
+      if (!options.ai) throw new Error("Workers AI binding not available");
+      // The provider types its binding and model IDs against its own Ai type
+      const workersai = createWorkersAI({ binding: options.ai as unknown as Parameters<typeof createWorkersAI>[0]["binding"] });
+      return workersai(modelId as Parameters<typeof workersai>[0]) as unknown as LanguageModel;
+    }
     default:
       throw new Error(`Unsupported LLM provider: ${provider}`);
   }
@@ -170,3 +346,102 @@ export class InsufficientBalanceError extends Error {
     this.name = "InsufficientBalanceError";
   }
 }
+
+export interface ModelCapabilities {
+  streaming: boolean;
+  toolCalling: boolean;
+  vision: boolean;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number | null;
+  capabilities: ModelCapabilities;
+  error?: string;
+}
+
+/** Each probe call is cut off after this long */
+const PROBE_TIMEOUT_MS = 20_000;
+
+/** 1×1 white PNG for the vision probe */
+const PROBE_IMAGE = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC"),
+  (c) => c.charCodeAt(0)
+);
+
+/**
+ * Make a minimal streamed completion, then probe tool calling and image
+ * input with tiny requests. The connection is ok when either a streamed
+ * or a plain completion succeeds; a failed probe only clears its flag.
+ */
+export async function testModelConnection(model: LanguageModel): Promise<ConnectionTestResult> {
+  const capabilities: ModelCapabilities = { streaming: false, toolCalling: false, vision: false };
+  const started = Date.now();
+  const base = { model, maxTokens: 16, maxRetries: 0 };
+
+  try {
+    let streamError: unknown;
+    const result = streamText({
+      ...base,
+      prompt: "Reply with OK.",
+      abortSignal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+    await result.consumeStream();
+    if (streamError) throw streamError;
+    await result.text;
+    capabilities.streaming = true;
+  } catch (error) {
+    console.error("Streaming probe failed:", error);
+    try {
+      await generateText({ ...base, prompt: "Reply with OK.", abortSignal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    } catch (completionError) {
+      return { ok: false, latencyMs: null, capabilities, error: probeErrorMessage(completionError) };
+    }
+  }
+  const latencyMs = Date.now() - started;
+
+  try {
+    const { toolCalls } = await generateText({
+      ...base,
+      maxTokens: 64,
+      prompt: "Call the ping tool.",
+      tools: { ping: tool({ description: "Connectivity check", parameters: z.object({}) }) },
+      toolChoice: "required",
+      abortSignal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    capabilities.toolCalling = toolCalls.length > 0;
+  } catch (error) {
+    console.error("Tool calling probe failed:", error);
+  }
+
+  try {
+    await generateText({
+      ...base,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What color is this image? One word." },
+            { type: "image", image: PROBE_IMAGE, mimeType: "image/png" },
+          ],
+        },
+      ],
+      abortSignal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    capabilities.vision = true;
+  } catch (error) {
+    console.error("Vision probe failed:", error);
+  }
+
+  return { ok: true, latencyMs, capabilities };
+}
+
+function probeErrorMessage(error: unknown): string {
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return `No response within ${PROBE_TIMEOUT_MS / 1000}s`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
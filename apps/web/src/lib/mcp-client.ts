@@ -2,10 +2,14 @@
  * MCP Client Library
  * Lightweight Streamable HTTP / SSE client for Model Context Protocol servers.
  * Uses fetch() directly (no @modelcontextprotocol/sdk) for Cloudflare Workers compatibility.
+ * Each server gets a real MCP session: initialize (version and capability
+ * negotiation), notifications/initialized, then requests carrying the
+ * Mcp-Session-Id, which is kept in KV per server and renewed when it expires.
  */
 
-import { getDB, getEnv } from "./db";
+import { getDB, getEnv, getKV } from "./db";
 import { encrypt, decrypt } from "./encryption";
+import { parseRetryAfter } from "./tool-resilience";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -21,7 +25,16 @@ export interface McpServerRow {
   is_active: number;
   last_discovered_at: string | null;
   cached_tools: string | null;
+  cached_resources: string | null;
+  cached_prompts: string | null;
+  /** 'headers' (static auth_headers) or 'oauth' (bearer token from mcp-oauth.ts) */
+  auth_type: string;
+  oauth_config: string | null;
+  needs_reauth: number;
   discovery_error: string | null;
+  consecutive_failures: number;
+  last_latency_ms: number | null;
+  last_checked_at: string | null;
   sort_order: number;
   created_at: string;
   updated_at: string;
@@ -31,6 +44,8 @@ export interface McpToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  /** Behaviour hints from the server; used to decide whether calls may be retried */
+  annotations?: { readOnlyHint?: boolean; idempotentHint?: boolean; destructiveHint?: boolean };
 }
 
 interface JsonRpcRequest {
@@ -40,6 +55,12 @@ interface JsonRpcRequest {
   params?: Record<string, unknown>;
 }
 
+interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
 interface JsonRpcResponse {
   jsonrpc: "2.0";
   id: number;
@@ -47,10 +68,59 @@ interface JsonRpcResponse {
   error?: { code: number; message: string; data?: unknown };
 }
 
+/** Negotiated session state, cached in KV per server */
+export interface McpSession {
+  sessionId: string | null;
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo: { name: string; version?: string } | null;
+}
+
+/** Content items a tools/call result may carry */
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+    }
+  | { type: "resource_link"; uri: string; name?: string; description?: string; mimeType?: string };
+
+/** A tool result converted for the chat pipeline and UI */
+export interface McpToolOutput {
+  text: string;
+  images: Array<{ data: string; mimeType: string }>;
+  resources: Array<{ uri: string; name?: string; mimeType?: string }>;
+  /** The result's structuredContent, used by response mappings */
+  structured?: unknown;
+}
+
+export class McpHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    statusText: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(`MCP server returned HTTP ${status}: ${statusText}`);
+    this.name = "McpHttpError";
+  }
+}
+
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const MCP_TIMEOUT_MS = 10000;
 const KV_CACHE_TTL = 300; // 5 minutes
+const KV_SESSION_TTL = 3600; // Re-initialize at least hourly
+
+/** Newest first; we offer the first and accept any of these from the server */
+const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const CLIENT_INFO = { name: "straits-agents", version: "1.0.0" };
+
+const MAX_LIST_PAGES = 10;
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BASE64 = 1_500_000; // ~1 MB decoded
 
 const SSRF_BLOCKED_PATTERNS = [
   /^https?:\/\/localhost/i,
@@ -74,7 +144,7 @@ const SSRF_BLOCKED_PATTERNS = [
 
 // ─── SSRF Protection ─────────────────────────────────────────────────────────
 
-function isUrlSafe(url: string): boolean {
+export function isUrlSafe(url: string): boolean {
   try {
     const parsed = new URL(url);
     if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
@@ -89,7 +159,7 @@ function isUrlSafe(url: string): boolean {
   }
 }
 
-// ─── JSON-RPC Helpers ────────────────────────────────────────────────────────
+// ─── JSON-RPC Transport ──────────────────────────────────────────────────────
 
 let rpcIdCounter = 1;
 
@@ -102,92 +172,236 @@ function createJsonRpcRequest(method: string, params?: Record<string, unknown>):
   };
 }
 
-async function sendJsonRpc(
+/**
+ * POST one JSON-RPC message. Notifications (no id) expect no reply, so the
+ * response message is null for them. Returns the Mcp-Session-Id the server
+ * assigned, if any. Throws McpHttpError for non-2xx responses.
+ */
+async function postJsonRpc(
   url: string,
-  method: string,
-  params: Record<string, unknown> | undefined,
+  body: JsonRpcRequest | JsonRpcNotification,
   headers: Record<string, string>
-): Promise<JsonRpcResponse> {
-  const body = createJsonRpcRequest(method, params);
+): Promise<{ message: JsonRpcResponse | null; sessionId: string | null }> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), MCP_TIMEOUT_MS);
+  const init = {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal: controller.signal,
+  };
 
   try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...headers,
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-      redirect: "manual", // Prevent SSRF via redirect to internal IPs
-    });
-
-    // Reject redirects to unsafe URLs
+    let response = await fetch(url, { ...init, redirect: "manual" }); // Prevent SSRF via redirect to internal IPs
+
+    // Reject redirects to unsafe URLs, follow one safe redirect
     if (response.status >= 300 && response.status < 400) {
       const location = response.headers.get("location");
       if (!location || !isUrlSafe(new URL(location, url).href)) {
         throw new Error("MCP server redirected to blocked URL");
       }
-      // Follow one safe redirect
-      const redirectResponse = await fetch(new URL(location, url).href, {
-        method: "POST",
-        headers: { "Content-Type": "application/json", Accept: "application/json", ...headers },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-        redirect: "error",
-      });
-      if (!redirectResponse.ok) {
-        throw new Error(`MCP server returned HTTP ${redirectResponse.status}: ${redirectResponse.statusText}`);
-      }
-      const redirectCt = redirectResponse.headers.get("content-type") || "";
-      if (redirectCt.includes("text/event-stream")) {
-        return parseSSEResponse(redirectResponse);
-      }
-      return await redirectResponse.json() as JsonRpcResponse;
+      response = await fetch(new URL(location, url).href, { ...init, redirect: "error" });
     }
 
     if (!response.ok) {
-      throw new Error(`MCP server returned HTTP ${response.status}: ${response.statusText}`);
+      throw new McpHttpError(response.status, response.statusText, parseRetryAfter(response.headers.get("retry-after")));
     }
 
-    const contentType = response.headers.get("content-type") || "";
-
-    // Streamable HTTP may return SSE-style response
-    if (contentType.includes("text/event-stream")) {
-      return parseSSEResponse(response);
+    const sessionId = response.headers.get("mcp-session-id");
+    if (!("id" in body)) {
+      return { message: null, sessionId };
     }
 
-    const result = await response.json() as JsonRpcResponse;
-    return result;
+    // Streamable HTTP may answer with an SSE stream
+    const contentType = response.headers.get("content-type") || "";
+    const message = contentType.includes("text/event-stream")
+      ? await parseSSEResponse(response, body.id)
+      : ((await response.json()) as JsonRpcResponse);
+
+    return { message, sessionId };
   } finally {
     clearTimeout(timeout);
   }
 }
 
-async function parseSSEResponse(response: Response): Promise<JsonRpcResponse> {
+/**
+ * Read SSE frames until the response to our request arrives. Servers may send
+ * their own requests and notifications on the same stream first.
+ */
+async function parseSSEResponse(response: Response, id: number): Promise<JsonRpcResponse> {
   const text = await response.text();
-  const lines = text.split("\n");
-  let lastData = "";
 
-  for (const line of lines) {
-    if (line.startsWith("data: ")) {
-      lastData = line.slice(6);
+  for (const frame of text.split(/\r?\n\r?\n/)) {
+    const data = frame
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) continue;
+
+    const message = JSON.parse(data) as JsonRpcResponse & { method?: string };
+    if (message.id === id && !message.method) {
+      return message;
     }
   }
 
-  if (!lastData) {
-    throw new Error("No data in SSE response");
+  throw new Error("No response to the request in SSE stream");
+}
+
+// ─── Session Lifecycle ───────────────────────────────────────────────────────
+
+function sessionKey(serverId: string): string {
+  return `mcp-session:${serverId}`;
+}
+
+/**
+ * Run the initialize handshake: negotiate the protocol version, record the
+ * server's capabilities and session ID, then send notifications/initialized.
+ */
+async function initializeSession(
+  server: McpServerRow,
+  authHeaders: Record<string, string>
+): Promise<McpSession> {
+  const { message, sessionId } = await postJsonRpc(
+    server.server_url,
+    createJsonRpcRequest("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSIONS[0],
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }),
+    authHeaders
+  );
+
+  if (!message) {
+    throw new Error("MCP server sent no initialize response");
+  }
+  if (message.error) {
+    throw new Error(`MCP initialize error: ${message.error.message}`);
+  }
+
+  const result = message.result as {
+    protocolVersion?: string;
+    capabilities?: Record<string, unknown>;
+    serverInfo?: { name: string; version?: string };
+  };
+  if (!result?.protocolVersion || !MCP_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+    throw new Error(`MCP server requires unsupported protocol version ${result?.protocolVersion ?? "(none)"}`);
+  }
+
+  const session: McpSession = {
+    sessionId,
+    protocolVersion: result.protocolVersion,
+    capabilities: result.capabilities ?? {},
+    serverInfo: result.serverInfo ?? null,
+  };
+
+  await postJsonRpc(
+    server.server_url,
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { ...authHeaders, ...sessionHeaders(session) }
+  );
+
+  const kv = await getKV();
+  await kv.put(sessionKey(server.id), JSON.stringify(session), { expirationTtl: KV_SESSION_TTL });
+
+  return session;
+}
+
+/**
+ * Get the server's session from KV, initializing a new one if there is none.
+ */
+export async function getMcpSession(
+  server: McpServerRow,
+  authHeaders?: Record<string, string>
+): Promise<McpSession> {
+  const kv = await getKV();
+  const cached = await kv.get(sessionKey(server.id));
+  if (cached) {
+    return JSON.parse(cached) as McpSession;
+  }
+  return initializeSession(server, authHeaders ?? (await resolveAuthHeaders(server)));
+}
+
+/**
+ * Forget the server's session, e.g. after its URL or credentials change.
+ */
+export async function resetMcpSession(serverId: string): Promise<void> {
+  const kv = await getKV();
+  await kv.delete(sessionKey(serverId));
+}
+
+function sessionHeaders(session: McpSession): Record<string, string> {
+  return {
+    "MCP-Protocol-Version": session.protocolVersion,
+    ...(session.sessionId && { "Mcp-Session-Id": session.sessionId }),
+  };
+}
+
+/**
+ * Send a request within the server's session. A 404 on a request that
+ * carried a session ID means the server dropped the session, so the client
+ * re-initializes and retries once. For OAuth servers, a 401 refreshes the
+ * access token and retries once.
+ */
+export async function requestMcp(
+  server: McpServerRow,
+  method: string,
+  params?: Record<string, unknown>
+): Promise<unknown> {
+  if (!isUrlSafe(server.server_url)) {
+    throw new Error("MCP server URL is blocked for security reasons");
   }
 
-  return JSON.parse(lastData) as JsonRpcResponse;
+  try {
+    return await requestInSession(server, method, params, await resolveAuthHeaders(server));
+  } catch (error) {
+    if (!(error instanceof McpHttpError) || error.status !== 401 || server.auth_type !== "oauth") throw error;
+    return requestInSession(server, method, params, await resolveAuthHeaders(server, true));
+  }
+}
+
+async function requestInSession(
+  server: McpServerRow,
+  method: string,
+  params: Record<string, unknown> | undefined,
+  authHeaders: Record<string, string>
+): Promise<unknown> {
+  let session = await getMcpSession(server, authHeaders);
+
+  let response: JsonRpcResponse | null;
+  try {
+    ({ message: response } = await postJsonRpc(
+      server.server_url,
+      createJsonRpcRequest(method, params),
+      { ...authHeaders, ...sessionHeaders(session) }
+    ));
+  } catch (error) {
+    if (!(error instanceof McpHttpError) || error.status !== 404 || !session.sessionId) throw error;
+
+    session = await initializeSession(server, authHeaders);
+    ({ message: response } = await postJsonRpc(
+      server.server_url,
+      createJsonRpcRequest(method, params),
+      { ...authHeaders, ...sessionHeaders(session) }
+    ));
+  }
+
+  if (!response) {
+    throw new Error(`MCP server sent no response to ${method}`);
+  }
+  if (response.error) {
+    throw new Error(`MCP ${method} error: ${response.error.message}`);
+  }
+  return response.result;
 }
 
 // ─── Auth Header Helpers ─────────────────────────────────────────────────────
 
-async function decryptAuthHeaders(
+export async function decryptAuthHeaders(
   encryptedHeaders: string | null
 ): Promise<Record<string, string>> {
   if (!encryptedHeaders) return {};
@@ -202,6 +416,19 @@ async function decryptAuthHeaders(
   }
 }
 
+/**
+ * Static headers, plus a bearer token for servers authorized with OAuth.
+ */
+async function resolveAuthHeaders(server: McpServerRow, forceRefresh = false): Promise<Record<string, string>> {
+  const headers = await decryptAuthHeaders(server.auth_headers);
+  if (server.auth_type !== "oauth") return headers;
+
+  // Lazy import: mcp-oauth depends on this module
+  const { getOAuthAccessToken } = await import("./mcp-oauth");
+  const token = await getOAuthAccessToken(server.id, forceRefresh);
+  return { ...headers, Authorization: `Bearer ${token}` };
+}
+
 export async function encryptAuthHeaders(
   headers: Record<string, string>
 ): Promise<string> {
@@ -212,48 +439,25 @@ export async function encryptAuthHeaders(
 // ─── Discovery ───────────────────────────────────────────────────────────────
 
 /**
- * Connect to an MCP server and discover available tools via tools/list.
+ * Discover the server's tools via tools/list, following pagination cursors.
+ * Both transports are driven over POST to the configured URL.
  */
 export async function discoverMcpTools(
   server: McpServerRow
 ): Promise<McpToolDefinition[]> {
-  if (!isUrlSafe(server.server_url)) {
-    throw new Error("MCP server URL is blocked for security reasons");
-  }
-
-  const authHeaders = await decryptAuthHeaders(server.auth_headers);
-
-  // For SSE transport, we need to first connect to get the messages endpoint
-  if (server.transport_type === "sse") {
-    return discoverViaSse(server.server_url, authHeaders, server.tool_filter);
+  let tools: McpToolDefinition[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = (await requestMcp(server, "tools/list", cursor ? { cursor } : {})) as {
+      tools?: McpToolDefinition[];
+      nextCursor?: string;
+    };
+    tools.push(...(result.tools || []));
+    cursor = result.nextCursor;
+    if (!cursor) break;
   }
 
-  // Streamable HTTP: send JSON-RPC directly
-  // Initialize the connection first
-  try {
-    await sendJsonRpc(server.server_url, "initialize", {
-      protocolVersion: "2025-03-26",
-      capabilities: {},
-      clientInfo: { name: "straits-agents", version: "1.0.0" },
-    }, authHeaders);
-  } catch {
-    // Some servers don't require initialization — try tools/list directly
-  }
-
-  const response = await sendJsonRpc(
-    server.server_url,
-    "tools/list",
-    {},
-    authHeaders
-  );
-
-  if (response.error) {
-    throw new Error(`MCP tools/list error: ${response.error.message}`);
-  }
-
-  const result = response.result as { tools?: McpToolDefinition[] };
-  let tools = result.tools || [];
-
   // Apply tool filter if configured
   if (server.tool_filter) {
     const filter = JSON.parse(server.tool_filter) as string[];
@@ -265,91 +469,101 @@ export async function discoverMcpTools(
   return tools;
 }
 
-async function discoverViaSse(
-  url: string,
-  authHeaders: Record<string, string>,
-  toolFilterJson: string | null
-): Promise<McpToolDefinition[]> {
-  // For SSE, send JSON-RPC to the same URL (many SSE servers accept POST)
-  try {
-    await sendJsonRpc(url, "initialize", {
-      protocolVersion: "2025-03-26",
-      capabilities: {},
-      clientInfo: { name: "straits-agents", version: "1.0.0" },
-    }, authHeaders);
-  } catch {
-    // Non-critical
-  }
-
-  const response = await sendJsonRpc(url, "tools/list", {}, authHeaders);
-
-  if (response.error) {
-    throw new Error(`MCP tools/list error: ${response.error.message}`);
-  }
-
-  const result = response.result as { tools?: McpToolDefinition[] };
-  let tools = result.tools || [];
-
-  if (toolFilterJson) {
-    const filter = JSON.parse(toolFilterJson) as string[];
-    if (filter.length > 0) {
-      tools = tools.filter((t) => filter.includes(t.name));
-    }
-  }
-
-  return tools;
-}
-
 // ─── Tool Calling ────────────────────────────────────────────────────────────
 
 /**
- * Call a single MCP tool and return the result.
+ * Call a single MCP tool. Text content is joined into `text`; images are
+ * kept for the model and the chat UI, and resources are either inlined
+ * (text) or listed by URI so the model can refer to them.
  */
 export async function callMcpTool(
   server: McpServerRow,
   toolName: string,
   params: unknown
-): Promise<string> {
-  if (!isUrlSafe(server.server_url)) {
-    throw new Error("MCP server URL is blocked for security reasons");
-  }
+): Promise<McpToolOutput> {
+  const result = (await requestMcp(server, "tools/call", {
+    name: toolName,
+    arguments: params || {},
+  })) as {
+    content?: McpContent[];
+    structuredContent?: unknown;
+    isError?: boolean;
+  };
 
-  const authHeaders = await decryptAuthHeaders(server.auth_headers);
+  const output = convertMcpContent(result.content ?? []);
 
-  const response = await sendJsonRpc(
-    server.server_url,
-    "tools/call",
-    {
-      name: toolName,
-      arguments: params || {},
-    },
-    authHeaders
-  );
+  if (result.isError) {
+    throw new Error(output.text || "MCP tool returned an error");
+  }
 
-  if (response.error) {
-    throw new Error(`MCP tool call error: ${response.error.message}`);
+  if (result.structuredContent !== undefined) {
+    output.structured = result.structuredContent;
+    if (!output.text) output.text = JSON.stringify(result.structuredContent);
   }
+  return output;
+}
 
-  // MCP tool results come as content array
-  const result = response.result as {
-    content?: Array<{ type: string; text?: string }>;
-    isError?: boolean;
+/**
+ * Whether repeating a call is safe, going by the tool's cached annotations.
+ */
+export function isIdempotentMcpTool(server: McpServerRow, toolName: string): boolean {
+  const tools: McpToolDefinition[] = server.cached_tools ? JSON.parse(server.cached_tools) : [];
+  const annotations = tools.find((t) => t.name === toolName)?.annotations;
+  return !!(annotations?.readOnlyHint || annotations?.idempotentHint);
+}
+
+/**
+ * Convert MCP content items into text for the model plus images and
+ * resource references the chat pipeline and UI can show.
+ */
+export function convertMcpContent(content: McpContent[]): McpToolOutput {
+  const text: string[] = [];
+  const images: McpToolOutput["images"] = [];
+  const resources: McpToolOutput["resources"] = [];
+
+  const addImage = (data: string, mimeType: string) => {
+    if (images.length < MAX_IMAGES && data.length <= MAX_IMAGE_BASE64) {
+      images.push({ data, mimeType });
+    } else {
+      text.push(`[Image omitted (${mimeType})]`);
+    }
   };
 
-  if (result.isError) {
-    const errorText = result.content
-      ?.filter((c) => c.type === "text")
-      .map((c) => c.text)
-      .join("\n") || "MCP tool returned an error";
-    throw new Error(errorText);
+  for (const item of content) {
+    switch (item.type) {
+      case "text":
+        text.push(item.text);
+        break;
+      case "image":
+        addImage(item.data, item.mimeType);
+        break;
+      case "resource": {
+        const { uri, mimeType, text: resourceText, blob } = item.resource;
+        resources.push({ uri, mimeType });
+        if (resourceText !== undefined) {
+          text.push(`Resource ${uri}:\n${resourceText}`);
+        } else if (blob && mimeType?.startsWith("image/")) {
+          addImage(blob, mimeType);
+        } else {
+          text.push(`[Embedded resource ${uri}${mimeType ? ` (${mimeType})` : ""}]`);
+        }
+        break;
+      }
+      case "resource_link":
+        resources.push({ uri: item.uri, name: item.name, mimeType: item.mimeType });
+        text.push(
+          `[Resource link: ${item.name || item.uri}${item.description ? ` - ${item.description}` : ""} (${item.uri})]`
+        );
+        break;
+      case "audio":
+        text.push(`[Audio omitted (${item.mimeType})]`);
+        break;
+      default:
+        text.push(`[Unsupported content type: ${(item as { type: string }).type}]`);
+    }
   }
 
-  const textParts = result.content
-    ?.filter((c) => c.type === "text")
-    .map((c) => c.text)
-    .join("\n");
-
-  return textParts || JSON.stringify(result);
+  return { text: text.join("\n"), images, resources };
 }
 
 // ─── Sync Discovered Tools to agent_tools ────────────────────────────────────
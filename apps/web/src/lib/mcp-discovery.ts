@@ -0,0 +1,423 @@
+/**
+ * Scheduled MCP Re-discovery
+ * A cron job re-discovers every active MCP server and diffs the result against
+ * the tools in agent_tools. A compromised server could swap in a dangerous
+ * tool, so new tools and changed definitions are queued for the owner's review
+ * in mcp_tool_changes; only removals take effect immediately. Each run also
+ * records the server's health (consecutive failures, latency).
+ */
+
+import { getDB } from "./db";
+import { discoverMcpTools, type McpServerRow, type McpToolDefinition } from "./mcp-client";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type ToolChangeType = "added" | "removed" | "changed";
+
+export type ToolChangeStatus = "pending" | "approved" | "rejected" | "applied" | "superseded";
+
+export interface ToolChange {
+  toolName: string;
+  changeType: ToolChangeType;
+  previous: McpToolDefinition | null;
+  next: McpToolDefinition | null;
+}
+
+export interface McpToolChange extends ToolChange {
+  id: string;
+  serverId: string;
+  status: ToolChangeStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface ToolChangeRow {
+  id: string;
+  server_id: string;
+  agent_id: string;
+  tool_name: string;
+  change_type: ToolChangeType;
+  previous_definition: string | null;
+  new_definition: string | null;
+  status: ToolChangeStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/** An MCP tool as currently approved in agent_tools */
+interface ApprovedToolRow {
+  id: string;
+  name: string;
+  description: string;
+  parameters_schema: string;
+  is_active: number;
+}
+
+export class ToolChangeError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "ToolChangeError";
+  }
+}
+
+/** Servers re-discovered per cron run, least recently checked first */
+const SCHEDULED_BATCH_SIZE = 20;
+
+// ─── Diffing ────────────────────────────────────────────────────────────────
+
+/** JSON with sorted keys, so key order does not count as a change */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function normalizeTool(tool: McpToolDefinition): McpToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description || "",
+    inputSchema: tool.inputSchema || { type: "object", properties: {} },
+  };
+}
+
+export function sameDefinition(a: McpToolDefinition, b: McpToolDefinition): boolean {
+  return canonicalJson(normalizeTool(a)) === canonicalJson(normalizeTool(b));
+}
+
+/**
+ * Compare the approved tools with what the server now lists. A description
+ * change counts as a change: descriptions are read by the model too.
+ */
+export function diffTools(approved: McpToolDefinition[], discovered: McpToolDefinition[]): ToolChange[] {
+  const approvedMap = new Map(approved.map((t) => [t.name, normalizeTool(t)]));
+  const discoveredMap = new Map(discovered.map((t) => [t.name, normalizeTool(t)]));
+  const changes: ToolChange[] = [];
+
+  for (const [name, next] of discoveredMap) {
+    const previous = approvedMap.get(name);
+    if (!previous) {
+      changes.push({ toolName: name, changeType: "added", previous: null, next });
+    } else if (!sameDefinition(previous, next)) {
+      changes.push({ toolName: name, changeType: "changed", previous, next });
+    }
+  }
+  for (const [name, previous] of approvedMap) {
+    if (!discoveredMap.has(name)) {
+      changes.push({ toolName: name, changeType: "removed", previous, next: null });
+    }
+  }
+
+  return changes;
+}
+
+function rowToDefinition(row: ApprovedToolRow): McpToolDefinition {
+  return { name: row.name, description: row.description, inputSchema: JSON.parse(row.parameters_schema) };
+}
+
+// ─── Scheduled Run ──────────────────────────────────────────────────────────
+
+/**
+ * Re-discover the least recently checked servers. Failures are per server
+ * and recorded as health, so one unreachable server does not stop the run.
+ */
+export async function runScheduledDiscovery(): Promise<{ checked: number; failed: number; queued: number }> {
+  const db = await getDB();
+  const servers = await db
+    .prepare(
+      `SELECT s.* FROM mcp_servers s JOIN agents a ON a.id = s.agent_id
+       WHERE s.is_active = 1 AND a.is_active = 1 AND s.needs_reauth = 0
+       ORDER BY s.last_checked_at IS NOT NULL, s.last_checked_at ASC
+       LIMIT ?`
+    )
+    .bind(SCHEDULED_BATCH_SIZE)
+    .all<McpServerRow>();
+
+  let failed = 0;
+  let queued = 0;
+
+  for (const server of servers.results) {
+    const result = await rediscoverServer(server);
+    if (result.error) failed++;
+    queued += result.queued;
+  }
+
+  return { checked: servers.results.length, failed, queued };
+}
+
+/**
+ * Re-discover one server: queue new and changed tools for review, apply
+ * removals, and record health.
+ */
+export async function rediscoverServer(server: McpServerRow): Promise<{ queued: number; error?: string }> {
+  const db = await getDB();
+  const started = Date.now();
+
+  let tools: McpToolDefinition[];
+  try {
+    tools = await discoverMcpTools(server);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Discovery failed";
+    await recordHealth(server.id, Date.now() - started, message);
+    return { queued: 0, error: message };
+  }
+  const latencyMs = Date.now() - started;
+
+  const approved = await getApprovedTools(server);
+  const changes = diffTools(
+    approved.filter((t) => t.is_active === 1).map(rowToDefinition),
+    tools
+  );
+
+  // A tool the owner disabled is not "added" again just because the server still lists it
+  const known = new Map(approved.map((t) => [t.name, t]));
+  const reviewable = changes.filter((c) => {
+    if (c.changeType !== "added") return true;
+    const row = known.get(c.toolName);
+    return !row || !sameDefinition(rowToDefinition(row), c.next!);
+  });
+
+  let queued = 0;
+  for (const change of reviewable) {
+    if (change.changeType === "removed") {
+      await db
+        .prepare("UPDATE agent_tools SET is_active = 0, updated_at = datetime('now') WHERE id = ?")
+        .bind(known.get(change.toolName)!.id)
+        .run();
+      await insertChange(server, change, "applied");
+    } else if (await queueChange(server, change)) {
+      queued++;
+    }
+  }
+
+  // Pending reviews the server has since reverted no longer apply
+  const stillPending = reviewable.filter((c) => c.changeType !== "removed").map((c) => c.toolName);
+  await supersedePending(server.id, stillPending);
+
+  await db
+    .prepare(
+      `UPDATE mcp_servers
+       SET cached_tools = ?, last_discovered_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ?`
+    )
+    .bind(JSON.stringify(tools), server.id)
+    .run();
+  await recordHealth(server.id, latencyMs, null);
+
+  return { queued };
+}
+
+/**
+ * Record the outcome of a discovery attempt. A null error resets the
+ * consecutive failure count.
+ */
+export async function recordHealth(serverId: string, latencyMs: number, error: string | null): Promise<void> {
+  const db = await getDB();
+  await db
+    .prepare(
+      `UPDATE mcp_servers
+       SET consecutive_failures = CASE WHEN ? IS NULL THEN 0 ELSE consecutive_failures + 1 END,
+           discovery_error = ?, last_latency_ms = ?, last_checked_at = datetime('now')
+       WHERE id = ?`
+    )
+    .bind(error, error, latencyMs, serverId)
+    .run();
+}
+
+async function getApprovedTools(server: McpServerRow): Promise<ApprovedToolRow[]> {
+  const db = await getDB();
+  const result = await db
+    .prepare(
+      `SELECT id, name, description, parameters_schema, is_active FROM agent_tools
+       WHERE agent_id = ? AND mcp_server_id = ?`
+    )
+    .bind(server.agent_id, server.id)
+    .all<ApprovedToolRow>();
+  return result.results;
+}
+
+// ─── Change Log ─────────────────────────────────────────────────────────────
+
+async function insertChange(
+  server: McpServerRow,
+  change: ToolChange,
+  status: ToolChangeStatus,
+  reviewedBy: string | null = null
+): Promise<void> {
+  const db = await getDB();
+  await db
+    .prepare(
+      `INSERT INTO mcp_tool_changes (id, server_id, agent_id, tool_name, change_type, previous_definition, new_definition, status, reviewed_by, reviewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      crypto.randomUUID(),
+      server.id,
+      server.agent_id,
+      change.toolName,
+      change.changeType,
+      change.previous ? JSON.stringify(change.previous) : null,
+      change.next ? JSON.stringify(change.next) : null,
+      status,
+      reviewedBy,
+      status === "pending" ? null : new Date().toISOString()
+    )
+    .run();
+}
+
+/**
+ * Queue a change for review unless the same definition is already pending
+ * or was rejected. Returns true when a new review was queued.
+ */
+async function queueChange(server: McpServerRow, change: ToolChange): Promise<boolean> {
+  const db = await getDB();
+  const latest = await db
+    .prepare(
+      `SELECT new_definition, status FROM mcp_tool_changes
+       WHERE server_id = ? AND tool_name = ? AND status IN ('pending', 'rejected')
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .bind(server.id, change.toolName)
+    .first<{ new_definition: string | null; status: ToolChangeStatus }>();
+
+  if (latest?.new_definition && sameDefinition(JSON.parse(latest.new_definition), change.next!)) {
+    return false;
+  }
+
+  await supersedePending(server.id, [], change.toolName);
+  await insertChange(server, change, "pending");
+  return true;
+}
+
+/**
+ * Mark pending reviews superseded: for one tool, or for every tool not in `keep`.
+ */
+async function supersedePending(serverId: string, keep: string[], toolName?: string): Promise<void> {
+  const db = await getDB();
+  const pending = await db
+    .prepare("SELECT id, tool_name FROM mcp_tool_changes WHERE server_id = ? AND status = 'pending'")
+    .bind(serverId)
+    .all<{ id: string; tool_name: string }>();
+
+  for (const row of pending.results) {
+    const stale = toolName ? row.tool_name === toolName : !keep.includes(row.tool_name);
+    if (!stale) continue;
+    await db
+      .prepare("UPDATE mcp_tool_changes SET status = 'superseded', reviewed_at = ? WHERE id = ?")
+      .bind(new Date().toISOString(), row.id)
+      .run();
+  }
+}
+
+/**
+ * Log the changes a manual discovery is about to apply, so the change log
+ * stays complete. The owner ran it, so pending reviews are superseded.
+ */
+export async function recordManualDiscovery(
+  server: McpServerRow,
+  tools: McpToolDefinition[],
+  userId: string
+): Promise<void> {
+  const approved = await getApprovedTools(server);
+  const changes = diffTools(
+    approved.filter((t) => t.is_active === 1).map(rowToDefinition),
+    tools
+  );
+
+  for (const change of changes) {
+    await insertChange(server, change, "applied", userId);
+  }
+  await supersedePending(server.id, []);
+}
+
+function rowToChange(row: ToolChangeRow): McpToolChange {
+  return {
+    id: row.id,
+    serverId: row.server_id,
+    toolName: row.tool_name,
+    changeType: row.change_type,
+    previous: row.previous_definition ? JSON.parse(row.previous_definition) : null,
+    next: row.new_definition ? JSON.parse(row.new_definition) : null,
+    status: row.status,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listToolChanges(serverId: string, limit = 50): Promise<McpToolChange[]> {
+  const db = await getDB();
+  const result = await db
+    .prepare("SELECT * FROM mcp_tool_changes WHERE server_id = ? ORDER BY created_at DESC LIMIT ?")
+    .bind(serverId, limit)
+    .all<ToolChangeRow>();
+  return result.results.map(rowToChange);
+}
+
+// ─── Review ─────────────────────────────────────────────────────────────────
+
+/**
+ * Approve or reject a pending change. Approving an added tool creates (or
+ * re-enables) its agent_tools row; approving a changed tool updates its
+ * description and schema.
+ */
+export async function reviewToolChange(
+  server: McpServerRow,
+  changeId: string,
+  decision: "approve" | "reject",
+  userId: string
+): Promise<McpToolChange> {
+  const db = await getDB();
+  const row = await db
+    .prepare("SELECT * FROM mcp_tool_changes WHERE id = ? AND server_id = ?")
+    .bind(changeId, server.id)
+    .first<ToolChangeRow>();
+
+  if (!row) {
+    throw new ToolChangeError("Change not found", 404);
+  }
+  if (row.status !== "pending") {
+    throw new ToolChangeError(`Change is already ${row.status}`, 409);
+  }
+
+  if (decision === "approve") {
+    const tool = normalizeTool(JSON.parse(row.new_definition!) as McpToolDefinition);
+    const schema = JSON.stringify(tool.inputSchema);
+
+    const result = await db
+      .prepare(
+        `INSERT INTO agent_tools (id, agent_id, name, display_name, description, tool_type, parameters_schema, mcp_server_id, sort_order)
+         VALUES (?, ?, ?, ?, ?, 'mcp', ?, ?, 0)
+         ON CONFLICT(agent_id, name) DO UPDATE SET
+           description = excluded.description,
+           parameters_schema = excluded.parameters_schema,
+           is_active = 1,
+           updated_at = datetime('now')
+         WHERE agent_tools.mcp_server_id = excluded.mcp_server_id`
+      )
+      .bind(crypto.randomUUID(), server.agent_id, tool.name, tool.name, tool.description, schema, server.id)
+      .run();
+
+    // Tool names are unique per agent; another tool already owns this one
+    if (result.meta.changes === 0) {
+      throw new ToolChangeError(`A tool named ${tool.name} already exists on this agent`, 409);
+    }
+  }
+
+  const reviewedAt = new Date().toISOString();
+  await db
+    .prepare("UPDATE mcp_tool_changes SET status = ?, reviewed_by = ?, reviewed_at = ? WHERE id = ?")
+    .bind(decision === "approve" ? "approved" : "rejected", userId, reviewedAt, changeId)
+    .run();
+
+  return rowToChange({
+    ...row,
+    status: decision === "approve" ? "approved" : "rejected",
+    reviewed_by: userId,
+    reviewed_at: reviewedAt,
+  });
+}
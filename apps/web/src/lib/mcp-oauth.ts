@@ -0,0 +1,431 @@
+/**
+ * MCP OAuth 2.1 Authorization
+ * Implements the authorization flow from the MCP spec for servers that do
+ * not accept static headers:
+ * 1. Discover the authorization server (RFC 9728 protected resource
+ *    metadata, then RFC 8414 / OpenID metadata, falling back to default paths)
+ * 2. Register a client dynamically (RFC 7591)
+ * 3. Authorization code + PKCE (S256) with the `resource` indicator (RFC 8707)
+ * The registration, endpoints and tokens are stored encrypted in
+ * mcp_servers.oauth_config. Access tokens are refreshed on demand; a refresh
+ * the authorization server rejects flags the server as needing
+ * re-authorization by the owner.
+ */
+
+import { getDB, getKV } from "./db";
+import {
+  encryptAuthHeaders,
+  decryptAuthHeaders,
+  isUrlSafe,
+  resetMcpSession,
+  type McpServerRow,
+} from "./mcp-client";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Stored (encrypted) per server; all values are strings so it round-trips through encryptAuthHeaders */
+export interface McpOAuthConfig extends Record<string, string | undefined> {
+  resource: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  client_id: string;
+  client_secret?: string;
+  scope?: string;
+  access_token?: string;
+  refresh_token?: string;
+  /** Epoch milliseconds */
+  expires_at?: string;
+}
+
+export interface AuthorizationServerMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+/** Pending authorization, kept in KV between the redirect and the callback */
+interface PendingAuthorization {
+  serverId: string;
+  userId: string;
+  codeVerifier: string;
+  redirectUri: string;
+  /** Encrypted McpOAuthConfig; stored on the server only once tokens arrive */
+  config: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+export class McpAuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpAuthorizationError";
+  }
+}
+
+/** A failed token request; `rejected` when the grant itself is no longer valid */
+class TokenRequestError extends McpAuthorizationError {
+  constructor(
+    message: string,
+    readonly rejected: boolean
+  ) {
+    super(message);
+  }
+}
+
+const PENDING_TTL = 600; // 10 minutes to complete the consent screen
+const REFRESH_MARGIN_MS = 60_000;
+const FETCH_TIMEOUT_MS = 10_000;
+
+const CLIENT_NAME = "Straits Agents";
+
+// ─── Discovery ──────────────────────────────────────────────────────────────
+
+async function fetchJson<T>(
+  url: string,
+  init?: RequestInit
+): Promise<{ status: number; body: T | null; error?: string }> {
+  if (!isUrlSafe(url)) {
+    throw new McpAuthorizationError(`Authorization URL is blocked for security reasons: ${url}`);
+  }
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init?.headers },
+    redirect: "error",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    // OAuth error responses carry the error code (RFC 6749 section 5.2)
+    const failure = (await response.json().catch(() => null)) as { error?: unknown } | null;
+    const error = typeof failure?.error === "string" ? failure.error : undefined;
+    return { status: response.status, body: null, error };
+  }
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+/**
+ * Well-known URL with the path inserted after the well-known segment,
+ * as RFC 8414 and RFC 9728 define for issuers and resources with paths.
+ */
+function wellKnownUrls(base: string, suffix: string): string[] {
+  const url = new URL(base);
+  const path = url.pathname.replace(/\/+$/, "");
+  const urls = [`${url.origin}/.well-known/${suffix}${path}`];
+  if (path) urls.push(`${url.origin}/.well-known/${suffix}`);
+  return urls;
+}
+
+/**
+ * Find the authorization server for an MCP server. The 401 response's
+ * WWW-Authenticate header may point at the protected resource metadata.
+ * Servers without that metadata use their own origin as the issuer.
+ */
+export async function discoverAuthorizationServer(
+  serverUrl: string,
+  wwwAuthenticate?: string | null
+): Promise<AuthorizationServerMetadata> {
+  const hinted = wwwAuthenticate?.match(/resource_metadata="([^"]+)"/)?.[1];
+  let issuer = new URL(serverUrl).origin;
+
+  for (const url of hinted ? [hinted] : wellKnownUrls(serverUrl, "oauth-protected-resource")) {
+    const { body } = await fetchJson<{ authorization_servers?: string[] }>(url);
+    if (body?.authorization_servers?.length) {
+      issuer = body.authorization_servers[0];
+      break;
+    }
+  }
+
+  const candidates = [
+    ...wellKnownUrls(issuer, "oauth-authorization-server"),
+    ...wellKnownUrls(issuer, "openid-configuration"),
+  ];
+  for (const url of candidates) {
+    const { body } = await fetchJson<AuthorizationServerMetadata>(url);
+    if (body?.authorization_endpoint && body.token_endpoint) {
+      if (body.code_challenge_methods_supported && !body.code_challenge_methods_supported.includes("S256")) {
+        throw new McpAuthorizationError("Authorization server does not support PKCE with S256");
+      }
+      return body;
+    }
+  }
+
+  // No metadata: the spec's default endpoints relative to the issuer
+  const origin = new URL(issuer).origin;
+  return {
+    authorization_endpoint: `${origin}/authorize`,
+    token_endpoint: `${origin}/token`,
+    registration_endpoint: `${origin}/register`,
+  };
+}
+
+/**
+ * Register this platform as a public client (PKCE, no secret unless issued).
+ */
+export async function registerClient(
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string
+): Promise<{ client_id: string; client_secret?: string }> {
+  if (!metadata.registration_endpoint) {
+    throw new McpAuthorizationError("Authorization server does not support dynamic client registration");
+  }
+
+  const { status, body } = await fetchJson<{ client_id: string; client_secret?: string }>(
+    metadata.registration_endpoint,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_name: CLIENT_NAME,
+        redirect_uris: [redirectUri],
+        grant_types: ["authorization_code", "refresh_token"],
+        response_types: ["code"],
+        token_endpoint_auth_method: "none",
+      }),
+    }
+  );
+  if (!body?.client_id) {
+    throw new McpAuthorizationError(`Client registration failed (HTTP ${status})`);
+  }
+  return { client_id: body.client_id, client_secret: body.client_secret };
+}
+
+// ─── PKCE ───────────────────────────────────────────────────────────────────
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+// ─── Authorization Flow ─────────────────────────────────────────────────────
+
+/**
+ * Start authorizing a server: discover metadata, register a client, and
+ * return the URL to send the owner to. The PKCE verifier waits in KV.
+ */
+export async function startAuthorization(
+  server: McpServerRow,
+  userId: string,
+  redirectUri: string
+): Promise<string> {
+  // A 401 from the server may carry the resource metadata location
+  let wwwAuthenticate: string | null = null;
+  if (isUrlSafe(server.server_url)) {
+    const probe = await fetch(server.server_url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 0, method: "ping" }),
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }).catch(() => null);
+    wwwAuthenticate = probe?.status === 401 ? probe.headers.get("www-authenticate") : null;
+  }
+
+  const metadata = await discoverAuthorizationServer(server.server_url, wwwAuthenticate);
+  const client = await registerClient(metadata, redirectUri);
+  const scope = wwwAuthenticate?.match(/scope="([^"]+)"/)?.[1] ?? metadata.scopes_supported?.join(" ");
+
+  const config: McpOAuthConfig = {
+    resource: server.server_url,
+    authorization_endpoint: metadata.authorization_endpoint,
+    token_endpoint: metadata.token_endpoint,
+    client_id: client.client_id,
+    ...(client.client_secret && { client_secret: client.client_secret }),
+    ...(scope && { scope }),
+  };
+
+  const { verifier, challenge } = await createPkcePair();
+  const state = base64Url(crypto.getRandomValues(new Uint8Array(24)));
+  const pending: PendingAuthorization = {
+    serverId: server.id,
+    userId,
+    codeVerifier: verifier,
+    redirectUri,
+    config: await encryptConfig(config),
+  };
+  const kv = await getKV();
+  await kv.put(`mcp-oauth:${state}`, JSON.stringify(pending), { expirationTtl: PENDING_TTL });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", client.client_id);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("code_challenge", challenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  url.searchParams.set("state", state);
+  url.searchParams.set("resource", server.server_url);
+  if (scope) url.searchParams.set("scope", scope);
+  return url.toString();
+}
+
+/**
+ * Finish the flow from the callback: exchange the code, store the tokens
+ * and switch the server to OAuth.
+ */
+export async function completeAuthorization(
+  serverId: string,
+  state: string,
+  code: string,
+  userId: string | null
+): Promise<void> {
+  const kv = await getKV();
+  const raw = await kv.get(`mcp-oauth:${state}`);
+  if (!raw) {
+    throw new McpAuthorizationError("Authorization request expired or is unknown");
+  }
+  await kv.delete(`mcp-oauth:${state}`);
+
+  const pending = JSON.parse(raw) as PendingAuthorization;
+  if (pending.userId !== userId) {
+    throw new McpAuthorizationError("Authorization was started by another user");
+  }
+  if (pending.serverId !== serverId) {
+    throw new McpAuthorizationError("Authorization belongs to another MCP server");
+  }
+
+  const config = (await decryptAuthHeaders(pending.config)) as McpOAuthConfig;
+
+  const tokens = await requestToken(config, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+  });
+  await saveConfig(pending.serverId, withTokens(config, tokens));
+
+  const db = await getDB();
+  await db
+    .prepare(
+      `UPDATE mcp_servers SET auth_type = 'oauth', needs_reauth = 0, updated_at = datetime('now') WHERE id = ?`
+    )
+    .bind(pending.serverId)
+    .run();
+  await resetMcpSession(pending.serverId);
+}
+
+// ─── Tokens ─────────────────────────────────────────────────────────────────
+
+async function requestToken(config: McpOAuthConfig, params: Record<string, string>): Promise<TokenResponse> {
+  const body = new URLSearchParams({
+    ...params,
+    client_id: config.client_id,
+    resource: config.resource,
+    ...(config.client_secret && { client_secret: config.client_secret }),
+  });
+
+  const { status, body: tokens, error } = await fetchJson<TokenResponse>(config.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: body.toString(),
+  });
+  if (!tokens?.access_token) {
+    const rejected = error === "invalid_grant" || status === 400 || status === 401;
+    throw new TokenRequestError(`Token request failed (HTTP ${status}${error ? `, ${error}` : ""})`, rejected);
+  }
+  return tokens;
+}
+
+function withTokens(config: McpOAuthConfig, tokens: TokenResponse): McpOAuthConfig {
+  return {
+    ...config,
+    access_token: tokens.access_token,
+    // Servers that do not rotate refresh tokens omit them from refresh responses
+    refresh_token: tokens.refresh_token ?? config.refresh_token,
+    expires_at: tokens.expires_in ? String(Date.now() + tokens.expires_in * 1000) : undefined,
+    ...(tokens.scope && { scope: tokens.scope }),
+  };
+}
+
+/**
+ * Get a usable access token, refreshing it when it is about to expire (or
+ * when the server rejected it). A refresh the authorization server rejects
+ * flags the server for re-authorization; timeouts and 5xx responses only
+ * fail this call. Both throw McpAuthorizationError.
+ */
+export async function getOAuthAccessToken(serverId: string, forceRefresh = false): Promise<string> {
+  const db = await getDB();
+  const row = await db
+    .prepare("SELECT needs_reauth FROM mcp_servers WHERE id = ?")
+    .bind(serverId)
+    .first<{ needs_reauth: number }>();
+  const config = await loadConfig(serverId);
+
+  if (row?.needs_reauth || !config?.access_token) {
+    throw new McpAuthorizationError("MCP server needs to be re-authorized by the agent owner");
+  }
+
+  const expiresAt = config.expires_at ? Number(config.expires_at) : Infinity;
+  if (!forceRefresh && expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return config.access_token;
+  }
+
+  if (!config.refresh_token) {
+    return flagForReauth(serverId);
+  }
+
+  try {
+    const tokens = await requestToken(config, { grant_type: "refresh_token", refresh_token: config.refresh_token });
+    await saveConfig(serverId, withTokens(config, tokens));
+    return tokens.access_token;
+  } catch (error) {
+    console.error(`MCP token refresh failed for server ${serverId}:`, error);
+
+    // A concurrent refresh may have won and spent a rotated refresh token
+    const latest = await loadConfig(serverId);
+    if (latest?.access_token && latest.access_token !== config.access_token) {
+      return latest.access_token;
+    }
+    if (error instanceof TokenRequestError && error.rejected) {
+      return flagForReauth(serverId);
+    }
+    throw new McpAuthorizationError("MCP token refresh failed, try again shortly");
+  }
+}
+
+async function flagForReauth(serverId: string): Promise<never> {
+  const db = await getDB();
+  await db
+    .prepare("UPDATE mcp_servers SET needs_reauth = 1, updated_at = datetime('now') WHERE id = ?")
+    .bind(serverId)
+    .run();
+  throw new McpAuthorizationError("MCP server needs to be re-authorized by the agent owner");
+}
+
+// ─── Storage ────────────────────────────────────────────────────────────────
+
+async function loadConfig(serverId: string): Promise<McpOAuthConfig | null> {
+  const db = await getDB();
+  const row = await db
+    .prepare("SELECT oauth_config FROM mcp_servers WHERE id = ? AND is_active = 1")
+    .bind(serverId)
+    .first<{ oauth_config: string | null }>();
+  if (!row?.oauth_config) return null;
+  return (await decryptAuthHeaders(row.oauth_config)) as McpOAuthConfig;
+}
+
+function encryptConfig(config: McpOAuthConfig): Promise<string> {
+  const values = Object.fromEntries(
+    Object.entries(config).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+  return encryptAuthHeaders(values);
+}
+
+async function saveConfig(serverId: string, config: McpOAuthConfig): Promise<void> {
+  const db = await getDB();
+  await db
+    .prepare("UPDATE mcp_servers SET oauth_config = ?, updated_at = datetime('now') WHERE id = ? AND is_active = 1")
+    .bind(await encryptConfig(config), serverId)
+    .run();
+}
@@ -0,0 +1,340 @@
+/**
+ * MCP Resources & Prompts
+ * Discovery lists a server's resources and prompts (when it advertises the
+ * capability) and caches them on the mcp_servers row. Owners attach
+ * resources to the agent's knowledge base (ingested with storeDocument) and
+ * prompts as skills; attachments are re-read from the server on refresh.
+ */
+
+import { getDB } from "./db";
+import { requestMcp, getMcpSession, type McpServerRow } from "./mcp-client";
+import { storeDocument, deleteDocument } from "./rag";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface McpResourceDefinition {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpAttachments {
+  /** URIs of resources in the knowledge base */
+  resources: string[];
+  /** Names of prompts attached as skills */
+  prompts: string[];
+}
+
+const MAX_LIST_PAGES = 10;
+
+/** Resource contents larger than this are not ingested */
+const MAX_RESOURCE_CHARS = 500_000;
+
+// ─── Discovery ──────────────────────────────────────────────────────────────
+
+async function listAll<T>(server: McpServerRow, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = (await requestMcp(server, method, cursor ? { cursor } : {})) as Record<string, unknown>;
+    items.push(...((result[key] as T[] | undefined) ?? []));
+    cursor = result.nextCursor as string | undefined;
+    if (!cursor) break;
+  }
+
+  return items;
+}
+
+/**
+ * List the server's resources and prompts and cache them on the server row.
+ * Servers that do not advertise a capability get an empty list for it.
+ */
+export async function discoverResourcesAndPrompts(
+  server: McpServerRow
+): Promise<{ resources: McpResourceDefinition[]; prompts: McpPromptDefinition[] }> {
+  const { capabilities } = await getMcpSession(server);
+
+  const resources = capabilities.resources
+    ? await listAll<McpResourceDefinition>(server, "resources/list", "resources")
+    : [];
+  const prompts = capabilities.prompts
+    ? await listAll<McpPromptDefinition>(server, "prompts/list", "prompts")
+    : [];
+
+  const db = await getDB();
+  await db
+    .prepare(
+      `UPDATE mcp_servers SET cached_resources = ?, cached_prompts = ?, updated_at = datetime('now') WHERE id = ?`
+    )
+    .bind(JSON.stringify(resources), JSON.stringify(prompts), server.id)
+    .run();
+
+  return { resources, prompts };
+}
+
+// ─── Attachments ────────────────────────────────────────────────────────────
+
+export async function getAttachments(server: McpServerRow): Promise<McpAttachments> {
+  const db = await getDB();
+  const [documents, skills] = await Promise.all([
+    db
+      .prepare(
+        `SELECT source_url FROM documents
+         WHERE agent_id = ? AND json_extract(metadata, '$.mcpServerId') = ?`
+      )
+      .bind(server.agent_id, server.id)
+      .all<{ source_url: string }>(),
+    db
+      .prepare("SELECT mcp_prompt_name FROM agent_skills WHERE mcp_server_id = ? AND is_active = 1")
+      .bind(server.id)
+      .all<{ mcp_prompt_name: string }>(),
+  ]);
+
+  return {
+    resources: documents.results.map((d) => d.source_url),
+    prompts: skills.results.map((s) => s.mcp_prompt_name),
+  };
+}
+
+/**
+ * Make the server's attachments match the owner's selection: ingest newly
+ * selected resources and prompts, and remove deselected ones.
+ */
+export async function setAttachments(
+  server: McpServerRow,
+  selection: McpAttachments
+): Promise<{ attached: number; detached: number }> {
+  const current = await getAttachments(server);
+  const cachedResources: McpResourceDefinition[] = server.cached_resources ? JSON.parse(server.cached_resources) : [];
+  const cachedPrompts: McpPromptDefinition[] = server.cached_prompts ? JSON.parse(server.cached_prompts) : [];
+
+  let attached = 0;
+  let detached = 0;
+
+  for (const uri of selection.resources) {
+    if (current.resources.includes(uri)) continue;
+    const resource = cachedResources.find((r) => r.uri === uri);
+    if (!resource) throw new Error(`Unknown resource: ${uri}`);
+    await ingestResource(server, resource);
+    attached++;
+  }
+  for (const uri of current.resources) {
+    if (selection.resources.includes(uri)) continue;
+    await removeResource(server, uri);
+    detached++;
+  }
+
+  for (const name of selection.prompts) {
+    if (current.prompts.includes(name)) continue;
+    const prompt = cachedPrompts.find((p) => p.name === name);
+    if (!prompt) throw new Error(`Unknown prompt: ${name}`);
+    await upsertPromptSkill(server, prompt);
+    attached++;
+  }
+  for (const name of current.prompts) {
+    if (selection.prompts.includes(name)) continue;
+    const db = await getDB();
+    await db
+      .prepare(
+        `UPDATE agent_skills SET is_active = 0, updated_at = datetime('now')
+         WHERE mcp_server_id = ? AND mcp_prompt_name = ?`
+      )
+      .bind(server.id, name)
+      .run();
+    detached++;
+  }
+
+  return { attached, detached };
+}
+
+/**
+ * Re-read attached resources and prompts after discovery. Resources that
+ * changed are re-ingested; ones the server no longer lists are kept as-is.
+ * Failures are per item, so one bad resource does not block the rest.
+ */
+export async function refreshAttachments(server: McpServerRow): Promise<{ refreshed: number; failed: number }> {
+  const { resources, prompts } = await getAttachments(server);
+  const cachedResources: McpResourceDefinition[] = server.cached_resources ? JSON.parse(server.cached_resources) : [];
+  const cachedPrompts: McpPromptDefinition[] = server.cached_prompts ? JSON.parse(server.cached_prompts) : [];
+
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const uri of resources) {
+    const resource = cachedResources.find((r) => r.uri === uri);
+    if (!resource) continue;
+    try {
+      if (await ingestResource(server, resource)) refreshed++;
+    } catch (error) {
+      console.error(`Failed to refresh MCP resource ${uri}:`, error);
+      failed++;
+    }
+  }
+
+  for (const name of prompts) {
+    const prompt = cachedPrompts.find((p) => p.name === name);
+    if (!prompt) continue;
+    try {
+      await upsertPromptSkill(server, prompt);
+      refreshed++;
+    } catch (error) {
+      console.error(`Failed to refresh MCP prompt ${name}:`, error);
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+// ─── Resources ──────────────────────────────────────────────────────────────
+
+/**
+ * Read a resource's text contents. Binary (blob) contents are skipped.
+ */
+export async function readMcpResource(server: McpServerRow, uri: string): Promise<string> {
+  const result = (await requestMcp(server, "resources/read", { uri })) as {
+    contents?: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+  };
+
+  const text = (result.contents ?? [])
+    .filter((c) => typeof c.text === "string")
+    .map((c) => c.text)
+    .join("\n\n");
+
+  if (!text.trim()) {
+    throw new Error(`Resource ${uri} has no text content`);
+  }
+  if (text.length > MAX_RESOURCE_CHARS) {
+    throw new Error(`Resource ${uri} is too large to ingest`);
+  }
+  return text;
+}
+
+/**
+ * Store a resource in the knowledge base, replacing an earlier copy if its
+ * content changed. Returns false when the stored copy is already current.
+ */
+async function ingestResource(server: McpServerRow, resource: McpResourceDefinition): Promise<boolean> {
+  const content = await readMcpResource(server, resource.uri);
+
+  const db = await getDB();
+  const existing = await db
+    .prepare(
+      `SELECT id, content FROM documents
+       WHERE agent_id = ? AND source_url = ? AND json_extract(metadata, '$.mcpServerId') = ?`
+    )
+    .bind(server.agent_id, resource.uri, server.id)
+    .first<{ id: string; content: string }>();
+
+  if (existing?.content === content) return false;
+  if (existing) await deleteDocument(existing.id);
+
+  await storeDocument({
+    id: existing?.id ?? crypto.randomUUID(),
+    agentId: server.agent_id,
+    title: resource.title || resource.name || resource.uri,
+    content,
+    contentType: resource.mimeType?.startsWith("text/") ? resource.mimeType : "text/plain",
+    sourceUrl: resource.uri,
+    metadata: { mcpServerId: server.id, mcpServerName: server.name },
+  });
+  return true;
+}
+
+async function removeResource(server: McpServerRow, uri: string): Promise<void> {
+  const db = await getDB();
+  const existing = await db
+    .prepare(
+      `SELECT id FROM documents
+       WHERE agent_id = ? AND source_url = ? AND json_extract(metadata, '$.mcpServerId') = ?`
+    )
+    .bind(server.agent_id, uri, server.id)
+    .first<{ id: string }>();
+  if (existing) await deleteDocument(existing.id);
+}
+
+// ─── Prompts ────────────────────────────────────────────────────────────────
+
+/**
+ * Render a prompt's messages as skill instructions. Arguments are filled
+ * with `{name}` placeholders so the model knows what to substitute.
+ */
+export async function renderMcpPrompt(server: McpServerRow, prompt: McpPromptDefinition): Promise<string> {
+  const args = Object.fromEntries((prompt.arguments ?? []).map((a) => [a.name, `{${a.name}}`]));
+  const result = (await requestMcp(server, "prompts/get", { name: prompt.name, arguments: args })) as {
+    messages?: Array<{ role: string; content: { type: string; text?: string } }>;
+  };
+
+  const text = (result.messages ?? [])
+    .filter((m) => m.content?.type === "text" && m.content.text)
+    .map((m) => m.content.text)
+    .join("\n\n");
+
+  if (!text.trim()) {
+    throw new Error(`Prompt ${prompt.name} has no text content`);
+  }
+  return text;
+}
+
+/**
+ * Skill names must be unique per agent, so prompts are namespaced by server.
+ */
+export function promptSkillName(serverName: string, promptName: string): string {
+  const slug = `${serverName}-${promptName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug.slice(0, 50).replace(/-+$/, "");
+}
+
+async function upsertPromptSkill(server: McpServerRow, prompt: McpPromptDefinition): Promise<void> {
+  const instructions = await renderMcpPrompt(server, prompt);
+  const argumentNotes = (prompt.arguments ?? [])
+    .map((a) => `- {${a.name}}${a.description ? `: ${a.description}` : ""}`)
+    .join("\n");
+
+  const name = promptSkillName(server.name, prompt.name);
+  const db = await getDB();
+  const result = await db
+    .prepare(
+      `INSERT INTO agent_skills (id, agent_id, name, display_name, description, instructions, author, tags, mcp_server_id, mcp_prompt_name)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(agent_id, name) DO UPDATE SET
+         display_name = excluded.display_name,
+         description = excluded.description,
+         instructions = excluded.instructions,
+         mcp_server_id = excluded.mcp_server_id,
+         mcp_prompt_name = excluded.mcp_prompt_name,
+         is_active = 1,
+         updated_at = datetime('now')
+       WHERE agent_skills.mcp_server_id = excluded.mcp_server_id`
+    )
+    .bind(
+      crypto.randomUUID(),
+      server.agent_id,
+      name,
+      prompt.title || prompt.name,
+      prompt.description || `Prompt from ${server.display_name}`,
+      argumentNotes ? `${instructions}\n\nFill in from the conversation:\n${argumentNotes}` : instructions,
+      server.display_name,
+      JSON.stringify(["mcp", server.name]),
+      server.id,
+      prompt.name
+    )
+    .run();
+
+  // A hand-written skill with the same name is left alone
+  if (result.meta.changes === 0) {
+    throw new Error(`A skill named ${name} already exists`);
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * MCP Server
+ * Exposes each marketplace agent to MCP clients (IDEs, desktop assistants)
+ * over Streamable HTTP at /api/mcp/[agentId]. The server is stateless: every
+ * POST carries one JSON-RPC message and gets a JSON response.
+ * - `chat` runs the agent's full pipeline; passing back `session_id` continues the conversation.
+ *   It has the same free-query allowance and x402 payment check as /api/chat
+ * - `search_knowledge` queries the agent's knowledge base
+ * - Active skills are listed as prompts
+ */
+
+import type { Message } from "ai";
+import { getDB } from "./db";
+import { executeChatPipeline } from "./chat-engine";
+import { checkPaymentRequired } from "./x402";
+import { searchDocuments } from "./rag";
+import { getActiveSkillInstructions, type AgentSkill } from "./skills";
+import { openSession, loadSessionMessages, appendSessionMessage } from "./a2a-tasks";
+import type { RequestAuth } from "./apiAuth";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface McpRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface McpRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpServedAgent {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+interface McpToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/** Newest first; the first entry is offered when the client asks for an unknown version */
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const SERVER_INFO = { name: "straits-agents", version: "1.0.0" };
+
+const MAX_SEARCH_RESULTS = 10;
+
+export class McpRpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number
+  ) {
+    super(message);
+    this.name = "McpRpcError";
+  }
+}
+
+// ─── Tool Definitions ───────────────────────────────────────────────────────
+
+function toolDefinitions(agent: McpServedAgent) {
+  return [
+    {
+      name: "chat",
+      title: `Chat with ${agent.name}`,
+      description:
+        `Send a message to ${agent.name} and get its answer.` +
+        (agent.description ? ` ${agent.description}` : "") +
+        " Pass the returned session_id to continue the same conversation.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          message: { type: "string", description: "The message to send" },
+          session_id: { type: "string", description: "Session ID from an earlier chat call" },
+        },
+        required: ["message"],
+      },
+    },
+    {
+      name: "search_knowledge",
+      title: `Search ${agent.name}'s knowledge base`,
+      description: `Search the documents ${agent.name} answers from and return the most relevant passages.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "What to search for" },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_SEARCH_RESULTS,
+            description: "Number of passages to return (default 5)",
+          },
+        },
+        required: ["query"],
+      },
+    },
+  ];
+}
+
+// ─── Dispatch ───────────────────────────────────────────────────────────────
+
+/**
+ * Negotiate the protocol version: echo the client's if we support it,
+ * otherwise offer our latest.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" && MCP_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSIONS[0];
+}
+
+/**
+ * Handle one JSON-RPC request from an MCP client.
+ * Throws McpRpcError for protocol errors; tool failures are returned as
+ * results with `isError` so the client's model can see them.
+ */
+export async function handleMcpRequest(
+  rpc: McpRpcMessage,
+  agent: McpServedAgent,
+  auth: RequestAuth
+): Promise<unknown> {
+  const params = rpc.params ?? {};
+
+  switch (rpc.method) {
+    case "initialize":
+      return {
+        protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+        capabilities: { tools: { listChanged: false }, prompts: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions: `Tools and prompts for the ${agent.name} agent on Straits Agents.`,
+      };
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: toolDefinitions(agent) };
+    case "tools/call":
+      return callTool(agent, auth, params.name, (params.arguments ?? {}) as Record<string, unknown>);
+    case "prompts/list":
+      return { prompts: (await getActiveSkillInstructions(agent.id)).map(skillToPrompt) };
+    case "prompts/get":
+      return getPrompt(agent.id, params.name, (params.arguments ?? {}) as Record<string, unknown>);
+    default:
+      throw new McpRpcError(`Method not found: ${rpc.method}`, -32601);
+  }
+}
+
+// ─── Tools ──────────────────────────────────────────────────────────────────
+
+async function callTool(
+  agent: McpServedAgent,
+  auth: RequestAuth,
+  name: unknown,
+  args: Record<string, unknown>
+): Promise<McpToolResult> {
+  if (name !== "chat" && name !== "search_knowledge") {
+    throw new McpRpcError(`Unknown tool: ${String(name)}`, -32602);
+  }
+
+  try {
+    return name === "chat" ? await chat(agent, auth, args) : await searchKnowledge(agent, args);
+  } catch (error) {
+    if (error instanceof McpRpcError) throw error;
+    console.error(`MCP ${name} failed:`, error);
+    return toolError(error instanceof Error ? error.message : `${name} failed`);
+  }
+}
+
+async function chat(agent: McpServedAgent, auth: RequestAuth, args: Record<string, unknown>): Promise<McpToolResult> {
+  const message = typeof args.message === "string" ? args.message.trim() : "";
+  if (!message) {
+    throw new McpRpcError("chat requires a non-empty message", -32602);
+  }
+  if (args.session_id !== undefined && typeof args.session_id !== "string") {
+    throw new McpRpcError("session_id must be a string", -32602);
+  }
+
+  const sessionId = (args.session_id as string | undefined) || crypto.randomUUID();
+  if (!(await openSession(sessionId, agent.id, { userId: auth.userId, keyId: auth.keyId, address: null }))) {
+    return toolError(`Session not found: ${sessionId}`);
+  }
+
+  // Past the free queries the client pays the request through /api/payments
+  // with this session ID, then calls again
+  const payment = await checkPaymentRequired(sessionId, agent.id);
+  if (payment.required && payment.paymentResponse) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Payment required: pay request ${payment.paymentResponse.paymentId}, then call again with this session_id`,
+        },
+      ],
+      structuredContent: { session_id: sessionId, payment: payment.paymentResponse },
+      isError: true,
+    };
+  }
+  const db = await getDB();
+  await db
+    .prepare("UPDATE sessions SET queries_used = queries_used + 1, updated_at = ? WHERE id = ?")
+    .bind(new Date().toISOString(), sessionId)
+    .run();
+
+  const history = await loadSessionMessages(sessionId);
+  await appendSessionMessage(sessionId, "user", message);
+
+  const userMessage: Message = { id: crypto.randomUUID(), role: "user", content: message };
+  const result = await executeChatPipeline({
+    agentId: agent.id,
+    messages: [...history, userMessage],
+    sessionId,
+    userId: auth.userId,
+    useRag: true,
+    stream: false,
+  });
+
+  const text = result.text || "";
+  await appendSessionMessage(sessionId, "assistant", text, result.citations.length ? result.citations : undefined);
+
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: {
+      session_id: sessionId,
+      text,
+      citations: result.citations.map((c) => ({ title: c.title, documentId: c.documentId })),
+    },
+  };
+}
+
+async function searchKnowledge(agent: McpServedAgent, args: Record<string, unknown>): Promise<McpToolResult> {
+  const query = typeof args.query === "string" ? args.query.trim() : "";
+  if (!query) {
+    throw new McpRpcError("search_knowledge requires a non-empty query", -32602);
+  }
+  const limit =
+    typeof args.limit === "number" && Number.isInteger(args.limit)
+      ? Math.min(Math.max(args.limit, 1), MAX_SEARCH_RESULTS)
+      : 5;
+
+  const results = await searchDocuments(agent.id, query, limit);
+  const text = results.length
+    ? results.map((r, i) => `[${i + 1}] ${r.title}\n${r.content}`).join("\n\n")
+    : "No matching passages found.";
+
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: {
+      results: results.map((r) => ({ title: r.title, documentId: r.documentId, content: r.content, score: r.score })),
+    },
+  };
+}
+
+function toolError(message: string): McpToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+// ─── Prompts ────────────────────────────────────────────────────────────────
+
+export function skillToPrompt(skill: AgentSkill) {
+  return {
+    name: skill.name,
+    title: skill.displayName,
+    description: skill.description,
+    arguments: [{ name: "task", description: "What to apply the skill to", required: false }],
+  };
+}
+
+async function getPrompt(agentId: string, name: unknown, args: Record<string, unknown>) {
+  const skill = (await getActiveSkillInstructions(agentId)).find((s) => s.name === name);
+  if (!skill) {
+    throw new McpRpcError(`Prompt not found: ${String(name)}`, -32602);
+  }
+
+  const task = typeof args.task === "string" && args.task.trim() ? `\n\n## Task\n${args.task.trim()}` : "";
+  return {
+    description: skill.description,
+    messages: [{ role: "user", content: { type: "text", text: `${skill.instructions}${task}` } }],
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * Model Fallback
+ * Runs a request against the agent's model chain (see resolveModelChain).
+ * The chain is wrapped in a single LanguageModel for streamText and
+ * generateText: when a model fails with a retryable error (rate limit, 5xx,
+ * network error, timeout) before it has produced any output, the next model
+ * in the chain is tried. Once a model has streamed a token or a tool call it
+ * answers the rest of the request, including later tool loop steps.
+ *
+ * Each candidate is billed through inference-billing: its estimate is
+ * reserved when it is tried, refunded when it fails, and settled when it
+ * answers. Platform candidates the creator cannot afford are skipped.
+ */
+
+import {
+  APICallError,
+  type LanguageModel,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import type { ResolvedModel } from "./llm-providers";
+import {
+  deductPlatformCost,
+  settlePlatformCost,
+  refundPlatformCost,
+  type InferenceRequest,
+  type InferenceReservation,
+  type InferenceUsage,
+} from "./inference-billing";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface FailedAttempt {
+  provider: string;
+  modelId: string;
+  error: string;
+}
+
+export interface ModelRun {
+  /** Pass to streamText / generateText */
+  model: LanguageModel;
+  /** The candidate answering the request (the primary until a fallback happens) */
+  current(): ResolvedModel;
+  /** Candidates that failed before answering, in order */
+  failed: FailedAttempt[];
+  /** Settle the answering candidate's reservation against the reported usage */
+  settle(usage: InferenceUsage): Promise<void>;
+  /** Refund the answering candidate's reservation after a failure */
+  refund(): Promise<void>;
+}
+
+export type RunBilling = Omit<InferenceRequest, "modelId" | "provider" | "isByok">;
+
+/** No model in the chain could answer */
+export class ModelFallbackError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: FailedAttempt[],
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "ModelFallbackError";
+  }
+}
+
+/** A model produced nothing within FIRST_OUTPUT_TIMEOUT_MS */
+export class ModelTimeoutError extends Error {
+  constructor(modelId: string) {
+    super(`${modelId} produced no output within ${FIRST_OUTPUT_TIMEOUT_MS / 1000}s`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+/** An error chunk (e.g. "overloaded") a provider streamed before any output */
+export class ModelStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelStreamError";
+  }
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Streams of models with a fallback behind them must start within this time */
+const FIRST_OUTPUT_TIMEOUT_MS = 45_000;
+
+/** Stream parts that count as output; after one of these there is no fallback */
+const OUTPUT_PARTS = new Set<LanguageModelV1StreamPart["type"]>([
+  "text-delta",
+  "reasoning",
+  "redacted-reasoning",
+  "source",
+  "file",
+  "tool-call-delta",
+  "tool-call",
+  "finish",
+]);
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+/**
+ * Whether a failure is worth another model: rate limits, 408/409, 5xx,
+ * network errors and timeouts. Requests the caller aborted are not.
+ */
+export function isRetryableModelError(error: unknown, abortSignal?: AbortSignal): boolean {
+  if (abortSignal?.aborted) return false;
+  if (error instanceof ModelTimeoutError || error instanceof ModelStreamError) return true;
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable || (error.statusCode !== undefined && error.statusCode >= 500);
+  }
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) return String((error as { message: unknown }).message);
+  return String(error);
+}
+
+// ─── Streams ────────────────────────────────────────────────────────────────
+
+type StreamResult = Awaited<ReturnType<ResolvedModel["model"]["doStream"]>>;
+
+/**
+ * Open a stream and wait for its first output. Errors reported in the
+ * stream before any output are thrown, so the caller can fall back; the
+ * buffered parts are replayed in front of the rest of the stream.
+ */
+async function openStream(
+  candidate: ResolvedModel,
+  options: LanguageModelV1CallOptions,
+  timeoutMs: number | undefined
+): Promise<StreamResult> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.abortSignal?.reason);
+  if (options.abortSignal?.aborted) onAbort();
+  options.abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+  let timedOut = false;
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+
+  try {
+    const result = await candidate.model.doStream({ ...options, abortSignal: controller.signal });
+    const reader = result.stream.getReader();
+    const buffered: LanguageModelV1StreamPart[] = [];
+    let done = false;
+
+    for (;;) {
+      const next = await reader.read();
+      if (next.done) {
+        done = true;
+        break;
+      }
+      if (next.value.type === "error") {
+        reader.cancel().catch(() => {});
+        const error = next.value.error;
+        throw error instanceof Error ? error : new ModelStreamError(errorMessage(error));
+      }
+      buffered.push(next.value);
+      if (OUTPUT_PARTS.has(next.value.type)) break;
+    }
+    clearTimeout(timer);
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(out) {
+        for (const part of buffered) out.enqueue(part);
+        if (done) out.close();
+      },
+      async pull(out) {
+        const next = await reader.read();
+        if (next.done) out.close();
+        else out.enqueue(next.value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+    return { ...result, stream };
+  } catch (error) {
+    clearTimeout(timer);
+    throw timedOut ? new ModelTimeoutError(candidate.modelId) : error;
+  }
+}
+
+// ─── Runs ───────────────────────────────────────────────────────────────────
+
+/**
+ * Reserve the first affordable candidate and wrap the chain. Returns null
+ * when no candidate can be reserved (the creator's balance is too low for
+ * every platform model and there is no BYOK model).
+ */
+export async function startModelRun(
+  agentId: string,
+  chain: ResolvedModel[],
+  billing: RunBilling
+): Promise<ModelRun | null> {
+  const reserve = (candidate: ResolvedModel) =>
+    deductPlatformCost(agentId, {
+      ...billing,
+      modelId: candidate.modelId,
+      provider: candidate.provider,
+      isByok: candidate.isByok,
+    });
+
+  let index = -1;
+  let reservation: InferenceReservation | null = null;
+  for (let i = 0; i < chain.length && !reservation; i++) {
+    reservation = await reserve(chain[i]);
+    index = i;
+  }
+  if (!reservation) return null;
+
+  let active: InferenceReservation = reservation;
+  let answered = false;
+  const failed: FailedAttempt[] = [];
+
+  /** Refund the failed candidate and reserve the next affordable one */
+  const fallBack = async (error: unknown): Promise<boolean> => {
+    const candidate = chain[index];
+    failed.push({ provider: candidate.provider, modelId: candidate.modelId, error: errorMessage(error) });
+    console.warn(`Model ${candidate.provider}/${candidate.modelId} failed, trying the next fallback:`, errorMessage(error));
+    await refundPlatformCost(active);
+
+    for (let i = index + 1; i < chain.length; i++) {
+      const next = await reserve(chain[i]);
+      if (next) {
+        index = i;
+        active = next;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const attempt = async <T>(
+    call: (candidate: ResolvedModel, isLast: boolean) => PromiseLike<T>,
+    options: LanguageModelV1CallOptions
+  ): Promise<T> => {
+    if (answered) return call(chain[index], true);
+    for (;;) {
+      try {
+        const result = await call(chain[index], index === chain.length - 1);
+        answered = true;
+        return result;
+      } catch (error) {
+        if (!isRetryableModelError(error, options.abortSignal)) throw error;
+        if (!(await fallBack(error))) {
+          // Not an APICallError, so the SDK does not retry the whole chain
+          throw new ModelFallbackError(`All models failed: ${errorMessage(error)}`, failed, error);
+        }
+      }
+    }
+  };
+
+  // A single model needs no wrapper; the SDK's own retries apply
+  const model: LanguageModel =
+    chain.length === 1
+      ? chain[0].model
+      : {
+          specificationVersion: "v1",
+          provider: "fallback",
+          get modelId() {
+            return chain[index].modelId;
+          },
+          get defaultObjectGenerationMode() {
+            return chain[index].model.defaultObjectGenerationMode;
+          },
+          supportsImageUrls: chain.every((c) => c.model.supportsImageUrls !== false),
+          doGenerate: (options) => attempt((candidate) => candidate.model.doGenerate(options), options),
+          doStream: (options) =>
+            attempt(
+              (candidate, isLast) => openStream(candidate, options, isLast || answered ? undefined : FIRST_OUTPUT_TIMEOUT_MS),
+              options
+            ),
+        };
+
+  return {
+    model,
+    current: () => chain[index],
+    failed,
+    settle: (usage) => settlePlatformCost(active, usage),
+    refund: () => refundPlatformCost(active),
+  };
+}
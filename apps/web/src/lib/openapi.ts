@@ -0,0 +1,423 @@
+/**
+ * OpenAPI Import
+ * Turns the operations of an OpenAPI 3.x document (JSON) into webhook tool
+ * definitions: one tool per operation, with a JSON Schema that merges its
+ * path, query, header and body parameters. The generated `webhook_config`
+ * records where each parameter goes so buildWebhookTool can rebuild the
+ * request. Security schemes become encrypted `webhook_headers`.
+ * No server-only imports: the builder UI parses specs with this module too.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type ParamLocation = "path" | "query" | "header" | "body";
+
+/** Stored in agent_tools.webhook_config */
+export interface WebhookRequestConfig {
+  /** Where each tool parameter goes. Parameters not listed go in the JSON body (query for GET) */
+  params: Record<string, ParamLocation>;
+  /** Send this parameter's value as the whole JSON body */
+  bodyParam?: string;
+  /** webhook_headers entries that are sent as query parameters (apiKey in query) */
+  querySecrets?: string[];
+  /** The operation the tool was generated from */
+  source?: { operationId?: string; method: string; path: string };
+}
+
+export type SecuritySchemeType = "apiKey" | "bearer" | "basic";
+
+export interface OpenApiSecurityScheme {
+  name: string;
+  type: SecuritySchemeType;
+  /** Header, query parameter or cookie name for apiKey schemes */
+  paramName?: string;
+  in?: "header" | "query" | "cookie";
+  description?: string;
+}
+
+export interface OpenApiOperation {
+  /** "GET /pets/{id}" */
+  key: string;
+  operationId?: string;
+  method: string;
+  path: string;
+  toolName: string;
+  displayName: string;
+  description: string;
+  parametersSchema: Record<string, unknown>;
+  config: WebhookRequestConfig;
+  /** Security schemes the operation needs (first requirement the spec lists) */
+  security: string[];
+}
+
+export interface ParsedOpenApi {
+  title: string;
+  version: string;
+  /** First server URL, with variables filled by their defaults; null if relative or missing */
+  baseUrl: string | null;
+  operations: OpenApiOperation[];
+  securitySchemes: OpenApiSecurityScheme[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+export class OpenApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenApiError";
+  }
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options"];
+
+/** Nested $refs deeper than this are cut off (and cycles with them) */
+const MAX_REF_DEPTH = 12;
+
+const MAX_DESCRIPTION_CHARS = 1000;
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an OpenAPI 3.x document. YAML documents must be converted to JSON first.
+ */
+export function parseOpenApi(text: string): ParsedOpenApi {
+  let doc: JsonObject;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new OpenApiError("The document is not valid JSON (convert YAML specs to JSON first)");
+  }
+  if (!doc || typeof doc !== "object" || typeof doc.openapi !== "string" || !doc.openapi.startsWith("3.")) {
+    throw new OpenApiError("Only OpenAPI 3.x documents are supported");
+  }
+
+  const info = (doc.info ?? {}) as JsonObject;
+  const paths = (doc.paths ?? {}) as Record<string, JsonObject>;
+  const usedNames = new Set<string>();
+  const operations: OpenApiOperation[] = [];
+
+  for (const [path, rawItem] of Object.entries(paths)) {
+    const pathItem = resolve(doc, rawItem) as JsonObject;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as JsonObject | undefined;
+      if (!operation) continue;
+      operations.push(buildOperation(doc, path, method, pathItem, operation, usedNames));
+    }
+  }
+
+  return {
+    title: typeof info.title === "string" ? info.title : "API",
+    version: typeof info.version === "string" ? info.version : "",
+    baseUrl: serverUrl(doc),
+    operations,
+    securitySchemes: securitySchemes(doc),
+  };
+}
+
+function serverUrl(doc: JsonObject): string | null {
+  const server = (doc.servers as JsonObject[] | undefined)?.[0];
+  if (!server || typeof server.url !== "string") return null;
+
+  const variables = (server.variables ?? {}) as Record<string, { default?: string }>;
+  const url = server.url.replace(/\{([^}]+)\}/g, (_, name: string) => variables[name]?.default ?? "");
+  return /^https?:\/\//i.test(url) ? url.replace(/\/+$/, "") : null;
+}
+
+/**
+ * Resolve local `#/...` references, recursively. Remote references and
+ * cycles resolve to an empty schema.
+ */
+function resolve(doc: JsonObject, value: unknown, depth = 0): unknown {
+  if (Array.isArray(value)) return value.map((v) => resolve(doc, v, depth));
+  if (!value || typeof value !== "object") return value;
+
+  const obj = value as JsonObject;
+  if (typeof obj.$ref === "string") {
+    if (depth >= MAX_REF_DEPTH || !obj.$ref.startsWith("#/")) return {};
+    const target = obj.$ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((node, key) => (node as JsonObject | undefined)?.[key], doc);
+    return target === undefined ? {} : resolve(doc, target, depth + 1);
+  }
+
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, resolve(doc, v, depth)]));
+}
+
+function buildOperation(
+  doc: JsonObject,
+  path: string,
+  method: string,
+  pathItem: JsonObject,
+  operation: JsonObject,
+  usedNames: Set<string>
+): OpenApiOperation {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+  const params: Record<string, ParamLocation> = {};
+
+  // Operation parameters override path-level ones with the same name and location
+  const merged = new Map<string, JsonObject>();
+  for (const raw of [...((pathItem.parameters as unknown[]) ?? []), ...((operation.parameters as unknown[]) ?? [])]) {
+    const param = resolve(doc, raw) as JsonObject;
+    if (typeof param.name !== "string" || typeof param.in !== "string") continue;
+    merged.set(`${param.in}:${param.name}`, param);
+  }
+
+  for (const param of merged.values()) {
+    const location = param.in as string;
+    if (location !== "path" && location !== "query" && location !== "header") continue;
+    const name = param.name as string;
+
+    properties[name] = withDescription((param.schema as JsonObject) ?? { type: "string" }, param.description);
+    params[name] = location;
+    if (location === "path" || param.required === true) required.push(name);
+  }
+
+  let bodyParam: string | undefined;
+  const body = resolve(doc, operation.requestBody) as JsonObject | undefined;
+  const bodySchema = (body?.content as Record<string, JsonObject> | undefined)?.["application/json"]?.schema as
+    | JsonObject
+    | undefined;
+
+  if (bodySchema) {
+    const bodyProps = bodySchema.type === "object" || bodySchema.properties ? (bodySchema.properties as JsonObject) : null;
+    const collides = bodyProps && Object.keys(bodyProps).some((name) => name in properties);
+
+    if (bodyProps && !collides && !bodySchema.additionalProperties) {
+      // Body fields become top-level parameters
+      for (const [name, schema] of Object.entries(bodyProps)) {
+        properties[name] = schema;
+        params[name] = "body";
+      }
+      if (body?.required !== false) {
+        required.push(...(((bodySchema.required as string[]) ?? []).filter((n) => n in bodyProps)));
+      }
+    } else {
+      bodyParam = "body" in properties ? "request_body" : "body";
+      properties[bodyParam] = withDescription(bodySchema, body?.description ?? "JSON request body");
+      params[bodyParam] = "body";
+      if (body?.required === true) required.push(bodyParam);
+    }
+  }
+
+  const operationId = typeof operation.operationId === "string" ? operation.operationId : undefined;
+  const toolName = uniqueName(toolNameFor(operationId, method, path), usedNames);
+  const summary = typeof operation.summary === "string" ? operation.summary.trim() : "";
+  const details = typeof operation.description === "string" ? operation.description.trim() : "";
+  const description = [summary, details].filter(Boolean).join("\n\n") || `${method.toUpperCase()} ${path}`;
+
+  const requirement = ((operation.security ?? doc.security) as Array<Record<string, unknown>> | undefined)?.[0];
+
+  return {
+    key: `${method.toUpperCase()} ${path}`,
+    operationId,
+    method: method.toUpperCase(),
+    path,
+    toolName,
+    displayName: summary || operationId || `${method.toUpperCase()} ${path}`,
+    description: description.slice(0, MAX_DESCRIPTION_CHARS),
+    parametersSchema: {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required: [...new Set(required)] } : {}),
+    },
+    config: {
+      params,
+      ...(bodyParam ? { bodyParam } : {}),
+      source: { operationId, method: method.toUpperCase(), path },
+    },
+    security: requirement ? Object.keys(requirement) : [],
+  };
+}
+
+function withDescription(schema: JsonObject, description: unknown): JsonObject {
+  return typeof description === "string" && !schema.description ? { ...schema, description } : schema;
+}
+
+/** Tool names must match ^[a-z_][a-z0-9_]{1,48}$ */
+function toolNameFor(operationId: string | undefined, method: string, path: string): string {
+  const base = operationId || `${method}_${path}`;
+  const name = base
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 45);
+  return /^[a-z_]/.test(name) && name.length >= 2 ? name : `op_${name}`.slice(0, 45);
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) candidate = `${name}_${i}`;
+  used.add(candidate);
+  return candidate;
+}
+
+function securitySchemes(doc: JsonObject): OpenApiSecurityScheme[] {
+  const schemes = ((doc.components as JsonObject | undefined)?.securitySchemes ?? {}) as Record<string, unknown>;
+  const result: OpenApiSecurityScheme[] = [];
+
+  for (const [name, raw] of Object.entries(schemes)) {
+    const scheme = resolve(doc, raw) as JsonObject;
+    const description = typeof scheme.description === "string" ? scheme.description : undefined;
+
+    if (scheme.type === "apiKey" && typeof scheme.name === "string") {
+      const location = scheme.in === "query" || scheme.in === "cookie" ? scheme.in : "header";
+      result.push({ name, type: "apiKey", paramName: scheme.name, in: location, description });
+    } else if (scheme.type === "http" && String(scheme.scheme).toLowerCase() === "basic") {
+      result.push({ name, type: "basic", description });
+    } else if (scheme.type === "http" || scheme.type === "oauth2" || scheme.type === "openIdConnect") {
+      // OAuth flows are not run here; the owner pastes an access token
+      result.push({ name, type: "bearer", description });
+    }
+  }
+
+  return result;
+}
+
+// ─── Security ───────────────────────────────────────────────────────────────
+
+/**
+ * Build the webhook_headers (and query secrets) for an operation from the
+ * owner's credentials, keyed by security scheme name. Basic credentials are
+ * given as `user:password`.
+ */
+export function buildSecurityHeaders(
+  schemes: OpenApiSecurityScheme[],
+  required: string[],
+  credentials: Record<string, string>
+): { headers: Record<string, string>; querySecrets: string[] } {
+  const headers: Record<string, string> = {};
+  const querySecrets: string[] = [];
+  const cookies: string[] = [];
+
+  for (const name of required) {
+    const scheme = schemes.find((s) => s.name === name);
+    const value = credentials[name]?.trim();
+    if (!scheme || !value) continue;
+
+    if (scheme.type === "bearer") {
+      headers.Authorization = `Bearer ${value}`;
+    } else if (scheme.type === "basic") {
+      headers.Authorization = `Basic ${btoa(value)}`;
+    } else if (scheme.in === "query") {
+      headers[scheme.paramName!] = value;
+      querySecrets.push(scheme.paramName!);
+    } else if (scheme.in === "cookie") {
+      cookies.push(`${scheme.paramName}=${value}`);
+    } else {
+      headers[scheme.paramName!] = value;
+    }
+  }
+
+  if (cookies.length > 0) headers.Cookie = cookies.join("; ");
+  return { headers, querySecrets };
+}
+
+// ─── Request Building ───────────────────────────────────────────────────────
+
+/**
+ * Validate a webhook_config value from the API or the database.
+ */
+export function parseWebhookConfig(value: unknown): WebhookRequestConfig | null {
+  const config = typeof value === "string" ? safeJson(value) : value;
+  if (!config || typeof config !== "object") return null;
+
+  const { params, bodyParam, querySecrets } = config as JsonObject;
+  if (!params || typeof params !== "object") return null;
+  const locations = ["path", "query", "header", "body"];
+  if (!Object.values(params).every((l) => locations.includes(l as string))) return null;
+  if (bodyParam !== undefined && typeof bodyParam !== "string") return null;
+  if (querySecrets !== undefined && !(Array.isArray(querySecrets) && querySecrets.every((q) => typeof q === "string"))) {
+    return null;
+  }
+  return config as WebhookRequestConfig;
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function queryValue(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v)));
+  return [typeof value === "object" ? JSON.stringify(value) : String(value)];
+}
+
+/**
+ * Build a webhook request from the model's parameters. Path parameters are
+ * substituted into the URL; query parameters (and, for GET/HEAD, every
+ * parameter without a location) go in the query string; the rest is the JSON
+ * body. Without a config, non-GET requests send all parameters as the body.
+ */
+export function buildWebhookRequest(
+  baseUrl: string,
+  method: string,
+  params: Record<string, unknown>,
+  config: WebhookRequestConfig | null,
+  secretHeaders: Record<string, string>
+): { url: string; headers: Record<string, string>; body?: string } {
+  const hasBody = method !== "GET" && method !== "HEAD";
+  const locations = config?.params ?? {};
+  const headers: Record<string, string> = {};
+  const query: Array<[string, string]> = [];
+  const body: Record<string, unknown> = {};
+
+  let url = baseUrl.replace(/(\{|%7B)([^}%]+)(\}|%7D)/gi, (match, _open, name: string) => {
+    if (locations[name] !== "path") return match;
+    const value = params[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing path parameter: ${name}`);
+    }
+    // Dot segments survive encoding (URL parsing also reads %2E as a dot) and
+    // would walk out of the configured path
+    const text = String(value);
+    if (text === "." || text === "..") {
+      throw new Error(`Invalid path parameter: ${name}`);
+    }
+    return encodeURIComponent(text);
+  });
+
+  // Model params named like a credential are dropped, so they cannot shadow it
+  const secretNames = new Set(Object.keys(secretHeaders).map((name) => name.toLowerCase()));
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    if (secretNames.has(name.toLowerCase())) continue;
+    const location = locations[name] ?? (hasBody ? "body" : "query");
+
+    if (location === "query" || (location === "body" && !hasBody)) {
+      for (const v of queryValue(value)) query.push([name, v]);
+    } else if (location === "header") {
+      headers[name] = String(value);
+    } else if (location === "body") {
+      body[name] = value;
+    }
+  }
+
+  // Credentials are the only values under their names
+  const querySecrets = config?.querySecrets ?? [];
+  for (const [name, value] of Object.entries(secretHeaders)) {
+    if (querySecrets.includes(name)) {
+      query.push([name, value]);
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  if (query.length > 0) {
+    const parsed = new URL(url);
+    for (const [name, value] of query) parsed.searchParams.append(name, value);
+    url = parsed.href;
+  }
+
+  if (!hasBody) return { url, headers };
+
+  const payload = config?.bodyParam ? params[config.bodyParam] : body;
+  return { url, headers, body: payload === undefined ? undefined : JSON.stringify(payload) };
+}
@@ -1,7 +1,7 @@
 /**
  * KV-based Rate Limiter
- * Generic sliding-window rate limiter using Cloudflare KV.
- * Each key tracks a counter with TTL-based expiry.
+ * Generic fixed-window rate limiter using Cloudflare KV.
+ * Each key stores `<count>:<windowEndMs>` and expires with its window.
  */
 
 import { getKV } from "./db";
@@ -32,20 +32,25 @@ export async function checkRateLimit(
   const kv = await getKV();
   const key = `${config.prefix}:${identifier}`;
 
+  const now = Date.now();
   const currentStr = await kv.get(key);
-  const current = currentStr ? parseInt(currentStr, 10) : 0;
+  // Counters written before the window end was stored are a bare number
+  const [countPart, endPart] = (currentStr ?? "").split(":");
+  const windowEnd = endPart ? parseInt(endPart, 10) : now + config.windowSeconds * 1000;
+  const current = currentStr && windowEnd > now ? parseInt(countPart, 10) : 0;
+  const resetAt = current > 0 ? windowEnd : now + config.windowSeconds * 1000;
 
   if (current >= config.maxRequests) {
     return {
       allowed: false,
       remaining: 0,
-      retryAfterSeconds: config.windowSeconds,
+      retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
     };
   }
 
-  // Increment counter (TTL set on first request in window)
-  await kv.put(key, String(current + 1), {
-    expirationTtl: config.windowSeconds,
+  // KV rejects TTLs under 60 seconds; the stored window end still applies
+  await kv.put(key, `${current + 1}:${resetAt}`, {
+    expirationTtl: Math.max(60, Math.ceil((resetAt - now) / 1000)),
   });
 
   return {
@@ -55,6 +60,17 @@ export async function checkRateLimit(
   };
 }
 
+/**
+ * Client IP as seen by Cloudflare, falling back to X-Forwarded-For.
+ */
+export function getClientIp(request: Request): string | null {
+  return (
+    request.headers.get("cf-connecting-ip") ||
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    null
+  );
+}
+
 // ─── Pre-configured Rate Limits ──────────────────────────────────────────────
 
 /** Login: 5 attempts per 15 minutes per email */
@@ -84,3 +100,17 @@ export const OTP_RATE_LIMIT: RateLimitConfig = {
   maxRequests: 5,
   windowSeconds: 60,
 };
+
+/** LLM connection tests: 10 per 10 minutes per user */
+export const LLM_TEST_RATE_LIMIT: RateLimitConfig = {
+  prefix: "rl:llm-test",
+  maxRequests: 10,
+  windowSeconds: 600,
+};
+
+/** A2A payment requests issued to unpaid callers: 30 per 10 minutes per IP */
+export const A2A_PAYMENT_REQUEST_RATE_LIMIT: RateLimitConfig = {
+  prefix: "rl:a2a-payreq",
+  maxRequests: 30,
+  windowSeconds: 600,
+};
@@ -0,0 +1,370 @@
+/**
+ * Tool Response Mapping
+ * Turns a bulky JSON reply from a webhook or MCP tool into a compact result
+ * for the model: extract part of it with a JSONPath-style expression, keep
+ * only allowlisted fields, then render a Markdown template. An optional
+ * output JSON Schema is checked before the template is rendered.
+ *
+ * Client-safe (no server imports) so the builder can preview mappings.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ResponseMapping {
+  /** JSONPath-style expression, e.g. `$.data.items[*]` */
+  extract?: string;
+  /** Dot paths to keep from each object, e.g. `["id", "price.amount"]` */
+  fields?: string[];
+  /** Markdown with `{{path}}` placeholders; rendered once per item when the result is a list */
+  template?: string;
+}
+
+export class ResponseMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResponseMappingError";
+  }
+}
+
+/** The result did not match the tool's output schema */
+export class OutputValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Response does not match the output schema: ${errors.join("; ")}`);
+    this.name = "OutputValidationError";
+  }
+}
+
+type PathSegment = string | number | "*";
+
+/** Responses larger than this are not parsed for mapping */
+export const MAX_MAPPED_RESPONSE_CHARS = 1_000_000;
+
+const MAX_TEMPLATE_ITEMS = 100;
+const MAX_VALIDATION_ERRORS = 5;
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+const SEGMENT_PATTERN = /^(?:\.([A-Za-z_$][\w$-]*|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\])/;
+
+/** Keys that would reach Object.prototype when written to */
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function checkKey(key: string, path: string): void {
+  if (FORBIDDEN_KEYS.has(key)) throw new ResponseMappingError(`Invalid path: ${path}`);
+}
+
+function parsePath(path: string): PathSegment[] {
+  let rest = path.trim();
+  if (rest.startsWith("$")) rest = rest.slice(1);
+  else if (rest && !rest.startsWith(".") && !rest.startsWith("[")) rest = `.${rest}`;
+
+  const segments: PathSegment[] = [];
+  while (rest) {
+    const match = SEGMENT_PATTERN.exec(rest);
+    if (!match) throw new ResponseMappingError(`Invalid path: ${path}`);
+    const token = match[1] ?? match[2];
+    if (token === "*") segments.push("*");
+    else if (/^\d+$/.test(token) && match[2] !== undefined) segments.push(Number(token));
+    else {
+      const key = /^['"]/.test(token) ? token.slice(1, -1) : token;
+      checkKey(key, path);
+      segments.push(key);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+/**
+ * Validate a mapping from the tools API. Returns null when it is malformed.
+ */
+export function parseResponseMapping(raw: unknown): ResponseMapping | null {
+  const value = typeof raw === "string" ? safeJsonParse(raw) : raw;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const { extract, fields, template } = value as Record<string, unknown>;
+
+  const mapping: ResponseMapping = {};
+  if (extract !== undefined && extract !== "") {
+    if (typeof extract !== "string") return null;
+    try {
+      parsePath(extract);
+    } catch {
+      return null;
+    }
+    mapping.extract = extract;
+  }
+  if (fields !== undefined) {
+    if (!Array.isArray(fields) || !fields.every((f) => typeof f === "string" && f.trim())) return null;
+    if (fields.some((f: string) => f.trim().split(".").some((key) => FORBIDDEN_KEYS.has(key)))) return null;
+    if (fields.length > 0) mapping.fields = fields.map((f: string) => f.trim());
+  }
+  if (template !== undefined && template !== "") {
+    if (typeof template !== "string") return null;
+    try {
+      for (const [, path] of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (path !== ".") parsePath(path);
+      }
+    } catch {
+      return null;
+    }
+    mapping.template = template;
+  }
+  return mapping;
+}
+
+/**
+ * Validate an output schema from the tools API: any JSON object. Returns null otherwise.
+ */
+export function parseOutputSchema(raw: unknown): Record<string, unknown> | null {
+  const value = typeof raw === "string" ? safeJsonParse(raw) : raw;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+/**
+ * Select a value by path. Paths with a wildcard return a list of matches.
+ */
+export function selectPath(value: unknown, path: string): unknown {
+  let current: unknown[] = [value];
+  let multiple = false;
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (segment === "*") {
+        if (Array.isArray(item)) next.push(...item);
+        else if (item && typeof item === "object") next.push(...Object.values(item));
+      } else if (typeof segment === "number") {
+        if (Array.isArray(item) && segment < item.length) next.push(item[segment]);
+      } else if (item && typeof item === "object" && !Array.isArray(item) && Object.hasOwn(item, segment)) {
+        next.push((item as Record<string, unknown>)[segment]);
+      }
+    }
+    if (segment === "*") multiple = true;
+    current = next;
+  }
+
+  return multiple ? current : current[0];
+}
+
+/**
+ * Keep only the listed dot paths of an object (or of each item in a list).
+ */
+export function pickFields(value: unknown, fields: string[]): unknown {
+  if (Array.isArray(value)) return value.map((item) => pickFields(item, fields));
+  if (!value || typeof value !== "object") return value;
+
+  // Null-prototype objects, so no key can reach Object.prototype
+  const picked: Record<string, unknown> = Object.create(null);
+  for (const field of fields) {
+    const keys = field.split(".");
+    if (keys.some((key) => FORBIDDEN_KEYS.has(key))) continue;
+    let source: unknown = value;
+    for (const key of keys) {
+      source = source && typeof source === "object" && Object.hasOwn(source, key) ? (source as Record<string, unknown>)[key] : undefined;
+    }
+    if (source === undefined) continue;
+
+    let target = picked;
+    for (const key of keys.slice(0, -1)) {
+      if (!target[key] || typeof target[key] !== "object") target[key] = Object.create(null);
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = source;
+  }
+  return picked;
+}
+
+// ─── Templates ──────────────────────────────────────────────────────────────
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Render `{{path}}` placeholders against a value; `{{.}}` is the value itself.
+ * Lists render the template once per item, one per line.
+ */
+export function renderTemplate(template: string, value: unknown): string {
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_TEMPLATE_ITEMS).map((item) => renderTemplate(template, item));
+    if (value.length > MAX_TEMPLATE_ITEMS) items.push(`…and ${value.length - MAX_TEMPLATE_ITEMS} more`);
+    return items.join("\n");
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (_, path: string) =>
+    formatValue(path === "." ? value : selectPath(value, path))
+  );
+}
+
+// ─── Output Schema ──────────────────────────────────────────────────────────
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function safePatternTest(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return false;
+  }
+}
+
+function validateValue(value: unknown, schema: Record<string, unknown>, path: string, errors: string[]): void {
+  if (errors.length >= MAX_VALIDATION_ERRORS) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as Record<string, unknown>[]).some((option) => {
+      const optionErrors: string[] = [];
+      validateValue(value, option, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matches) errors.push(`${path}: does not match any allowed schema`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !safePatternTest(schema.pattern, value)) {
+      errors.push(`${path}: does not match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, i) => validateValue(item, schema.items as Record<string, unknown>, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) {
+        validateValue(item, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateValue(item, schema.additionalProperties as Record<string, unknown>, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Check a value against a JSON Schema. Supports the keywords tool outputs
+ * usually need: type, enum, const, anyOf, properties, required,
+ * additionalProperties, items and the usual length and range bounds.
+ * Returns up to five error messages; an empty list means the value is valid.
+ */
+export function validateOutputSchema(value: unknown, schema: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  validateValue(value, schema, "$", errors);
+  return errors.slice(0, MAX_VALIDATION_ERRORS);
+}
+
+// ─── Mapping ────────────────────────────────────────────────────────────────
+
+/**
+ * Shape a tool response for the model. `data` is the parsed response (or
+ * MCP structured content). Extraction and the field allowlist run first,
+ * the output schema is checked against that result, then the template renders it.
+ * Throws ResponseMappingError or OutputValidationError.
+ */
+export function mapToolResponse(
+  data: unknown,
+  mapping: ResponseMapping | null,
+  outputSchema: Record<string, unknown> | null
+): string {
+  let result = data;
+
+  if (mapping?.extract) {
+    result = selectPath(result, mapping.extract);
+    if (result === undefined) {
+      throw new ResponseMappingError(`${mapping.extract} matched nothing in the response`);
+    }
+  }
+  if (mapping?.fields) {
+    result = pickFields(result, mapping.fields);
+  }
+
+  if (outputSchema) {
+    const errors = validateOutputSchema(result, outputSchema);
+    if (errors.length > 0) throw new OutputValidationError(errors);
+  }
+
+  if (mapping?.template) return renderTemplate(mapping.template, result);
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+/**
+ * Parse a raw text response for mapping. Non-JSON responses cannot be mapped.
+ */
+export function parseMappableResponse(text: string): unknown {
+  if (text.length > MAX_MAPPED_RESPONSE_CHARS) {
+    throw new ResponseMappingError("Response is too large to map");
+  }
+  const data = safeJsonParse(text);
+  if (data === undefined) {
+    throw new ResponseMappingError("Response is not JSON, so it cannot be mapped");
+  }
+  return data;
+}
@@ -0,0 +1,321 @@
+/**
+ * Human-in-the-loop Tool Approvals
+ * Tools flagged requires_approval are streamed to the chat UI without executing.
+ * Each pending call is persisted here so it survives a reload; the user approves
+ * or rejects it, the server runs the tool, and the chat resumes with the stored result.
+ */
+
+import { getDB } from "./db";
+import { executeApprovedTool, logExecution, type ToolContext, type ToolRow } from "./tools";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Pending approvals expire after 15 minutes */
+export const APPROVAL_TTL_SECONDS = 900;
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface ToolApproval {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  displayName: string;
+  args: Record<string, unknown>;
+  status: ApprovalStatus;
+  result: unknown;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface ToolApprovalRow {
+  id: string;
+  tool_id: string;
+  agent_id: string;
+  session_id: string;
+  user_id: string | null;
+  tool_call_id: string;
+  tool_name: string;
+  input_params: string | null;
+  status: string;
+  result: string | null;
+  expires_at: string;
+  decided_at: string | null;
+  created_at: string;
+  display_name?: string | null;
+}
+
+interface PendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+}
+
+/** Minimal shape of a useChat UI message carrying tool invocations */
+interface ToolInvocationMessage {
+  role: string;
+  toolInvocations?: Array<{
+    state: string;
+    toolCallId: string;
+    toolName: string;
+    args?: unknown;
+    result?: unknown;
+  }>;
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+// ─── Recording ──────────────────────────────────────────────────────────────
+
+/**
+ * Persist pending approvals for gated tool calls emitted by the model.
+ * Calls for tools that do not require approval are ignored.
+ */
+export async function recordPendingApprovals(
+  toolCalls: PendingToolCall[],
+  toolRows: ToolRow[],
+  context: ToolContext
+): Promise<ToolApproval[]> {
+  const gated = new Map(
+    toolRows.filter((r) => r.requires_approval === 1).map((r) => [r.name, r])
+  );
+  const calls = toolCalls.filter((c) => gated.has(c.toolName));
+  if (calls.length === 0) return [];
+
+  const db = await getDB();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + APPROVAL_TTL_SECONDS * 1000).toISOString();
+  const approvals: ToolApproval[] = [];
+
+  for (const call of calls) {
+    const row = gated.get(call.toolName)!;
+    const id = crypto.randomUUID();
+    const args = (call.args as Record<string, unknown>) || {};
+
+    await db
+      .prepare(
+        `INSERT INTO tool_approvals (id, tool_id, agent_id, session_id, user_id, tool_call_id, tool_name, input_params, status, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`
+      )
+      .bind(
+        id,
+        row.id,
+        context.agentId,
+        context.sessionId,
+        context.userId,
+        call.toolCallId,
+        call.toolName,
+        JSON.stringify(args),
+        expiresAt,
+        now.toISOString()
+      )
+      .run();
+
+    approvals.push({
+      id,
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      displayName: row.display_name,
+      args,
+      status: "pending",
+      result: null,
+      expiresAt,
+      createdAt: now.toISOString(),
+    });
+  }
+
+  return approvals;
+}
+
+// ─── Queries ────────────────────────────────────────────────────────────────
+
+/**
+ * List pending approvals for a session. Stale rows are expired first.
+ */
+export async function getPendingApprovals(sessionId: string): Promise<ToolApproval[]> {
+  const db = await getDB();
+  await expireStaleApprovals(db, sessionId);
+
+  const result = await db
+    .prepare(
+      `SELECT a.*, t.display_name FROM tool_approvals a
+       LEFT JOIN agent_tools t ON t.id = a.tool_id
+       WHERE a.session_id = ? AND a.status = 'pending'
+       ORDER BY a.created_at ASC`
+    )
+    .bind(sessionId)
+    .all<ToolApprovalRow>();
+
+  return result.results.map(rowToApproval);
+}
+
+async function expireStaleApprovals(
+  db: Awaited<ReturnType<typeof getDB>>,
+  sessionId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `UPDATE tool_approvals SET status = 'expired', result = ?, decided_at = ?
+       WHERE session_id = ? AND status = 'pending' AND expires_at < ?`
+    )
+    .bind(JSON.stringify(refusalMessage("expired")), now, sessionId, now)
+    .run();
+}
+
+// ─── Decisions ──────────────────────────────────────────────────────────────
+
+/**
+ * Approve or reject a pending tool call. Approval runs the tool with the
+ * arguments the model produced; the outcome is stored so the resumed
+ * conversation uses the server's result rather than one supplied by the client.
+ */
+export async function decideApproval(
+  approvalId: string,
+  sessionId: string,
+  decision: "approve" | "reject"
+): Promise<ToolApproval> {
+  const db = await getDB();
+  await expireStaleApprovals(db, sessionId);
+
+  const row = await db
+    .prepare(
+      `SELECT a.*, t.display_name FROM tool_approvals a
+       LEFT JOIN agent_tools t ON t.id = a.tool_id
+       WHERE a.id = ? AND a.session_id = ?`
+    )
+    .bind(approvalId, sessionId)
+    .first<ToolApprovalRow>();
+
+  if (!row) {
+    throw new ApprovalError("Approval not found", 404);
+  }
+  if (row.status !== "pending") {
+    throw new ApprovalError(`Approval is already ${row.status}`, 409);
+  }
+
+  const now = new Date().toISOString();
+  const status: ApprovalStatus = decision === "approve" ? "approved" : "rejected";
+
+  // Claim the row atomically so a double-click cannot run the tool twice
+  const claim = await db
+    .prepare(
+      `UPDATE tool_approvals SET status = ?, decided_at = ? WHERE id = ? AND status = 'pending'`
+    )
+    .bind(status, now, approvalId)
+    .run();
+
+  if ((claim.meta.changes ?? 0) === 0) {
+    throw new ApprovalError("Approval was already decided", 409);
+  }
+
+  const context: ToolContext = {
+    sessionId: row.session_id,
+    userId: row.user_id,
+    agentId: row.agent_id,
+  };
+  const args = row.input_params ? JSON.parse(row.input_params) : {};
+  let result: unknown;
+
+  if (decision === "approve") {
+    const toolRow = await db
+      .prepare("SELECT * FROM agent_tools WHERE id = ? AND is_active = 1")
+      .bind(row.tool_id)
+      .first<ToolRow>();
+
+    if (!toolRow) {
+      result = "This tool is no longer available.";
+    } else {
+      try {
+        result = await executeApprovedTool(toolRow, context, args, row.tool_call_id);
+      } catch (err) {
+        console.error(`Approved tool ${row.tool_name} failed:`, err);
+        result = `Tool error: ${err instanceof Error ? err.message : "Unknown error"}`;
+      }
+    }
+  } else {
+    result = refusalMessage("rejected");
+    await logExecution(db, row.tool_id, context, args, null, "rejected", 0, "Rejected by user");
+  }
+
+  await db
+    .prepare("UPDATE tool_approvals SET result = ? WHERE id = ?")
+    .bind(JSON.stringify(result), approvalId)
+    .run();
+
+  return { ...rowToApproval(row), status, result };
+}
+
+// ─── Resuming the Conversation ──────────────────────────────────────────────
+
+/**
+ * Replace client-supplied results for gated tool calls with the results
+ * stored at decision time. Gated calls without a decision (ignored, expired,
+ * or never recorded) resolve to a refusal so the model does not assume they ran.
+ */
+export async function applyApprovalResults<T extends ToolInvocationMessage>(
+  messages: T[],
+  sessionId: string,
+  gatedToolNames: Set<string>
+): Promise<T[]> {
+  const gatedCallIds = messages.flatMap((m) =>
+    (m.toolInvocations || [])
+      .filter((inv) => gatedToolNames.has(inv.toolName))
+      .map((inv) => inv.toolCallId)
+  );
+  if (gatedCallIds.length === 0) return messages;
+
+  const db = await getDB();
+  const placeholders = gatedCallIds.map(() => "?").join(", ");
+  const result = await db
+    .prepare(
+      `SELECT tool_call_id, status, result FROM tool_approvals
+       WHERE session_id = ? AND tool_call_id IN (${placeholders})`
+    )
+    .bind(sessionId, ...gatedCallIds)
+    .all<{ tool_call_id: string; status: string; result: string | null }>();
+
+  const decided = new Map(result.results.map((r) => [r.tool_call_id, r]));
+
+  return messages.map((m) => {
+    if (!m.toolInvocations?.some((inv) => gatedToolNames.has(inv.toolName))) return m;
+    return {
+      ...m,
+      toolInvocations: m.toolInvocations.map((inv) => {
+        if (!gatedToolNames.has(inv.toolName)) return inv;
+        const record = decided.get(inv.toolCallId);
+        const stored =
+          record && record.status !== "pending" && record.result !== null
+            ? JSON.parse(record.result)
+            : refusalMessage("expired");
+        return { ...inv, state: "result", result: stored };
+      }),
+    };
+  });
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function refusalMessage(reason: "rejected" | "expired"): string {
+  return reason === "rejected"
+    ? "The user rejected this tool call. Do not retry it; ask how they would like to proceed."
+    : "This tool call was not approved by the user and did not run.";
+}
+
+function rowToApproval(row: ToolApprovalRow): ToolApproval {
+  return {
+    id: row.id,
+    toolCallId: row.tool_call_id,
+    toolName: row.tool_name,
+    displayName: row.display_name || row.tool_name,
+    args: row.input_params ? JSON.parse(row.input_params) : {},
+    status: row.status as ApprovalStatus,
+    result: row.result ? JSON.parse(row.result) : null,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
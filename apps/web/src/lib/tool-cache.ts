@@ -0,0 +1,138 @@
+/**
+ * Tool Result Cache
+ * Optional per-tool cache for read-only webhook and MCP lookups. Results are
+ * stored in KV under the tool ID, the tool's cache generation and a hash of
+ * the normalized parameters (plus the user, when the tool varies by user).
+ * Purging bumps agent_tools.cache_generation, so old entries are never read
+ * again and expire on their own TTL.
+ */
+
+import { getDB, getKV } from "./db";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** KV rejects TTLs under 60 seconds */
+export const MIN_CACHE_TTL_SECONDS = 60;
+export const MAX_CACHE_TTL_SECONDS = 86_400;
+
+/** Larger results (e.g. MCP images) are not cached */
+const MAX_CACHED_CHARS = 256_000;
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ToolCacheScope {
+  toolId: string;
+  generation: number;
+  /** Set when the tool varies by user; anonymous callers are keyed by session */
+  varyBy: string | null;
+}
+
+/** The agent_tools columns that decide a tool's cache scope */
+export interface ToolCacheSettings {
+  id: string;
+  cache_ttl_seconds: number | null;
+  cache_vary_by_user: number;
+  cache_generation: number;
+}
+
+// ─── Keys ───────────────────────────────────────────────────────────────────
+
+/**
+ * Canonical JSON: object keys sorted at every level and undefined values
+ * dropped, so `{a, b}` and `{b, a}` share a cache entry.
+ */
+export function normalizeParams(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, (v as Record<string, unknown>)[k]]))
+      : v
+  ) ?? "null";
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function toolCacheKey(scope: ToolCacheScope, params: unknown): Promise<string> {
+  const hash = await sha256Hex(`${scope.varyBy ?? "*"}\n${normalizeParams(params)}`);
+  return `tool-cache:${scope.toolId}:${scope.generation}:${hash}`;
+}
+
+/**
+ * Cache scope for a tool call, or null when the call is not cached.
+ * Anonymous callers of a vary-by-user tool are keyed by session. Without one
+ * (the chat route passes "anon" for every sessionless request) they would
+ * share an entry, so those calls are not cached.
+ */
+export function toolCacheScope(
+  tool: ToolCacheSettings,
+  caller: { userId: string | null; sessionId: string }
+): ToolCacheScope | null {
+  if (!tool.cache_ttl_seconds || tool.cache_ttl_seconds <= 0) return null;
+
+  let varyBy: string | null = null;
+  if (tool.cache_vary_by_user === 1) {
+    if (caller.userId) {
+      varyBy = `user:${caller.userId}`;
+    } else if (caller.sessionId && caller.sessionId !== "anon") {
+      varyBy = `session:${caller.sessionId}`;
+    } else {
+      return null;
+    }
+  }
+  return { toolId: tool.id, generation: tool.cache_generation ?? 0, varyBy };
+}
+
+export function clampCacheTtl(seconds: number): number {
+  return Math.min(MAX_CACHE_TTL_SECONDS, Math.max(MIN_CACHE_TTL_SECONDS, Math.round(seconds)));
+}
+
+// ─── Reads & Writes ─────────────────────────────────────────────────────────
+
+/**
+ * Look up a cached result. Returns undefined on a miss or when KV fails.
+ */
+export async function getCachedToolResult<T>(scope: ToolCacheScope, params: unknown): Promise<T | undefined> {
+  try {
+    const kv = await getKV();
+    const raw = await kv.get(await toolCacheKey(scope, params));
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error("Failed to read tool cache:", error);
+    return undefined;
+  }
+}
+
+export async function putCachedToolResult(
+  scope: ToolCacheScope,
+  params: unknown,
+  result: unknown,
+  ttlSeconds: number
+): Promise<void> {
+  try {
+    const value = JSON.stringify(result);
+    if (value.length > MAX_CACHED_CHARS) return;
+    const kv = await getKV();
+    await kv.put(await toolCacheKey(scope, params), value, { expirationTtl: clampCacheTtl(ttlSeconds) });
+  } catch (error) {
+    console.error("Failed to write tool cache:", error);
+  }
+}
+
+// ─── Purging ────────────────────────────────────────────────────────────────
+
+/**
+ * Invalidate every cached result for a tool. Returns the new generation.
+ */
+export async function purgeToolCache(toolId: string): Promise<number> {
+  const db = await getDB();
+  const row = await db
+    .prepare(
+      `UPDATE agent_tools SET cache_generation = cache_generation + 1, updated_at = datetime('now')
+       WHERE id = ? RETURNING cache_generation`
+    )
+    .bind(toolId)
+    .first<{ cache_generation: number }>();
+  return row?.cache_generation ?? 0;
+}
@@ -0,0 +1,266 @@
+/**
+ * Tool Call Resilience
+ * Retries with exponential backoff for webhook and MCP tool calls, and a
+ * KV-backed circuit breaker that takes a failing tool out of the model's
+ * tool list for a while.
+ *
+ * Only transient failures are retried or counted by the breaker: network
+ * errors, timeouts, 429 and 5xx. A 429 is retried for any method, because
+ * the server rejected the request without processing it. Everything else
+ * is retried only for idempotent calls, unless the tool's policy opts in.
+ */
+
+import { getKV } from "./db";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface RetryPolicy {
+  /** Total attempts including the first; 1 disables retries */
+  maxAttempts: number;
+  /** Backoff before the second attempt; doubles for each attempt after that */
+  baseDelayMs: number;
+  /** Longest wait between attempts. A longer Retry-After ends the retries */
+  maxDelayMs: number;
+  /** Retry non-idempotent calls (POST, PATCH, MCP tools without hints) on 5xx and network errors */
+  retryUnsafeMethods: boolean;
+}
+
+/** A failed external call. `status` is undefined for network errors and timeouts */
+export class ToolCallError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ToolCallError";
+  }
+}
+
+interface BreakerState {
+  failures: number;
+  openUntil?: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  retryUnsafeMethods: false,
+};
+
+const MAX_ATTEMPTS = 5;
+const MAX_DELAY_MS = 30_000;
+
+/** Retries stop once a call has run this long in total */
+export const MAX_RETRY_WINDOW_MS = 45_000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** Consecutive failed calls (after retries) that open the breaker */
+export const BREAKER_FAILURE_THRESHOLD = 5;
+/** How long an open breaker keeps the tool out of the tool list */
+export const BREAKER_COOLDOWN_SECONDS = 60;
+/** Failure counts are forgotten after this long without another failure */
+const BREAKER_MEMORY_SECONDS = 600;
+
+// ─── Retry Policy ───────────────────────────────────────────────────────────
+
+/**
+ * Validate a retry policy from the tools API. Missing fields take the
+ * defaults and values are clamped to safe bounds. Returns null when malformed.
+ */
+export function parseRetryPolicy(raw: unknown): RetryPolicy | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const input = value as Record<string, unknown>;
+
+  for (const key of ["maxAttempts", "baseDelayMs", "maxDelayMs"] as const) {
+    if (input[key] !== undefined && (typeof input[key] !== "number" || !Number.isFinite(input[key]))) return null;
+  }
+  if (input.retryUnsafeMethods !== undefined && typeof input.retryUnsafeMethods !== "boolean") return null;
+
+  const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(n)));
+  const maxDelayMs = clamp((input.maxDelayMs as number | undefined) ?? DEFAULT_RETRY_POLICY.maxDelayMs, 0, MAX_DELAY_MS);
+  return {
+    maxAttempts: clamp((input.maxAttempts as number | undefined) ?? DEFAULT_RETRY_POLICY.maxAttempts, 1, MAX_ATTEMPTS),
+    baseDelayMs: clamp((input.baseDelayMs as number | undefined) ?? DEFAULT_RETRY_POLICY.baseDelayMs, 0, maxDelayMs),
+    maxDelayMs,
+    retryUnsafeMethods: (input.retryUnsafeMethods as boolean | undefined) ?? DEFAULT_RETRY_POLICY.retryUnsafeMethods,
+  };
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classify a failure. Returns null for failures that are not transient
+ * (4xx other than 429, tool errors, mapping errors).
+ */
+export function transientFailure(
+  err: unknown
+): { anyMethod: boolean; retryAfterMs?: number } | null {
+  if (!(err instanceof Error)) return null;
+  const status = (err as { status?: unknown }).status;
+  const retryAfterMs = (err as { retryAfterMs?: number }).retryAfterMs;
+
+  if (typeof status === "number") {
+    if (status === 429) return { anyMethod: true, retryAfterMs };
+    if (status >= 500) return { anyMethod: false, retryAfterMs };
+    return null;
+  }
+  // Network errors (fetch throws TypeError), timeouts and status-less ToolCallErrors
+  if (err instanceof ToolCallError || err instanceof TypeError || err.name === "AbortError") {
+    return { anyMethod: false };
+  }
+  return null;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Jitter between half and the full delay so callers do not retry in lockstep
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Run a call, retrying transient failures under the policy. `fn` receives
+ * the attempt number (1-based). Returns the result and the attempts used;
+ * the last error is rethrown with `attempts` attached when retries run out.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: { policy: RetryPolicy; idempotent: boolean; deadline?: number }
+): Promise<{ result: T; attempts: number }> {
+  const { policy, idempotent } = options;
+  const deadline = options.deadline ?? Date.now() + MAX_RETRY_WINDOW_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { result: await fn(attempt), attempts: attempt };
+    } catch (err) {
+      const failure = transientFailure(err);
+      const allowed = failure && (failure.anyMethod || idempotent || policy.retryUnsafeMethods);
+      const delay = failure?.retryAfterMs ?? backoffDelay(policy, attempt);
+
+      if (
+        !allowed ||
+        attempt >= policy.maxAttempts ||
+        delay > policy.maxDelayMs ||
+        Date.now() + delay > deadline
+      ) {
+        if (err instanceof Error) Object.assign(err, { attempts: attempt });
+        throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// ─── Circuit Breaker ────────────────────────────────────────────────────────
+
+function breakerKey(toolId: string): string {
+  return `tool-breaker:${toolId}`;
+}
+
+/** One key per agent lists its open breakers, so the tool list costs one read */
+function agentBreakersKey(agentId: string): string {
+  return `tool-breakers:${agentId}`;
+}
+
+async function readOpenBreakers(agentId: string): Promise<Record<string, number>> {
+  const kv = await getKV();
+  const raw = await kv.get(agentBreakersKey(agentId));
+  return raw ? (JSON.parse(raw) as Record<string, number>) : {};
+}
+
+async function writeOpenBreakers(agentId: string, open: Record<string, number>): Promise<void> {
+  const kv = await getKV();
+  const now = Date.now();
+  const live = Object.fromEntries(Object.entries(open).filter(([, until]) => until > now));
+  if (Object.keys(live).length === 0) {
+    await kv.delete(agentBreakersKey(agentId));
+    return;
+  }
+  await kv.put(agentBreakersKey(agentId), JSON.stringify(live), {
+    expirationTtl: Math.max(60, Math.ceil((Math.max(...Object.values(live)) - now) / 1000)),
+  });
+}
+
+/**
+ * Tool IDs whose breaker is open, mapped to when it closes (epoch ms).
+ */
+export async function getOpenBreakers(agentId: string): Promise<Map<string, number>> {
+  try {
+    const now = Date.now();
+    const open = await readOpenBreakers(agentId);
+    return new Map(Object.entries(open).filter(([, until]) => until > now));
+  } catch (error) {
+    console.error("Failed to read tool breakers:", error);
+    return new Map();
+  }
+}
+
+/**
+ * Count a transient failure. Opens the breaker once the tool has failed
+ * BREAKER_FAILURE_THRESHOLD times in a row. After the cooldown the tool is
+ * offered again; one more failure re-opens it until a call succeeds.
+ */
+export async function recordToolFailure(agentId: string, toolId: string): Promise<void> {
+  try {
+    const kv = await getKV();
+    const raw = await kv.get(breakerKey(toolId));
+    const state: BreakerState = raw ? JSON.parse(raw) : { failures: 0 };
+    state.failures++;
+
+    if (state.failures >= BREAKER_FAILURE_THRESHOLD) {
+      state.openUntil = Date.now() + BREAKER_COOLDOWN_SECONDS * 1000;
+      const open = await readOpenBreakers(agentId);
+      open[toolId] = state.openUntil;
+      await writeOpenBreakers(agentId, open);
+    }
+    await kv.put(breakerKey(toolId), JSON.stringify(state), { expirationTtl: BREAKER_MEMORY_SECONDS });
+  } catch (error) {
+    console.error("Failed to record tool failure:", error);
+  }
+}
+
+/**
+ * Reset the failure count after a successful call. Tools that have not
+ * failed recently cost one KV read.
+ */
+export async function recordToolSuccess(agentId: string, toolId: string): Promise<void> {
+  try {
+    const kv = await getKV();
+    if (!(await kv.get(breakerKey(toolId)))) return;
+    await kv.delete(breakerKey(toolId));
+
+    const open = await readOpenBreakers(agentId);
+    if (toolId in open) {
+      delete open[toolId];
+      await writeOpenBreakers(agentId, open);
+    }
+  } catch (error) {
+    console.error("Failed to reset tool breaker:", error);
+  }
+}
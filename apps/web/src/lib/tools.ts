@@ -2,6 +2,7 @@
  * Tool Resolution Engine
  * Builds Vercel AI SDK tools from agent_tools DB rows.
  * Supports webhook tools and builtin tools (search_documents, get_user_memory, think, call_agent, discover_agents).
+ * Tools flagged requires_approval are paused for human confirmation (see tool-approvals.ts).
  */
 
 import { tool, jsonSchema, type CoreTool } from "ai";
@@ -11,6 +12,31 @@ import { searchDocuments } from "./rag";
 import { loadMemoryContext } from "./memory";
 import { decrypt } from "./encryption";
 import { checkReputationThreshold } from "./agent-discovery";
+import { callRemoteAgent, isCardUrl, FederationError } from "./a2a-federation";
+import type { McpToolOutput } from "./mcp-client";
+import { buildWebhookRequest, parseWebhookConfig } from "./openapi";
+import { webhookRequestHeaders } from "./webhook-signing";
+import {
+  mapToolResponse,
+  parseMappableResponse,
+  parseResponseMapping,
+  OutputValidationError,
+} from "./response-mapping";
+import {
+  withRetry,
+  parseRetryPolicy,
+  parseRetryAfter,
+  isIdempotentMethod,
+  transientFailure,
+  getOpenBreakers,
+  recordToolFailure,
+  recordToolSuccess,
+  ToolCallError,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from "./tool-resilience";
+import { getCachedToolResult, putCachedToolResult, toolCacheScope } from "./tool-cache";
+import { checkRateLimit } from "./rate-limit";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -24,6 +50,21 @@ export interface ToolRow {
   webhook_url: string | null;
   webhook_method: string | null;
   webhook_headers: string | null;
+  /** Parameter locations and query secrets (see openapi.ts); null for hand-written tools */
+  webhook_config: string | null;
+  /** Encrypted HMAC secret for signing webhook requests (see webhook-signing.ts) */
+  signing_secret: string | null;
+  /** Extraction, field allowlist and template for the result (see response-mapping.ts) */
+  response_mapping: string | null;
+  /** JSON Schema the mapped result must match */
+  output_schema: string | null;
+  /** Retry overrides for webhook and MCP calls (see tool-resilience.ts); null uses the defaults */
+  retry_policy: string | null;
+  /** Result cache TTL; null or 0 disables caching (see tool-cache.ts) */
+  cache_ttl_seconds: number | null;
+  cache_vary_by_user: number;
+  /** Bumped to purge the cache */
+  cache_generation: number;
   parameters_schema: string;
   builtin_ref: string | null;
   builtin_config: string | null;
@@ -33,20 +74,36 @@ export interface ToolRow {
   sort_order: number;
   is_active: number;
   mcp_server_id: string | null;
+  /** Joined from agents by resolveAgentTools; null uses DEFAULT_AGENT_TOOL_BUDGET_PER_MIN */
+  agent_tool_budget_per_min?: number | null;
 }
 
 export interface ToolContext {
   sessionId: string;
   userId: string | null;
   agentId: string;
+  /** Assistant message the calls belong to (see chat-transcript.ts) */
+  messageId?: string;
+  /** Keys rate limits for anonymous callers, alongside the session */
+  clientIp?: string | null;
   callDepth?: number;
   callChain?: string[];
+  /**
+   * How tools flagged requires_approval behave:
+   * - "pause": exposed without execute, so the model's call is streamed to the UI for approval
+   * - "deny" (default): refused, for non-interactive callers (A2A, call_agent)
+   */
+  approvalMode?: "pause" | "deny";
 }
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const MAX_RESPONSE_BYTES = 10240; // 10KB
 const MAX_TIMEOUT_MS = 30000; // 30s hard cap for webhook/MCP timeouts
+/** Tool calls per minute across all of an agent's tools and callers */
+const DEFAULT_AGENT_TOOL_BUDGET_PER_MIN = 300;
+/** Per-IP limit for anonymous callers, as a multiple of the tool's limit (venues share an IP) */
+const ANONYMOUS_IP_LIMIT_MULTIPLIER = 5;
 const SSRF_BLOCKED_PATTERNS = [
   /^https?:\/\/localhost/i,
   /^https?:\/\/127\./,
@@ -80,14 +137,20 @@ export async function resolveAgentTools(
 
   const result = await db
     .prepare(
-      `SELECT * FROM agent_tools WHERE agent_id = ? AND is_active = 1 ORDER BY sort_order ASC`
+      `SELECT t.*, a.tool_budget_per_min AS agent_tool_budget_per_min
+       FROM agent_tools t JOIN agents a ON a.id = t.agent_id
+       WHERE t.agent_id = ? AND t.is_active = 1 ORDER BY t.sort_order ASC`
     )
     .bind(agentId)
     .all<ToolRow>();
 
+  // Tools with an open circuit breaker are left out until it closes
+  const openBreakers = await getOpenBreakers(agentId);
+
   const tools: Record<string, CoreTool> = {};
 
   for (const row of result.results) {
+    if (openBreakers.has(row.id)) continue;
     try {
       const t = buildTool(row, context, db);
       if (t) tools[row.name] = t;
@@ -116,6 +179,45 @@ function buildTool(
   row: ToolRow,
   context: ToolContext,
   db: Awaited<ReturnType<typeof getDB>>
+): CoreTool | null {
+  const executable = buildExecutableTool(row, context, db);
+  if (!executable || row.requires_approval !== 1) return executable;
+
+  if (context.approvalMode === "pause") {
+    // No execute: the stream stops at the tool call and the UI asks the user
+    return { ...executable, execute: undefined } as CoreTool;
+  }
+
+  return {
+    ...executable,
+    execute: async (rawParams: unknown) => {
+      await logExecution(db, row.id, context, rawParams || {}, null, "rejected", 0, "Approval required in non-interactive call");
+      return `${row.display_name} requires user approval and cannot run in this conversation.`;
+    },
+  } as CoreTool;
+}
+
+/**
+ * Execute a tool call that a user approved, bypassing the approval gate.
+ */
+export async function executeApprovedTool(
+  row: ToolRow,
+  context: ToolContext,
+  args: Record<string, unknown>,
+  toolCallId: string
+): Promise<unknown> {
+  const db = await getDB();
+  const executable = buildExecutableTool(row, context, db);
+  if (!executable?.execute) {
+    throw new Error(`Tool ${row.name} cannot be executed`);
+  }
+  return executable.execute(args, { toolCallId, messages: [] });
+}
+
+function buildExecutableTool(
+  row: ToolRow,
+  context: ToolContext,
+  db: Awaited<ReturnType<typeof getDB>>
 ): CoreTool | null {
   const schema = parseJsonSchema(row.parameters_schema);
 
@@ -160,7 +262,7 @@ function buildBuiltinTool(
         execute: async ({ query }) => {
           const start = Date.now();
           try {
-            await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
+            await enforceToolRateLimit(row, context);
             const results = await searchDocuments(context.agentId, query, 3);
             const output = results.length > 0
               ? results.map((r, i) => `[${i + 1}] ${r.title}: ${r.content}`).join("\n\n")
@@ -169,7 +271,7 @@ function buildBuiltinTool(
             return output;
           } catch (err) {
             const msg = err instanceof Error ? err.message : "Search failed";
-            await logExecution(db, row.id, context, { query }, null, "error", Date.now() - start, msg);
+            await logExecution(db, row.id, context, { query }, null, executionStatus(err), Date.now() - start, msg);
             return `Error searching documents: ${msg}`;
           }
         },
@@ -185,14 +287,14 @@ function buildBuiltinTool(
             if (!context.userId) {
               return "No user memories available (anonymous user).";
             }
-            await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
+            await enforceToolRateLimit(row, context);
             const mem = await loadMemoryContext(context.userId, context.agentId, { maxTokens: 600 });
             const output = mem || "No memories stored for this user yet.";
             await logExecution(db, row.id, context, {}, output, "success", Date.now() - start);
             return output;
           } catch (err) {
             const msg = err instanceof Error ? err.message : "Memory load failed";
-            await logExecution(db, row.id, context, {}, null, "error", Date.now() - start, msg);
+            await logExecution(db, row.id, context, {}, null, executionStatus(err), Date.now() - start, msg);
             return `Error loading memory: ${msg}`;
           }
         },
@@ -212,15 +314,15 @@ function buildBuiltinTool(
 
     case "call_agent":
       return tool({
-        description: row.description || "Call another agent on the marketplace to help answer a question. Requires the target agent's ID or slug.",
+        description: row.description || "Call another agent to help answer a question. Use a marketplace agent's ID or slug, or the Agent Card URL of a registered remote agent.",
         parameters: z.object({
-          agent_id: z.string().describe("The ID or slug of the agent to call"),
+          agent_id: z.string().describe("The ID or slug of the agent to call, or a remote agent's Agent Card URL"),
           message: z.string().describe("The question or task to send to the agent"),
         }),
         execute: async ({ agent_id, message }) => {
           const start = Date.now();
           try {
-            await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
+            await enforceToolRateLimit(row, context);
 
             // Check call depth to prevent infinite recursion
             const currentDepth = context.callDepth || 0;
@@ -234,6 +336,23 @@ function buildBuiltinTool(
               throw new Error(`Cycle detected: agent ${agent_id} already in call chain`);
             }
 
+            // Remote A2A peers are reached by Agent Card URL
+            if (isCardUrl(agent_id)) {
+              const remote = await callRemoteAgent({
+                agentId: context.agentId,
+                cardUrl: agent_id,
+                message,
+                callDepth: currentDepth,
+                callChain: chain,
+              });
+              const prefixed = `[${remote.name}]: ${remote.text}`;
+              await logExecution(db, row.id, context, { agent_id, message }, prefixed, "success", Date.now() - start, undefined, {
+                remoteEndpoint: remote.endpoint,
+                paymentTxHash: remote.paymentTxHash,
+              });
+              return prefixed;
+            }
+
             // Resolve target agent
             const targetAgent = await db
               .prepare("SELECT id, name, pricing_type, price_per_query FROM agents WHERE (id = ? OR slug = ?) AND is_active = 1")
@@ -259,6 +378,7 @@ function buildBuiltinTool(
               messages: [{ id: `a2a-${subSessionId}`, role: "user", content: message }],
               sessionId: subSessionId,
               userId: context.userId,
+              clientIp: context.clientIp,
               callDepth: currentDepth + 1,
               callChain: [...chain, context.agentId],
               useRag: true,
@@ -287,7 +407,9 @@ function buildBuiltinTool(
             return prefixed;
           } catch (err) {
             const msg = err instanceof Error ? err.message : "Call failed";
-            await logExecution(db, row.id, context, { agent_id, message }, null, "error", Date.now() - start, msg);
+            await logExecution(db, row.id, context, { agent_id, message }, null, executionStatus(err), Date.now() - start, msg, {
+              paymentTxHash: err instanceof FederationError ? err.paymentTxHash : undefined,
+            });
             return `Error calling agent: ${msg}`;
           }
         },
@@ -302,7 +424,7 @@ function buildBuiltinTool(
         execute: async ({ query }) => {
           const start = Date.now();
           try {
-            await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
+            await enforceToolRateLimit(row, context);
 
             // Simple discovery: search agents by name/description
             // Escape SQL LIKE wildcards in user input
@@ -338,7 +460,7 @@ function buildBuiltinTool(
             return output;
           } catch (err) {
             const msg = err instanceof Error ? err.message : "Discovery failed";
-            await logExecution(db, row.id, context, { query }, null, "error", Date.now() - start, msg);
+            await logExecution(db, row.id, context, { query }, null, executionStatus(err), Date.now() - start, msg);
             return `Error discovering agents: ${msg}`;
           }
         },
@@ -369,90 +491,170 @@ function buildWebhookTool(
     execute: async (rawParams: unknown) => {
       const params = (rawParams || {}) as Record<string, unknown>;
       const start = Date.now();
+      const executionId = crypto.randomUUID();
+      const cacheScope = toolCacheScope(row, context);
       try {
-        await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
-
-        // SSRF protection
-        const url = row.webhook_url!;
-        if (!isUrlSafe(url)) {
-          throw new Error("Webhook URL is blocked for security reasons");
+        if (cacheScope) {
+          const cached = await getCachedToolResult<string>(cacheScope, params);
+          if (cached !== undefined) {
+            await logExecution(db, row.id, context, params, cached, "success", Date.now() - start, undefined, {
+              executionId,
+              cacheHit: true,
+            });
+            return cached;
+          }
         }
 
+        await enforceToolRateLimit(row, context);
+
         // Decrypt headers if present
-        let headers: Record<string, string> = { "Content-Type": "application/json" };
+        let secretHeaders: Record<string, string> = {};
         if (row.webhook_headers) {
           try {
             const env = await getEnv();
             const decrypted = await decrypt(row.webhook_headers, env.EMBEDDED_WALLET_SECRET, "webhook");
-            const parsed = JSON.parse(decrypted);
-            headers = { ...headers, ...parsed };
+            secretHeaders = JSON.parse(decrypted);
           } catch {
             console.error(`Failed to decrypt headers for tool ${row.name}`);
           }
         }
 
+        // Fill path parameters, build the query string and body
         const method = (row.webhook_method || "POST").toUpperCase();
-        const controller = new AbortController();
+        const request = buildWebhookRequest(
+          row.webhook_url!,
+          method,
+          params,
+          parseWebhookConfig(row.webhook_config),
+          secretHeaders
+        );
+        const url = request.url;
+
+        // SSRF protection
+        if (!isUrlSafe(url)) {
+          throw new Error("Webhook URL is blocked for security reasons");
+        }
+
         const timeoutMs = Math.min(row.timeout_ms || 10000, MAX_TIMEOUT_MS);
-        const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-        try {
-          const fetchOptions: RequestInit = {
-            method,
-            headers,
-            signal: controller.signal,
-            redirect: "manual", // Prevent SSRF via redirect to internal IPs
-          };
-
-          if (method !== "GET" && method !== "HEAD") {
-            fetchOptions.body = JSON.stringify(params);
-          }
+        const { result, attempts } = await withRetry(
+          async () => {
+            // Signed per attempt: receivers may reject a nonce they have already seen.
+            // Context and signature headers go last so tool headers cannot spoof them
+            const headers = {
+              "Content-Type": "application/json",
+              ...request.headers,
+              ...(await webhookRequestHeaders({
+                encryptedSecret: row.signing_secret,
+                method,
+                url,
+                body: request.body ?? "",
+                agentId: context.agentId,
+                sessionId: context.sessionId,
+                executionId,
+                userId: context.userId,
+              })),
+            };
+            return fetchWebhook(url, { method, headers, body: request.body }, timeoutMs);
+          },
+          { policy: retryPolicyOf(row), idempotent: isIdempotentMethod(method) }
+        );
+        await recordToolSuccess(context.agentId, row.id);
+
+        let text = shapeToolResponse(row, result);
+        // Truncate response
+        if (text.length > MAX_RESPONSE_BYTES) {
+          text = text.slice(0, MAX_RESPONSE_BYTES) + "\n[Response truncated]";
+        }
 
-          let response = await fetch(url, fetchOptions);
-          clearTimeout(timeout);
+        // Sanitize: strip instruction-like content
+        text = sanitizeToolResponse(text);
 
-          // Handle redirects manually — validate target URL
-          if (response.status >= 300 && response.status < 400) {
-            const location = response.headers.get("location");
-            if (!location || !isUrlSafe(new URL(location, url).href)) {
-              throw new Error("Redirect to blocked URL");
-            }
-            response = await fetch(new URL(location, url).href, {
-              ...fetchOptions,
-              redirect: "error", // No further redirects
-            });
-          }
+        if (cacheScope) await putCachedToolResult(cacheScope, params, text, row.cache_ttl_seconds!);
+        await logExecution(db, row.id, context, params, text, "success", Date.now() - start, undefined, {
+          executionId,
+          attempts,
+        });
+        return text;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Webhook call failed";
+        const attempts = attemptsOf(err);
+        if (transientFailure(err)) await recordToolFailure(context.agentId, row.id);
+        await logExecution(db, row.id, context, params, null, executionStatus(err), Date.now() - start, msg, {
+          executionId,
+          attempts,
+        });
+        return `Error calling ${row.display_name}: ${msg}${attempts > 1 ? ` (after ${attempts} attempts)` : ""}`;
+      }
+    },
+  });
+}
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+/**
+ * One webhook request. HTTP errors, timeouts and network failures throw
+ * ToolCallError so withRetry can tell transient failures apart.
+ */
+async function fetchWebhook(
+  url: string,
+  request: { method: string; headers: Record<string, string>; body?: string },
+  timeoutMs: number
+): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
-          let text = await response.text();
-          // Truncate response
-          if (text.length > MAX_RESPONSE_BYTES) {
-            text = text.slice(0, MAX_RESPONSE_BYTES) + "\n[Response truncated]";
-          }
+  try {
+    const fetchOptions: RequestInit = {
+      method: request.method,
+      headers: request.headers,
+      signal: controller.signal,
+      redirect: "manual", // Prevent SSRF via redirect to internal IPs
+    };
+
+    if (request.body !== undefined) {
+      fetchOptions.body = request.body;
+    }
 
-          // Sanitize: strip instruction-like content
-          text = sanitizeToolResponse(text);
+    let response: Response;
+    try {
+      response = await fetch(url, fetchOptions);
 
-          await logExecution(db, row.id, context, params, text, "success", Date.now() - start);
-          return text;
-        } finally {
-          clearTimeout(timeout);
+      // Handle redirects manually — validate target URL
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get("location");
+        if (!location || !isUrlSafe(new URL(location, url).href)) {
+          throw new Error("Redirect to blocked URL");
         }
-      } catch (err) {
-        const msg =
-          err instanceof Error
-            ? err.name === "AbortError"
-              ? "Request timed out"
-              : err.message
-            : "Webhook call failed";
-        await logExecution(db, row.id, context, params, null, "error", Date.now() - start, msg);
-        return `Error calling ${row.display_name}: ${msg}`;
+        response = await fetch(new URL(location, url).href, {
+          ...fetchOptions,
+          redirect: "error", // No further redirects
+        });
       }
-    },
-  });
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") throw new ToolCallError("Request timed out");
+      if (err instanceof TypeError) throw new ToolCallError(err.message || "Network error");
+      throw err;
+    }
+
+    if (!response.ok) {
+      throw new ToolCallError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return await response.text();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function retryPolicyOf(row: ToolRow): RetryPolicy {
+  return (row.retry_policy && parseRetryPolicy(row.retry_policy)) || DEFAULT_RETRY_POLICY;
+}
+
+/** withRetry attaches the attempt count to the error it rethrows */
+function attemptsOf(err: unknown): number {
+  return (err as { attempts?: number } | null)?.attempts ?? 1;
 }
 
 // ─── MCP Tools ───────────────────────────────────────────────────────────
@@ -476,35 +678,98 @@ function buildMcpTool(
     execute: async (rawParams: unknown) => {
       const params = (rawParams || {}) as Record<string, unknown>;
       const start = Date.now();
+      const cacheScope = toolCacheScope(row, context);
       try {
-        await checkRateLimit(db, row.id, context.userId, row.rate_limit_per_min);
+        if (cacheScope) {
+          const cached = await getCachedToolResult<McpToolOutput>(cacheScope, params);
+          if (cached !== undefined) {
+            await logExecution(db, row.id, context, params, { text: cached.text, resources: cached.resources }, "success", Date.now() - start, undefined, {
+              cacheHit: true,
+            });
+            return cached;
+          }
+        }
+
+        await enforceToolRateLimit(row, context);
 
         // Lazy import to avoid circular dependencies and keep mcp-client optional
-        const { getMcpServer, callMcpTool } = await import("./mcp-client");
+        const { getMcpServer, callMcpTool, isIdempotentMcpTool } = await import("./mcp-client");
         const server = await getMcpServer(serverId);
         if (!server) {
           throw new Error("MCP server not found or inactive");
         }
 
-        let result = await callMcpTool(server, row.name, params);
-
-        // Truncate and sanitize
-        if (result.length > 10240) {
-          result = result.slice(0, 10240) + "\n[Response truncated]";
+        const {
+          result: { structured, ...result },
+          attempts,
+        } = await withRetry(() => callMcpTool(server, row.name, params), {
+          policy: retryPolicyOf(row),
+          idempotent: isIdempotentMcpTool(server, row.name),
+        });
+        await recordToolSuccess(context.agentId, row.id);
+
+        // Map, truncate and sanitize
+        let text = shapeToolResponse(row, result.text, structured);
+        if (text.length > 10240) {
+          text = text.slice(0, 10240) + "\n[Response truncated]";
         }
-        result = sanitizeToolResponse(result);
+        result.text = sanitizeToolResponse(text);
 
-        await logExecution(db, row.id, context, params, result, "success", Date.now() - start);
+        if (cacheScope) await putCachedToolResult(cacheScope, params, result, row.cache_ttl_seconds!);
+        // Log text and references only; images stay out of tool_executions
+        await logExecution(db, row.id, context, params, { text: result.text, resources: result.resources }, "success", Date.now() - start, undefined, {
+          attempts,
+        });
         return result;
       } catch (err) {
         const msg = err instanceof Error ? err.message : "MCP tool call failed";
-        await logExecution(db, row.id, context, params, null, "error", Date.now() - start, msg);
-        return `Error calling ${row.display_name}: ${msg}`;
+        const attempts = attemptsOf(err);
+        if (transientFailure(err)) await recordToolFailure(context.agentId, row.id);
+        await logExecution(db, row.id, context, params, null, executionStatus(err), Date.now() - start, msg, {
+          attempts,
+        });
+        return `Error calling ${row.display_name}: ${msg}${attempts > 1 ? ` (after ${attempts} attempts)` : ""}`;
       }
     },
+    // Images reach the model as image parts rather than base64 text
+    experimental_toToolResultContent: mcpResultContent,
   });
 }
 
+/**
+ * Tool result content for the model: the text, then any images.
+ */
+function mcpResultContent(
+  output: McpToolOutput | string
+): Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType?: string }> {
+  if (typeof output === "string") return [{ type: "text", text: output }];
+  return [
+    { type: "text", text: output.text },
+    ...output.images.map((image) => ({ type: "image" as const, data: image.data, mimeType: image.mimeType })),
+  ];
+}
+
+// ─── Response Mapping ───────────────────────────────────────────────────────
+
+/**
+ * Apply the tool's response mapping and output schema. Tools without
+ * either pass the raw text through unchanged.
+ */
+function shapeToolResponse(row: ToolRow, text: string, structured?: unknown): string {
+  const mapping = row.response_mapping ? parseResponseMapping(row.response_mapping) : null;
+  const outputSchema = row.output_schema ? (JSON.parse(row.output_schema) as Record<string, unknown>) : null;
+  if (!mapping && !outputSchema) return text;
+
+  const data = structured !== undefined ? structured : parseMappableResponse(text);
+  return mapToolResponse(data, mapping, outputSchema);
+}
+
+/** Output schema failures and rate limits are logged apart from call errors */
+function executionStatus(err: unknown): string {
+  if (err instanceof ToolRateLimitError) return "rate_limited";
+  return err instanceof OutputValidationError ? "invalid_output" : "error";
+}
+
 // ─── Security ───────────────────────────────────────────────────────────────
 
 function isUrlSafe(url: string): boolean {
@@ -535,31 +800,75 @@ function sanitizeToolResponse(text: string): string {
 
 // ─── Rate Limiting ──────────────────────────────────────────────────────────
 
-async function checkRateLimit(
-  db: Awaited<ReturnType<typeof getDB>>,
-  toolId: string,
-  userId: string | null,
-  limitPerMin: number
-): Promise<void> {
-  if (!userId || limitPerMin <= 0) return;
+/**
+ * A tool call refused by a rate limit. The message is written for the model,
+ * so it can tell the user why the request did not go through and when to retry.
+ */
+export class ToolRateLimitError extends Error {
+  constructor(
+    public readonly scope: "agent" | "caller",
+    public readonly limitPerMin: number,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(
+      `Rate limited: ${scope === "agent" ? "this assistant's tools are handling too many requests" : "too many requests from this user"} ` +
+        `(limit ${limitPerMin} per minute). Do not call this tool again now; tell the user it can be retried in about ${retryAfterSeconds} seconds.`
+    );
+    this.name = "ToolRateLimitError";
+  }
+}
 
-  const result = await db
-    .prepare(
-      `SELECT COUNT(*) as cnt FROM tool_executions
-       WHERE tool_id = ? AND user_id = ?
-       AND created_at > datetime('now', '-1 minute')`
-    )
-    .bind(toolId, userId)
-    .first<{ cnt: number }>();
+/**
+ * Count a tool call against the agent's budget and the caller's per-tool
+ * limit. Signed-in users are keyed by user ID; anonymous callers by session,
+ * with a looser per-IP limit so new sessions do not reset the count.
+ * Fails open if KV is unavailable.
+ */
+async function enforceToolRateLimit(row: ToolRow, context: ToolContext): Promise<void> {
+  const checks: Array<{ scope: "agent" | "caller"; prefix: string; identifier: string; limit: number }> = [];
+
+  const budget = row.agent_tool_budget_per_min ?? DEFAULT_AGENT_TOOL_BUDGET_PER_MIN;
+  if (budget > 0) {
+    checks.push({ scope: "agent", prefix: "rl:tool-agent", identifier: context.agentId, limit: budget });
+  }
 
-  if (result && result.cnt >= limitPerMin) {
-    throw new Error(`Rate limit exceeded (${limitPerMin} calls/minute)`);
+  const limit = row.rate_limit_per_min;
+  if (limit > 0) {
+    if (context.userId) {
+      checks.push({ scope: "caller", prefix: `rl:tool:${row.id}`, identifier: `user:${context.userId}`, limit });
+    } else {
+      // The chat route uses "anon" for sessionless requests, which all share one ID
+      if (context.sessionId && context.sessionId !== "anon") {
+        checks.push({ scope: "caller", prefix: `rl:tool:${row.id}`, identifier: `session:${context.sessionId}`, limit });
+      }
+      if (context.clientIp) {
+        checks.push({
+          scope: "caller",
+          prefix: `rl:tool:${row.id}`,
+          identifier: `ip:${context.clientIp}`,
+          limit: limit * ANONYMOUS_IP_LIMIT_MULTIPLIER,
+        });
+      }
+    }
+  }
+
+  for (const check of checks) {
+    let result;
+    try {
+      result = await checkRateLimit({ prefix: check.prefix, maxRequests: check.limit, windowSeconds: 60 }, check.identifier);
+    } catch (error) {
+      console.error("Tool rate limit check failed:", error);
+      continue;
+    }
+    if (!result.allowed) {
+      throw new ToolRateLimitError(check.scope, check.limit, result.retryAfterSeconds);
+    }
   }
 }
 
 // ─── Execution Logging ──────────────────────────────────────────────────────
 
-async function logExecution(
+export async function logExecution(
   db: Awaited<ReturnType<typeof getDB>>,
   toolId: string,
   context: ToolContext,
@@ -567,16 +876,23 @@ async function logExecution(
   output: unknown,
   status: string,
   durationMs: number,
-  errorMessage?: string
+  errorMessage?: string,
+  details?: {
+    remoteEndpoint?: string;
+    paymentTxHash?: string;
+    executionId?: string;
+    attempts?: number;
+    cacheHit?: boolean;
+  }
 ): Promise<void> {
   try {
     await db
       .prepare(
-        `INSERT INTO tool_executions (id, tool_id, agent_id, session_id, user_id, input_params, output_result, status, error_message, duration_ms)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `INSERT INTO tool_executions (id, tool_id, agent_id, session_id, user_id, input_params, output_result, status, error_message, duration_ms, remote_endpoint, payment_tx_hash, attempts, cache_hit, message_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .bind(
-        crypto.randomUUID(),
+        details?.executionId ?? crypto.randomUUID(),
         toolId,
         context.agentId,
         context.sessionId,
@@ -585,7 +901,12 @@ async function logExecution(
         output ? JSON.stringify(output) : null,
         status,
         errorMessage || null,
-        durationMs
+        durationMs,
+        details?.remoteEndpoint ?? null,
+        details?.paymentTxHash ?? null,
+        details?.attempts ?? 1,
+        details?.cacheHit ? 1 : 0,
+        context.messageId ?? null
       )
       .run();
   } catch (err) {
@@ -0,0 +1,159 @@
+/**
+ * Webhook Request Signing
+ * Every webhook tool call carries context headers (agent, session, execution
+ * and a pseudonymous user ID) and, when the tool has a signing secret, an
+ * HMAC-SHA256 signature over the timestamp, nonce, method, path and query,
+ * and body. Receivers verify
+ * it with verifyWebhookSignature from @straits/sdk. Secrets are generated when
+ * a tool is created, stored encrypted, and shown to the owner only on
+ * creation or rotation.
+ */
+
+import { getDB, getEnv } from "./db";
+import { encrypt, decrypt } from "./encryption";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const WEBHOOK_HEADERS = {
+  signature: "X-Straits-Signature",
+  timestamp: "X-Straits-Timestamp",
+  nonce: "X-Straits-Nonce",
+  agentId: "X-Straits-Agent-Id",
+  sessionId: "X-Straits-Session-Id",
+  executionId: "X-Straits-Execution-Id",
+  userId: "X-Straits-User-Id",
+} as const;
+
+const SECRET_PREFIX = "whsec_";
+
+const encoder = new TextEncoder();
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hmacHex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message)));
+}
+
+// ─── Secrets ────────────────────────────────────────────────────────────────
+
+export function generateSigningSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64url = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${SECRET_PREFIX}${base64url}`;
+}
+
+export async function encryptSigningSecret(secret: string): Promise<string> {
+  const env = await getEnv();
+  return encrypt(secret, env.EMBEDDED_WALLET_SECRET, "webhook-signing");
+}
+
+async function decryptSigningSecret(encrypted: string): Promise<string> {
+  const env = await getEnv();
+  return decrypt(encrypted, env.EMBEDDED_WALLET_SECRET, "webhook-signing");
+}
+
+/**
+ * Replace a webhook tool's signing secret. Returns the new secret, which is
+ * not retrievable afterwards.
+ */
+export async function rotateSigningSecret(toolId: string): Promise<string> {
+  const secret = generateSigningSecret();
+  const db = await getDB();
+  await db
+    .prepare("UPDATE agent_tools SET signing_secret = ?, updated_at = datetime('now') WHERE id = ?")
+    .bind(await encryptSigningSecret(secret), toolId)
+    .run();
+  return secret;
+}
+
+// ─── Signing ────────────────────────────────────────────────────────────────
+
+/**
+ * The path and query of a request URL, as signed. Relative URLs (a Node
+ * server's `req.url`) resolve against a placeholder origin.
+ */
+export function signedPathAndQuery(url: string): string {
+  const parsed = new URL(url, "http://localhost");
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * The signature receivers recompute: hex HMAC-SHA256 of
+ * `${timestamp}.${nonce}.${METHOD}.${pathAndQuery}.${body}`. GET and HEAD
+ * tools send their parameters in the URL, so it is signed with the body.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  method: string,
+  url: string,
+  body: string
+): Promise<string> {
+  return hmacHex(secret, `${timestamp}.${nonce}.${method.toUpperCase()}.${signedPathAndQuery(url)}.${body}`);
+}
+
+/**
+ * A stable per-agent user ID that does not reveal the platform user ID, so
+ * receivers can tell users apart without being able to correlate them across agents.
+ */
+export async function pseudonymousUserId(agentId: string, userId: string): Promise<string> {
+  const env = await getEnv();
+  return (await hmacHex(env.EMBEDDED_WALLET_SECRET, `webhook-user:${agentId}:${userId}`)).slice(0, 32);
+}
+
+/**
+ * Build the context and signature headers for one webhook call.
+ * Tools without a signing secret get the context headers only.
+ */
+export async function webhookRequestHeaders(input: {
+  encryptedSecret: string | null;
+  method: string;
+  url: string;
+  body: string;
+  agentId: string;
+  sessionId: string;
+  executionId: string;
+  userId: string | null;
+}): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    [WEBHOOK_HEADERS.agentId]: input.agentId,
+    [WEBHOOK_HEADERS.sessionId]: input.sessionId,
+    [WEBHOOK_HEADERS.executionId]: input.executionId,
+  };
+  if (input.userId) {
+    headers[WEBHOOK_HEADERS.userId] = await pseudonymousUserId(input.agentId, input.userId);
+  }
+
+  if (input.encryptedSecret) {
+    const secret = await decryptSigningSecret(input.encryptedSecret);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomUUID();
+    headers[WEBHOOK_HEADERS.timestamp] = timestamp;
+    headers[WEBHOOK_HEADERS.nonce] = nonce;
+    headers[WEBHOOK_HEADERS.signature] = `v1=${await signWebhookPayload(
+      secret,
+      timestamp,
+      nonce,
+      input.method,
+      input.url,
+      input.body
+    )}`;
+  }
+
+  return headers;
+}
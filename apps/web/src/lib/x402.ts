@@ -1,9 +1,21 @@
 /**
  * x402 Payment Protocol Implementation
- * HTTP 402 Payment Required with USDC micropayments
+ * HTTP 402 Payment Required with USDC micropayments.
+ * Payment requests are persisted when issued; submitted transaction hashes are
+ * verified on-chain against the stored request (token, recipient, amount, depth).
  */
 
+import {
+  createPublicClient,
+  http,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  type Hash,
+  type Log,
+} from "viem";
 import { getDB } from "./db";
+import { getChainById, getChainConfig, isSupportedChain } from "./smart-account/config";
 
 export interface PaymentDetails {
   amount: number; // Amount in cents (USDC has 6 decimals, so 1 USDC = 1000000)
@@ -11,6 +23,8 @@ export interface PaymentDetails {
   recipient: string; // Wallet address
   description: string;
   expiresAt: string;
+  chainId: number;
+  tokenAddress: string; // USDC contract on chainId
 }
 
 export interface PaymentReceipt {
@@ -32,6 +46,43 @@ export interface X402Response {
   paymentUrl?: string;
 }
 
+export interface PaymentVerification {
+  verified: boolean;
+  error?: string;
+  /** The transaction looks valid but is not mined or deep enough yet */
+  pending?: boolean;
+  payerAddress?: string;
+  blockNumber?: number;
+  /** The stored request's amount (cents) and chain, for recording the payment */
+  amount?: number;
+  chainId?: number;
+}
+
+// ─── Chain Settings ─────────────────────────────────────────────────────────
+
+/** Chain used when an agent has no chain_id (matches the embedded wallet default) */
+export const DEFAULT_PAYMENT_CHAIN_ID = 421614;
+
+/** Blocks a transfer must be buried under before it counts as paid */
+export const REQUIRED_CONFIRMATIONS: Record<number, number> = {
+  421614: 1, // Arbitrum Sepolia
+  97: 3, // BSC Testnet
+};
+
+/** How long verification waits for an unmined transaction */
+const RECEIPT_TIMEOUT_MS = 30_000;
+
+const TRANSFER_EVENT_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+/**
+ * Convert a cents amount to USDC base units (6 decimals).
+ */
+export function centsToUsdcUnits(cents: number): bigint {
+  return parseUnits((cents / 100).toString(), 6);
+}
+
 /**
  * Generate a payment ID
  */
@@ -46,8 +97,13 @@ export function createPaymentRequired(
   amount: number,
   recipient: string,
   description: string,
-  expiresInSeconds = 3600
+  expiresInSeconds = 3600,
+  chainId = DEFAULT_PAYMENT_CHAIN_ID
 ): X402Response {
+  if (!isSupportedChain(chainId)) {
+    throw new Error(`Unsupported payment chain: ${chainId}`);
+  }
+
   const paymentId = generatePaymentId();
   const expiresAt = new Date(Date.now() + expiresInSeconds * 1000).toISOString();
 
@@ -59,11 +115,44 @@ export function createPaymentRequired(
       recipient,
       description,
       expiresAt,
+      chainId,
+      tokenAddress: getChainConfig(chainId).usdcAddress,
     },
     paymentId,
   };
 }
 
+/**
+ * Persist an issued payment request so a later transaction can be checked against it
+ */
+export async function storePaymentRequest(
+  response: X402Response,
+  agentId: string,
+  sessionId?: string
+): Promise<void> {
+  const db = await getDB();
+  const details = response.paymentDetails;
+
+  await db
+    .prepare(
+      `INSERT INTO payment_requests (id, agent_id, session_id, amount, currency, recipient, chain_id, token_address, description, expires_at, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open')`
+    )
+    .bind(
+      response.paymentId,
+      agentId,
+      sessionId || null,
+      details.amount,
+      details.currency,
+      details.recipient,
+      details.chainId,
+      details.tokenAddress,
+      details.description,
+      details.expiresAt
+    )
+    .run();
+}
+
 /**
  * Check if a session has exceeded free queries
  */
@@ -80,9 +169,9 @@ export async function checkPaymentRequired(
     .first<{ queries_used: number; payment_status: string }>();
 
   const agent = await db
-    .prepare("SELECT agent_wallet, free_queries, price_per_query FROM agents WHERE id = ?")
+    .prepare("SELECT agent_wallet, free_queries, price_per_query, chain_id FROM agents WHERE id = ?")
     .bind(agentId)
-    .first<{ agent_wallet: string; free_queries: number; price_per_query: number }>();
+    .first<{ agent_wallet: string; free_queries: number; price_per_query: number; chain_id: number | null }>();
 
   if (!session || !agent) {
     return { required: false };
@@ -96,8 +185,11 @@ export async function checkPaymentRequired(
     const paymentResponse = createPaymentRequired(
       agent.price_per_query,
       agent.agent_wallet,
-      `Query ${session.queries_used + 1} for agent ${agentId}`
+      `Query ${session.queries_used + 1} for agent ${agentId}`,
+      3600,
+      agent.chain_id || DEFAULT_PAYMENT_CHAIN_ID
     );
+    await storePaymentRequest(paymentResponse, agentId, sessionId);
 
     return { required: true, paymentResponse };
   }
@@ -106,7 +198,9 @@ export async function checkPaymentRequired(
 }
 
 /**
- * Record a payment receipt
+ * Record a payment receipt. A payment first recorded while pending is
+ * updated in place when it is submitted again, since transactions has
+ * UNIQUE indexes on the payment ID and hash.
  */
 export async function recordPayment(
   paymentId: string,
@@ -119,9 +213,36 @@ export async function recordPayment(
   sessionId?: string
 ): Promise<PaymentReceipt> {
   const db = await getDB();
-  const id = crypto.randomUUID();
   const now = new Date().toISOString();
 
+  const existing = await db
+    .prepare("SELECT id, status FROM transactions WHERE x402_payment_id = ?")
+    .bind(paymentId)
+    .first<{ id: string; status: string }>();
+
+  if (existing) {
+    await db
+      .prepare(
+        `UPDATE transactions SET payer_address = ?, transaction_hash = ?, amount = ?, chain_id = ?, updated_at = ?
+         WHERE id = ? AND status = 'pending'`
+      )
+      .bind(payerAddress, transactionHash, amount, chainId, now, existing.id)
+      .run();
+
+    return {
+      id: existing.id,
+      paymentId,
+      payerAddress,
+      amount,
+      currency: "USDC",
+      chainId,
+      transactionHash,
+      status: existing.status as PaymentReceipt["status"],
+      createdAt: now,
+    };
+  }
+
+  const id = crypto.randomUUID();
   await db
     .prepare(
       `INSERT INTO transactions (id, x402_payment_id, payer_address, payee_address, amount, currency, chain_id, transaction_hash, status, agent_id, session_id, created_at, updated_at)
@@ -144,20 +265,15 @@ export async function recordPayment(
 }
 
 /**
- * Verify a payment on-chain (simplified - in production, use actual blockchain verification)
+ * Verify a payment on-chain against the stored payment request.
+ * The request must belong to the given agent and session and not be paid
+ * yet. Waits briefly for the receipt, then checks the USDC Transfer logs.
  */
 export async function verifyPayment(
+  paymentId: string,
   transactionHash: string,
-  expectedAmount: number,
-  expectedRecipient: string
-): Promise<{ verified: boolean; error?: string }> {
-  // In production, this would:
-  // 1. Query the blockchain for the transaction
-  // 2. Verify it's a USDC transfer
-  // 3. Verify the amount matches
-  // 4. Verify the recipient matches
-  // 5. Verify the transaction is confirmed
-
+  context: { agentId: string; sessionId?: string | null }
+): Promise<PaymentVerification> {
   // Simulated payments: mark as simulated, not verified
   // They are only used as fallback when on-chain payment fails
   if (transactionHash.startsWith("0xsim_")) {
@@ -165,16 +281,155 @@ export async function verifyPayment(
   }
 
   // Validate transaction hash format
-  if (!transactionHash.startsWith("0x") || transactionHash.length !== 66) {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(transactionHash)) {
     return { verified: false, error: "Invalid transaction hash format" };
   }
 
-  // TODO: In production, call blockchain RPC to verify on-chain
-  // const client = createPublicClient({ chain: arbitrumSepolia, transport: http() });
-  // const receipt = await client.getTransactionReceipt({ hash: transactionHash });
-  // Verify: receipt.status === 'success', correct amount, correct recipient
+  const db = await getDB();
 
-  return { verified: true };
+  const request = await db
+    .prepare(
+      `SELECT id, agent_id, session_id, amount, recipient, chain_id, token_address, expires_at, status
+       FROM payment_requests WHERE id = ?`
+    )
+    .bind(paymentId)
+    .first<{
+      id: string;
+      agent_id: string;
+      session_id: string | null;
+      amount: number;
+      recipient: string;
+      chain_id: number;
+      token_address: string;
+      expires_at: string;
+      status: string;
+    }>();
+
+  if (!request) {
+    return { verified: false, error: "Unknown payment ID" };
+  }
+  // A request only pays for the agent and session it was issued for
+  if (request.agent_id !== context.agentId || (request.session_id ?? null) !== (context.sessionId || null)) {
+    return { verified: false, error: "Payment request does not match this agent and session" };
+  }
+  if (request.status === "paid") {
+    return { verified: false, error: "Payment request has already been paid" };
+  }
+  if (new Date(request.expires_at) < new Date()) {
+    return { verified: false, error: "Payment request has expired" };
+  }
+
+  // Replay protection: a transfer can only pay for one request
+  const reused = await db
+    .prepare(
+      `SELECT x402_payment_id FROM transactions
+       WHERE lower(transaction_hash) = lower(?) AND x402_payment_id != ?`
+    )
+    .bind(transactionHash, paymentId)
+    .first<{ x402_payment_id: string }>();
+
+  if (reused) {
+    return { verified: false, error: "Transaction has already been used for another payment" };
+  }
+
+  if (!isSupportedChain(request.chain_id)) {
+    return { verified: false, error: `Unsupported payment chain: ${request.chain_id}` };
+  }
+
+  const client = createPublicClient({
+    chain: getChainById(request.chain_id),
+    transport: http(),
+  });
+  const confirmations = REQUIRED_CONFIRMATIONS[request.chain_id] ?? 1;
+
+  let receipt;
+  try {
+    receipt = await client.waitForTransactionReceipt({
+      hash: transactionHash as Hash,
+      confirmations,
+      timeout: RECEIPT_TIMEOUT_MS,
+    });
+  } catch (error) {
+    console.error("Payment receipt lookup failed:", error);
+    return { verified: false, pending: true, error: "Transaction is not confirmed yet", amount: request.amount, chainId: request.chain_id };
+  }
+
+  const latestBlock = await client.getBlockNumber();
+
+  const result = checkTransferReceipt(
+    receipt,
+    {
+      tokenAddress: request.token_address,
+      recipient: request.recipient,
+      amountCents: request.amount,
+    },
+    latestBlock,
+    confirmations
+  );
+
+  if (result.verified) {
+    // Only one submission can mark the request paid
+    const marked = await db
+      .prepare("UPDATE payment_requests SET status = 'paid' WHERE id = ? AND status != 'paid'")
+      .bind(paymentId)
+      .run();
+    if ((marked.meta.changes ?? 0) === 0) {
+      return { verified: false, error: "Payment request has already been paid" };
+    }
+  }
+
+  return { ...result, amount: request.amount, chainId: request.chain_id };
+}
+
+/**
+ * Check a mined receipt for a USDC transfer that satisfies a payment request.
+ * Multiple matching transfers in one transaction are summed.
+ */
+export function checkTransferReceipt(
+  receipt: { status: "success" | "reverted"; blockNumber: bigint; logs: Log[] },
+  expected: { tokenAddress: string; recipient: string; amountCents: number },
+  latestBlock: bigint,
+  requiredConfirmations: number
+): PaymentVerification {
+  if (receipt.status !== "success") {
+    return { verified: false, error: "Transaction reverted" };
+  }
+
+  const transfers = parseEventLogs({
+    abi: TRANSFER_EVENT_ABI,
+    eventName: "Transfer",
+    logs: receipt.logs,
+  }).filter(
+    (log) =>
+      log.address.toLowerCase() === expected.tokenAddress.toLowerCase() &&
+      log.args.to.toLowerCase() === expected.recipient.toLowerCase()
+  );
+
+  if (transfers.length === 0) {
+    return { verified: false, error: "No USDC transfer to the agent wallet in this transaction" };
+  }
+
+  const paid = transfers.reduce((sum, log) => sum + log.args.value, 0n);
+  const required = centsToUsdcUnits(expected.amountCents);
+  if (paid < required) {
+    return {
+      verified: false,
+      error: `Transferred ${paid} USDC units, expected at least ${required}`,
+    };
+  }
+
+  const blockNumber = Number(receipt.blockNumber);
+  const depth = latestBlock - receipt.blockNumber + 1n;
+  if (depth < BigInt(requiredConfirmations)) {
+    return {
+      verified: false,
+      pending: true,
+      error: `Waiting for confirmations (${depth}/${requiredConfirmations})`,
+      blockNumber,
+    };
+  }
+
+  return { verified: true, payerAddress: transfers[0].args.from, blockNumber };
 }
 
 /**
@@ -182,13 +437,17 @@ export async function verifyPayment(
  */
 export async function updatePaymentStatus(
   paymentId: string,
-  status: "verified" | "settled"
+  status: "verified" | "settled",
+  blockNumber?: number
 ): Promise<void> {
   const db = await getDB();
 
   await db
-    .prepare("UPDATE transactions SET status = ? WHERE x402_payment_id = ?")
-    .bind(status, paymentId)
+    .prepare(
+      `UPDATE transactions SET status = ?, block_number = COALESCE(?, block_number), updated_at = ?
+       WHERE x402_payment_id = ?`
+    )
+    .bind(status, blockNumber ?? null, new Date().toISOString(), paymentId)
     .run();
 }
 
@@ -0,0 +1,28 @@
+/**
+ * Worker entry: the OpenNext handler serves requests, and cron triggers are
+ * forwarded to internal /api/cron routes so they run with the app's bindings.
+ */
+
+import type { ExecutionContext, ExportedHandler, ScheduledController } from "@cloudflare/workers-types";
+// @ts-ignore `.open-next/worker.js` is generated by `opennextjs-cloudflare build`
+import { default as handler } from "./.open-next/worker.js";
+
+/** Cron expression → internal route it runs (see `triggers.crons` in wrangler.jsonc) */
+const CRON_ROUTES: Record<string, string> = {
+  "*/30 * * * *": "/api/cron/mcp-discovery",
+};
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(controller: ScheduledController, env: CloudflareEnv, ctx: ExecutionContext) {
+    const path = CRON_ROUTES[controller.cron];
+    if (!path) return;
+
+    const request = new Request(`https://cron.internal${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${env.CRON_SECRET}` },
+    });
+    ctx.waitUntil(handler.fetch(request, env, ctx));
+  },
+} satisfies ExportedHandler<CloudflareEnv>;
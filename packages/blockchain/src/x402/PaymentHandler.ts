@@ -6,11 +6,30 @@ import type {
   ChainConfig,
 } from '@straits/core';
 import { CHAIN_CONFIGS, generateId } from '@straits/core';
+import {
+  createPublicClient,
+  http,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  type Hash,
+  type PublicClient,
+} from 'viem';
+
+const TRANSFER_EVENT_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
 
 export interface PaymentHandlerConfig {
   chainId: number;
   facilitatorUrl?: string;
   rpcUrl?: string;
+  /** Blocks a transfer must be buried under before it counts (default 1) */
+  confirmations?: number;
+  /** Look up an issued payment request; required for verification */
+  getPaymentRequest?: (paymentId: string) => Promise<X402PaymentRequest | null>;
+  /** Return the payment ID a transaction hash was already accepted for, if any */
+  findPaymentIdForTransaction?: (transactionHash: string) => Promise<string | null>;
 }
 
 export interface CreatePaymentRequestInput {
@@ -42,6 +61,10 @@ export class PaymentHandler {
   private chainConfig: ChainConfig;
   private facilitatorUrl: string;
   private usdcAddress: string;
+  private client: PublicClient;
+  private confirmations: number;
+  private getPaymentRequest?: PaymentHandlerConfig['getPaymentRequest'];
+  private findPaymentIdForTransaction?: PaymentHandlerConfig['findPaymentIdForTransaction'];
 
   constructor(config: PaymentHandlerConfig) {
     const chainKey = this.getChainKey(config.chainId);
@@ -54,6 +77,12 @@ export class PaymentHandler {
     this.chainConfig = chainConfig;
     this.usdcAddress = chainConfig.contracts.usdcToken;
     this.facilitatorUrl = config.facilitatorUrl || 'https://x402.coinbase.com';
+    this.client = createPublicClient({
+      transport: http(config.rpcUrl || chainConfig.rpcUrl),
+    });
+    this.confirmations = config.confirmations ?? 1;
+    this.getPaymentRequest = config.getPaymentRequest;
+    this.findPaymentIdForTransaction = config.findPaymentIdForTransaction;
   }
 
   /**
@@ -114,30 +143,82 @@ export class PaymentHandler {
 
   /**
    * Verify a payment was made on-chain.
+   *
+   * The transaction must have succeeded on this handler's chain and contain
+   * USDC Transfer logs to the request's payee summing to at least the
+   * requested amount, buried under the configured number of confirmations.
+   * Expired requests and hashes already used for another payment are rejected.
+   * Pass the issued request, or configure getPaymentRequest to look it up.
    */
-  async verifyPayment(input: VerifyPaymentInput): Promise<X402PaymentReceipt | null> {
-    console.log('Verifying payment:', {
-      chain: this.chainConfig.name,
-      input,
-    });
+  async verifyPayment(
+    input: VerifyPaymentInput,
+    request?: X402PaymentRequest
+  ): Promise<X402PaymentReceipt | null> {
+    const paymentRequest = request ?? (await this.getPaymentRequest?.(input.paymentId)) ?? null;
+    if (!paymentRequest || paymentRequest.paymentId !== input.paymentId) {
+      return null;
+    }
+    if (paymentRequest.chainId !== this.chainConfig.chainId || this.isPaymentExpired(paymentRequest)) {
+      return null;
+    }
+    if (!/^0x[0-9a-fA-F]{64}$/.test(input.transactionHash)) {
+      return null;
+    }
+
+    if (this.findPaymentIdForTransaction) {
+      const usedFor = await this.findPaymentIdForTransaction(input.transactionHash);
+      if (usedFor && usedFor !== input.paymentId) {
+        return null;
+      }
+    }
+
+    let receipt;
+    try {
+      receipt = await this.client.getTransactionReceipt({
+        hash: input.transactionHash as Hash,
+      });
+    } catch {
+      // Not mined yet (or unknown on this chain)
+      return null;
+    }
+
+    if (receipt.status !== 'success') {
+      return null;
+    }
+
+    const latestBlock = await this.client.getBlockNumber();
+    if (latestBlock - receipt.blockNumber + 1n < BigInt(this.confirmations)) {
+      return null;
+    }
+
+    const transfers = parseEventLogs({
+      abi: TRANSFER_EVENT_ABI,
+      eventName: 'Transfer',
+      logs: receipt.logs,
+    }).filter(
+      (log) =>
+        log.address.toLowerCase() === this.usdcAddress.toLowerCase() &&
+        log.args.to.toLowerCase() === paymentRequest.payeeAddress.toLowerCase()
+    );
+
+    const paid = transfers.reduce((sum, log) => sum + log.args.value, 0n);
+    // Amounts are in cents; USDC has 6 decimals
+    if (transfers.length === 0 || paid < parseUnits((paymentRequest.amount / 100).toString(), 6)) {
+      return null;
+    }
 
-    // In production, this would:
-    // 1. Query the transaction on-chain
-    // 2. Verify the USDC transfer matches expected amount
-    // 3. Verify sender and recipient addresses
-    // 4. Check transaction is confirmed
+    const block = await this.client.getBlock({ blockNumber: receipt.blockNumber });
 
-    // Placeholder - actual implementation uses viem
     return {
       paymentId: input.paymentId,
-      payerAddress: input.payerAddress,
-      payeeAddress: '0x0000000000000000000000000000000000000000',
-      amount: 0, // Would be extracted from transaction
+      payerAddress: transfers[0].args.from,
+      payeeAddress: paymentRequest.payeeAddress,
+      amount: paymentRequest.amount,
       currency: 'USDC',
       chainId: this.chainConfig.chainId,
       transactionHash: input.transactionHash,
-      blockNumber: 0, // Would be from transaction receipt
-      timestamp: new Date(),
+      blockNumber: Number(receipt.blockNumber),
+      timestamp: new Date(Number(block.timestamp) * 1000),
     };
   }
 
@@ -188,6 +269,7 @@ export class PaymentHandler {
       84532: 'base-sepolia',
       137: 'polygon',
       80002: 'polygon-amoy',
+      421614: 'arbitrum-sepolia',
     };
     return mapping[chainId] || 'base-sepolia';
   }
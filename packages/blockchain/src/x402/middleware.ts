@@ -4,6 +4,13 @@ import { PaymentHandler } from './PaymentHandler';
 export interface X402MiddlewareConfig {
   chainId: number;
   facilitatorUrl?: string;
+  rpcUrl?: string;
+  /** Persist an issued payment request so it can be verified later */
+  savePaymentRequest?: (request: X402PaymentRequest) => Promise<void>;
+  /** Look up a previously issued payment request */
+  getPaymentRequest?: (paymentId: string) => Promise<X402PaymentRequest | null>;
+  /** Return the payment ID a transaction hash was already accepted for, if any */
+  findPaymentIdForTransaction?: (transactionHash: string) => Promise<string | null>;
   /** Get the payee address for a request */
   getPayeeAddress: (request: Request) => Promise<string>;
   /** Get the amount to charge in cents */
@@ -26,6 +33,9 @@ export function createX402Middleware(config: X402MiddlewareConfig) {
   const paymentHandler = new PaymentHandler({
     chainId: config.chainId,
     facilitatorUrl: config.facilitatorUrl,
+    rpcUrl: config.rpcUrl,
+    getPaymentRequest: config.getPaymentRequest,
+    findPaymentIdForTransaction: config.findPaymentIdForTransaction,
   });
 
   return async function x402Middleware(
@@ -82,6 +92,8 @@ export function createX402Middleware(config: X402MiddlewareConfig) {
       description: `API request to ${new URL(request.url).pathname}`,
     });
 
+    await config.savePaymentRequest?.(paymentRequest);
+
     const paymentHeaders = paymentHandler.generate402Headers(paymentRequest);
 
     return new Response(
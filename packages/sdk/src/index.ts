@@ -229,5 +229,14 @@ export class PaymentRequiredError extends Error {
   }
 }
 
+export {
+  WEBHOOK_HEADERS,
+  verifyWebhookSignature,
+  getWebhookContext,
+  type WebhookHeaders,
+  type VerifyWebhookOptions,
+  type WebhookContext,
+} from "./webhooks";
+
 // Default export
 export default StraitsAgentClient;
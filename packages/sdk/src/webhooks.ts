@@ -0,0 +1,118 @@
+/**
+ * Webhook verification
+ * Helpers for services that receive webhook tool calls from Straits agents
+ */
+
+export const WEBHOOK_HEADERS = {
+  signature: "X-Straits-Signature",
+  timestamp: "X-Straits-Timestamp",
+  nonce: "X-Straits-Nonce",
+  agentId: "X-Straits-Agent-Id",
+  sessionId: "X-Straits-Session-Id",
+  executionId: "X-Straits-Execution-Id",
+  userId: "X-Straits-User-Id",
+} as const;
+
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+export interface VerifyWebhookOptions {
+  /** The tool's signing secret (whsec_...) */
+  secret: string;
+  /** The request method */
+  method: string;
+  /** The request URL, absolute or path-only (`req.url`). Its path and query are signed */
+  url: string;
+  /** The raw request body, exactly as received */
+  body: string;
+  headers: WebhookHeaders;
+  /** Reject requests signed longer ago than this. Defaults to 300 seconds */
+  toleranceSeconds?: number;
+  /**
+   * Replay protection: return true if this nonce was already seen.
+   * Store nonces for at least toleranceSeconds.
+   */
+  isNonceUsed?: (nonce: string) => boolean | Promise<boolean>;
+}
+
+export interface WebhookContext {
+  agentId: string | null;
+  sessionId: string | null;
+  executionId: string | null;
+  /** Stable per agent, but not the platform user ID */
+  userId: string | null;
+}
+
+function getHeader(headers: WebhookHeaders, name: string): string | null {
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get(name);
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name.toLowerCase());
+  const value = key ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify a webhook request's signature: HMAC-SHA256 over
+ * `${timestamp}.${nonce}.${METHOD}.${pathAndQuery}.${body}` with the tool's
+ * signing secret. The path and query must be the ones the agent called, so
+ * a proxy that rewrites them needs the original URL passed in.
+ * Returns false for missing headers, stale timestamps, replayed nonces or bad signatures.
+ */
+export async function verifyWebhookSignature(options: VerifyWebhookOptions): Promise<boolean> {
+  const { secret, method, url, body, headers, toleranceSeconds = 300, isNonceUsed } = options;
+
+  const signature = getHeader(headers, WEBHOOK_HEADERS.signature);
+  const timestamp = getHeader(headers, WEBHOOK_HEADERS.timestamp);
+  const nonce = getHeader(headers, WEBHOOK_HEADERS.nonce);
+  if (!signature || !timestamp || !nonce) return false;
+
+  const signedAt = Number(timestamp);
+  if (!Number.isFinite(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > toleranceSeconds) {
+    return false;
+  }
+
+  const target = new URL(url, "http://localhost");
+  const signed = `${timestamp}.${nonce}.${method.toUpperCase()}.${target.pathname}${target.search}.${body}`;
+  const expected = `v1=${await hmacHex(secret, signed)}`;
+  if (!timingSafeEqual(signature, expected)) return false;
+
+  // Only consult the nonce store for authentic requests
+  if (isNonceUsed && (await isNonceUsed(nonce))) return false;
+  return true;
+}
+
+/**
+ * Read the agent, session, execution and user IDs sent with a webhook call.
+ * These are only trustworthy after verifyWebhookSignature succeeds.
+ */
+export function getWebhookContext(headers: WebhookHeaders): WebhookContext {
+  return {
+    agentId: getHeader(headers, WEBHOOK_HEADERS.agentId),
+    sessionId: getHeader(headers, WEBHOOK_HEADERS.sessionId),
+    executionId: getHeader(headers, WEBHOOK_HEADERS.executionId),
+    userId: getHeader(headers, WEBHOOK_HEADERS.userId),
+  };
+}